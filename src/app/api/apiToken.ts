@@ -0,0 +1,24 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { ApiError } from '../services/apiRequestService';
+
+/**
+ * Admit writes only with `Authorization: Bearer <LOAN_TYPES_API_TOKEN>`; without a
+ * configured token the server's catalogs cannot be replaced over the API at all.
+ * Returns the error response to send, or null when the request may proceed.
+ */
+export const checkApiToken = (request: Request, subject: string): NextResponse | null => {
+  const expected = process.env.LOAN_TYPES_API_TOKEN;
+  if (!expected) {
+    const error: ApiError = { code: 'forbidden', message: `${subject} updates are disabled on this server` };
+    return NextResponse.json({ error }, { status: 403 });
+  }
+
+  const supplied = Buffer.from(request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+  const token = Buffer.from(expected);
+  if (supplied.length !== token.length || !timingSafeEqual(supplied, token)) {
+    const error: ApiError = { code: 'unauthorized', message: 'A valid loan types API token is required' };
+    return NextResponse.json({ error }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  }
+  return null;
+};
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { ApiRequestService } from '../../services/apiRequestService';
+import { EMICalculationService } from '../../services/calculationService';
+import { EligibilityService } from '../../services/eligibilityService';
+import { PolicyService } from '../../services/policyService';
+import { getDSCRStatus } from '../../utils/formatters';
+
+/**
+ * POST /api/dscr - full results during and after grace for each requested scenario, with
+ * the eligibility verdict against the named loan type's limits (DSCR only without one)
+ */
+export async function POST(request: Request) {
+  const { calculation, error, status } = await ApiRequestService.readCalculationRequest(request);
+  if (!calculation) {
+    return NextResponse.json({ error }, { status });
+  }
+
+  const policy = PolicyService.getDefaultPolicy();
+  const options = {
+    graceMode: calculation.graceMode,
+    calculationDate: calculation.calculationDate,
+    rateSchedule: calculation.rateSchedule,
+    policy,
+    taxTables: calculation.taxTables
+  };
+  const { loanType } = calculation;
+  const dscrThreshold = EligibilityService.getDSCRThreshold(loanType?.productRules, policy);
+
+  const scenarios = calculation.scenarios.map((scenario) => {
+    const afterGrace = EMICalculationService.performCalculations(calculation.formData, scenario, true, options);
+    return {
+      scenarioId: scenario.id,
+      scenarioName: scenario.name,
+      dscr: afterGrace.dscr,
+      status: getDSCRStatus(afterGrace.dscr, policy).status,
+      worstCaseDSCR: afterGrace.worstCaseDSCR,
+      worstCaseStatus: getDSCRStatus(afterGrace.worstCaseDSCR, policy).status,
+      dti: afterGrace.dti,
+      foir: afterGrace.foir,
+      ltv: afterGrace.ltv,
+      eligibility: EligibilityService.evaluate(afterGrace, loanType?.eligibilityLimits, dscrThreshold),
+      duringGrace: EMICalculationService.performCalculations(calculation.formData, scenario, false, options),
+      afterGrace
+    };
+  });
+
+  return NextResponse.json({
+    policy: {
+      id: policy.id,
+      name: policy.name,
+      version: policy.version,
+      dscrExcellentThreshold: policy.dscrExcellentThreshold,
+      dscrGoodThreshold: policy.dscrGoodThreshold
+    },
+    loanTypeId: loanType?.id ?? null,
+    dscrThreshold,
+    scenarios
+  });
+}
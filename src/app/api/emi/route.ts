@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { ApiRequestService } from '../../services/apiRequestService';
+import { EMICalculationService } from '../../services/calculationService';
+import { PolicyService } from '../../services/policyService';
+
+/**
+ * POST /api/emi - installments, total interest and loan end date for the normal scenario
+ */
+export async function POST(request: Request) {
+  const { calculation, error, status } = await ApiRequestService.readCalculationRequest(request);
+  if (!calculation) {
+    return NextResponse.json({ error }, { status });
+  }
+
+  const { formData, graceMode, rateSchedule, prepayments, calculationDate } = calculation;
+  const scenario = calculation.scenarios[0];
+  const result = EMICalculationService.performCalculations(formData, scenario, true, {
+    graceMode,
+    calculationDate,
+    rateSchedule,
+    policy: PolicyService.getDefaultPolicy(),
+    taxTables: calculation.taxTables
+  });
+  const numericData = EMICalculationService.convertToNumericFormData(formData);
+  const borrowingCost = EMICalculationService.calculateBorrowingCost(formData, scenario, { graceMode, rateSchedule }, prepayments);
+
+  return NextResponse.json({
+    scenarioId: scenario.id,
+    bankFinanceAmount: result.bankFinanceAmount,
+    takeoverAmount: result.takeoverAmount,
+    equityAmount: EMICalculationService.calculateEquityAmount(numericData.totalProjectCost, numericData.equityPercentage),
+    gracePeriodRepayment: result.gracePeriodRepayment,
+    emi: result.afterGraceRepayment,
+    maxRepayment: result.maxRepayment,
+    emiPeriods: result.emiPeriods,
+    effectiveRate: result.effectiveRate,
+    graceMode: result.graceMode,
+    amortizationPeriod: result.amortizationPeriod,
+    totalMonths: result.totalMonths,
+    capitalizedInterest: result.capitalizedInterest,
+    totalInterest: result.totalInterest,
+    loanEndDate: result.loanEndDate,
+    borrowingCost
+  });
+}
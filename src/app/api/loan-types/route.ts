@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '../../services/apiRequestService';
+import { LoanService } from '../../services/loanService';
+import { getServerStorageAdapter } from '../../services/serverStorageAdapters';
+import { checkApiToken } from '../apiToken';
+
+/**
+ * GET /api/loan-types - the loan type catalog kept on the server, or the
+ * standard catalog until one has been saved
+ */
+export async function GET() {
+  return NextResponse.json({ loanTypes: await LoanService.loadLoanTypes(getServerStorageAdapter()) });
+}
+
+/**
+ * PUT /api/loan-types - replace the server catalog with `{ loanTypes: [...] }`
+ */
+export async function PUT(request: Request) {
+  const denied = checkApiToken(request, 'Loan type');
+  if (denied) {
+    return denied;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    const error: ApiError = { code: 'invalid_json', message: 'Request body must be valid JSON' };
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const candidate = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const { loanTypes, error: listError } = LoanService.parseLoanTypeList(candidate.loanTypes);
+  if (!loanTypes) {
+    const error: ApiError = { code: 'invalid_request', message: listError || 'loanTypes is invalid' };
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    await LoanService.saveLoanTypes(loanTypes, getServerStorageAdapter());
+  } catch (err) {
+    console.error('Error saving loan types:', err);
+    const error: ApiError = { code: 'storage_failed', message: 'Loan types could not be saved' };
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json({ loanTypes });
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { OpenApiService } from '../../services/openApiService';
+
+/**
+ * GET /api/openapi - OpenAPI document for the calculation API
+ */
+export async function GET() {
+  return NextResponse.json(OpenApiService.getDocument());
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { ApiRequestService } from '../../services/apiRequestService';
+import { EMICalculationService } from '../../services/calculationService';
+
+/**
+ * POST /api/schedule - month-by-month repayment schedule for the first requested scenario,
+ * with prepayments applied and their effect summarized
+ */
+export async function POST(request: Request) {
+  const { calculation, error, status } = await ApiRequestService.readCalculationRequest(request);
+  if (!calculation) {
+    return NextResponse.json({ error }, { status });
+  }
+
+  const scenario = calculation.scenarios[0];
+  const numericData = EMICalculationService.convertToNumericFormData(calculation.formData);
+  const ratePeriods = EMICalculationService.resolveScenarioRatePeriods(
+    calculation.rateSchedule,
+    numericData.rate,
+    numericData.gracePeriod + numericData.repaymentPeriod,
+    scenario
+  );
+
+  const comparison = EMICalculationService.simulatePrepayments({
+    principal: EMICalculationService.calculateFinancedAmount(numericData),
+    rate: ratePeriods[0].rate,
+    repaymentPeriod: numericData.repaymentPeriod,
+    gracePeriod: numericData.gracePeriod,
+    graceMode: calculation.graceMode,
+    ratePeriods,
+    prepayments: calculation.prepayments
+  }, calculation.calculationDate);
+
+  return NextResponse.json({
+    scenarioId: scenario.id,
+    schedule: comparison.withPrepayments,
+    prepaymentSummary: calculation.prepayments.length > 0
+      ? {
+          totalPrepaid: comparison.totalPrepaid,
+          interestSaved: comparison.interestSaved,
+          monthsSaved: comparison.monthsSaved,
+          originalPayoffDate: comparison.originalPayoffDate,
+          newPayoffDate: comparison.newPayoffDate
+        }
+      : null
+  });
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '../../services/apiRequestService';
+import { TaxTableService } from '../../services/taxTableService';
+import { getServerStorageAdapter } from '../../services/serverStorageAdapters';
+import { checkApiToken } from '../apiToken';
+
+/**
+ * GET /api/tax-tables - the income tax tables kept on the server, or the standard
+ * tables until some have been saved. The unbounded top bracket has a max of null.
+ */
+export async function GET() {
+  return NextResponse.json({
+    taxTables: TaxTableService.serializeTaxTables(await TaxTableService.loadTaxTables(getServerStorageAdapter()))
+  });
+}
+
+/**
+ * PUT /api/tax-tables - replace the server tax tables with `{ taxTables: [...] }`
+ */
+export async function PUT(request: Request) {
+  const denied = checkApiToken(request, 'Tax table');
+  if (denied) {
+    return denied;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    const error: ApiError = { code: 'invalid_json', message: 'Request body must be valid JSON' };
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const candidate = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const { taxTables, error: listError } = TaxTableService.parseTaxTableList(candidate.taxTables);
+  if (!taxTables) {
+    const error: ApiError = { code: 'invalid_request', message: listError || 'taxTables is invalid' };
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    await TaxTableService.saveTaxTables(taxTables, getServerStorageAdapter());
+  } catch (err) {
+    console.error('Error saving tax tables:', err);
+    const error: ApiError = { code: 'storage_failed', message: 'Tax tables could not be saved' };
+    return NextResponse.json({ error }, { status: 500 });
+  }
+
+  return NextResponse.json({ taxTables: TaxTableService.serializeTaxTables(taxTables) });
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import React from 'react';
+import { formatCurrency } from '../utils/formatters';
+import { AffordabilityResult, CurrencyFormat } from '../types/emi';
+import { useTranslation } from '../hooks/useTranslation';
+import { styles } from './styles';
+
+interface AffordabilityPanelProps {
+  results: AffordabilityResult[];
+  currency: CurrencyFormat;
+}
+
+const AffordabilityPanel: React.FC<AffordabilityPanelProps> = ({ results, currency }) => {
+  const { t } = useTranslation();
+
+  if (results.length === 0) return null;
+
+  const notAffordable = t('affordability.notAffordable');
+
+  return (
+    <div className={styles.card.grayAlt}>
+      <h2 className={styles.heading.section}>{t('affordability.title')}</h2>
+      <p className={`${styles.text.info.small} mb-4`}>
+        {t('affordability.intro', { dscr: results[0].targetDSCR.toFixed(2) })}
+      </p>
+
+      <div className={styles.table.wrapper}>
+        <table className={styles.table.base}>
+          <thead>
+            <tr>
+              <th className={styles.table.headCell}>{t('affordability.scenario')}</th>
+              <th className={styles.table.headCell}>{t('affordability.maxBankFinance')}</th>
+              <th className={styles.table.headCell}>{t('affordability.minEquity')}</th>
+              <th className={styles.table.headCell}>{t('affordability.maxRate')}</th>
+              <th className={styles.table.headCell}>{t('affordability.minTenure')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result) => (
+              <tr key={result.scenarioId} className={styles.table.row}>
+                <td className={styles.table.cell}>{result.scenarioName}</td>
+                <td className={styles.table.cell}>
+                  {result.maxBankFinance !== null ? formatCurrency(result.maxBankFinance, currency) : notAffordable}
+                </td>
+                <td className={styles.table.cell}>
+                  {result.minEquityPercentage !== null ? `${result.minEquityPercentage.toFixed(2)}%` : notAffordable}
+                </td>
+                <td className={styles.table.cell}>
+                  {result.maxRate !== null ? `${result.maxRate.toFixed(2)}%` : notAffordable}
+                </td>
+                <td className={styles.table.cell}>
+                  {result.minTenure !== null ? t('affordability.months', { months: result.minTenure }) : notAffordable}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AffordabilityPanel;
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useState } from 'react';
+import { formatCurrency } from '../utils/formatters';
+import { AmortizationSchedule as Schedule, CurrencyFormat } from '../types/emi';
+import { useTranslation } from '../hooks/useTranslation';
+import { styles } from './styles';
+
+interface AmortizationScheduleProps {
+  schedule: Schedule;
+  currency: CurrencyFormat;
+}
+
+const AmortizationSchedule: React.FC<AmortizationScheduleProps> = ({ schedule, currency }) => {
+  const { t } = useTranslation();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [page, setPage] = useState(0);
+
+  const { rows, yearlySummaries } = schedule;
+  const pageCount = yearlySummaries.length;
+
+  // One page per year of installments
+  const currentPage = Math.min(page, Math.max(pageCount - 1, 0));
+  const pageRows = rows.slice(currentPage * 12, currentPage * 12 + 12);
+  const yearSummary = yearlySummaries[currentPage];
+
+  return (
+    <div className={styles.card.grayAlt}>
+      <div className={styles.layout.flexBetween}>
+        <h2 className={styles.heading.section}>{t('schedule.title')}</h2>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className={styles.button.edit}
+          disabled={rows.length === 0}
+        >
+          {isExpanded ? t('schedule.hide') : t('schedule.show')}
+        </button>
+      </div>
+
+      <div className={styles.results.smallValueContainer}>
+        <div>
+          <p className={styles.text.info.xsmall}>{t('schedule.totalPayment')}</p>
+          <p className={styles.text.value.medium}>{formatCurrency(schedule.totalPayment, currency)}</p>
+        </div>
+        <div>
+          <p className={styles.text.info.xsmall}>{t('schedule.totalInterest')}</p>
+          <p className={styles.text.value.medium}>{formatCurrency(schedule.totalInterest, currency)}</p>
+        </div>
+      </div>
+
+      {isExpanded && yearSummary && (
+        <div className="mt-4">
+          <div className={styles.table.wrapper}>
+            <table className={styles.table.base}>
+              <thead>
+                <tr>
+                  <th className={styles.table.headCell}>{t('schedule.month')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.rate')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.openingBalance')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.payment')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.interest')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.principal')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.prepayment')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.closingBalance')}</th>
+                  <th className={styles.table.headCell}>{t('schedule.cumulativeInterest')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map((row) => (
+                  <tr key={row.month} className={row.isGracePeriod ? styles.table.graceRow : styles.table.row}>
+                    <td className={styles.table.cell}>
+                      {row.isGracePeriod ? t('schedule.graceMonth', { month: row.month }) : row.month}
+                    </td>
+                    <td className={styles.table.cell}>{row.rate}%</td>
+                    <td className={styles.table.cell}>{formatCurrency(row.openingBalance, currency)}</td>
+                    <td className={styles.table.cell}>{formatCurrency(row.payment, currency)}</td>
+                    <td className={styles.table.cell}>{formatCurrency(row.interest, currency)}</td>
+                    <td className={styles.table.cell}>{formatCurrency(row.principal, currency)}</td>
+                    <td className={styles.table.cell}>{row.prepayment > 0 ? formatCurrency(row.prepayment, currency) : '–'}</td>
+                    <td className={styles.table.cell}>{formatCurrency(row.closingBalance, currency)}</td>
+                    <td className={styles.table.cell}>{formatCurrency(row.cumulativeInterest, currency)}</td>
+                  </tr>
+                ))}
+                <tr className={styles.table.subtotalRow}>
+                  <td className={styles.table.cell}>{t('schedule.yearLabel', { year: yearSummary.year })}</td>
+                  <td className={styles.table.cell}></td>
+                  <td className={styles.table.cell}></td>
+                  <td className={styles.table.cell}>{formatCurrency(yearSummary.totalPayment, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(yearSummary.totalInterest, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(yearSummary.totalPrincipal, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(yearSummary.totalPrepayment, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(yearSummary.closingBalance, currency)}</td>
+                  <td className={styles.table.cell}></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className={`${styles.layout.flexBetween} mt-4`}>
+            <button
+              onClick={() => setPage(currentPage - 1)}
+              className={styles.button.secondary}
+              disabled={currentPage === 0}
+            >
+              {t('schedule.previousYear')}
+            </button>
+            <span className={styles.text.info.small}>
+              {t('schedule.pageOf', { page: currentPage + 1, count: pageCount })}
+            </span>
+            <button
+              onClick={() => setPage(currentPage + 1)}
+              className={styles.button.secondary}
+              disabled={currentPage >= pageCount - 1}
+            >
+              {t('schedule.nextYear')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AmortizationSchedule;
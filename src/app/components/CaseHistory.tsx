@@ -0,0 +1,203 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { CurrencySettings, LoanType, SavedCase } from '../types/emi';
+import { CaseService } from '../services/caseService';
+import { LoanService } from '../services/loanService';
+import { CurrencyService } from '../services/currencyService';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatCurrency } from '../utils/formatters';
+
+const CaseHistory: React.FC = () => {
+  const router = useRouter();
+  const { t, formatDate, formatDateTime } = useTranslation();
+
+  const [cases, setCases] = useState<SavedCase[]>([]);
+  const [loanTypes, setLoanTypes] = useState<LoanType[]>([]);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(CurrencyService.getDefaultSettings());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load saved cases from storage on component mount
+  useEffect(() => {
+    setCases(CaseService.loadCases());
+    setCurrencySettings(CurrencyService.loadSettings());
+    setIsLoading(false);
+    LoanService.loadLoanTypes().then(setLoanTypes);
+    return LoanService.subscribe(setLoanTypes);
+  }, []);
+
+  const filteredCases = useMemo(
+    () => CaseService.searchCases(cases, searchQuery, loanTypes),
+    [cases, searchQuery, loanTypes]
+  );
+
+  const getLoanTypeName = (loanTypeId: string) =>
+    loanTypes.find(loan => loan.id === loanTypeId)?.name || loanTypeId;
+
+  // Cases keep the currency they were quoted in; older ones follow their loan type
+  const getCaseCurrency = (savedCase: SavedCase) =>
+    savedCase.currency ||
+    CurrencyService.getLoanTypeCurrency(currencySettings, loanTypes.find(loan => loan.id === savedCase.loanTypeId));
+
+  const handleOpen = (savedCase: SavedCase) => {
+    router.push(`/?case=${encodeURIComponent(savedCase.id)}`);
+  };
+
+  const handleReport = (savedCase: SavedCase) => {
+    router.push(`/report?case=${encodeURIComponent(savedCase.id)}`);
+  };
+
+  // Changes go through storage so cases saved from other tabs are not overwritten
+  const handleDuplicate = (savedCase: SavedCase) => {
+    setCases(CaseService.saveCase(CaseService.duplicateCase(savedCase, CaseService.loadCases(), t)));
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm(t('history.confirmDelete'))) {
+      setCases(CaseService.deleteCase(id));
+    }
+  };
+
+  const handleGoBack = () => {
+    router.push('/');
+  };
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg text-gray-600">{t('common.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-3xl font-bold text-gray-800">{t('history.title')}</h1>
+          <button
+            onClick={handleGoBack}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            {t('common.backToCalculator')}
+          </button>
+        </div>
+        <p className="text-gray-600">{t('history.intro')}</p>
+      </div>
+
+      {/* Search */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('history.search')}</label>
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder={t('history.searchPlaceholder')}
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      {/* Saved Cases */}
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">
+          {t('history.savedCases', { count: filteredCases.length })}
+        </h2>
+
+        {filteredCases.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">
+              {cases.length === 0 ? t('history.empty') : t('history.noMatches')}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {filteredCases.map((savedCase) => (
+              <div
+                key={savedCase.id}
+                className="p-4 bg-white border border-gray-200 rounded-md hover:shadow-sm transition-shadow"
+              >
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-800 text-lg">{savedCase.name}</h3>
+                    <p className="text-sm text-gray-500">
+                      {t('history.savedOn', { date: formatDateTime(savedCase.savedAt), loanType: getLoanTypeName(savedCase.loanTypeId) })}
+                    </p>
+                    {savedCase.notes && (
+                      <p className="text-sm text-gray-600 mt-1">{savedCase.notes}</p>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+                      <div>
+                        <span className="font-medium">{t('history.bankFinance')}</span> {formatCurrency(savedCase.calculations.bankFinanceAmount || 0, getCaseCurrency(savedCase))}
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('history.emiAfterGrace')}</span> {formatCurrency(savedCase.calculations.afterGraceRepayment || 0, getCaseCurrency(savedCase))}
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('history.dscr')}</span> {savedCase.calculations.dscr.toFixed(2)}
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('history.totalInterest')}</span> {formatCurrency(savedCase.calculations.totalInterest, getCaseCurrency(savedCase))}
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('history.rateTenure')}</span>{' '}
+                        {t('history.rateTenureValue', { rate: savedCase.formData.rate, months: savedCase.formData.repaymentPeriod })}
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('history.loanEndDate')}</span> {formatDate(savedCase.calculations.loanEndDate)}
+                      </div>
+                      <div>
+                        <span className="font-medium">{t('history.policy')}</span> {savedCase.calculations.policyName} (v{savedCase.calculations.policyVersion})
+                      </div>
+                      {savedCase.scenarioResults.length > 0 && (
+                        <div className="md:col-span-2">
+                          <span className="font-medium">{t('history.dscrByScenario')}</span>{' '}
+                          {savedCase.scenarioResults
+                            .map(result => `${result.scenarioName} ${result.calculations.dscr.toFixed(2)}`)
+                            .join(' · ')}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-col gap-2 ms-4">
+                    <button
+                      onClick={() => handleOpen(savedCase)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
+                    >
+                      {t('history.openButton')}
+                    </button>
+                    <button
+                      onClick={() => handleReport(savedCase)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      {t('history.reportButton')}
+                    </button>
+                    <button
+                      onClick={() => handleDuplicate(savedCase)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      {t('history.duplicateButton')}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(savedCase.id)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700"
+                    >
+                      {t('common.deleteButton')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaseHistory;
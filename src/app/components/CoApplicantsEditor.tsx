@@ -0,0 +1,97 @@
+"use client";
+
+import React from 'react';
+import { CoApplicantStrings } from '../types/emi';
+import { ApplicantService } from '../services/applicantService';
+import { MessageKey } from '../locales/en';
+import { useTranslation } from '../hooks/useTranslation';
+import { styles } from './styles';
+
+interface CoApplicantsEditorProps {
+  coApplicants: CoApplicantStrings[];
+  onChange: (coApplicants: CoApplicantStrings[]) => void;
+  errors: Record<string, string>;
+}
+
+const AMOUNT_FIELDS: { field: 'salary' | 'rent' | 'other' | 'existingLoans'; labelKey: MessageKey }[] = [
+  { field: 'salary', labelKey: 'coApplicants.salary' },
+  { field: 'rent', labelKey: 'coApplicants.rent' },
+  { field: 'other', labelKey: 'coApplicants.other' },
+  { field: 'existingLoans', labelKey: 'coApplicants.existingLoans' }
+];
+
+const CoApplicantsEditor: React.FC<CoApplicantsEditorProps> = ({ coApplicants, onChange, errors }) => {
+  const { t } = useTranslation();
+
+  const updateCoApplicant = (id: string, changes: Partial<CoApplicantStrings>) => {
+    onChange(coApplicants.map(coApplicant => coApplicant.id === id ? { ...coApplicant, ...changes } : coApplicant));
+  };
+
+  const handleAdd = () => {
+    onChange([...coApplicants, ApplicantService.createCoApplicant(t('coApplicants.defaultName', { number: coApplicants.length + 1 }))]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(coApplicants.filter(coApplicant => coApplicant.id !== id));
+  };
+
+  return (
+    <div className={styles.card.grayAlt}>
+      <div className={styles.layout.flexBetween}>
+        <h2 className={styles.heading.section}>{t('coApplicants.title')}</h2>
+        <button onClick={handleAdd} className={styles.button.edit}>
+          {t('coApplicants.addButton')}
+        </button>
+      </div>
+
+      {coApplicants.length === 0 && (
+        <p className={styles.text.info.small}>
+          {t('coApplicants.intro')}
+        </p>
+      )}
+
+      <div className={styles.layout.spaceYSmall}>
+        {coApplicants.map((coApplicant) => (
+          <div key={coApplicant.id}>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="flex-1 min-w-40">
+                <label className={styles.text.labelSmall}>{t('coApplicants.name')}</label>
+                <input
+                  type="text"
+                  value={coApplicant.name}
+                  onChange={(e) => updateCoApplicant(coApplicant.id, { name: e.target.value })}
+                  className={styles.input.base}
+                />
+              </div>
+              {AMOUNT_FIELDS.map(({ field, labelKey }) => (
+                <div key={field} className="flex-1 min-w-32">
+                  <label className={styles.text.labelSmall}>{t(labelKey)}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={coApplicant[field]}
+                    onChange={(e) => updateCoApplicant(coApplicant.id, { [field]: e.target.value })}
+                    className={styles.input.base}
+                  />
+                </div>
+              ))}
+              <button
+                onClick={() => handleRemove(coApplicant.id)}
+                aria-label={t('coApplicants.remove')}
+                title={t('coApplicants.remove')}
+                className={`${styles.button.secondary} mb-1`}
+              >
+                ✕
+              </button>
+            </div>
+            {errors[`coApplicants.${coApplicant.id}`] && (
+              <p className={styles.text.error}>{errors[`coApplicants.${coApplicant.id}`]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CoApplicantsEditor;
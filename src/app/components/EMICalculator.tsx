@@ -1,56 +1,163 @@
 "use client";
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useEMICalculator } from '../hooks/useEMICalculator';
+import { useTranslation } from '../hooks/useTranslation';
 import { EMICalculationService } from '../services/calculationService';
-import { formatCurrency, getDSCRStatus } from '../utils/formatters';
-import { Calculations } from '../types/emi';
+import { ReportService } from '../services/reportService';
+import { EligibilityService } from '../services/eligibilityService';
+import { ExportService } from '../services/exportService';
+import { TaxTableService } from '../services/taxTableService';
+import { downloadCsv, downloadXlsx } from '../utils/exportFiles';
+import { formatCurrency, formatCurrencyEquivalent, formatDSCRStatus, getDSCRStatus } from '../utils/formatters';
+import { BorrowingCost, Calculations, EligibilityRule, EligibilityRuleId, FormField, GraceMode } from '../types/emi';
+import { MessageKey } from '../locales/en';
 import { styles, getInputStyles, getDynamicTextStyle } from './styles';
+import AmortizationSchedule from './AmortizationSchedule';
+import RateScheduleEditor from './RateScheduleEditor';
+import PrepaymentSimulator from './PrepaymentSimulator';
+import AffordabilityPanel from './AffordabilityPanel';
+import LoanComparison from './LoanComparison';
+import LoanCharts from './LoanCharts';
+import CoApplicantsEditor from './CoApplicantsEditor';
+import ObligationsLedger from './ObligationsLedger';
+import SaveCaseBar from './SaveCaseBar';
+
+const ELIGIBILITY_RULE_KEYS: Record<EligibilityRuleId, MessageKey> = {
+  dscr: 'results.ruleDscr',
+  dti: 'results.ruleDti',
+  foir: 'results.ruleFoir',
+  ltv: 'results.ruleLtv'
+};
+
+const FEE_INPUTS: { field: FormField; labelKey: MessageKey; step: string }[] = [
+  { field: 'processingFeeRate', labelKey: 'calculator.processingFeeRate', step: '0.1' },
+  { field: 'stampDuty', labelKey: 'calculator.stampDuty', step: '1' },
+  { field: 'propertyInsurance', labelKey: 'calculator.propertyInsurance', step: '1' },
+  { field: 'lifeInsurance', labelKey: 'calculator.lifeInsurance', step: '1' },
+  { field: 'serviceCharges', labelKey: 'calculator.serviceCharges', step: '1' }
+];
+
+const GRACE_MODE_KEYS: Record<GraceMode, MessageKey> = {
+  added_to_tenure: 'grace.addedToTenure',
+  inside_tenure: 'grace.insideTenure',
+  capitalized: 'grace.capitalized'
+};
 
 const EMICalculator: React.FC = () => {
   const router = useRouter();
+  const { t, formatDate } = useTranslation();
+  const [isComparing, setIsComparing] = useState(false);
   
   const {
     formData,
     updateFormData,
+    coApplicants,
+    setCoApplicants,
+    obligationLedger,
+    setObligationLedger,
     loanTypes,
     selectedLoanType,
     setSelectedLoanType,
-    scenario,
-    setScenario,
+    scenarios,
+    scenarioId,
+    setScenarioId,
+    selectedScenario,
+    graceMode,
+    setGraceMode,
+    policies,
+    selectedPolicyId,
+    setSelectedPolicyId,
+    activePolicy,
+    effectiveTaxTable,
+    currencySettings,
+    currency,
+    eligibilityLimits,
+    productRules,
+    rateSchedule,
+    setRateSchedule,
+    prepayments,
+    setPrepayments,
+    saveCase,
+    getShareUrl,
+    shareLinkNotice,
+    dismissShareLinkNotice,
+    calculationOptions,
     bankFinanceAmount,
     equityAmount,
+    takeoverAmount,
     totalProjectCost,
     equityPercentage,
     isFormValid,
     validationErrors
   } = useEMICalculator();
 
-  // Calculate both scenarios for both grace periods
-  const normalDuringGrace = EMICalculationService.performCalculations(
-    formData,
-    'normal',
-    false
-  );
+  // Calculate every scenario for both grace periods; the APR solve walks the whole
+  // schedule, so only recalculate when an input changes
+  const scenarioResults = useMemo(() => scenarios.map((scenario) => ({
+    scenario,
+    duringGrace: EMICalculationService.performCalculations(formData, scenario, false, calculationOptions),
+    afterGrace: EMICalculationService.performCalculations(formData, scenario, true, calculationOptions),
+    borrowingCost: EMICalculationService.calculateBorrowingCost(
+      formData,
+      scenario,
+      calculationOptions,
+      validationErrors.prepayments ? [] : prepayments
+    )
+  })), [formData, scenarios, calculationOptions, prepayments, validationErrors.prepayments]);
 
-  const normalAfterGrace = EMICalculationService.performCalculations(
-    formData,
-    'normal',
-    true
-  );
+  const processingFeeRate = EMICalculationService.getNumericValue(formData.processingFeeRate);
 
-  const reducedDuringGrace = EMICalculationService.performCalculations(
-    formData,
-    'income_reduce',
-    false
-  );
+  // Reverse solvers for the built-in normal and income-reduced scenarios
+  const affordabilityResults = useMemo(() => {
+    if (!isFormValid) return [];
 
-  const reducedAfterGrace = EMICalculationService.performCalculations(
-    formData,
-    'income_reduce',
-    true
-  );
+    return scenarios
+      .filter(scenario => scenario.isBuiltIn)
+      .map(scenario => EMICalculationService.solveAffordability(formData, scenario, calculationOptions));
+  }, [formData, scenarios, calculationOptions, isFormValid]);
+
+  const canShowSchedule = isFormValid || Object.keys(validationErrors).every(key => key === 'prepayments');
+
+  // Month-by-month repayment schedule for the financed amount under the selected scenario,
+  // with and without the planned prepayments
+  const prepaymentComparison = useMemo(() => {
+    const rate = EMICalculationService.getNumericValue(formData.rate);
+    const repaymentPeriod = EMICalculationService.getNumericValue(formData.repaymentPeriod);
+    const gracePeriod = EMICalculationService.getNumericValue(formData.gracePeriod);
+    const ratePeriods = EMICalculationService.resolveScenarioRatePeriods(
+      rateSchedule,
+      rate,
+      repaymentPeriod + gracePeriod,
+      selectedScenario
+    );
+
+    return EMICalculationService.simulatePrepayments({
+      principal: bankFinanceAmount,
+      rate: ratePeriods[0].rate,
+      repaymentPeriod,
+      gracePeriod,
+      graceMode,
+      ratePeriods,
+      prepayments: validationErrors.prepayments ? [] : prepayments
+    }, calculationOptions.calculationDate);
+  }, [bankFinanceAmount, formData.rate, formData.repaymentPeriod, formData.gracePeriod, graceMode, rateSchedule, selectedScenario, prepayments, validationErrors.prepayments, calculationOptions.calculationDate]);
+
+  // DSCR curves for the charts: rates around the entered one and income cut by up to half
+  const sensitivity = useMemo(() => {
+    if (!isFormValid) return null;
+
+    const rate = EMICalculationService.getNumericValue(formData.rate);
+    const firstRate = Math.max(0, Math.floor(rate) - 5);
+    const rates = Array.from({ length: 31 }, (_, index) => firstRate + index * 0.5);
+    const reductions = Array.from({ length: 11 }, (_, index) => index * 5);
+
+    return {
+      rates: EMICalculationService.calculateRateSensitivity(formData, selectedScenario, rates, calculationOptions),
+      incomeReductions: EMICalculationService.calculateIncomeReductionSensitivity(formData, selectedScenario, reductions, calculationOptions)
+    };
+  }, [formData, selectedScenario, calculationOptions, isFormValid]);
 
   // Event handlers
   const handleLoanTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -61,17 +168,76 @@ const EMICalculator: React.FC = () => {
     if (selectedLoan) {
       updateFormData('rate', selectedLoan.interestRate.toString());
       updateFormData('repaymentPeriod', selectedLoan.tenure.toString());
+      updateFormData('processingFeeRate', selectedLoan.productRules?.processingFeeRate?.toString() ?? '');
     }
   };
 
   const handleScenarioChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setScenario(e.target.value as 'normal' | 'income_reduce');
+    setScenarioId(e.target.value);
+  };
+
+  const handleGraceModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setGraceMode(e.target.value as GraceMode);
   };
 
   const handleEditLoanTypes = () => {
     router.push('/edit-loan-types');
   };
 
+  const handleEditPolicies = () => {
+    router.push('/underwriting-policies');
+  };
+
+  const handleEditTaxTables = () => {
+    router.push('/tax-tables');
+  };
+
+  const handleEditCurrencies = () => {
+    router.push('/currency-settings');
+  };
+
+  const handleEditScenarios = () => {
+    router.push('/stress-scenarios');
+  };
+
+  const handleOpenHistory = () => {
+    router.push('/history');
+  };
+
+  const handleOpenReport = () => {
+    ReportService.saveDraft({
+      formData,
+      loanTypeId: selectedLoanType,
+      graceMode,
+      policyId: selectedPolicyId,
+      rateSchedule,
+      prepayments,
+      currency
+    });
+    router.push('/report');
+  };
+
+  const buildExportSheets = () => ExportService.buildSheets({
+    formData,
+    loanTypeName: loanTypes.find(loan => loan.id === selectedLoanType)?.name || selectedLoanType,
+    currency,
+    scenarios,
+    options: calculationOptions,
+    prepayments: validationErrors.prepayments ? [] : prepayments
+  });
+
+  const handleExportCsv = () => {
+    downloadCsv(buildExportSheets(), ExportService.getFileStem());
+  };
+
+  const handleExportXlsx = async () => {
+    try {
+      await downloadXlsx(buildExportSheets(), ExportService.getFileStem());
+    } catch (err) {
+      console.error('Error exporting workbook:', err);
+    }
+  };
+
   // Convert months to years for display
   const getYearsFromMonths = (months: string): string => {
     const numMonths = parseFloat(months) || 0;
@@ -98,87 +264,264 @@ const EMICalculator: React.FC = () => {
     updateFormData('repaymentPeriod', totalMonths.toString());
   };
 
-  const taxBrackets = EMICalculationService.getTaxBrackets();
+  const taxBrackets = effectiveTaxTable.brackets;
+
+  const formatTaxBracket = (min: number, max: number) => {
+    if (min === 0) return t('calculator.taxUpTo', { max: formatCurrency(max, currency) });
+    if (max === Infinity) return t('calculator.taxAbove', { min: formatCurrency(min, currency) });
+    return t('calculator.taxRange', { min: formatCurrency(min, currency), max: formatCurrency(max, currency) });
+  };
+
+  const getDSCRStatusLabel = (dscr: number) => formatDSCRStatus(getDSCRStatus(dscr, activePolicy).status, t);
+
+  // Equivalent in the secondary currency, when one is configured
+  const renderEquivalent = (amount: number) => {
+    const equivalent = formatCurrencyEquivalent(amount, currency, currencySettings);
+    return equivalent && <p className={styles.text.hint}>{equivalent}</p>;
+  };
+
+  // DSCR is a floor; the percentages are ceilings
+  const describeRule = (rule: EligibilityRule) => {
+    if (rule.id === 'dscr') {
+      return t('results.ruleMinimum', { value: (rule.value ?? 0).toFixed(2), limit: rule.limit.toFixed(2) });
+    }
+    if (rule.value === null) {
+      return t('results.ruleMissing', { limit: rule.limit });
+    }
+    return t('results.ruleMaximum', { value: rule.value.toFixed(1), limit: rule.limit });
+  };
 
   // Reusable calculation results component
   const CalculationResults: React.FC<{
     title: string;
+    description?: string;
     duringGraceCalculations: Calculations;
     afterGraceCalculations: Calculations;
+    borrowingCost: BorrowingCost;
     bgColor: string;
     titleColor: string;
-  }> = ({ title, duringGraceCalculations, afterGraceCalculations, bgColor, titleColor }) => {
-    const afterGraceDscrStatus = getDSCRStatus(afterGraceCalculations.dscr);
+  }> = ({ title, description, duringGraceCalculations, afterGraceCalculations, borrowingCost, bgColor, titleColor }) => {
+    const afterGraceDscrStatus = getDSCRStatus(afterGraceCalculations.dscr, activePolicy);
+    const eligibility = EligibilityService.evaluate(
+      afterGraceCalculations,
+      eligibilityLimits,
+      EligibilityService.getDSCRThreshold(productRules, activePolicy)
+    );
+    const failedRules = eligibility.rules.filter(rule => rule.status !== 'passed').length;
 
     return (
       <div className={`${bgColor} ${styles.card.base}`}>
         <h2 className={`${styles.heading.section} ${titleColor}`}>{title}</h2>
+        {description && (
+          <p className={`${styles.text.info.xsmall} -mt-3 mb-4`}>{description}</p>
+        )}
         
         <div className={styles.layout.spaceY}>
           <div className={styles.results.valueContainer}>
             <div>
-              <p className={styles.text.info.small}>Total Income</p>
-              <p className={styles.text.value.large}>{formatCurrency(afterGraceCalculations.totalIncome)}</p>
+              <p className={styles.text.info.small}>{t('results.totalIncome')}</p>
+              <p className={styles.text.value.large}>{formatCurrency(afterGraceCalculations.totalIncome, currency)}</p>
             </div>
             <div>
-              <p className={styles.text.info.small}>Total Expenditure</p>
-              <p className="text-lg font-semibold text-gray-700">{formatCurrency(afterGraceCalculations.totalExpenditure)}</p>
+              <p className={styles.text.info.small}>{t('results.totalExpenditure')}</p>
+              <p className="text-lg font-semibold text-gray-700">{formatCurrency(afterGraceCalculations.totalExpenditure, currency)}</p>
             </div>
           </div>
           
           <div className={styles.results.valueContainer}>
             <div>
-              <p className={styles.text.info.small}>Project Income</p>
-              <p className={styles.text.value.large}>{formatCurrency(afterGraceCalculations.totalProjectIncome)}</p>
+              <p className={styles.text.info.small}>{t('results.projectIncome')}</p>
+              <p className={styles.text.value.large}>{formatCurrency(afterGraceCalculations.totalProjectIncome, currency)}</p>
+              {afterGraceCalculations.projectIncomeStartMonth > afterGraceCalculations.totalMonths - afterGraceCalculations.amortizationPeriod + 1 && (
+                <p className={styles.text.hint}>{t('results.projectIncomeStart', { month: afterGraceCalculations.projectIncomeStartMonth })}</p>
+              )}
             </div>
             <div>
-              <p className={styles.text.info.small}>Project Expenditure</p>
-              <p className="text-lg font-semibold text-gray-700">{formatCurrency(afterGraceCalculations.totalProjectExpenditure)}</p>
+              <p className={styles.text.info.small}>{t('results.projectExpenditure')}</p>
+              <p className="text-lg font-semibold text-gray-700">{formatCurrency(afterGraceCalculations.totalProjectExpenditure, currency)}</p>
             </div>
           </div>
           
           {/* Show maintenance cost and income tax breakdown */}
           <div className={styles.results.smallValueContainer}>
             <div>
-              <p className={styles.text.info.xsmall}>Maintenance Cost (5%)</p>
-              <p className={styles.text.value.medium}>{formatCurrency(afterGraceCalculations.maintenanceCost || 0)}</p>
+              <p className={styles.text.info.xsmall}>{t('results.maintenanceCost', { rate: activePolicy.maintenanceCostRate })}</p>
+              <p className={styles.text.value.medium}>{formatCurrency(afterGraceCalculations.maintenanceCost || 0, currency)}</p>
             </div>
             <div>
-              <p className={styles.text.info.xsmall}>Income Tax</p>
-              <p className={styles.text.value.medium}>{formatCurrency(afterGraceCalculations.incomeTax)}</p>
+              <p className={styles.text.info.xsmall}>{t('results.incomeTax')}</p>
+              <p className={styles.text.value.medium}>{formatCurrency(afterGraceCalculations.incomeTax, currency)}</p>
             </div>
+            {afterGraceCalculations.existingLoans > 0 && (
+              <div>
+                <p className={styles.text.info.xsmall}>{t('results.existingLoans')}</p>
+                <p className={styles.text.value.medium}>{formatCurrency(afterGraceCalculations.existingLoans, currency)}</p>
+              </div>
+            )}
           </div>
           
+          {/* Household income split across joint applicants */}
+          {afterGraceCalculations.applicants.length > 1 && (
+            <div className={styles.layout.spaceYSmall}>
+              <p className={styles.text.info.xsmall}>{t('results.applicants')}</p>
+              {afterGraceCalculations.applicants.map((applicant) => (
+                <div key={applicant.applicantId} className={styles.layout.flexBetweenNoMargin}>
+                  <span className={styles.text.info.xsmall}>
+                    {applicant.applicantId === EMICalculationService.PRIMARY_APPLICANT_ID ? t('results.primaryApplicant') : applicant.name}
+                    {' '}
+                    {t('results.applicantShare', {
+                      share: applicant.incomeShare.toFixed(1),
+                      tax: formatCurrency(applicant.incomeTax, currency)
+                    })}
+                  </span>
+                  <span className={styles.text.value.medium}>{formatCurrency(applicant.netContribution, currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
           <div className={styles.layout.borderTop}>
             <div>
-              <p className={styles.text.info.small}>Net Income</p>
-              <p className={styles.text.value.xlarge}>{formatCurrency(afterGraceCalculations.netIncome)}</p>
+              <p className={styles.text.info.small}>{t('results.netIncome')}</p>
+              <p className={styles.text.value.xlarge}>{formatCurrency(afterGraceCalculations.netIncome, currency)}</p>
+              {renderEquivalent(afterGraceCalculations.netIncome)}
             </div>
           </div>
           
           {/* Show both repayment amounts */}
           <div className={styles.results.valueContainer}>
             <div>
-              <p className={styles.text.info.small}>EMI (During Grace)</p>
-              <p className={styles.text.value.large}>{formatCurrency(duringGraceCalculations.monthlyRepayment)}</p>
+              <p className={styles.text.info.small}>{t('results.emiDuringGrace')}</p>
+              <p className={styles.text.value.large}>{formatCurrency(duringGraceCalculations.monthlyRepayment, currency)}</p>
+              {renderEquivalent(duringGraceCalculations.monthlyRepayment)}
             </div>
             <div>
-              <p className={styles.text.info.small}>EMI (After Grace)</p>
-              <p className="text-lg font-semibold text-gray-700">{formatCurrency(afterGraceCalculations.monthlyRepayment)}</p>
+              <p className={styles.text.info.small}>{t('results.emiAfterGrace')}</p>
+              <p className="text-lg font-semibold text-gray-700">{formatCurrency(afterGraceCalculations.monthlyRepayment, currency)}</p>
+              {renderEquivalent(afterGraceCalculations.monthlyRepayment)}
+              {afterGraceCalculations.effectiveRate !== EMICalculationService.getNumericValue(formData.rate) && (
+                <p className={styles.text.hint}>{t('results.atRate', { rate: afterGraceCalculations.effectiveRate })}</p>
+              )}
             </div>
           </div>
           
+          <div className={styles.results.smallValueContainer}>
+            <div>
+              <p className={styles.text.info.xsmall}>{t('results.totalInterest')}</p>
+              <p className={styles.text.value.medium}>{formatCurrency(afterGraceCalculations.totalInterest, currency)}</p>
+            </div>
+            <div>
+              <p className={styles.text.info.xsmall}>{t('results.loanEndDate', { months: afterGraceCalculations.totalMonths })}</p>
+              <p className={styles.text.value.medium}>{formatDate(afterGraceCalculations.loanEndDate)}</p>
+            </div>
+            {afterGraceCalculations.capitalizedInterest > 0 && (
+              <div>
+                <p className={styles.text.info.xsmall}>{t('results.capitalizedInterest')}</p>
+                <p className={styles.text.value.medium}>{formatCurrency(afterGraceCalculations.capitalizedInterest, currency)}</p>
+              </div>
+            )}
+          </div>
+          
+          {/* Fees, insurance and the rate they really add up to */}
+          <div className={styles.results.smallValueContainer}>
+            <div>
+              <p className={styles.text.info.xsmall}>{t('results.apr')}</p>
+              <p className={styles.text.value.medium}>
+                {borrowingCost.apr === null ? '—' : `${borrowingCost.apr.toFixed(2)}%`}
+              </p>
+              <p className={styles.text.hint}>
+                {t('results.aprBasis', {
+                  nominal: borrowingCost.nominalRate,
+                  effective: borrowingCost.effectiveAnnualRate === null ? '—' : borrowingCost.effectiveAnnualRate.toFixed(2)
+                })}
+              </p>
+            </div>
+            <div>
+              <p className={styles.text.info.xsmall}>{t('results.effectiveEMI')}</p>
+              <p className={styles.text.value.medium}>{formatCurrency(borrowingCost.effectiveEMI, currency)}</p>
+            </div>
+            <div>
+              <p className={styles.text.info.xsmall}>{t('results.upfrontFees')}</p>
+              <p className={styles.text.value.medium}>{formatCurrency(borrowingCost.upfrontFees, currency)}</p>
+            </div>
+            <div>
+              <p className={styles.text.info.xsmall}>{t('results.totalCostOfBorrowing')}</p>
+              <p className={styles.text.value.medium}>{formatCurrency(borrowingCost.totalCostOfBorrowing, currency)}</p>
+            </div>
+          </div>
+          
+          {/* EMI per rate period for floating rates */}
+          {afterGraceCalculations.emiPeriods.length > 1 && (
+            <div className={styles.layout.spaceYSmall}>
+              <p className={styles.text.info.xsmall}>{t('results.emiByRatePeriod')}</p>
+              {afterGraceCalculations.emiPeriods.map((period) => (
+                <div key={period.startMonth} className={styles.layout.flexBetweenNoMargin}>
+                  <span className={styles.text.info.xsmall}>
+                    {t('results.ratePeriod', { start: period.startMonth, end: period.endMonth, rate: period.rate })}
+                  </span>
+                  <span className={styles.text.value.medium}>{formatCurrency(period.emi, currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
           <div className={styles.layout.borderTop}>
             <div>
-              <p className={styles.text.info.small}>DSCR (Debt Service Coverage Ratio)</p>
+              <p className={styles.text.info.small}>{t('results.dscr')}</p>
               <p className={getDynamicTextStyle("text-2xl font-bold", afterGraceDscrStatus.color)}>
                 {afterGraceCalculations.dscr.toFixed(2)}
               </p>
               <p className={styles.text.info.xsmall}>
-                {afterGraceDscrStatus.status} (Based on after-grace EMI)
+                {t('results.dscrBasis', { status: getDSCRStatusLabel(afterGraceCalculations.dscr) })}
+              </p>
+              {afterGraceCalculations.maxRepayment > (afterGraceCalculations.afterGraceRepayment || 0) && (
+                <p className={styles.text.info.xsmall}>
+                  {t('results.worstCase', {
+                    dscr: afterGraceCalculations.worstCaseDSCR.toFixed(2),
+                    status: getDSCRStatusLabel(afterGraceCalculations.worstCaseDSCR),
+                    emi: formatCurrency(afterGraceCalculations.maxRepayment, currency)
+                  })}
+                </p>
+              )}
+              <p className={styles.text.info.xsmall}>
+                {t('results.policy', { name: afterGraceCalculations.policyName, version: afterGraceCalculations.policyVersion })}
               </p>
             </div>
           </div>
+          
+          {/* DTI, FOIR and LTV with the verdict across every rule */}
+          <div className={styles.layout.borderTop}>
+            <div className="grid grid-cols-3 gap-4 text-sm mb-3">
+              <div>
+                <p className={styles.text.info.xsmall}>{t('results.dti')}</p>
+                <p className={styles.text.value.medium}>{afterGraceCalculations.dti.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className={styles.text.info.xsmall}>{t('results.foir')}</p>
+                <p className={styles.text.value.medium}>{afterGraceCalculations.foir.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className={styles.text.info.xsmall}>{t('results.ltv')}</p>
+                <p className={styles.text.value.medium}>
+                  {afterGraceCalculations.ltv === null ? '—' : `${afterGraceCalculations.ltv.toFixed(1)}%`}
+                </p>
+              </div>
+            </div>
+            <p className={styles.text.info.small}>{t('results.eligibility')}</p>
+            <p className={getDynamicTextStyle("text-lg font-semibold", eligibility.eligible ? styles.eligibility.passed : styles.eligibility.failed)}>
+              {eligibility.eligible ? t('results.eligible') : t('results.notEligible', { count: failedRules })}
+            </p>
+            <div className={styles.layout.spaceYSmall}>
+              {eligibility.rules.map((rule) => (
+                <div key={rule.id} className={styles.layout.flexBetweenNoMargin}>
+                  <span className={styles.text.info.xsmall}>
+                    {rule.status === 'passed' ? '✓' : '✗'} {t(ELIGIBILITY_RULE_KEYS[rule.id])}
+                  </span>
+                  <span className={`text-xs font-medium ${styles.eligibility[rule.status]}`}>{describeRule(rule)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
       </div>
     );
@@ -187,18 +530,37 @@ const EMICalculator: React.FC = () => {
   return (
     <div className={styles.container}>
       <div className="mb-8">
-        <h1 className={styles.heading.main}>EMI Calculator</h1>
+        <h1 className={styles.heading.main}>{t('calculator.title')}</h1>
+        
+        {shareLinkNotice && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md flex items-start justify-between">
+            <p className="text-red-600 text-sm font-medium">{shareLinkNotice}</p>
+            <button onClick={dismissShareLinkNotice} className="text-red-600 text-sm ms-4">
+              ✕
+            </button>
+          </div>
+        )}
+        
+        <SaveCaseBar onSave={saveCase} onOpenHistory={handleOpenHistory} getShareUrl={getShareUrl} />
         
         {/* Loan Type Selection */}
         <div className="mb-6">
           <div className={styles.layout.flexBetween}>
-            <label className={styles.text.label}>Loan Type</label>
-            <button
-              onClick={handleEditLoanTypes}
-              className={styles.button.edit}
-            >
-              Edit
-            </button>
+            <label className={styles.text.label}>{t('calculator.loanType')}</label>
+            <div className={styles.layout.flexGapSmall}>
+              <button
+                onClick={handleEditCurrencies}
+                className={styles.button.edit}
+              >
+                {t('calculator.currencies')}
+              </button>
+              <button
+                onClick={handleEditLoanTypes}
+                className={styles.button.edit}
+              >
+                {t('common.edit')}
+              </button>
+            </div>
           </div>
           <select 
             value={selectedLoanType} 
@@ -207,7 +569,37 @@ const EMICalculator: React.FC = () => {
           >
             {loanTypes.map((loanType) => (
               <option key={loanType.id} value={loanType.id}>
-                {loanType.name} ({loanType.interestRate}% - {Math.floor(loanType.tenure / 12)}y {loanType.tenure % 12}m)
+                {t('calculator.loanTypeOption', {
+                  name: loanType.name,
+                  rate: loanType.interestRate,
+                  years: Math.floor(loanType.tenure / 12),
+                  months: loanType.tenure % 12
+                })}
+              </option>
+            ))}
+          </select>
+          <p className={styles.text.hint}>{t('calculator.amountsIn', { code: currency.code })}</p>
+        </div>
+
+        {/* Underwriting Policy Selection */}
+        <div className="mb-6">
+          <div className={styles.layout.flexBetween}>
+            <label className={styles.text.label}>{t('calculator.underwritingPolicy')}</label>
+            <button
+              onClick={handleEditPolicies}
+              className={styles.button.edit}
+            >
+              {t('common.edit')}
+            </button>
+          </div>
+          <select
+            value={selectedPolicyId}
+            onChange={(e) => setSelectedPolicyId(e.target.value)}
+            className={styles.input.select}
+          >
+            {policies.map((policy) => (
+              <option key={policy.id} value={policy.id}>
+                {policy.name} (v{policy.version})
               </option>
             ))}
           </select>
@@ -218,19 +610,19 @@ const EMICalculator: React.FC = () => {
         {/* Monthly Income Section */}
         <div className={styles.layout.minWidth}>
           <div className={styles.card.gray}>
-            <h2 className={styles.heading.section}>Monthly Income</h2>
+            <h2 className={styles.heading.section}>{t('calculator.monthlyIncome')}</h2>
             
             <div className={styles.layout.spaceY}>
               <div>
                 <label className={styles.text.label}>
-                  Salary *
+                  {t('calculator.salary')}
                 </label>
                 <input
                   type="number"
                   value={formData.salary}
                   onChange={(e) => updateFormData('salary', e.target.value)}
                   className={getInputStyles(!!validationErrors.salary)}
-                  placeholder="Enter salary"
+                  placeholder={t('calculator.salaryPlaceholder')}
                 />
                 {validationErrors.salary && (
                   <p className={styles.text.error}>{validationErrors.salary}</p>
@@ -238,40 +630,40 @@ const EMICalculator: React.FC = () => {
               </div>
               
               <div>
-                <label className={styles.text.label}>Rent</label>
+                <label className={styles.text.label}>{t('calculator.rent')}</label>
                 <input
                   type="number"
                   value={formData.rent}
                   onChange={(e) => updateFormData('rent', e.target.value)}
                   className={styles.input.base}
-                  placeholder="Enter rent income"
+                  placeholder={t('calculator.rentPlaceholder')}
                 />
               </div>
               
               <div>
-                <label className={styles.text.label}>Other</label>
+                <label className={styles.text.label}>{t('calculator.other')}</label>
                 <input
                   type="number"
                   value={formData.other}
                   onChange={(e) => updateFormData('other', e.target.value)}
                   className={styles.input.base}
-                  placeholder="Enter other income"
+                  placeholder={t('calculator.otherPlaceholder')}
                 />
               </div>
               
               <div>
                 <label className={styles.text.label}>
-                  Project Income (After Grace)
+                  {t('calculator.projectIncome')}
                 </label>
                 <input
                   type="number"
                   value={formData.projectIncome}
                   onChange={(e) => updateFormData('projectIncome', e.target.value)}
                   className={styles.input.base}
-                  placeholder="Enter project income"
+                  placeholder={t('calculator.projectIncomePlaceholder')}
                 />
                 <p className={styles.text.hint}>
-                  Only applicable after grace period ends
+                  {t('calculator.projectIncomeHint')}
                 </p>
               </div>
             </div>
@@ -281,43 +673,49 @@ const EMICalculator: React.FC = () => {
         {/* Loan Details Section */}
         <div className={styles.layout.minWidth}>
           <div className={styles.card.fullHeight}>
-            <h2 className={styles.heading.section}>Loan Details</h2>
+            <h2 className={styles.heading.section}>{t('calculator.loanDetails')}</h2>
             
             <div className={styles.layout.spaceY}>
               <div>
-                <label className={styles.text.label}>Existing Loans</label>
+                <label className={styles.text.label}>{t('calculator.totalProjectCost')}</label>
                 <input
                   type="number"
-                  value={formData.existingLoans}
-                  onChange={(e) => updateFormData('existingLoans', e.target.value)}
-                  className={styles.input.base}
-                  placeholder="Enter existing loan amount"
+                  value={formData.totalProjectCost}
+                  onChange={(e) => updateFormData('totalProjectCost', e.target.value)}
+                  className={getInputStyles(!!validationErrors.totalProjectCost)}
+                  placeholder={t('calculator.totalProjectCostPlaceholder')}
                 />
+                {validationErrors.totalProjectCost && (
+                  <p className={styles.text.error}>{validationErrors.totalProjectCost}</p>
+                )}
               </div>
               
               <div>
-                <label className={styles.text.label}>Total Project Cost *</label>
+                <label className={styles.text.label}>{t('calculator.propertyValue')}</label>
                 <input
                   type="number"
-                  value={formData.totalProjectCost}
-                  onChange={(e) => updateFormData('totalProjectCost', e.target.value)}
-                  className={getInputStyles(!!validationErrors.totalProjectCost)}
-                  placeholder="Enter total project cost"
+                  value={formData.propertyValue}
+                  onChange={(e) => updateFormData('propertyValue', e.target.value)}
+                  className={getInputStyles(!!validationErrors.propertyValue)}
+                  placeholder={t('calculator.propertyValuePlaceholder')}
+                  min="0"
                 />
-                {validationErrors.totalProjectCost && (
-                  <p className={styles.text.error}>{validationErrors.totalProjectCost}</p>
+                {validationErrors.propertyValue ? (
+                  <p className={styles.text.error}>{validationErrors.propertyValue}</p>
+                ) : (
+                  <p className={styles.text.hint}>{t('calculator.propertyValueHint')}</p>
                 )}
               </div>
 
               <div className={styles.layout.flexGap}>
                 <div className="flex-1">
-                  <label className={styles.text.label}>Equity %</label>
+                  <label className={styles.text.label}>{t('calculator.equity')}</label>
                   <input
                     type="number"
                     value={formData.equityPercentage}
                     onChange={(e) => updateFormData('equityPercentage', e.target.value)}
                     className={getInputStyles(!!validationErrors.equityPercentage)}
-                    placeholder="Enter equity percentage"
+                    placeholder={t('calculator.equityPlaceholder')}
                     min="0"
                     max="100"
                   />
@@ -327,51 +725,57 @@ const EMICalculator: React.FC = () => {
                 </div>
                 
                 <div className="flex-1">
-                  <label className={styles.text.label}>Interest Rate (%) *</label>
+                  <label className={styles.text.label}>{t('calculator.interestRate')}</label>
                   <input
                     type="number"
                     step="0.1"
                     value={formData.rate}
                     onChange={(e) => updateFormData('rate', e.target.value)}
                     className={getInputStyles(!!validationErrors.rate)}
-                    placeholder="Enter interest rate"
+                    placeholder={t('calculator.interestRatePlaceholder')}
                   />
                   {validationErrors.rate && (
                     <p className={styles.text.error}>{validationErrors.rate}</p>
                   )}
                 </div>
               </div>
+
+              <RateScheduleEditor
+                rateSchedule={rateSchedule}
+                onChange={setRateSchedule}
+                error={validationErrors.rateSchedule}
+              />
  
               <div>
-                <label className={styles.text.label}>Repayment Period *</label>                
+                <label className={styles.text.label}>{t('calculator.repaymentPeriod')}</label>
                 <div className={styles.layout.flexGapSmall}>
                   <div className="flex-1">
-                    <label className={styles.text.labelSmall}>Years</label>
+                    <label className={styles.text.labelSmall}>{t('common.years')}</label>
                     <input
                       type="number"
                       value={getYearsFromMonths(formData.repaymentPeriod)}
                       onChange={(e) => handleYearsChange(e.target.value)}
                       className={styles.input.base}
-                      placeholder="Years"
+                      placeholder={t('common.years')}
                       min="0"
                     />
                   </div>
                   
                   <div className="flex-1">
-                    <label className={styles.text.labelSmall}>Months</label>
+                    <label className={styles.text.labelSmall}>{t('common.months')}</label>
                     <input
                       type="number"
                       value={getMonthsRemainder(formData.repaymentPeriod)}
                       onChange={(e) => handleMonthsChange(e.target.value)}
                       className={styles.input.base}
-                      placeholder="Months"
+                      placeholder={t('common.months')}
                       min="0"
                       max="11"
                     />
                   </div>                  
                 </div>
                 <p className={styles.text.hint}>
-                  Total: {formData.repaymentPeriod} months
+                  {t('common.totalMonths', { months: formData.repaymentPeriod })}
                 </p>
                 {validationErrors.repaymentPeriod && (
                   <p className={styles.text.error}>{validationErrors.repaymentPeriod}</p>
@@ -379,18 +783,54 @@ const EMICalculator: React.FC = () => {
               </div>
 
               <div>
-                <label className={styles.text.label}>Grace Period (months)</label>
+                <label className={styles.text.label}>{t('calculator.gracePeriod')}</label>
                 <input
                   type="number"
                   value={formData.gracePeriod}
                   onChange={(e) => updateFormData('gracePeriod', e.target.value)}
                   className={getInputStyles(!!validationErrors.gracePeriod)}
-                  placeholder="Enter grace period"
+                  placeholder={t('calculator.gracePeriodPlaceholder')}
                 />
                 {validationErrors.gracePeriod && (
                   <p className={styles.text.error}>{validationErrors.gracePeriod}</p>
                 )}
               </div>
+
+              <div>
+                <label className={styles.text.label}>{t('calculator.graceHandling')}</label>
+                <select
+                  value={graceMode}
+                  onChange={handleGraceModeChange}
+                  className={styles.input.select}
+                >
+                  {(Object.keys(GRACE_MODE_KEYS) as GraceMode[]).map((mode) => (
+                    <option key={mode} value={mode}>{t(GRACE_MODE_KEYS[mode])}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <h3 className={styles.heading.subsection}>{t('calculator.feesAndInsurance')}</h3>
+                <div className={styles.layout.gridCols2}>
+                  {FEE_INPUTS.map(({ field, labelKey, step }) => (
+                    <div key={field}>
+                      <label className={styles.text.labelSmall}>{t(labelKey)}</label>
+                      <input
+                        type="number"
+                        step={step}
+                        min="0"
+                        value={formData[field]}
+                        onChange={(e) => updateFormData(field, e.target.value)}
+                        className={getInputStyles(!!validationErrors[field])}
+                      />
+                      {validationErrors[field] && (
+                        <p className={styles.text.error}>{validationErrors[field]}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className={styles.text.hint}>{t('calculator.feesHint')}</p>
+              </div>
             </div>
           </div>
         </div>
@@ -398,31 +838,61 @@ const EMICalculator: React.FC = () => {
         {/* Bank Finance Details & Tax Brackets */}
         <div className={styles.layout.minWidth}>
           <div className={styles.card.grayAlt}>
-            <h3 className={styles.heading.subsection}>Bank Finance Details</h3>
+            <h3 className={styles.heading.subsection}>{t('calculator.bankFinanceDetails')}</h3>
             <div className="space-y-2 mb-4">
               <div className={styles.layout.flexBetweenNoMargin}>
-                <span className={styles.text.info.small}>Total Project Cost:</span>
-                <span className="font-semibold">{formatCurrency(totalProjectCost)}</span>
+                <span className={styles.text.info.small}>{t('calculator.totalProjectCostAmount')}</span>
+                <span className="font-semibold">{formatCurrency(totalProjectCost, currency)}</span>
               </div>
               <div className={styles.layout.flexBetweenNoMargin}>
-                <span className={styles.text.info.small}>Equity ({equityPercentage}%):</span>
-                <span className="font-semibold">{formatCurrency(equityAmount)}</span>
+                <span className={styles.text.info.small}>{t('calculator.equityAmount', { percentage: equityPercentage })}</span>
+                <span className="font-semibold">{formatCurrency(equityAmount, currency)}</span>
               </div>
               <div className={styles.layout.flexBetweenNoMargin}>
-                <span className={styles.text.info.small}>Bank Finance:</span>
-                <span className="font-semibold">{formatCurrency(bankFinanceAmount)}</span>
+                <span className={styles.text.info.small}>{t('calculator.bankFinance')}</span>
+                <span className="font-semibold">{formatCurrency(bankFinanceAmount, currency)}</span>
               </div>
+              {takeoverAmount > 0 && (
+                <div className={styles.layout.flexBetweenNoMargin}>
+                  <span className={styles.text.info.small}>{t('calculator.refinancedObligations')}</span>
+                  <span className="font-semibold">{formatCurrency(takeoverAmount, currency)}</span>
+                </div>
+              )}
+              {renderEquivalent(bankFinanceAmount)}
+              {processingFeeRate > 0 && (
+                <div className={styles.layout.flexBetweenNoMargin}>
+                  <span className={styles.text.info.small}>{t('calculator.processingFee', { rate: processingFeeRate })}</span>
+                  <span className="font-semibold">
+                    {formatCurrency(EMICalculationService.calculateProcessingFee(bankFinanceAmount, processingFeeRate), currency)}
+                  </span>
+                </div>
+              )}
             </div>
 
-            <h3 className={styles.heading.subsection}>Income Tax Brackets</h3>
+            <div className={styles.layout.flexBetween}>
+              <h3 className={styles.heading.subsection}>{t('calculator.incomeTaxBrackets')}</h3>
+              <button
+                onClick={handleEditTaxTables}
+                className={styles.button.edit}
+              >
+                {t('common.edit')}
+              </button>
+            </div>
+            <p className={`${styles.text.info.xsmall} mb-2`}>
+              {t('calculator.taxTableEffective', { name: effectiveTaxTable.name, date: formatDate(effectiveTaxTable.effectiveFrom) })}
+            </p>
+            {validationErrors.taxTables ? (
+              <p className={`${styles.text.error} mb-2`}>{validationErrors.taxTables}</p>
+            ) : currency.code !== TaxTableService.CURRENCY && (
+              <p className={`${styles.text.info.xsmall} mb-2`}>
+                {t('calculator.taxTableConverted', { taxCurrency: TaxTableService.CURRENCY, currency: currency.code })}
+              </p>
+            )}
             <div className={styles.layout.spaceYSmall}>
               {taxBrackets.map((bracket, index) => (
                 <div key={index} className={styles.layout.flexBetweenNoMargin}>
                   <span className={styles.text.info.small}>
-                    {bracket.min === 0 ? 'Up to' : bracket.max === Infinity ? 'Above' : ''} 
-                    {bracket.min === 0 ? '' : bracket.min.toLocaleString()}
-                    {bracket.max !== Infinity && bracket.min !== 0 ? ' - ' : ''}
-                    {bracket.max === Infinity ? '' : bracket.max.toLocaleString()}:
+                    {formatTaxBracket(bracket.min, bracket.max)}
                   </span>
                   <span className="font-medium">{bracket.rate}%</span>
                 </div>
@@ -431,29 +901,150 @@ const EMICalculator: React.FC = () => {
           </div>
         </div>
 
+        {/* Joint applicants */}
+        <div className="w-full">
+          <CoApplicantsEditor
+            coApplicants={coApplicants}
+            onChange={setCoApplicants}
+            errors={validationErrors}
+          />
+        </div>
+
+        {/* Existing obligations */}
+        <div className="w-full">
+          <ObligationsLedger
+            ledger={obligationLedger}
+            onChange={setObligationLedger}
+            gracePeriod={EMICalculationService.getNumericValue(formData.gracePeriod)}
+            currency={currency}
+            error={validationErrors.obligations}
+          />
+        </div>
+
+        <div className="w-full">
+          <div className={styles.layout.flexBetween}>
+            <h2 className={styles.heading.section}>{t('calculator.scenarioResults')}</h2>
+            <div className={styles.layout.flexGapSmall}>
+              <button
+                onClick={handleOpenReport}
+                className={styles.button.edit}
+                disabled={!isFormValid}
+              >
+                {t('calculator.assessmentReport')}
+              </button>
+              <button
+                onClick={handleExportCsv}
+                className={styles.button.edit}
+                disabled={!isFormValid}
+              >
+                {t('calculator.exportCsv')}
+              </button>
+              <button
+                onClick={handleExportXlsx}
+                className={styles.button.edit}
+                disabled={!isFormValid}
+              >
+                {t('calculator.exportExcel')}
+              </button>
+              <button
+                onClick={handleEditScenarios}
+                className={styles.button.edit}
+              >
+                {t('calculator.manageScenarios')}
+              </button>
+            </div>
+          </div>
+        </div>
+
         <div className={styles.fullWidthFlex}> 
-          {/* Normal Scenario Results */}
-          <div className={styles.layout.minWidth}>
-            <CalculationResults
-              title="Normal Scenario Results"
-              duringGraceCalculations={normalDuringGrace}
-              afterGraceCalculations={normalAfterGrace}
-              bgColor="bg-gray-100"
-              titleColor="text-gray-800"
+          {scenarioResults.map(({ scenario, duringGrace, afterGrace, borrowingCost }) => (
+            <div key={scenario.id} className={styles.layout.minWidth}>
+              <CalculationResults
+                title={t('results.title', { name: scenario.name })}
+                description={scenario.description}
+                duringGraceCalculations={duringGrace}
+                afterGraceCalculations={afterGrace}
+                borrowingCost={borrowingCost}
+                bgColor="bg-gray-100"
+                titleColor="text-gray-800"
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Charts */}
+        {sensitivity && !validationErrors.prepayments && (
+          <div className="w-full">
+            <LoanCharts
+              comparison={prepaymentComparison}
+              rateSensitivity={sensitivity.rates}
+              incomeSensitivity={sensitivity.incomeReductions}
+              currentRate={EMICalculationService.getNumericValue(formData.rate)}
+              policy={activePolicy}
+              currency={currency}
             />
           </div>
+        )}
 
-          {/* Income Reduced Scenario Results */}
-          <div className={styles.layout.minWidth}>
-            <CalculationResults
-              title="Income Reduced by 20% Results"
-              duringGraceCalculations={reducedDuringGrace}
-              afterGraceCalculations={reducedAfterGrace}
-              bgColor="bg-gray-100"
-              titleColor="text-gray-800"
-            />
+        {/* Affordability */}
+        {isFormValid && (
+          <div className="w-full">
+            <AffordabilityPanel results={affordabilityResults} currency={currency} />
+          </div>
+        )}
+
+        {/* Offer Comparison */}
+        <div className="w-full">
+          <div className={styles.layout.flexBetween}>
+            <h2 className={styles.heading.section}>{t('calculator.offerComparison')}</h2>
+            <button
+              onClick={() => setIsComparing(!isComparing)}
+              className={styles.button.edit}
+            >
+              {isComparing ? t('calculator.closeComparison') : t('calculator.compareOffers')}
+            </button>
           </div>
+          {isComparing && (
+            <LoanComparison
+              formData={formData}
+              loanTypes={loanTypes}
+              scenarios={scenarios}
+              calculationOptions={calculationOptions}
+              isFormValid={isFormValid}
+              currency={currency}
+            />
+          )}
         </div>
+
+        {/* Repayment Schedule (kept visible while prepayment rows are being corrected) */}
+        {canShowSchedule && (
+          <div className="w-full">
+            <div className="mb-4 max-w-sm">
+              <label className={styles.text.label}>{t('calculator.scheduleScenario')}</label>
+              <select
+                value={scenarioId}
+                onChange={handleScenarioChange}
+                className={styles.input.select}
+              >
+                {scenarios.map((scenario) => (
+                  <option key={scenario.id} value={scenario.id}>
+                    {scenario.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="mb-6">
+              <PrepaymentSimulator
+                prepayments={prepayments}
+                onChange={setPrepayments}
+                comparison={validationErrors.prepayments ? null : prepaymentComparison}
+                currency={currency}
+                error={validationErrors.prepayments}
+              />
+            </div>
+            <AmortizationSchedule schedule={prepaymentComparison.withPrepayments} currency={currency} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,327 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { CurrencyFormat, CurrencySettings, FxRate } from '../types/emi';
+import { CurrencyService } from '../services/currencyService';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatCurrency } from '../utils/formatters';
+
+const SAMPLE_AMOUNT = 1234567.891;
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const EditCurrencies: React.FC = () => {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [settings, setSettings] = useState<CurrencySettings>(CurrencyService.getDefaultSettings());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  // Load currency settings from storage on component mount
+  useEffect(() => {
+    setSettings(CurrencyService.loadSettings());
+    setIsLoading(false);
+  }, []);
+
+  const updateSettings = (changes: Partial<CurrencySettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setNotice('');
+  };
+
+  const handleCurrencyChange = (index: number, changes: Partial<CurrencyFormat>) => {
+    const previousCode = settings.currencies[index].code;
+    const currencies = settings.currencies.map((currency, i) => i === index ? { ...currency, ...changes } : currency);
+    const code = currencies[index].code;
+
+    // Keep references to a renamed code pointing at the same currency
+    const renameCode = (value: string) => value === previousCode ? code : value;
+    updateSettings({
+      currencies,
+      defaultCurrency: renameCode(settings.defaultCurrency),
+      secondaryCurrency: settings.secondaryCurrency === null ? null : renameCode(settings.secondaryCurrency),
+      fxRates: settings.fxRates.map(fxRate => ({ ...fxRate, from: renameCode(fxRate.from), to: renameCode(fxRate.to) }))
+    });
+  };
+
+  const handleAddCurrency = () => {
+    updateSettings({ currencies: [...settings.currencies, { code: '', locale: 'en-US', decimalPlaces: 2 }] });
+  };
+
+  const handleRemoveCurrency = (index: number) => {
+    const { code } = settings.currencies[index];
+    updateSettings({
+      currencies: settings.currencies.filter((_, i) => i !== index),
+      secondaryCurrency: settings.secondaryCurrency === code ? null : settings.secondaryCurrency,
+      fxRates: settings.fxRates.filter(fxRate => fxRate.from !== code && fxRate.to !== code)
+    });
+  };
+
+  const handleFxRateChange = (index: number, changes: Partial<FxRate>) => {
+    updateSettings({ fxRates: settings.fxRates.map((fxRate, i) => i === index ? { ...fxRate, ...changes } : fxRate) });
+  };
+
+  const handleAddFxRate = () => {
+    const [first, second] = settings.currencies;
+    updateSettings({
+      fxRates: [...settings.fxRates, { from: second?.code || '', to: first?.code || '', rate: 1 }]
+    });
+  };
+
+  const handleRemoveFxRate = (index: number) => {
+    updateSettings({ fxRates: settings.fxRates.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    const validationError = CurrencyService.validateSettings(settings, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    CurrencyService.saveSettings(settings);
+    setError('');
+    setNotice(t('currencies.saved'));
+  };
+
+  const handleReset = () => {
+    if (confirm(t('currencies.confirmReset'))) {
+      setSettings(CurrencyService.getDefaultSettings());
+      setError('');
+      setNotice('');
+    }
+  };
+
+  const handleGoBack = () => {
+    router.push('/');
+  };
+
+  const renderSample = (currency: CurrencyFormat) =>
+    CurrencyService.isSupportedCurrency(currency.code, currency.locale) &&
+    Number.isInteger(currency.decimalPlaces) && currency.decimalPlaces >= 0 && currency.decimalPlaces <= 4
+      ? formatCurrency(SAMPLE_AMOUNT, currency)
+      : '–';
+
+  const currencyCodes = settings.currencies.map(currency => currency.code).filter(code => code);
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg text-gray-600">{t('common.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-3xl font-bold text-gray-800">{t('currencies.title')}</h1>
+          <button
+            onClick={handleGoBack}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            {t('common.backToCalculator')}
+          </button>
+        </div>
+        <p className="text-gray-600">{t('currencies.intro')}</p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-md">
+          <p className="text-gray-700 text-sm font-medium">{notice}</p>
+        </div>
+      )}
+
+      {/* Currencies */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('currencies.list', { count: settings.currencies.length })}</h2>
+          <button
+            onClick={handleAddCurrency}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-600"
+          >
+            {t('currencies.addButton')}
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {settings.currencies.map((currency, index) => (
+            <div key={index} className="p-4 bg-white border border-gray-200 rounded-md">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.code')}</label>
+                  <input
+                    type="text"
+                    value={currency.code}
+                    maxLength={3}
+                    onChange={(e) => handleCurrencyChange(index, { code: e.target.value.toUpperCase() })}
+                    placeholder={t('currencies.codePlaceholder')}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.locale')}</label>
+                  <input
+                    type="text"
+                    value={currency.locale}
+                    onChange={(e) => handleCurrencyChange(index, { locale: e.target.value })}
+                    placeholder={t('currencies.localePlaceholder')}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.decimalPlaces')}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="4"
+                    value={currency.decimalPlaces}
+                    onChange={(e) => handleCurrencyChange(index, { decimalPlaces: parseInt(e.target.value, 10) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-gray-600">{renderSample(currency)}</span>
+                  <button
+                    onClick={() => handleRemoveCurrency(index)}
+                    disabled={currency.code === settings.defaultCurrency}
+                    className="flex items-center gap-1 px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-700"
+                  >
+                    🗑
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.defaultCurrency')}</label>
+            <select
+              value={settings.defaultCurrency}
+              onChange={(e) => updateSettings({
+                defaultCurrency: e.target.value,
+                secondaryCurrency: settings.secondaryCurrency === e.target.value ? null : settings.secondaryCurrency
+              })}
+              className={inputClass}
+            >
+              {currencyCodes.map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.secondaryCurrency')}</label>
+            <select
+              value={settings.secondaryCurrency || ''}
+              onChange={(e) => updateSettings({ secondaryCurrency: e.target.value || null })}
+              className={inputClass}
+            >
+              <option value="">{t('currencies.none')}</option>
+              {currencyCodes.filter(code => code !== settings.defaultCurrency).map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Exchange Rates */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-xl font-semibold text-gray-800">{t('currencies.fxRates', { count: settings.fxRates.length })}</h2>
+          <button
+            onClick={handleAddFxRate}
+            disabled={currencyCodes.length < 2}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-600"
+          >
+            {t('currencies.addRateButton')}
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('currencies.fxRatesHint')}</p>
+
+        {settings.fxRates.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">{t('currencies.noRates')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {settings.fxRates.map((fxRate, index) => (
+              <div key={index} className="p-4 bg-white border border-gray-200 rounded-md">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.oneUnitOf')}</label>
+                    <select value={fxRate.from} onChange={(e) => handleFxRateChange(index, { from: e.target.value })} className={inputClass}>
+                      {currencyCodes.map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.equals')}</label>
+                    <input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      value={fxRate.rate === 0 ? '' : fxRate.rate}
+                      onChange={(e) => handleFxRateChange(index, { rate: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('currencies.unitsOf')}</label>
+                    <select value={fxRate.to} onChange={(e) => handleFxRateChange(index, { to: e.target.value })} className={inputClass}>
+                      {currencyCodes.map(code => (
+                        <option key={code} value={code}>{code}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => handleRemoveFxRate(index)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700"
+                    >
+                      {t('common.deleteButton')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
+        >
+          {t('currencies.saveButton')}
+        </button>
+        <button
+          onClick={handleReset}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          {t('currencies.resetButton')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EditCurrencies;
@@ -2,34 +2,66 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { CatalogImportMode, CurrencySettings, EligibilityLimits, LoanType, LoanTypeCatalogDiff, ProductRules } from '../types/emi';
+import { MessageKey } from '../locales/en';
+import { LoanService } from '../services/loanService';
+import { useTranslation } from '../hooks/useTranslation';
+import { CurrencyService } from '../services/currencyService';
+import { downloadJson } from '../utils/exportFiles';
 
-interface LoanType {
+interface EditingLoan {
   id: string;
   name: string;
   interestRate: number;
   tenure: number; 
+  currency: string; // empty for the default currency
+  eligibilityLimits: EligibilityLimits;
+  productRules: ProductRules;
 }
 
-interface EditingLoan {
-  id: string;
-  name: string;
-  interestRate: number;
-  tenure: number; 
+interface RuleField<T> {
+  field: keyof T & string;
+  labelKey: MessageKey;
+  step: string;
 }
 
+const LIMIT_FIELDS: RuleField<EligibilityLimits>[] = [
+  { field: 'maxDTI', labelKey: 'loanTypes.maxDTI', step: '1' },
+  { field: 'maxFOIR', labelKey: 'loanTypes.maxFOIR', step: '1' },
+  { field: 'maxLTV', labelKey: 'loanTypes.maxLTV', step: '1' }
+];
+
+const PRODUCT_RULE_FIELDS: RuleField<ProductRules>[] = [
+  { field: 'minAmount', labelKey: 'loanTypes.minAmount', step: '1000' },
+  { field: 'maxAmount', labelKey: 'loanTypes.maxAmount', step: '1000' },
+  { field: 'minEquityPercentage', labelKey: 'loanTypes.minEquityPercentage', step: '1' },
+  { field: 'maxTenure', labelKey: 'loanTypes.maxTenure', step: '1' },
+  { field: 'minGracePeriod', labelKey: 'loanTypes.minGracePeriod', step: '1' },
+  { field: 'maxGracePeriod', labelKey: 'loanTypes.maxGracePeriod', step: '1' },
+  { field: 'processingFeeRate', labelKey: 'loanTypes.processingFeeRate', step: '0.1' },
+  { field: 'dscrThreshold', labelKey: 'loanTypes.dscrThreshold', step: '0.05' }
+];
+
 const EditLoanTypes: React.FC = () => {
   const router = useRouter();
-  
+  const { t } = useTranslation();
 
   const [loanTypes, setLoanTypes] = useState<LoanType[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [newLoanName, setNewLoanName] = useState('');
   const [newInterestRate, setNewInterestRate] = useState<number>(10.0);
   const [newTenure, setNewTenure] = useState<number>(240); 
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newLimits, setNewLimits] = useState<EligibilityLimits>({});
+  const [newRules, setNewRules] = useState<ProductRules>({});
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(CurrencyService.getDefaultSettings());
   const [editingLoan, setEditingLoan] = useState<EditingLoan | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [error, setError] = useState('');
-
+  const [importedLoanTypes, setImportedLoanTypes] = useState<LoanType[] | null>(null);
+  const [importDiff, setImportDiff] = useState<LoanTypeCatalogDiff | null>(null);
+  const [importMode, setImportMode] = useState<CatalogImportMode>('merge');
+  const [apiToken, setApiToken] = useState('');
 
   const getYearsFromMonths = (months: number): string => {
     return Math.floor(months / 12).toString();
@@ -70,123 +102,90 @@ const EditLoanTypes: React.FC = () => {
     setEditingLoan({ ...editingLoan, tenure: totalMonths });
   };
 
-  // Default loan types with interest rates and tenure
-  const defaultLoanTypes: LoanType[] = [
-    { id: 'home-loan', name: 'Home Loan', interestRate: 8.5, tenure: 240 }, // 20 years
-    { id: 'car-loan', name: 'Car Loan', interestRate: 9.5, tenure: 84 }, // 7 years
-    { id: 'personal-loan', name: 'Personal Loan', interestRate: 12.0, tenure: 60 }, // 5 years
-    { id: 'business-loan', name: 'Business Loan', interestRate: 11.0, tenure: 120 }, // 10 years
-    { id: 'education-loan', name: 'Education Loan', interestRate: 7.5, tenure: 180 } // 15 years
-  ];
-
-
-  const migrateLoanType = (loan: any): LoanType => {
-    if (isValidLoanType(loan)) {
-      return loan;
-    }
-
-
-    if (typeof loan === 'object' && loan.id && loan.name) {
-      const defaultLoan = defaultLoanTypes.find(d => d.id === loan.id);
-      return {
-        id: loan.id,
-        name: loan.name,
-        interestRate: loan.interestRate || defaultLoan?.interestRate || 10.0,
-        tenure: loan.tenure || loan.tenureMonths || defaultLoan?.tenure || 240 // Handle both property names
-      };
-    }
-
-
-    return {
-      id: 'unknown-' + Date.now(),
-      name: 'Unknown Loan',
-      interestRate: 10.0,
-      tenure: 240
-    };
-  };
-
-  // Validate loan type object
-  const isValidLoanType = (loanType: any): loanType is LoanType => {
-    return (
-      typeof loanType === 'object' &&
-      loanType !== null &&
-      typeof loanType.id === 'string' &&
-      typeof loanType.name === 'string' &&
-      typeof loanType.interestRate === 'number' &&
-      typeof loanType.tenure === 'number' &&
-      loanType.id.trim().length > 0 &&
-      loanType.name.trim().length > 0 &&
-      loanType.interestRate > 0 &&
-      loanType.interestRate <= 100 &&
-      loanType.tenure > 0
-    );
-  };
-
-  // Load loan types from localStorage on component mount
+  // Load loan types from storage on component mount and follow changes saved in other tabs
   useEffect(() => {
-    const savedLoanTypes = localStorage.getItem('loanTypes');
-    if (savedLoanTypes) {
-      try {
-        const parsed = JSON.parse(savedLoanTypes);
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          // Migrate legacy data
-          const migratedTypes = parsed.map(loan => migrateLoanType(loan));
-          setLoanTypes(migratedTypes);
-        } else {
-          // If parsed data is invalid, use defaults
-          setLoanTypes(defaultLoanTypes);
-          localStorage.setItem('loanTypes', JSON.stringify(defaultLoanTypes));
-        }
-      } catch (err) {
-        console.error('Error loading saved loan types:', err);
-        // If parsing fails, use defaults
-        setLoanTypes(defaultLoanTypes);
-        localStorage.setItem('loanTypes', JSON.stringify(defaultLoanTypes));
-      }
-    } else {
-      // If no saved data, use defaults
-      setLoanTypes(defaultLoanTypes);
-      localStorage.setItem('loanTypes', JSON.stringify(defaultLoanTypes));
-    }
-    setIsLoading(false);
+    let isMounted = true;
+    setCurrencySettings(CurrencyService.loadSettings());
+    setApiToken(LoanService.getApiToken());
+    LoanService.loadLoanTypes().then((loadedLoanTypes) => {
+      if (!isMounted) return;
+      setLoanTypes(loadedLoanTypes);
+      setIsLoading(false);
+    });
+    const unsubscribe = LoanService.subscribe(setLoanTypes);
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
   }, []);
 
+  // Apply a change and persist it; the calculator picks it up through LoanService
+  const updateLoanTypes = (updatedLoanTypes: LoanType[]) => {
+    const previousLoanTypes = loanTypes;
+    setLoanTypes(updatedLoanTypes);
+    LoanService.saveLoanTypes(updatedLoanTypes).catch((err) => {
+      console.error('Error saving loan types:', err);
+      setLoanTypes(previousLoanTypes);
+      setError(t('loanTypes.errorSaveFailed'));
+    });
+  };
 
-  useEffect(() => {
-    if (!isLoading && loanTypes.length > 0) {
-      localStorage.setItem('loanTypes', JSON.stringify(loanTypes));
-    }
-  }, [loanTypes, isLoading]);
-
-  // Generate a unique ID for new loan types
-  const generateId = (name: string): string => {
-    return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') + '-' + Date.now();
+  const handleApiTokenChange = (token: string) => {
+    setApiToken(token);
+    LoanService.setApiToken(token.trim());
   };
 
   // Validate loan data
-  const validateLoanData = (name: string, interestRate: number, tenure: number, excludeId?: string): boolean => {
+  const validateLoanData = (
+    name: string,
+    interestRate: number,
+    tenure: number,
+    limits: EligibilityLimits,
+    rules: ProductRules,
+    excludeId?: string
+  ): boolean => {
     if (!name.trim()) {
-      setError('Loan name cannot be empty');
+      setError(t('loanTypes.errorNameEmpty'));
       return false;
     }
     
     if (name.trim().length < 2) {
-      setError('Loan name must be at least 2 characters long');
+      setError(t('loanTypes.errorNameShort'));
       return false;
     }
 
     if (loanTypes.some(loan => loan.id !== excludeId && loan.name.toLowerCase() === name.trim().toLowerCase())) {
-      setError('A loan type with this name already exists');
+      setError(t('loanTypes.errorNameTaken'));
       return false;
     }
 
     if (interestRate <= 0 || interestRate > 100) {
-      setError('Interest rate must be between 0.01% and 100%');
+      setError(t('loanTypes.errorRate'));
       return false;
     }
 
     if (tenure <= 0) {
-      setError('Tenure must be greater than 0 months');
+      setError(t('loanTypes.errorTenurePositive'));
+      return false;
+    }
+
+    if (tenure > 1200) {
+      setError(t('loanTypes.errorTenureMax'));
+      return false;
+    }
+
+    if (!LoanService.isValidEligibilityLimits(limits)) {
+      setError(t('loanTypes.errorLimit'));
+      return false;
+    }
+
+    if (rules.maxTenure !== undefined && tenure > rules.maxTenure) {
+      setError(t('loanTypes.errorTenureAboveRule'));
+      return false;
+    }
+
+    if (LoanService.validateProductRules(rules, tenure)) {
+      setError(t('loanTypes.errorRules'));
       return false;
     }
 
@@ -196,19 +195,25 @@ const EditLoanTypes: React.FC = () => {
 
   // Add new loan type
   const handleAddLoan = () => {
-    if (!validateLoanData(newLoanName, newInterestRate, newTenure)) return;
+    if (!validateLoanData(newLoanName, newInterestRate, newTenure, newLimits, newRules)) return;
 
     const newLoan: LoanType = {
-      id: generateId(newLoanName),
+      id: LoanService.generateId(newLoanName),
       name: newLoanName.trim(),
       interestRate: newInterestRate,
-      tenure: newTenure 
+      tenure: newTenure,
+      currency: newCurrency || undefined,
+      eligibilityLimits: { ...newLimits },
+      productRules: { ...newRules }
     };
 
-    setLoanTypes(prev => [...prev, newLoan]);
+    updateLoanTypes([...loanTypes, newLoan]);
     setNewLoanName('');
     setNewInterestRate(10.0);
     setNewTenure(240); 
+    setNewCurrency('');
+    setNewLimits({});
+    setNewRules({});
     setShowAddForm(false);
     setError('');
   };
@@ -216,12 +221,12 @@ const EditLoanTypes: React.FC = () => {
   // Delete loan type
   const handleDeleteLoan = (id: string) => {
     if (loanTypes.length <= 1) {
-      setError('Cannot delete the last loan type');
+      setError(t('loanTypes.errorLastType'));
       return;
     }
 
-    if (confirm('Are you sure you want to delete this loan type?')) {
-      setLoanTypes(prev => prev.filter(loan => loan.id !== id));
+    if (confirm(t('loanTypes.confirmDelete'))) {
+      updateLoanTypes(loanTypes.filter(loan => loan.id !== id));
       setError('');
     }
   };
@@ -232,7 +237,10 @@ const EditLoanTypes: React.FC = () => {
       id: loan.id, 
       name: loan.name,
       interestRate: loan.interestRate,
-      tenure: loan.tenure 
+      tenure: loan.tenure,
+      currency: loan.currency || '',
+      eligibilityLimits: { ...loan.eligibilityLimits },
+      productRules: { ...loan.productRules }
     });
     setError('');
   };
@@ -241,18 +249,21 @@ const EditLoanTypes: React.FC = () => {
   const handleSaveEdit = () => {
     if (!editingLoan) return;
 
-    if (!validateLoanData(editingLoan.name, editingLoan.interestRate, editingLoan.tenure, editingLoan.id)) {
+    if (!validateLoanData(editingLoan.name, editingLoan.interestRate, editingLoan.tenure, editingLoan.eligibilityLimits, editingLoan.productRules, editingLoan.id)) {
       return;
     }
 
-    setLoanTypes(prev => 
-      prev.map(loan => 
+    updateLoanTypes(
+      loanTypes.map(loan => 
         loan.id === editingLoan.id 
           ? { 
               ...loan, 
               name: editingLoan.name.trim(),
               interestRate: editingLoan.interestRate,
-              tenure: editingLoan.tenure 
+              tenure: editingLoan.tenure,
+              currency: editingLoan.currency || undefined,
+              eligibilityLimits: { ...editingLoan.eligibilityLimits },
+              productRules: { ...editingLoan.productRules }
             }
           : loan
       )
@@ -274,9 +285,116 @@ const EditLoanTypes: React.FC = () => {
     setNewLoanName('');
     setNewInterestRate(10.0);
     setNewTenure(240); 
+    setNewCurrency('');
+    setNewLimits({});
+    setNewRules({});
+    setError('');
+  };
+
+  // Export the catalog as a versioned JSON file
+  const handleExportCatalog = () => {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    downloadJson(LoanService.exportCatalog(loanTypes), `loan-types-${date}.json`);
+  };
+
+  // Read a catalog file and show what would change
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { loanTypes: incoming, error: importError } = LoanService.parseCatalog(await file.text());
+    if (!incoming) {
+      setError(importError || t('loanTypes.errorImportFailed'));
+      return;
+    }
+
+    setImportedLoanTypes(incoming);
+    setImportDiff(LoanService.diffCatalog(loanTypes, incoming));
+    setImportMode('merge');
+    setEditingLoan(null);
     setError('');
   };
 
+  const handleApplyImport = () => {
+    if (!importedLoanTypes) return;
+
+    updateLoanTypes(LoanService.applyCatalog(loanTypes, importedLoanTypes, importMode));
+    handleCancelImport();
+  };
+
+  const handleCancelImport = () => {
+    setImportedLoanTypes(null);
+    setImportDiff(null);
+    setError('');
+  };
+
+  // Label for a loan type's currency; codes missing from the currency settings fall back to the default
+  const getCurrencyLabel = (code?: string) => {
+    const defaultCode = CurrencyService.findCurrency(currencySettings).code;
+    if (!code) return t('loanTypes.defaultCurrency', { code: defaultCode });
+    return currencySettings.currencies.some(currency => currency.code === code)
+      ? code
+      : t('loanTypes.unknownCurrency', { code, fallback: defaultCode });
+  };
+
+  const renderCurrencySelect = (value: string, onChange: (code: string) => void, inputClass: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{t('loanTypes.currency')}</label>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+        <option value="">{getCurrencyLabel()}</option>
+        {currencySettings.currencies.map(currency => (
+          <option key={currency.code} value={currency.code}>{currency.code}</option>
+        ))}
+        {value && !currencySettings.currencies.some(currency => currency.code === value) && (
+          <option value={value}>{getCurrencyLabel(value)}</option>
+        )}
+      </select>
+    </div>
+  );
+
+  // A blank rule or limit is not enforced, so it is left out rather than stored as 0
+  const renderRuleInputs = <T extends { [K in keyof T]?: number },>(
+    heading: MessageKey,
+    hint: MessageKey,
+    fields: RuleField<T>[],
+    values: T,
+    onChange: (values: T) => void,
+    inputClass: string
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{t(heading)}</label>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {fields.map(({ field, labelKey, step }) => (
+          <div key={field}>
+            <label className="block text-xs text-gray-600 mb-1">{t(labelKey)}</label>
+            <input
+              type="number"
+              step={step}
+              min="0"
+              value={values[field] ?? ''}
+              onChange={(e) => onChange({
+                ...values,
+                [field]: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0
+              })}
+              placeholder={t('loanTypes.noLimit')}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">{t(hint)}</p>
+    </div>
+  );
+
+  const getRulesLabel = <T extends { [K in keyof T]?: number },>(fields: RuleField<T>[], values: T | undefined, format: MessageKey) => {
+    const parts = fields.flatMap(({ field, labelKey }) => {
+      const value = values?.[field];
+      return value === undefined ? [] : [t(format, { label: t(labelKey), value })];
+    });
+    return parts.length > 0 ? parts.join(', ') : t('loanTypes.noLimit');
+  };
+
   // Go back to main calculator
   const handleGoBack = () => {
     router.push('/');
@@ -287,7 +405,7 @@ const EditLoanTypes: React.FC = () => {
     return (
       <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
         <div className="flex items-center justify-center h-64">
-          <div className="text-lg text-gray-600">Loading...</div>
+          <div className="text-lg text-gray-600">{t('common.loading')}</div>
         </div>
       </div>
     );
@@ -298,17 +416,32 @@ const EditLoanTypes: React.FC = () => {
       {/* Header */}
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
-          <h1 className="text-3xl font-bold text-gray-800">Manage Loan Types</h1>
+          <h1 className="text-3xl font-bold text-gray-800">{t('loanTypes.title')}</h1>
           <button
             onClick={handleGoBack}
             className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
           >
-            ← Back to Calculator
+            {t('common.backToCalculator')}
           </button>
         </div>
-        <p className="text-gray-600">Add, edit, or remove loan types with their default interest rates and tenure for your EMI calculator.</p>
+        <p className="text-gray-600">{t('loanTypes.intro')}</p>
       </div>
 
+      {/* Server catalog saves need the API token */}
+      {LoanService.usesServerStorage() && (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('loanTypes.apiToken')}</label>
+          <input
+            type="password"
+            autoComplete="off"
+            value={apiToken}
+            onChange={(e) => handleApiTokenChange(e.target.value)}
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">{t('loanTypes.apiTokenHint')}</p>
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
@@ -319,13 +452,13 @@ const EditLoanTypes: React.FC = () => {
       {/* Add New Loan Type Section */}
       <div className="mb-8 bg-gray-50 p-6 rounded-lg">
         <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-semibold text-gray-800">Add New Loan Type</h2>
+          <h2 className="text-xl font-semibold text-gray-800">{t('loanTypes.addSection')}</h2>
           {!showAddForm && (
             <button
               onClick={() => setShowAddForm(true)}
               className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-600"
             >
-              + Add Loan Type
+              {t('loanTypes.addButton')}
             </button>
           )}
         </div>
@@ -335,19 +468,19 @@ const EditLoanTypes: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Loan Name *
+                  {t('loanTypes.name')}
                 </label>
                 <input
                   type="text"
                   value={newLoanName}
                   onChange={(e) => setNewLoanName(e.target.value)}
-                  placeholder="e.g., Vehicle Loan"
+                  placeholder={t('loanTypes.namePlaceholder')}
                   className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Interest Rate (% per annum) *
+                  {t('loanTypes.annualRate')}
                 </label>
                 <input
                   type="number"
@@ -356,7 +489,7 @@ const EditLoanTypes: React.FC = () => {
                   max="100"
                   value={newInterestRate === 0 ? '' : newInterestRate}
                   onChange={(e) => setNewInterestRate(e.target.value === '' ? 0 : parseFloat(e.target.value) || 0)}
-                  placeholder="e.g., 8.5"
+                  placeholder={t('loanTypes.ratePlaceholder')}
                   className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 />
               </div>
@@ -364,50 +497,176 @@ const EditLoanTypes: React.FC = () => {
             
             {/* Tenure Input Section */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">Default Tenure *</label>                
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t('loanTypes.tenure')}</label>
               <div className="flex gap-3">
                 <div className="flex-1">
-                  <label className="block text-xs text-gray-600 mb-1">Years</label>
+                  <label className="block text-xs text-gray-600 mb-1">{t('common.years')}</label>
                   <input
                     type="number"
                     value={getYearsFromMonths(newTenure)}
                     onChange={(e) => handleNewTenureYearsChange(e.target.value)}
                     className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Years"
+                    placeholder={t('common.years')}
                     min="0"
                   />
                 </div>
                 
                 <div className="flex-1">
-                  <label className="block text-xs text-gray-600 mb-1">Months</label>
+                  <label className="block text-xs text-gray-600 mb-1">{t('common.months')}</label>
                   <input
                     type="number"
                     value={getMonthsRemainder(newTenure)}
                     onChange={(e) => handleNewTenureMonthsChange(e.target.value)}
                     className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Months"
+                    placeholder={t('common.months')}
                     min="0"
                     max="11"
                   />
                 </div>                  
               </div>
               <p className="text-xs text-gray-500 mt-1">
-                Total: {newTenure} months
+                {t('common.totalMonths', { months: newTenure })}
               </p>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {renderCurrencySelect(
+                newCurrency,
+                setNewCurrency,
+                'w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+              )}
+            </div>
+
+            {renderRuleInputs(
+              'loanTypes.eligibilityLimits',
+              'loanTypes.eligibilityLimitsHint',
+              LIMIT_FIELDS,
+              newLimits,
+              setNewLimits,
+              'w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+            )}
+
+            {renderRuleInputs(
+              'loanTypes.productRules',
+              'loanTypes.productRulesHint',
+              PRODUCT_RULE_FIELDS,
+              newRules,
+              setNewRules,
+              'w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+            )}
+
             <div className="flex items-center gap-3">
               <button
                 onClick={handleAddLoan}
                 className="flex items-center gap-2 px-4 py-3 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
               >
-                ✓ Save Loan Type
+                {t('loanTypes.saveButton')}
               </button>
               <button
                 onClick={handleCancelAdd}
                 className="flex items-center gap-2 px-4 py-3 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
               >
-                ✕ Cancel
+                {t('common.cancelButton')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Import / Export Section */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('loanTypes.importExport')}</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleExportCatalog}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+              {t('loanTypes.exportButton')}
+            </button>
+            <label className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 cursor-pointer">
+              {t('loanTypes.importButton')}
+              <input type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+            </label>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">{t('loanTypes.importIntro')}</p>
+
+        {importDiff && (
+          <div className="mt-4 p-4 bg-white border border-gray-200 rounded-md space-y-4">
+            <h3 className="font-semibold text-gray-800 text-lg">{t('loanTypes.importPreview')}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="font-medium text-green-700 mb-1">{t('loanTypes.added', { count: importDiff.added.length })}</p>
+                {importDiff.added.map(loan => (
+                  <p key={loan.id} className="text-gray-600">{t('loanTypes.addedLine', { name: loan.name, rate: loan.interestRate, tenure: loan.tenure })}</p>
+                ))}
+              </div>
+              <div>
+                <p className="font-medium text-yellow-700 mb-1">{t('loanTypes.changed', { count: importDiff.changed.length })}</p>
+                {importDiff.changed.map(({ before, after }) => (
+                  <p key={before.id} className="text-gray-600">
+                    {t('loanTypes.changedLine', {
+                      name: before.name,
+                      beforeRate: before.interestRate,
+                      afterRate: after.interestRate,
+                      beforeTenure: before.tenure,
+                      afterTenure: after.tenure
+                    })}
+                    {before.currency !== after.currency ? `, ${getCurrencyLabel(before.currency)} → ${getCurrencyLabel(after.currency)}` : ''}
+                    {!LoanService.eligibilityLimitsEqual(before.eligibilityLimits, after.eligibilityLimits)
+                      ? `, ${getRulesLabel(LIMIT_FIELDS, before.eligibilityLimits, 'loanTypes.limitValue')} → ${getRulesLabel(LIMIT_FIELDS, after.eligibilityLimits, 'loanTypes.limitValue')}`
+                      : ''}
+                    {!LoanService.productRulesEqual(before.productRules, after.productRules)
+                      ? `, ${getRulesLabel(PRODUCT_RULE_FIELDS, before.productRules, 'loanTypes.ruleValue')} → ${getRulesLabel(PRODUCT_RULE_FIELDS, after.productRules, 'loanTypes.ruleValue')}`
+                      : ''}
+                    {before.name !== after.name ? t('loanTypes.renamed', { name: after.name }) : ''}
+                  </p>
+                ))}
+              </div>
+              <div>
+                <p className="font-medium text-red-700 mb-1">
+                  {t('loanTypes.removed', { count: importDiff.removed.length })}
+                  {importMode === 'merge' && importDiff.removed.length > 0 ? t('loanTypes.keptWhenMerging') : ''}
+                </p>
+                {importDiff.removed.map(loan => (
+                  <p key={loan.id} className="text-gray-600">{loan.name}</p>
+                ))}
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">{t('loanTypes.unchanged', { count: importDiff.unchangedCount })}</p>
+
+            <div className="flex items-center gap-6 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={importMode === 'merge'}
+                  onChange={() => setImportMode('merge')}
+                />
+                {t('loanTypes.mergeOption')}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={importMode === 'replace'}
+                  onChange={() => setImportMode('replace')}
+                />
+                {t('loanTypes.replaceOption')}
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleApplyImport}
+                className="flex items-center gap-1 px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
+              >
+                {t('loanTypes.applyImportButton')}
+              </button>
+              <button
+                onClick={handleCancelImport}
+                className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+              >
+                {t('common.cancelButton')}
               </button>
             </div>
           </div>
@@ -417,17 +676,17 @@ const EditLoanTypes: React.FC = () => {
       {/* Existing Loan Types */}
       <div className="bg-gray-50 p-6 rounded-lg">
         <h2 className="text-xl font-semibold text-gray-800 mb-4">
-          Existing Loan Types ({loanTypes.length})
+          {t('loanTypes.existing', { count: loanTypes.length })}
         </h2>
 
         {loanTypes.length === 0 ? (
           <div className="text-center py-8">
-            <p className="text-gray-500 mb-4">No loan types available</p>
+            <p className="text-gray-500 mb-4">{t('loanTypes.empty')}</p>
             <button
               onClick={() => setShowAddForm(true)}
               className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600 mx-auto"
             >
-              + Add First Loan Type
+              {t('loanTypes.addFirstButton')}
             </button>
           </div>
         ) : (
@@ -443,7 +702,7 @@ const EditLoanTypes: React.FC = () => {
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Loan Name *
+                          {t('loanTypes.name')}
                         </label>
                         <input
                           type="text"
@@ -454,7 +713,7 @@ const EditLoanTypes: React.FC = () => {
                       </div>
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Interest Rate (%) *
+                          {t('calculator.interestRate')}
                         </label>
                         <input
                           type="number"
@@ -470,50 +729,76 @@ const EditLoanTypes: React.FC = () => {
                     
                     {/* Edit Tenure Section */}
                     <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">Default Tenure *</label>                
+                      <label className="block text-sm font-medium text-gray-700 mb-2">{t('loanTypes.tenure')}</label>
                       <div className="flex gap-3">
                         <div className="flex-1">
-                          <label className="block text-xs text-gray-600 mb-1">Years</label>
+                          <label className="block text-xs text-gray-600 mb-1">{t('common.years')}</label>
                           <input
                             type="number"
                             value={getYearsFromMonths(editingLoan.tenure)}
                             onChange={(e) => handleEditTenureYearsChange(e.target.value)}
                             className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                            placeholder="Years"
+                            placeholder={t('common.years')}
                             min="0"
                           />
                         </div>
                         
                         <div className="flex-1">
-                          <label className="block text-xs text-gray-600 mb-1">Months</label>
+                          <label className="block text-xs text-gray-600 mb-1">{t('common.months')}</label>
                           <input
                             type="number"
                             value={getMonthsRemainder(editingLoan.tenure)}
                             onChange={(e) => handleEditTenureMonthsChange(e.target.value)}
                             className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                            placeholder="Months"
+                            placeholder={t('common.months')}
                             min="0"
                             max="11"
                           />
                         </div>                  
                       </div>
                       <p className="text-xs text-gray-500 mt-1">
-                        Total: {editingLoan.tenure} months
+                        {t('common.totalMonths', { months: editingLoan.tenure })}
                       </p>
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {renderCurrencySelect(
+                        editingLoan.currency,
+                        (code) => setEditingLoan({ ...editingLoan, currency: code }),
+                        'w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+                      )}
+                    </div>
+
+                    {renderRuleInputs(
+                      'loanTypes.eligibilityLimits',
+                      'loanTypes.eligibilityLimitsHint',
+                      LIMIT_FIELDS,
+                      editingLoan.eligibilityLimits,
+                      (limits) => setEditingLoan({ ...editingLoan, eligibilityLimits: limits }),
+                      'w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+                    )}
+
+                    {renderRuleInputs(
+                      'loanTypes.productRules',
+                      'loanTypes.productRulesHint',
+                      PRODUCT_RULE_FIELDS,
+                      editingLoan.productRules,
+                      (rules) => setEditingLoan({ ...editingLoan, productRules: rules }),
+                      'w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+                    )}
+
                     <div className="flex items-center gap-2">
                       <button
                         onClick={handleSaveEdit}
                         className="flex items-center gap-1 px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
                       >
-                        ✓ Save Changes
+                        {t('loanTypes.saveChangesButton')}
                       </button>
                       <button
                         onClick={handleCancelEdit}
                         className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
                       >
-                        ✕ Cancel
+                        {t('common.cancelButton')}
                       </button>
                     </div>
                   </div>
@@ -522,31 +807,44 @@ const EditLoanTypes: React.FC = () => {
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
                       <h3 className="font-semibold text-gray-800 text-lg">{loan.name}</h3>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2 text-sm text-gray-600">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-2 text-sm text-gray-600">
                         <div>
-                          <span className="font-medium">Interest Rate:</span> {loan.interestRate}% p.a.
+                          <span className="font-medium">{t('loanTypes.rateLabel')}</span> {t('loanTypes.rateValue', { rate: loan.interestRate })}
                         </div>
                         <div>
-                          <span className="font-medium">Default Tenure:</span> {Math.floor(loan.tenure / 12)}y {loan.tenure % 12}m ({loan.tenure} months)
+                          <span className="font-medium">{t('loanTypes.tenureLabel')}</span> {t('loanTypes.tenureValue', {
+                            years: Math.floor(loan.tenure / 12),
+                            months: loan.tenure % 12,
+                            total: loan.tenure
+                          })}
                         </div>
                         <div>
-                          <span className="font-medium">ID:</span> {loan.id}
+                          <span className="font-medium">{t('loanTypes.currencyLabel')}</span> {getCurrencyLabel(loan.currency)}
                         </div>
+                        <div>
+                          <span className="font-medium">{t('loanTypes.idLabel')}</span> {loan.id}
+                        </div>
+                      </div>
+                      <div className="mt-2 text-sm text-gray-600">
+                        <span className="font-medium">{t('loanTypes.limitsLabel')}</span> {getRulesLabel(LIMIT_FIELDS, loan.eligibilityLimits, 'loanTypes.limitValue')}
+                      </div>
+                      <div className="mt-1 text-sm text-gray-600">
+                        <span className="font-medium">{t('loanTypes.rulesLabel')}</span> {getRulesLabel(PRODUCT_RULE_FIELDS, loan.productRules, 'loanTypes.ruleValue')}
                       </div>
                     </div>
-                    <div className="flex items-center gap-2 ml-4">
+                    <div className="flex items-center gap-2 ms-4">
                       <button
                         onClick={() => handleStartEdit(loan)}
                         className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
                       >
-                        ✎ Edit
+                        {t('common.editButton')}
                       </button>
                       <button
                         onClick={() => handleDeleteLoan(loan.id)}
                         className="flex items-center gap-1 px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700"
                         disabled={loanTypes.length <= 1}
                       >
-                        🗑 Delete
+                        {t('common.deleteButton')}
                       </button>
                     </div>
                   </div>
@@ -0,0 +1,301 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Scenario, UnderwritingPolicy } from '../types/emi';
+import { MessageKey } from '../locales/en';
+import { ScenarioService } from '../services/scenarioService';
+import { PolicyService } from '../services/policyService';
+import { useTranslation } from '../hooks/useTranslation';
+
+type ScenarioNumericField = Exclude<keyof Scenario, 'id' | 'name' | 'description' | 'isBuiltIn'>;
+
+// Editable stress parameters
+const SCENARIO_FIELDS: { field: ScenarioNumericField; labelKey: MessageKey; step: string; hintKey: MessageKey }[] = [
+  { field: 'salaryMultiplier', labelKey: 'scenarios.salaryMultiplier', step: '0.05', hintKey: 'scenarios.hintIncomeDrop' },
+  { field: 'rentMultiplier', labelKey: 'scenarios.rentMultiplier', step: '0.05', hintKey: 'scenarios.hintIncomeDrop' },
+  { field: 'otherMultiplier', labelKey: 'scenarios.otherMultiplier', step: '0.05', hintKey: 'scenarios.hintUnchanged' },
+  { field: 'projectIncomeMultiplier', labelKey: 'scenarios.projectIncomeMultiplier', step: '0.05', hintKey: 'scenarios.hintUnchanged' },
+  { field: 'projectIncomeDelayMonths', labelKey: 'scenarios.projectIncomeDelayMonths', step: '1', hintKey: 'scenarios.hintDelay' },
+  { field: 'expenditureMultiplier', labelKey: 'scenarios.expenditureMultiplier', step: '0.05', hintKey: 'scenarios.hintExpenditure' },
+  { field: 'stressExpenditureRate', labelKey: 'scenarios.stressExpenditureRate', step: '1', hintKey: 'scenarios.hintStress' },
+  { field: 'rateAdjustment', labelKey: 'scenarios.rateAdjustment', step: '0.25', hintKey: 'scenarios.hintRateShock' }
+];
+
+const EditScenarios: React.FC = () => {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [policy, setPolicy] = useState<UnderwritingPolicy>(PolicyService.getDefaultPolicy());
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingScenario, setEditingScenario] = useState<Scenario | null>(null);
+  const [error, setError] = useState('');
+
+  // Load scenarios from storage on component mount
+  useEffect(() => {
+    setPolicy(PolicyService.findPolicy(PolicyService.loadPolicies(), PolicyService.loadActivePolicyId()));
+    setScenarios(ScenarioService.loadCustomScenarios());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading) {
+      ScenarioService.saveCustomScenarios(scenarios);
+    }
+  }, [scenarios, isLoading]);
+
+  const builtInScenarios = useMemo(() => ScenarioService.getBuiltInScenarios(policy, t), [policy, t]);
+
+  const handleStartAdd = () => {
+    setEditingScenario(ScenarioService.createBlankScenario());
+    setError('');
+  };
+
+  const handleStartEdit = (scenario: Scenario) => {
+    setEditingScenario({ ...scenario });
+    setError('');
+  };
+
+  const handleFieldChange = (field: ScenarioNumericField, value: string) => {
+    if (!editingScenario) return;
+    setEditingScenario({ ...editingScenario, [field]: value === '' ? 0 : parseFloat(value) || 0 });
+  };
+
+  const handleSave = () => {
+    if (!editingScenario) return;
+
+    const validationError = ScenarioService.validateScenario(editingScenario, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const name = editingScenario.name.trim();
+    const allScenarios = [...builtInScenarios, ...scenarios];
+    if (allScenarios.some(scenario => scenario.id !== editingScenario.id && scenario.name.toLowerCase() === name.toLowerCase())) {
+      setError(t('scenarios.errorNameTaken'));
+      return;
+    }
+
+    const saved: Scenario = {
+      ...editingScenario,
+      id: editingScenario.id || ScenarioService.generateId(name),
+      name,
+      description: editingScenario.description.trim()
+    };
+
+    setScenarios(prev => editingScenario.id
+      ? prev.map(scenario => scenario.id === saved.id ? saved : scenario)
+      : [...prev, saved]
+    );
+    setEditingScenario(null);
+    setError('');
+  };
+
+  const handleCancel = () => {
+    setEditingScenario(null);
+    setError('');
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm(t('scenarios.confirmDelete'))) {
+      setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+      setError('');
+    }
+  };
+
+  const handleGoBack = () => {
+    router.push('/');
+  };
+
+  const renderSummary = (scenario: Scenario) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+      {SCENARIO_FIELDS.map(({ field, labelKey }) => (
+        <div key={field}>
+          <span className="font-medium">{t(labelKey)}:</span> {scenario[field]}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderEditor = (scenario: Scenario) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('scenarios.name')}</label>
+          <input
+            type="text"
+            value={scenario.name}
+            onChange={(e) => setEditingScenario({ ...scenario, name: e.target.value })}
+            placeholder={t('scenarios.namePlaceholder')}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('scenarios.description')}</label>
+          <input
+            type="text"
+            value={scenario.description}
+            onChange={(e) => setEditingScenario({ ...scenario, description: e.target.value })}
+            placeholder={t('scenarios.descriptionPlaceholder')}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {SCENARIO_FIELDS.map(({ field, labelKey, step, hintKey }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t(labelKey)}</label>
+            <input
+              type="number"
+              step={step}
+              value={scenario[field]}
+              onChange={(e) => handleFieldChange(field, e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">{t(hintKey)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
+        >
+          {t('scenarios.saveButton')}
+        </button>
+        <button
+          onClick={handleCancel}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          {t('common.cancelButton')}
+        </button>
+      </div>
+    </div>
+  );
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg text-gray-600">{t('common.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-3xl font-bold text-gray-800">{t('scenarios.title')}</h1>
+          <button
+            onClick={handleGoBack}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            {t('common.backToCalculator')}
+          </button>
+        </div>
+        <p className="text-gray-600">{t('scenarios.intro')}</p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      {/* Add New Scenario Section */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('scenarios.addSection')}</h2>
+          {!(editingScenario && !editingScenario.id) && (
+            <button
+              onClick={handleStartAdd}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            >
+              {t('scenarios.addButton')}
+            </button>
+          )}
+        </div>
+
+        {editingScenario && !editingScenario.id && renderEditor(editingScenario)}
+      </div>
+
+      {/* Built-in Scenarios */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <h2 className="text-xl font-semibold text-gray-800 mb-1">{t('scenarios.builtIn')}</h2>
+        <p className="text-sm text-gray-600 mb-4">{t('scenarios.builtInHint')}</p>
+        <div className="space-y-3">
+          {builtInScenarios.map((scenario) => (
+            <div key={scenario.id} className="p-4 bg-white border border-gray-200 rounded-md">
+              <h3 className="font-semibold text-gray-800 text-lg">{scenario.name}</h3>
+              <p className="text-sm text-gray-500">{scenario.description}</p>
+              {renderSummary(scenario)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Custom Scenarios */}
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">
+          {t('scenarios.custom', { count: scenarios.length })}
+        </h2>
+
+        {scenarios.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">{t('scenarios.empty')}</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {scenarios.map((scenario) => (
+              <div
+                key={scenario.id}
+                className="p-4 bg-white border border-gray-200 rounded-md hover:shadow-sm transition-shadow"
+              >
+                {editingScenario?.id === scenario.id ? (
+                  // Edit mode
+                  renderEditor(editingScenario)
+                ) : (
+                  // Display mode
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-800 text-lg">{scenario.name}</h3>
+                      {scenario.description && (
+                        <p className="text-sm text-gray-500">{scenario.description}</p>
+                      )}
+                      {renderSummary(scenario)}
+                    </div>
+                    <div className="flex items-center gap-2 ms-4">
+                      <button
+                        onClick={() => handleStartEdit(scenario)}
+                        className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                      >
+                        {t('common.editButton')}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(scenario.id)}
+                        className="flex items-center gap-1 px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700"
+                      >
+                        {t('common.deleteButton')}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EditScenarios;
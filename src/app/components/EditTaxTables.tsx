@@ -0,0 +1,402 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { CurrencyFormat, TaxTable } from '../types/emi';
+import { TaxTableService } from '../services/taxTableService';
+import { CurrencyService } from '../services/currencyService';
+import { LoanService } from '../services/loanService';
+import { Translate } from '../services/localeService';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatCurrency } from '../utils/formatters';
+
+// Bracket inputs are edited as strings; an empty upper limit means unbounded
+interface BracketDraft {
+  min: string;
+  max: string;
+  rate: string;
+}
+
+interface EditingTaxTable {
+  id: string;
+  name: string;
+  effectiveFrom: string;
+  brackets: BracketDraft[];
+}
+
+const toDraft = (table: TaxTable): EditingTaxTable => ({
+  id: table.id,
+  name: table.name,
+  effectiveFrom: table.effectiveFrom,
+  brackets: table.brackets.map(bracket => ({
+    min: bracket.min.toString(),
+    max: bracket.max === Infinity ? '' : bracket.max.toString(),
+    rate: bracket.rate.toString()
+  }))
+});
+
+const fromDraft = (draft: EditingTaxTable): TaxTable => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  effectiveFrom: draft.effectiveFrom,
+  brackets: draft.brackets.map(bracket => ({
+    min: parseFloat(bracket.min) || 0,
+    max: bracket.max.trim() === '' ? Infinity : parseFloat(bracket.max) || 0,
+    rate: parseFloat(bracket.rate) || 0
+  }))
+});
+
+const formatBracketRange = (min: number, max: number, currency: CurrencyFormat, t: Translate): string => {
+  if (max === Infinity) return t('taxTables.bracketAbove', { min: formatCurrency(min, currency) });
+  if (min === 0) return t('taxTables.bracketUpTo', { max: formatCurrency(max, currency) });
+  return t('taxTables.bracketRange', { min: formatCurrency(min, currency), max: formatCurrency(max, currency) });
+};
+
+const EditTaxTables: React.FC = () => {
+  const router = useRouter();
+  const { t, formatDate } = useTranslation();
+
+  const [taxTables, setTaxTables] = useState<TaxTable[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingTable, setEditingTable] = useState<EditingTaxTable | null>(null);
+  const [error, setError] = useState('');
+  const [apiToken, setApiToken] = useState('');
+  // Thresholds are always rufiyaa amounts, whatever the default currency
+  const [currency, setCurrency] = useState<CurrencyFormat>(
+    () => CurrencyService.findCurrency(CurrencyService.getDefaultSettings(), TaxTableService.CURRENCY)
+  );
+
+  // Load tax tables from storage on component mount
+  useEffect(() => {
+    let isMounted = true;
+    const taxCurrency = CurrencyService.loadSettings().currencies.find(listed => listed.code === TaxTableService.CURRENCY);
+    if (taxCurrency) setCurrency(taxCurrency);
+    setApiToken(LoanService.getApiToken());
+    TaxTableService.loadTaxTables().then((loadedTaxTables) => {
+      if (!isMounted) return;
+      setTaxTables(loadedTaxTables);
+      setIsLoading(false);
+    });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // Apply a change and persist it, restoring the previous tables if the store refuses it
+  const updateTaxTables = (updatedTaxTables: TaxTable[]) => {
+    const previousTaxTables = taxTables;
+    setTaxTables(updatedTaxTables);
+    TaxTableService.saveTaxTables(updatedTaxTables).catch((err) => {
+      console.error('Error saving tax tables:', err);
+      setTaxTables(previousTaxTables);
+      setError(t('taxTables.errorSaveFailed'));
+    });
+  };
+
+  // Server saves use the same token as the loan type catalog
+  const handleApiTokenChange = (token: string) => {
+    setApiToken(token);
+    LoanService.setApiToken(token.trim());
+  };
+
+  const effectiveTable = taxTables.length > 0 ? TaxTableService.getEffectiveTable(taxTables, new Date()) : null;
+  const sortedTables = [...taxTables].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  // New tables start as a copy of the table currently in force
+  const handleStartAdd = () => {
+    const template = effectiveTable || TaxTableService.getDefaultTaxTables()[0];
+    setEditingTable({ ...toDraft(template), id: '', name: '', effectiveFrom: '' });
+    setError('');
+  };
+
+  const handleStartEdit = (table: TaxTable) => {
+    setEditingTable(toDraft(table));
+    setError('');
+  };
+
+  const updateBracket = (index: number, field: keyof BracketDraft, value: string) => {
+    if (!editingTable) return;
+    const brackets = editingTable.brackets.map((bracket, i) => i === index ? { ...bracket, [field]: value } : bracket);
+    setEditingTable({ ...editingTable, brackets });
+  };
+
+  // Insert a bracket before the unbounded last one, starting where the previous bracket ends
+  const handleAddBracket = () => {
+    if (!editingTable) return;
+    const brackets = [...editingTable.brackets];
+    const last = brackets[brackets.length - 1];
+    const start = last ? last.min : '0';
+    brackets.splice(Math.max(brackets.length - 1, 0), 0, { min: start, max: '', rate: '0' });
+    setEditingTable({ ...editingTable, brackets });
+  };
+
+  const handleRemoveBracket = (index: number) => {
+    if (!editingTable) return;
+    setEditingTable({ ...editingTable, brackets: editingTable.brackets.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    if (!editingTable) return;
+
+    const isNew = editingTable.id === '';
+    const table = fromDraft(isNew ? { ...editingTable, id: TaxTableService.generateId(editingTable.name || 'tax-table') } : editingTable);
+
+    const validationError = TaxTableService.validateTaxTable(table, taxTables, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    updateTaxTables(isNew ? [...taxTables, table] : taxTables.map(existing => existing.id === table.id ? table : existing));
+    setEditingTable(null);
+    setError('');
+  };
+
+  const handleCancel = () => {
+    setEditingTable(null);
+    setError('');
+  };
+
+  const handleDelete = (id: string) => {
+    if (taxTables.length <= 1) {
+      setError(t('taxTables.errorLastTable'));
+      return;
+    }
+
+    if (confirm(t('taxTables.confirmDelete'))) {
+      updateTaxTables(taxTables.filter(table => table.id !== id));
+      setError('');
+    }
+  };
+
+  const handleGoBack = () => {
+    router.push('/');
+  };
+
+  const renderEditor = (draft: EditingTaxTable) => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('taxTables.name')}</label>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setEditingTable({ ...draft, name: e.target.value })}
+            placeholder={t('taxTables.namePlaceholder')}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('taxTables.effectiveFromLabel')}</label>
+          <input
+            type="date"
+            value={draft.effectiveFrom}
+            onChange={(e) => setEditingTable({ ...draft, effectiveFrom: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">{t('taxTables.brackets', { code: currency.code })}</label>
+        <div className="space-y-2">
+          {draft.brackets.map((bracket, index) => (
+            <div key={index} className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-xs text-gray-600 mb-1">{t('taxTables.from')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={bracket.min}
+                  onChange={(e) => updateBracket(index, 'min', e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-xs text-gray-600 mb-1">{t('taxTables.to')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={bracket.max}
+                  onChange={(e) => updateBracket(index, 'max', e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="w-28">
+                <label className="block text-xs text-gray-600 mb-1">{t('taxTables.rate')}</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  value={bracket.rate}
+                  onChange={(e) => updateBracket(index, 'rate', e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <button
+                onClick={() => handleRemoveBracket(index)}
+                aria-label={t('taxTables.removeBracket')}
+                title={t('taxTables.removeBracket')}
+                className="px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                disabled={draft.brackets.length <= 1}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={handleAddBracket}
+          className="mt-2 px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          {t('taxTables.addBracket')}
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
+        >
+          {t('taxTables.saveButton')}
+        </button>
+        <button
+          onClick={handleCancel}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          {t('common.cancelButton')}
+        </button>
+      </div>
+    </div>
+  );
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg text-gray-600">{t('common.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-3xl font-bold text-gray-800">{t('taxTables.title')}</h1>
+          <button
+            onClick={handleGoBack}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            {t('common.backToCalculator')}
+          </button>
+        </div>
+        <p className="text-gray-600">{t('taxTables.intro')}</p>
+      </div>
+
+      {/* Server saves need the API token */}
+      {LoanService.usesServerStorage() && (
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('taxTables.apiToken')}</label>
+          <input
+            type="password"
+            autoComplete="off"
+            value={apiToken}
+            onChange={(e) => handleApiTokenChange(e.target.value)}
+            className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            {t('taxTables.apiTokenHint')}
+          </p>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      {/* Add New Tax Table Section */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('taxTables.addSection')}</h2>
+          {!(editingTable && editingTable.id === '') && (
+            <button
+              onClick={handleStartAdd}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            >
+              {t('taxTables.addButton')}
+            </button>
+          )}
+        </div>
+
+        {editingTable && editingTable.id === '' && renderEditor(editingTable)}
+      </div>
+
+      {/* Existing Tax Tables */}
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">
+          {t('taxTables.existing', { count: taxTables.length })}
+        </h2>
+
+        <div className="space-y-3">
+          {sortedTables.map((table) => (
+            <div
+              key={table.id}
+              className="p-4 bg-white border border-gray-200 rounded-md hover:shadow-sm transition-shadow"
+            >
+              {editingTable?.id === table.id ? (
+                // Edit mode
+                renderEditor(editingTable)
+              ) : (
+                // Display mode
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-800 text-lg">
+                      {table.name}
+                      {effectiveTable?.id === table.id && (
+                        <span className="ms-2 text-xs font-medium text-green-700">{t('taxTables.inForce')}</span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-gray-600">{t('taxTables.effectiveFrom', { date: formatDate(table.effectiveFrom) })}</p>
+                    <div className="mt-2 space-y-1 text-sm text-gray-600">
+                      {table.brackets.map((bracket, index) => (
+                        <div key={index} className="flex justify-between max-w-sm">
+                          <span>{formatBracketRange(bracket.min, bracket.max, currency, t)}</span>
+                          <span className="font-medium">{bracket.rate}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 ms-4">
+                    <button
+                      onClick={() => handleStartEdit(table)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      {t('common.editButton')}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(table.id)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700"
+                      disabled={taxTables.length <= 1}
+                    >
+                      {t('common.deleteButton')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditTaxTables;
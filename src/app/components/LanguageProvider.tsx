@@ -0,0 +1,46 @@
+"use client";
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { Language } from '../types/emi';
+import { TranslationContext, TranslationContextValue } from '../hooks/useTranslation';
+import { LocaleService } from '../services/localeService';
+import { formatDate, formatDateTime, formatNumber } from '../utils/formatters';
+
+interface LanguageProviderProps {
+  initialLanguage: Language;
+  children: React.ReactNode;
+}
+
+const LanguageProvider: React.FC<LanguageProviderProps> = ({ initialLanguage, children }) => {
+  const [language, setLanguageState] = useState<Language>(initialLanguage);
+
+  const setLanguage = useCallback((nextLanguage: Language) => {
+    LocaleService.saveLanguage(nextLanguage);
+    setLanguageState(nextLanguage);
+  }, []);
+
+  const value = useMemo<TranslationContextValue>(() => {
+    const { locale, direction } = LocaleService.getLanguageOption(language);
+    const monthNames = LocaleService.translate(language, 'date.months').split(',');
+
+    return {
+      language,
+      direction,
+      locale,
+      languages: LocaleService.getLanguages(),
+      setLanguage,
+      t: (key, params) => LocaleService.translate(language, key, params),
+      formatDate: (isoDate) => formatDate(isoDate, locale, monthNames),
+      formatDateTime: (isoTimestamp) => formatDateTime(isoTimestamp, locale, monthNames),
+      formatNumber: (amount) => formatNumber(amount, locale)
+    };
+  }, [language, setLanguage]);
+
+  return (
+    <TranslationContext.Provider value={value}>
+      {children}
+    </TranslationContext.Provider>
+  );
+};
+
+export default LanguageProvider;
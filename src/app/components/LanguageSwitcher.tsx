@@ -0,0 +1,30 @@
+"use client";
+
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+import { LocaleService } from '../services/localeService';
+
+const LanguageSwitcher: React.FC = () => {
+  const { language, languages, setLanguage, t } = useTranslation();
+
+  return (
+    <div className="flex justify-end px-6 pt-4 print:hidden">
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        {t('common.language')}
+        <select
+          value={language}
+          onChange={(e) => setLanguage(LocaleService.parseLanguage(e.target.value))}
+          className="p-1 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          {languages.map(option => (
+            <option key={option.code} value={option.code} lang={option.code}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
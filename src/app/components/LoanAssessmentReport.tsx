@@ -0,0 +1,432 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { AssessmentReport, ReportDraft } from '../types/emi';
+import { ReportService } from '../services/reportService';
+import { CaseService } from '../services/caseService';
+import { LoanService } from '../services/loanService';
+import { CurrencyService } from '../services/currencyService';
+import { PolicyService } from '../services/policyService';
+import { TaxTableService } from '../services/taxTableService';
+import { ScenarioService } from '../services/scenarioService';
+import { EMICalculationService } from '../services/calculationService';
+import { ObligationService } from '../services/obligationService';
+import { EligibilityService } from '../services/eligibilityService';
+import { useTranslation } from '../hooks/useTranslation';
+import { formatCurrency, formatDSCRStatus, formatGraceMode } from '../utils/formatters';
+import { downloadReportPdf } from '../utils/reportPdf';
+
+const sectionClass = "mb-6 break-inside-avoid";
+const headingClass = "text-lg font-semibold text-gray-800 border-b border-gray-300 pb-1 mb-3";
+const cellClass = "px-2 py-1 text-end border-b border-gray-200 first:text-start";
+const headCellClass = "px-2 py-1 text-end font-semibold bg-gray-100 border-b border-gray-300 first:text-start";
+
+const LoanAssessmentReport: React.FC = () => {
+  const router = useRouter();
+  const translation = useTranslation();
+  const { t, formatDate, formatDateTime } = translation;
+
+  const [report, setReport] = useState<AssessmentReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Build the report once from a saved case (?case=<id>) or the calculator's current inputs
+  useEffect(() => {
+    const buildReport = async () => {
+      const caseId = new URLSearchParams(window.location.search).get('case');
+      const draft: ReportDraft | null | undefined = caseId
+        ? CaseService.findCase(CaseService.loadCases(), caseId)
+        : ReportService.loadDraft();
+
+      if (draft) {
+        const policy = PolicyService.findPolicy(PolicyService.loadPolicies(), draft.policyId);
+        const loanTypes = await LoanService.loadLoanTypes();
+        const loanType = loanTypes.find(loan => loan.id === draft.loanTypeId);
+        const currencySettings = CurrencyService.loadSettings();
+        const currency = draft.currency || CurrencyService.getLoanTypeCurrency(currencySettings, loanType);
+
+        // Tax thresholds are rufiyaa amounts; the report's incomes are in its own currency
+        const taxTables = TaxTableService.convertTaxTables(
+          await TaxTableService.loadTaxTables(),
+          currency.code,
+          currencySettings.fxRates
+        );
+        if (!taxTables) {
+          setError(t('validation.taxTableCurrency', { currency: currency.code, taxCurrency: TaxTableService.CURRENCY }));
+          setIsLoading(false);
+          return;
+        }
+
+        setReport(ReportService.buildReport({
+          formData: draft.formData,
+          loanTypeName: loanType?.name || draft.loanTypeId,
+          eligibilityLimits: loanType?.eligibilityLimits,
+          productRules: loanType?.productRules,
+          scenarios: ScenarioService.getAllScenarios(policy, ScenarioService.loadCustomScenarios(), t),
+          graceMode: draft.graceMode,
+          policy,
+          taxTables,
+          rateSchedule: draft.rateSchedule,
+          prepayments: draft.prepayments,
+          currency
+        }));
+      }
+      setIsLoading(false);
+    };
+
+    buildReport();
+  }, [t]);
+
+  const handleDownload = async () => {
+    if (!report) return;
+
+    setIsDownloading(true);
+    setError('');
+    try {
+      await downloadReportPdf(report, translation);
+    } catch (err) {
+      console.error('Error generating PDF:', err);
+      setError(t('report.pdfFailed'));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const obligationLedger = report?.formData.obligationLedger || ObligationService.createLedger();
+  const ltv = report?.scenarioResults[0]?.afterGrace.ltv ?? null;
+
+  const handleGoBack = () => {
+    router.push('/');
+  };
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg text-gray-600">{t('common.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen text-gray-900 print:p-0 print:max-w-none">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between mb-6 print:hidden">
+        <button
+          onClick={handleGoBack}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          {t('common.backToCalculator')}
+        </button>
+        {report && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+              {t('report.printButton')}
+            </button>
+            <button
+              onClick={handleDownload}
+              disabled={isDownloading}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-gray-600"
+            >
+              {isDownloading ? t('report.preparingPdf') : t('report.downloadButton')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md print:hidden">
+          <p className="text-red-600 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      {!report ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">{t('report.empty')}</p>
+        </div>
+      ) : (
+        <>
+          {/* Report Header */}
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-800">{t('report.title')}</h1>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 mt-3 text-sm">
+              <div><span className="font-medium">{t('report.reportId')}:</span> {report.id}</div>
+              <div><span className="font-medium">{t('report.generated')}:</span> {formatDateTime(report.generatedAt)}</div>
+              <div><span className="font-medium">{t('report.loanType')}:</span> {report.loanTypeName} ({report.currency.code})</div>
+              <div><span className="font-medium">{t('report.policy')}:</span> {report.policyName} (v{report.policyVersion})</div>
+            </div>
+          </div>
+
+          {/* Applicant Inputs */}
+          <div className={sectionClass}>
+            <h2 className={headingClass}>{t('report.applicantInputs')}</h2>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              <div><span className="font-medium">{t('report.salary')}:</span> {formatCurrency(parseFloat(report.formData.salary) || 0, report.currency)}</div>
+              <div><span className="font-medium">{t('report.rentIncome')}:</span> {formatCurrency(parseFloat(report.formData.rent) || 0, report.currency)}</div>
+              <div><span className="font-medium">{t('report.otherIncome')}:</span> {formatCurrency(parseFloat(report.formData.other) || 0, report.currency)}</div>
+              <div><span className="font-medium">{t('report.projectIncome')}:</span> {formatCurrency(parseFloat(report.formData.projectIncome) || 0, report.currency)}</div>
+              <div><span className="font-medium">{t('report.interestRate')}:</span> {report.formData.rate}%</div>
+              <div><span className="font-medium">{t('report.repaymentPeriod')}:</span> {t('report.months', { months: report.formData.repaymentPeriod })}</div>
+              <div><span className="font-medium">{t('report.gracePeriod')}:</span> {t('report.months', { months: report.formData.gracePeriod || '0' })}</div>
+              <div className="col-span-2"><span className="font-medium">{t('report.graceHandling')}:</span> {formatGraceMode(report.graceMode, t)}</div>
+            </div>
+          </div>
+
+          {/* Co-applicants */}
+          {(report.formData.coApplicants || []).length > 0 && (
+            <div className={sectionClass}>
+              <h2 className={headingClass}>{t('report.coApplicants')}</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className={headCellClass}>{t('report.name')}</th>
+                    <th className={headCellClass}>{t('report.salary')}</th>
+                    <th className={headCellClass}>{t('report.rentIncome')}</th>
+                    <th className={headCellClass}>{t('report.otherIncome')}</th>
+                    <th className={headCellClass}>{t('report.existingLoans')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(report.formData.coApplicants || []).map((coApplicant) => (
+                    <tr key={coApplicant.id}>
+                      <td className={cellClass}>{coApplicant.name}</td>
+                      <td className={cellClass}>{formatCurrency(parseFloat(coApplicant.salary) || 0, report.currency)}</td>
+                      <td className={cellClass}>{formatCurrency(parseFloat(coApplicant.rent) || 0, report.currency)}</td>
+                      <td className={cellClass}>{formatCurrency(parseFloat(coApplicant.other) || 0, report.currency)}</td>
+                      <td className={cellClass}>{formatCurrency(parseFloat(coApplicant.existingLoans) || 0, report.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Existing Obligations */}
+          {obligationLedger.obligations.length > 0 && (
+            <div className={sectionClass}>
+              <h2 className={headingClass}>{t('report.obligations')}</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className={headCellClass}>{t('report.lender')}</th>
+                    <th className={headCellClass}>{t('report.outstandingBalance')}</th>
+                    <th className={headCellClass}>{t('report.rate')}</th>
+                    <th className={headCellClass}>{t('report.monthsLeft')}</th>
+                    <th className={headCellClass}>{t('report.installment')}</th>
+                    <th className={headCellClass}>{t('report.treatment')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {obligationLedger.obligations.map((obligation) => (
+                    <tr key={obligation.id}>
+                      <td className={cellClass}>{obligation.lender}</td>
+                      <td className={cellClass}>{formatCurrency(obligation.outstandingBalance, report.currency)}</td>
+                      <td className={cellClass}>{obligation.rate}%</td>
+                      <td className={cellClass}>{obligation.remainingMonths}</td>
+                      <td className={cellClass}>{formatCurrency(EMICalculationService.getObligationInstallment(obligation), report.currency)}</td>
+                      <td className={cellClass}>{ObligationService.describeTreatment(obligation, obligationLedger, parseFloat(report.formData.gracePeriod) || 0, t)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Bank Finance Details */}
+          <div className={sectionClass}>
+            <h2 className={headingClass}>{t('report.bankFinanceDetails')}</h2>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+              <div><span className="font-medium">{t('report.totalProjectCost')}:</span> {formatCurrency(report.totalProjectCost, report.currency)}</div>
+              <div><span className="font-medium">{t('report.equity')}:</span> {formatCurrency(report.equityAmount, report.currency)} ({report.equityPercentage}%)</div>
+              <div><span className="font-medium">{t('report.bankFinanceAmount')}:</span> {formatCurrency(report.bankFinanceAmount, report.currency)}</div>
+              {report.scenarioResults[0]?.afterGrace.takeoverAmount > 0 && (
+                <div><span className="font-medium">{t('report.refinancedLoans')}:</span> {formatCurrency(report.scenarioResults[0].afterGrace.takeoverAmount, report.currency)}</div>
+              )}
+              {ltv !== null && (
+                <div>
+                  <span className="font-medium">{t('report.propertyValue')}:</span>{' '}
+                  {t('report.propertyValueLtv', {
+                    amount: formatCurrency(parseFloat(report.formData.propertyValue) || 0, report.currency),
+                    ltv: ltv.toFixed(1)
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Scenario Results */}
+          <div className={sectionClass}>
+            <h2 className={headingClass}>{t('report.scenarioResults')}</h2>
+            <div className="space-y-4">
+              {report.scenarioResults.map((result) => (
+                <div key={result.scenarioId} className="break-inside-avoid">
+                  <h3 className="font-semibold text-gray-800">{result.scenarioName}</h3>
+                  {result.description && <p className="text-xs text-gray-500 mb-1">{result.description}</p>}
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th className={headCellClass}></th>
+                        <th className={headCellClass}>{t('report.duringGrace')}</th>
+                        <th className={headCellClass}>{t('report.afterGrace')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr>
+                        <td className={cellClass}>{t('report.totalIncome')}</td>
+                        <td className={cellClass}>{formatCurrency(result.duringGrace.totalIncome, report.currency)}</td>
+                        <td className={cellClass}>{formatCurrency(result.afterGrace.totalIncome, report.currency)}</td>
+                      </tr>
+                      <tr>
+                        <td className={cellClass}>{t('report.projectIncome')}</td>
+                        <td className={cellClass}>{formatCurrency(result.duringGrace.totalProjectIncome, report.currency)}</td>
+                        <td className={cellClass}>{formatCurrency(result.afterGrace.totalProjectIncome, report.currency)}</td>
+                      </tr>
+                      <tr>
+                        <td className={cellClass}>{t('report.livingExpenses')}</td>
+                        <td className={cellClass}>{formatCurrency(result.duringGrace.totalExpenditure, report.currency)}</td>
+                        <td className={cellClass}>{formatCurrency(result.afterGrace.totalExpenditure, report.currency)}</td>
+                      </tr>
+                      <tr>
+                        <td className={cellClass}>{t('report.projectExpenditure')}</td>
+                        <td className={cellClass}>{formatCurrency(result.duringGrace.totalProjectExpenditure, report.currency)}</td>
+                        <td className={cellClass}>{formatCurrency(result.afterGrace.totalProjectExpenditure, report.currency)}</td>
+                      </tr>
+                      <tr>
+                        <td className={cellClass}>{t('report.incomeTax')}</td>
+                        <td className={cellClass}>{formatCurrency(result.duringGrace.incomeTax, report.currency)}</td>
+                        <td className={cellClass}>{formatCurrency(result.afterGrace.incomeTax, report.currency)}</td>
+                      </tr>
+                      <tr>
+                        <td className={cellClass}>{t('report.netIncome')}</td>
+                        <td className={cellClass}>{formatCurrency(result.duringGrace.netIncome, report.currency)}</td>
+                        <td className={cellClass}>{formatCurrency(result.afterGrace.netIncome, report.currency)}</td>
+                      </tr>
+                      <tr>
+                        <td className={cellClass}>{t('report.monthlyRepayment')}</td>
+                        <td className={cellClass}>{formatCurrency(result.duringGrace.monthlyRepayment, report.currency)}</td>
+                        <td className={cellClass}>{formatCurrency(result.afterGrace.monthlyRepayment, report.currency)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                  {result.afterGrace.applicants.length > 1 && (
+                    <table className="w-full text-sm mt-2">
+                      <thead>
+                        <tr>
+                          <th className={headCellClass}>{t('report.applicantAfterGrace')}</th>
+                          <th className={headCellClass}>{t('report.income')}</th>
+                          <th className={headCellClass}>{t('report.incomeTax')}</th>
+                          <th className={headCellClass}>{t('report.netContribution')}</th>
+                          <th className={headCellClass}>{t('report.share')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.afterGrace.applicants.map((applicant) => (
+                          <tr key={applicant.applicantId}>
+                            <td className={cellClass}>{applicant.name}</td>
+                            <td className={cellClass}>{formatCurrency(applicant.totalIncome, report.currency)}</td>
+                            <td className={cellClass}>{formatCurrency(applicant.incomeTax, report.currency)}</td>
+                            <td className={cellClass}>{formatCurrency(applicant.netContribution, report.currency)}</td>
+                            <td className={cellClass}>{applicant.incomeShare.toFixed(1)}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <p className="text-sm mt-1">
+                    <span className="font-medium">{t('report.dscr')}:</span> {result.afterGrace.dscr.toFixed(2)} ({formatDSCRStatus(result.dscrStatus, t)})
+                    {' '}<span className="font-medium ms-4">{t('report.worstCase')}:</span> {result.afterGrace.worstCaseDSCR.toFixed(2)} ({formatDSCRStatus(result.worstCaseDscrStatus, t)})
+                    {' '}<span className="font-medium ms-4">{t('report.totalInterest')}:</span> {formatCurrency(result.afterGrace.totalInterest, report.currency)}
+                    {' '}<span className="font-medium ms-4">{t('report.loanEnds')}:</span> {formatDate(result.afterGrace.loanEndDate)}
+                  </p>
+                  <p className="text-sm mt-1">
+                    <span className="font-medium">{t('report.dti')}:</span> {result.afterGrace.dti.toFixed(1)}%
+                    {' '}<span className="font-medium ms-4">{t('report.foir')}:</span> {result.afterGrace.foir.toFixed(1)}%
+                    {' '}<span className="font-medium ms-4">{t('report.eligibility')}:</span> {result.eligibility.eligible ? t('report.eligible') : t('report.notEligible')}
+                  </p>
+                  <p className="text-sm mt-1">
+                    <span className="font-medium">{t('report.apr')}:</span> {result.borrowingCost.apr === null ? t('report.notAvailable') : `${result.borrowingCost.apr.toFixed(2)}%`}
+                    {' '}<span className="font-medium ms-4">{t('report.emiWithCharges')}:</span> {formatCurrency(result.borrowingCost.effectiveEMI, report.currency)}
+                    {' '}<span className="font-medium ms-4">{t('report.upfrontFees')}:</span> {formatCurrency(result.borrowingCost.upfrontFees, report.currency)}
+                    {' '}<span className="font-medium ms-4">{t('report.totalCostOfBorrowing')}:</span> {formatCurrency(result.borrowingCost.totalCostOfBorrowing, report.currency)}
+                  </p>
+                  <ul className="text-xs text-gray-600 mt-1 list-disc ps-5">
+                    {result.eligibility.rules.map((rule) => (
+                      <li key={rule.id}>{EligibilityService.describeRule(rule, t)}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Tax Brackets */}
+          <div className={sectionClass}>
+            <h2 className={headingClass}>{t('report.taxBrackets')}</h2>
+            <p className="text-sm text-gray-600 mb-2">
+              {t('report.taxTableEffective', { name: report.taxTable.name, date: formatDate(report.taxTable.effectiveFrom) })}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={headCellClass}>{t('report.annualIncomeFrom')}</th>
+                  <th className={headCellClass}>{t('report.upTo')}</th>
+                  <th className={headCellClass}>{t('report.rate')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.taxTable.brackets.map((bracket) => (
+                  <tr key={bracket.min}>
+                    <td className={cellClass}>{formatCurrency(bracket.min, report.currency)}</td>
+                    <td className={cellClass}>{bracket.max === Infinity ? t('report.andAbove') : formatCurrency(bracket.max, report.currency)}</td>
+                    <td className={cellClass}>{bracket.rate}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Amortization Summary */}
+          <div className={sectionClass}>
+            <h2 className={headingClass}>{t('report.amortizationSummary')}</h2>
+            <p className="text-sm mb-2">
+              <span className="font-medium">{t('report.totalPayment')}:</span> {formatCurrency(report.amortization.totalPayment, report.currency)}
+              {' '}<span className="font-medium ms-4">{t('report.totalInterest')}:</span> {formatCurrency(report.amortization.totalInterest, report.currency)}
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className={headCellClass}>{t('report.year')}</th>
+                  <th className={headCellClass}>{t('report.payment')}</th>
+                  <th className={headCellClass}>{t('report.interest')}</th>
+                  <th className={headCellClass}>{t('report.principal')}</th>
+                  <th className={headCellClass}>{t('report.closingBalance')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.amortization.yearlySummaries.map((summary) => (
+                  <tr key={summary.year}>
+                    <td className={cellClass}>{t('report.yearLabel', { year: summary.year })}</td>
+                    <td className={cellClass}>{formatCurrency(summary.totalPayment, report.currency)}</td>
+                    <td className={cellClass}>{formatCurrency(summary.totalInterest, report.currency)}</td>
+                    <td className={cellClass}>{formatCurrency(summary.totalPrincipal, report.currency)}</td>
+                    <td className={cellClass}>{formatCurrency(summary.closingBalance, report.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LoanAssessmentReport;
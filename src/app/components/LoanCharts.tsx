@@ -0,0 +1,179 @@
+"use client";
+
+import React from 'react';
+import {
+  ResponsiveContainer,
+  AreaChart,
+  Area,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine
+} from 'recharts';
+import { formatCompactNumber, formatCurrency } from '../utils/formatters';
+import { CurrencyFormat, PrepaymentComparison, SensitivityPoint, UnderwritingPolicy } from '../types/emi';
+import { styles } from './styles';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface LoanChartsProps {
+  comparison: PrepaymentComparison;
+  rateSensitivity: SensitivityPoint[];
+  incomeSensitivity: SensitivityPoint[];
+  currentRate: number;
+  policy: Pick<UnderwritingPolicy, 'dscrExcellentThreshold' | 'dscrGoodThreshold'>;
+  currency: CurrencyFormat;
+}
+
+const CHART_HEIGHT = 260;
+
+const COLORS = {
+  primary: '#374151',
+  secondary: '#9ca3af',
+  accent: '#6b7280',
+  grid: '#e5e7eb',
+  excellent: '#16a34a',
+  good: '#ca8a04'
+};
+
+const LoanCharts: React.FC<LoanChartsProps> = ({
+  comparison,
+  rateSensitivity,
+  incomeSensitivity,
+  currentRate,
+  policy,
+  currency
+}) => {
+  const { t } = useTranslation();
+  const { withPrepayments, baseline, totalPrepaid } = comparison;
+  if (withPrepayments.rows.length === 0) return null;
+
+  const hasPrepayments = totalPrepaid > 0;
+
+  // Baseline rows run at least as long as the prepaid schedule, so index by them
+  const monthlyData = baseline.rows.map((row, index) => ({
+    month: row.month,
+    balance: withPrepayments.rows[index]?.closingBalance ?? 0,
+    baselineBalance: row.closingBalance,
+    cumulativeInterest: withPrepayments.rows[index]?.cumulativeInterest ?? withPrepayments.totalInterest,
+    baselineCumulativeInterest: row.cumulativeInterest
+  }));
+
+  const yearlyData = withPrepayments.yearlySummaries.map(summary => ({
+    year: summary.year,
+    principal: summary.totalPrincipal,
+    prepayment: summary.totalPrepayment,
+    interest: summary.totalInterest
+  }));
+
+  const formatAxisAmount = (value: number) => formatCompactNumber(value, currency.locale);
+  const formatTooltipAmount = (value: unknown) => formatCurrency(Number(value), currency);
+  const formatTooltipDSCR = (value: unknown) => Number(value).toFixed(2);
+
+  const renderDSCRThresholds = () => (
+    <>
+      <ReferenceLine y={policy.dscrExcellentThreshold} stroke={COLORS.excellent} strokeDasharray="4 4" />
+      <ReferenceLine y={policy.dscrGoodThreshold} stroke={COLORS.good} strokeDasharray="4 4" />
+    </>
+  );
+
+  return (
+    <div className={styles.card.grayAlt}>
+      <h2 className={styles.heading.section}>{t('charts.title')}</h2>
+      <p className={`${styles.text.info.small} mb-4`}>
+        {t('charts.intro', {
+          excellent: policy.dscrExcellentThreshold.toFixed(2),
+          good: policy.dscrGoodThreshold.toFixed(2)
+        })}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={styles.charts.panel}>
+          <h3 className={styles.heading.subsection}>{t('charts.balance')}</h3>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <AreaChart data={monthlyData}>
+              <CartesianGrid stroke={COLORS.grid} strokeDasharray="3 3" />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={formatAxisAmount} tick={{ fontSize: 12 }} width={60} />
+              <Tooltip formatter={formatTooltipAmount} labelFormatter={(month) => t('charts.monthLabel', { month: String(month) })} />
+              {hasPrepayments && <Legend />}
+              {hasPrepayments && (
+                <Area type="monotone" dataKey="baselineBalance" name={t('charts.withoutPrepayments')} stroke={COLORS.secondary} fill="none" dot={false} />
+              )}
+              <Area type="monotone" dataKey="balance" name={t('charts.balanceSeries')} stroke={COLORS.primary} fill={COLORS.secondary} fillOpacity={0.3} dot={false} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className={styles.charts.panel}>
+          <h3 className={styles.heading.subsection}>{t('charts.principalAndInterest')}</h3>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <BarChart data={yearlyData}>
+              <CartesianGrid stroke={COLORS.grid} strokeDasharray="3 3" />
+              <XAxis dataKey="year" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={formatAxisAmount} tick={{ fontSize: 12 }} width={60} />
+              <Tooltip formatter={formatTooltipAmount} labelFormatter={(year) => t('charts.yearLabel', { year: String(year) })} />
+              <Legend />
+              <Bar dataKey="principal" name={t('charts.principal')} stackId="payment" fill={COLORS.primary} />
+              {hasPrepayments && <Bar dataKey="prepayment" name={t('charts.prepayment')} stackId="payment" fill={COLORS.accent} />}
+              <Bar dataKey="interest" name={t('charts.interest')} stackId="payment" fill={COLORS.secondary} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className={styles.charts.panel}>
+          <h3 className={styles.heading.subsection}>{t('charts.cumulativeInterest')}</h3>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={monthlyData}>
+              <CartesianGrid stroke={COLORS.grid} strokeDasharray="3 3" />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+              <YAxis tickFormatter={formatAxisAmount} tick={{ fontSize: 12 }} width={60} />
+              <Tooltip formatter={formatTooltipAmount} labelFormatter={(month) => t('charts.monthLabel', { month: String(month) })} />
+              {hasPrepayments && <Legend />}
+              {hasPrepayments && (
+                <Line type="monotone" dataKey="baselineCumulativeInterest" name={t('charts.withoutPrepayments')} stroke={COLORS.secondary} dot={false} />
+              )}
+              <Line type="monotone" dataKey="cumulativeInterest" name={t('charts.interestPaid')} stroke={COLORS.primary} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className={styles.charts.panel}>
+          <h3 className={styles.heading.subsection}>{t('charts.dscrVsRate')}</h3>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={rateSensitivity}>
+              <CartesianGrid stroke={COLORS.grid} strokeDasharray="3 3" />
+              <XAxis dataKey="value" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(rate) => `${rate}%`} tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} width={40} />
+              <Tooltip formatter={formatTooltipDSCR} labelFormatter={(rate) => t('charts.atRate', { rate: String(rate) })} />
+              {renderDSCRThresholds()}
+              <ReferenceLine x={currentRate} stroke={COLORS.accent} />
+              <Line type="monotone" dataKey="dscr" name={t('charts.dscr')} stroke={COLORS.primary} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className={styles.charts.panel}>
+          <h3 className={styles.heading.subsection}>{t('charts.dscrVsIncome')}</h3>
+          <ResponsiveContainer width="100%" height={CHART_HEIGHT}>
+            <LineChart data={incomeSensitivity}>
+              <CartesianGrid stroke={COLORS.grid} strokeDasharray="3 3" />
+              <XAxis dataKey="value" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(reduction) => `${reduction}%`} tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} width={40} />
+              <Tooltip formatter={formatTooltipDSCR} labelFormatter={(reduction) => t('charts.incomeReducedBy', { reduction: String(reduction) })} />
+              {renderDSCRThresholds()}
+              <Line type="monotone" dataKey="dscr" name={t('charts.dscr')} stroke={COLORS.primary} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoanCharts;
@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { formatCurrency, getDSCRStatus } from '../utils/formatters';
+import { CalculationOptions, CurrencyFormat, FormDataStrings, LoanOffer, LoanType, Scenario } from '../types/emi';
+import { useTranslation } from '../hooks/useTranslation';
+import { ComparisonService } from '../services/comparisonService';
+import { EMICalculationService } from '../services/calculationService';
+import { styles } from './styles';
+
+interface LoanComparisonProps {
+  formData: FormDataStrings;
+  loanTypes: LoanType[];
+  scenarios: Scenario[];
+  calculationOptions: CalculationOptions;
+  isFormValid: boolean;
+  currency: CurrencyFormat;
+}
+
+const LoanComparison: React.FC<LoanComparisonProps> = ({
+  formData,
+  loanTypes,
+  scenarios,
+  calculationOptions,
+  isFormValid,
+  currency
+}) => {
+  const { t, formatDate } = useTranslation();
+  const [offers, setOffers] = useState<LoanOffer[]>([]);
+  const [loanTypeToAdd, setLoanTypeToAdd] = useState('');
+
+  const canAddOffer = offers.length < ComparisonService.MAX_OFFERS;
+  const gracePeriod = EMICalculationService.getNumericValue(formData.gracePeriod);
+  const offersError = ComparisonService.validateOffers(offers, gracePeriod, calculationOptions, t);
+
+  const comparisons = useMemo(() => {
+    if (!isFormValid || offersError) return [];
+    return ComparisonService.compareOffers(formData, offers, scenarios, calculationOptions);
+  }, [formData, offers, scenarios, calculationOptions, isFormValid, offersError]);
+
+  const handleAddLoanType = () => {
+    const loanType = loanTypes.find(loan => loan.id === loanTypeToAdd);
+    if (!loanType || !canAddOffer) return;
+
+    setOffers([...offers, ComparisonService.createOfferFromLoanType(loanType)]);
+    setLoanTypeToAdd('');
+  };
+
+  const handleAddCustom = () => {
+    if (!canAddOffer) return;
+    setOffers([...offers, ComparisonService.createCustomOffer(offers.length + 1)]);
+  };
+
+  const updateOffer = (id: string, changes: Partial<LoanOffer>) => {
+    setOffers(offers.map(offer => offer.id === id ? { ...offer, ...changes } : offer));
+  };
+
+  const handleRemove = (id: string) => {
+    setOffers(offers.filter(offer => offer.id !== id));
+  };
+
+  return (
+    <div className={styles.card.grayAlt}>
+      <p className={`${styles.text.info.small} mb-4`}>
+        {t('comparison.intro', { min: ComparisonService.MIN_OFFERS, max: ComparisonService.MAX_OFFERS })}
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <div className="flex-1 min-w-48">
+          <label className={styles.text.labelSmall}>{t('comparison.loanType')}</label>
+          <select
+            value={loanTypeToAdd}
+            onChange={(e) => setLoanTypeToAdd(e.target.value)}
+            className={styles.input.select}
+          >
+            <option value="">{t('comparison.selectLoanType')}</option>
+            {loanTypes.map((loan) => (
+              <option key={loan.id} value={loan.id}>
+                {t('comparison.loanTypeOption', { name: loan.name, rate: loan.interestRate, months: loan.tenure })}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleAddLoanType}
+          className={`${styles.button.edit} mb-1`}
+          disabled={!loanTypeToAdd || !canAddOffer}
+        >
+          {t('comparison.addButton')}
+        </button>
+        <button
+          onClick={handleAddCustom}
+          className={`${styles.button.secondary} mb-1`}
+          disabled={!canAddOffer}
+        >
+          {t('comparison.customOffer')}
+        </button>
+      </div>
+
+      <div className={styles.layout.spaceYSmall}>
+        {offers.map((offer) => (
+          <div key={offer.id} className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-40">
+              <label className={styles.text.labelSmall}>{t('comparison.offer')}</label>
+              <input
+                type="text"
+                value={offer.name}
+                onChange={(e) => updateOffer(offer.id, { name: e.target.value })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="w-28">
+              <label className={styles.text.labelSmall}>{t('comparison.rate')}</label>
+              <input
+                type="number"
+                step="0.01"
+                value={offer.interestRate}
+                onChange={(e) => updateOffer(offer.id, { interestRate: parseFloat(e.target.value) || 0 })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="w-28">
+              <label className={styles.text.labelSmall}>{t('comparison.tenure')}</label>
+              <input
+                type="number"
+                value={offer.tenure}
+                onChange={(e) => updateOffer(offer.id, { tenure: parseInt(e.target.value) || 0 })}
+                className={styles.input.base}
+              />
+            </div>
+            <button
+              onClick={() => handleRemove(offer.id)}
+              className={`${styles.button.secondary} mb-1`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {offers.length > 0 && offersError && (
+        <p className={styles.text.error}>{offersError}</p>
+      )}
+
+      {comparisons.length > 0 && (
+        <div className={`${styles.table.wrapper} mt-4`}>
+          <table className={styles.table.base}>
+            <thead>
+              <tr>
+                <th className={styles.table.headCell}>{t('comparison.offer')}</th>
+                <th className={styles.table.headCell}>{t('comparison.emi')}</th>
+                <th className={styles.table.headCell}>{t('comparison.totalInterest')}</th>
+                <th className={styles.table.headCell}>{t('comparison.totalCost')}</th>
+                <th className={styles.table.headCell}>{t('comparison.ends')}</th>
+                {scenarios.map((scenario) => (
+                  <th key={scenario.id} className={styles.table.headCell}>{t('comparison.scenarioDscr', { name: scenario.name })}</th>
+                ))}
+                <th className={styles.table.headCell}>{t('comparison.breakEven')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparisons.map((comparison) => (
+                <tr
+                  key={comparison.offer.id}
+                  className={comparison.isCheapest ? 'bg-green-50 font-semibold' : styles.table.row}
+                >
+                  <td className={styles.table.cell}>
+                    {comparison.offer.name}
+                    <span className={`${styles.text.info.xsmall} block`}>
+                      {t('comparison.offerTerms', { rate: comparison.offer.interestRate, months: comparison.offer.tenure })}
+                      {comparison.isCheapest ? t('comparison.cheapest') : ''}
+                    </span>
+                  </td>
+                  <td className={styles.table.cell}>{formatCurrency(comparison.emi, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(comparison.totalInterest, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(comparison.totalCost, currency)}</td>
+                  <td className={styles.table.cell}>{formatDate(comparison.loanEndDate)}</td>
+                  {comparison.scenarioDSCRs.map((scenarioDSCR) => (
+                    <td
+                      key={scenarioDSCR.scenarioId}
+                      className={`${styles.table.cell} ${getDSCRStatus(scenarioDSCR.dscr, calculationOptions.policy).color}`}
+                    >
+                      {scenarioDSCR.dscr.toFixed(2)}
+                    </td>
+                  ))}
+                  <td className={styles.table.cell}>
+                    {comparison.isCheapest
+                      ? '—'
+                      : comparison.breakEvenMonth !== null
+                        ? t('comparison.breakEvenMonth', { month: comparison.breakEvenMonth })
+                        : t('comparison.never')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className={styles.text.hint}>
+            {t('comparison.breakEvenHint')}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoanComparison;
@@ -0,0 +1,176 @@
+"use client";
+
+import React from 'react';
+import { formatCurrency } from '../utils/formatters';
+import { CurrencyFormat, ExistingObligation, ObligationLedger, ObligationTreatment } from '../types/emi';
+import { MessageKey } from '../locales/en';
+import { useTranslation } from '../hooks/useTranslation';
+import { EMICalculationService } from '../services/calculationService';
+import { ObligationService } from '../services/obligationService';
+import { styles } from './styles';
+
+interface ObligationsLedgerProps {
+  ledger: ObligationLedger;
+  onChange: (ledger: ObligationLedger) => void;
+  gracePeriod: number;
+  currency: CurrencyFormat;
+  error?: string;
+}
+
+const TREATMENT_KEYS: Record<ObligationTreatment, MessageKey> = {
+  refinanced: 'obligations.treatment.refinanced',
+  counted: 'obligations.treatment.counted',
+  ended: 'obligations.treatment.ended',
+  ends_in_grace: 'obligations.treatment.endsInGrace'
+};
+
+const parseNumber = (value: string): number => (value === '' ? 0 : parseFloat(value) || 0);
+
+const ObligationsLedger: React.FC<ObligationsLedgerProps> = ({ ledger, onChange, gracePeriod, currency, error }) => {
+  const { t } = useTranslation();
+  const { obligations } = ledger;
+
+  const updateObligation = (id: string, changes: Partial<ExistingObligation>) => {
+    onChange({
+      ...ledger,
+      obligations: obligations.map(obligation => obligation.id === id ? { ...obligation, ...changes } : obligation)
+    });
+  };
+
+  const handleAdd = () => {
+    onChange({ ...ledger, obligations: [...obligations, ObligationService.createObligation()] });
+  };
+
+  const handleRemove = (id: string) => {
+    onChange({ ...ledger, obligations: obligations.filter(obligation => obligation.id !== id) });
+  };
+
+  const countedInstallments = EMICalculationService.calculateObligationInstallments(ledger, gracePeriod);
+  const takeoverAmount = EMICalculationService.calculateTakeoverAmount(ledger);
+
+  return (
+    <div className={styles.card.grayAlt}>
+      <div className={styles.layout.flexBetween}>
+        <h2 className={styles.heading.section}>{t('obligations.title')}</h2>
+        <button onClick={handleAdd} className={styles.button.edit}>
+          {t('obligations.addButton')}
+        </button>
+      </div>
+
+      {obligations.length === 0 && (
+        <p className={styles.text.info.small}>
+          {t('obligations.intro')}
+        </p>
+      )}
+
+      <div className={styles.layout.spaceYSmall}>
+        {obligations.map((obligation) => (
+          <div key={obligation.id} className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-40">
+              <label className={styles.text.labelSmall}>{t('obligations.lender')}</label>
+              <input
+                type="text"
+                value={obligation.lender}
+                onChange={(e) => updateObligation(obligation.id, { lender: e.target.value })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="flex-1 min-w-32">
+              <label className={styles.text.labelSmall}>{t('obligations.outstandingBalance')}</label>
+              <input
+                type="number"
+                min="0"
+                value={obligation.outstandingBalance}
+                onChange={(e) => updateObligation(obligation.id, { outstandingBalance: parseNumber(e.target.value) })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="w-24">
+              <label className={styles.text.labelSmall}>{t('obligations.rate')}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={obligation.rate}
+                onChange={(e) => updateObligation(obligation.id, { rate: parseNumber(e.target.value) })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="w-28">
+              <label className={styles.text.labelSmall}>{t('obligations.remainingMonths')}</label>
+              <input
+                type="number"
+                min="0"
+                value={obligation.remainingMonths}
+                onChange={(e) => updateObligation(obligation.id, { remainingMonths: parseNumber(e.target.value) })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="flex-1 min-w-32">
+              <label className={styles.text.labelSmall}>{t('obligations.installment')}</label>
+              <input
+                type="number"
+                min="0"
+                value={obligation.monthlyInstallment}
+                onChange={(e) => updateObligation(obligation.id, { monthlyInstallment: parseNumber(e.target.value) })}
+                className={styles.input.base}
+              />
+              {obligation.monthlyInstallment === 0 && obligation.outstandingBalance > 0 && obligation.remainingMonths > 0 && (
+                <p className={styles.text.hint}>
+                  {t('obligations.derivedInstallment', {
+                    amount: formatCurrency(EMICalculationService.getObligationInstallment(obligation), currency)
+                  })}
+                </p>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+              <input
+                type="checkbox"
+                checked={obligation.settledByNewLoan}
+                onChange={(e) => updateObligation(obligation.id, { settledByNewLoan: e.target.checked })}
+              />
+              {t('obligations.refinance')}
+            </label>
+            <span className={`${styles.text.info.xsmall} mb-2 w-28`}>{t(TREATMENT_KEYS[ObligationService.getTreatment(obligation, ledger, gracePeriod)])}</span>
+            <button
+              onClick={() => handleRemove(obligation.id)}
+              aria-label={t('obligations.remove')}
+              title={t('obligations.remove')}
+              className={`${styles.button.secondary} mb-1`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className={styles.text.error}>{error}</p>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-600 mt-4">
+        <input
+          type="checkbox"
+          checked={ledger.excludeEndingInGrace}
+          onChange={(e) => onChange({ ...ledger, excludeEndingInGrace: e.target.checked })}
+        />
+        {t('obligations.excludeEndingInGrace', { months: gracePeriod })}
+      </label>
+
+      {obligations.length > 0 && (
+        <div className={`${styles.layout.borderTop} mt-4 grid grid-cols-2 gap-4`}>
+          <div>
+            <p className={styles.text.info.small}>{t('obligations.countedInstallments')}</p>
+            <p className={styles.text.value.large}>{formatCurrency(countedInstallments, currency)}</p>
+          </div>
+          <div>
+            <p className={styles.text.info.small}>{t('obligations.refinancedTotal')}</p>
+            <p className={styles.text.value.large}>{formatCurrency(takeoverAmount, currency)}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObligationsLedger;
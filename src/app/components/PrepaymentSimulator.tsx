@@ -0,0 +1,191 @@
+"use client";
+
+import React from 'react';
+import { formatCurrency } from '../utils/formatters';
+import { CurrencyFormat, Prepayment, PrepaymentComparison, PrepaymentFrequency, PrepaymentStrategy } from '../types/emi';
+import { useTranslation } from '../hooks/useTranslation';
+import { PrepaymentService } from '../services/prepaymentService';
+import { styles } from './styles';
+
+interface PrepaymentSimulatorProps {
+  prepayments: Prepayment[];
+  onChange: (prepayments: Prepayment[]) => void;
+  comparison: PrepaymentComparison | null;
+  currency: CurrencyFormat;
+  error?: string;
+}
+
+const parseNumber = (value: string): number => (value === '' ? 0 : parseFloat(value) || 0);
+
+const PrepaymentSimulator: React.FC<PrepaymentSimulatorProps> = ({ prepayments, onChange, comparison, currency, error }) => {
+  const { t, formatDate } = useTranslation();
+
+  const updatePrepayment = (id: string, changes: Partial<Prepayment>) => {
+    onChange(prepayments.map(prepayment => prepayment.id === id ? { ...prepayment, ...changes } : prepayment));
+  };
+
+  const handleAdd = () => {
+    onChange([...prepayments, PrepaymentService.createPrepayment()]);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(prepayments.filter(prepayment => prepayment.id !== id));
+  };
+
+  const lastEmi = (schedule: PrepaymentComparison['baseline']) =>
+    schedule.emiPeriods.length > 0 ? schedule.emiPeriods[schedule.emiPeriods.length - 1].emi : 0;
+
+  return (
+    <div className={styles.card.grayAlt}>
+      <div className={styles.layout.flexBetween}>
+        <h2 className={styles.heading.section}>{t('prepayments.title')}</h2>
+        <button onClick={handleAdd} className={styles.button.edit}>
+          {t('prepayments.addButton')}
+        </button>
+      </div>
+
+      {prepayments.length === 0 && (
+        <p className={styles.text.info.small}>
+          {t('prepayments.intro')}
+        </p>
+      )}
+
+      <div className={styles.layout.spaceYSmall}>
+        {prepayments.map((prepayment) => (
+          <div key={prepayment.id} className="flex flex-wrap items-end gap-3">
+            <div className="w-24">
+              <label className={styles.text.labelSmall}>{t('prepayments.month')}</label>
+              <input
+                type="number"
+                min="1"
+                value={prepayment.month}
+                onChange={(e) => updatePrepayment(prepayment.id, { month: parseNumber(e.target.value) })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="flex-1 min-w-32">
+              <label className={styles.text.labelSmall}>{t('prepayments.amount')}</label>
+              <input
+                type="number"
+                min="0"
+                value={prepayment.amount}
+                onChange={(e) => updatePrepayment(prepayment.id, { amount: parseNumber(e.target.value) })}
+                className={styles.input.base}
+              />
+            </div>
+            <div className="flex-1 min-w-32">
+              <label className={styles.text.labelSmall}>{t('prepayments.repeat')}</label>
+              <select
+                value={prepayment.frequency}
+                onChange={(e) => updatePrepayment(prepayment.id, { frequency: e.target.value as PrepaymentFrequency })}
+                className={styles.input.select}
+              >
+                <option value="once">{t('prepayments.once')}</option>
+                <option value="monthly">{t('prepayments.monthly')}</option>
+                <option value="yearly">{t('prepayments.yearly')}</option>
+              </select>
+            </div>
+            {prepayment.frequency !== 'once' && (
+              <div className="w-28">
+                <label className={styles.text.labelSmall}>{t('prepayments.untilMonth')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={prepayment.endMonth ?? ''}
+                  onChange={(e) => updatePrepayment(prepayment.id, { endMonth: e.target.value === '' ? undefined : parseNumber(e.target.value) })}
+                  className={styles.input.base}
+                  placeholder={t('prepayments.endPlaceholder')}
+                />
+              </div>
+            )}
+            <div className="flex-1 min-w-40">
+              <label className={styles.text.labelSmall}>{t('prepayments.effect')}</label>
+              <select
+                value={prepayment.strategy}
+                onChange={(e) => updatePrepayment(prepayment.id, { strategy: e.target.value as PrepaymentStrategy })}
+                className={styles.input.select}
+              >
+                <option value="reduce_tenure">{t('prepayments.reduceTenure')}</option>
+                <option value="reduce_emi">{t('prepayments.reduceEmi')}</option>
+              </select>
+            </div>
+            <button
+              onClick={() => handleRemove(prepayment.id)}
+              className={`${styles.button.secondary} mb-1`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <p className={styles.text.error}>{error}</p>
+      )}
+
+      {comparison && prepayments.length > 0 && (
+        <div className={`${styles.layout.borderTop} mt-4`}>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div>
+              <p className={styles.text.info.small}>{t('prepayments.interestSaved')}</p>
+              <p className="text-2xl font-bold text-green-600">{formatCurrency(comparison.interestSaved, currency)}</p>
+            </div>
+            <div>
+              <p className={styles.text.info.small}>{t('prepayments.totalPrepaid')}</p>
+              <p className={styles.text.value.large}>{formatCurrency(comparison.totalPrepaid, currency)}</p>
+            </div>
+            <div>
+              <p className={styles.text.info.small}>{t('prepayments.newPayoffDate')}</p>
+              <p className={styles.text.value.large}>{formatDate(comparison.newPayoffDate)}</p>
+            </div>
+            <div>
+              <p className={styles.text.info.small}>{t('prepayments.monthsSaved')}</p>
+              <p className={styles.text.value.large}>{comparison.monthsSaved}</p>
+            </div>
+          </div>
+
+          <div className={styles.table.wrapper}>
+            <table className={styles.table.base}>
+              <thead>
+                <tr>
+                  <th className={styles.table.headCell}></th>
+                  <th className={styles.table.headCell}>{t('prepayments.without')}</th>
+                  <th className={styles.table.headCell}>{t('prepayments.with')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className={styles.table.row}>
+                  <td className={styles.table.cell}>{t('prepayments.totalInterest')}</td>
+                  <td className={styles.table.cell}>{formatCurrency(comparison.baseline.totalInterest, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(comparison.withPrepayments.totalInterest, currency)}</td>
+                </tr>
+                <tr className={styles.table.row}>
+                  <td className={styles.table.cell}>{t('prepayments.totalPaid')}</td>
+                  <td className={styles.table.cell}>{formatCurrency(comparison.baseline.totalPayment, currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(comparison.withPrepayments.totalPayment, currency)}</td>
+                </tr>
+                <tr className={styles.table.row}>
+                  <td className={styles.table.cell}>{t('prepayments.installments')}</td>
+                  <td className={styles.table.cell}>{comparison.baseline.rows.length}</td>
+                  <td className={styles.table.cell}>{comparison.withPrepayments.rows.length}</td>
+                </tr>
+                <tr className={styles.table.row}>
+                  <td className={styles.table.cell}>{t('prepayments.finalEmi')}</td>
+                  <td className={styles.table.cell}>{formatCurrency(lastEmi(comparison.baseline), currency)}</td>
+                  <td className={styles.table.cell}>{formatCurrency(lastEmi(comparison.withPrepayments), currency)}</td>
+                </tr>
+                <tr className={styles.table.row}>
+                  <td className={styles.table.cell}>{t('prepayments.payoffDate')}</td>
+                  <td className={styles.table.cell}>{formatDate(comparison.originalPayoffDate)}</td>
+                  <td className={styles.table.cell}>{formatDate(comparison.newPayoffDate)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrepaymentSimulator;
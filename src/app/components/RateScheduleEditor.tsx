@@ -0,0 +1,134 @@
+"use client";
+
+import React from 'react';
+import { RateSchedule, RateScheduleMode } from '../types/emi';
+import { MessageKey } from '../locales/en';
+import { useTranslation } from '../hooks/useTranslation';
+import { styles } from './styles';
+
+interface RateScheduleEditorProps {
+  rateSchedule: RateSchedule;
+  onChange: (rateSchedule: RateSchedule) => void;
+  error?: string;
+}
+
+type BasePlusMarginField = 'fixedPeriodMonths' | 'baseRate' | 'margin' | 'resetIntervalMonths' | 'baseRateChangePerReset';
+
+const BASE_PLUS_MARGIN_FIELDS: { field: BasePlusMarginField; labelKey: MessageKey; step: string }[] = [
+  { field: 'fixedPeriodMonths', labelKey: 'rates.fixedPeriodMonths', step: '1' },
+  { field: 'resetIntervalMonths', labelKey: 'rates.resetIntervalMonths', step: '1' },
+  { field: 'baseRate', labelKey: 'rates.baseRate', step: '0.1' },
+  { field: 'margin', labelKey: 'rates.margin', step: '0.1' },
+  { field: 'baseRateChangePerReset', labelKey: 'rates.baseRateChangePerReset', step: '0.25' }
+];
+
+const parseNumber = (value: string): number => (value === '' ? 0 : parseFloat(value) || 0);
+
+const RateScheduleEditor: React.FC<RateScheduleEditorProps> = ({ rateSchedule, onChange, error }) => {
+  const { t } = useTranslation();
+
+  const handleModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const mode = e.target.value as RateScheduleMode;
+    const periods = mode === 'periods' && rateSchedule.periods.length === 0
+      ? [{ startMonth: 25, rate: 10 }]
+      : rateSchedule.periods;
+    onChange({ ...rateSchedule, mode, periods });
+  };
+
+  const updatePeriod = (index: number, field: 'startMonth' | 'rate', value: string) => {
+    const periods = rateSchedule.periods.map((period, i) =>
+      i === index ? { ...period, [field]: parseNumber(value) } : period
+    );
+    onChange({ ...rateSchedule, periods });
+  };
+
+  const handleAddPeriod = () => {
+    const last = rateSchedule.periods[rateSchedule.periods.length - 1];
+    const periods = [...rateSchedule.periods, { startMonth: last ? last.startMonth + 12 : 13, rate: last ? last.rate : 10 }];
+    onChange({ ...rateSchedule, periods });
+  };
+
+  const handleRemovePeriod = (index: number) => {
+    onChange({ ...rateSchedule, periods: rateSchedule.periods.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div>
+      <label className={styles.text.label}>{t('rates.type')}</label>
+      <select
+        value={rateSchedule.mode}
+        onChange={handleModeChange}
+        className={styles.input.select}
+      >
+        <option value="fixed">{t('rates.fixed')}</option>
+        <option value="periods">{t('rates.periods')}</option>
+        <option value="base_plus_margin">{t('rates.basePlusMargin')}</option>
+      </select>
+
+      {rateSchedule.mode === 'periods' && (
+        <div className={`${styles.layout.spaceYSmall} mt-3`}>
+          <p className={styles.text.hint}>{t('rates.periodsHint')}</p>
+          {rateSchedule.periods.map((period, index) => (
+            <div key={index} className={styles.layout.flexGapSmall}>
+              <div className="flex-1">
+                <label className={styles.text.labelSmall}>{t('rates.fromMonth')}</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={period.startMonth}
+                  onChange={(e) => updatePeriod(index, 'startMonth', e.target.value)}
+                  className={styles.input.base}
+                />
+              </div>
+              <div className="flex-1">
+                <label className={styles.text.labelSmall}>{t('rates.rate')}</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={period.rate}
+                  onChange={(e) => updatePeriod(index, 'rate', e.target.value)}
+                  className={styles.input.base}
+                />
+              </div>
+              <button
+                onClick={() => handleRemovePeriod(index)}
+                className={`${styles.button.secondary} self-end mb-1`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button onClick={handleAddPeriod} className={styles.button.secondary}>
+            {t('rates.addPeriod')}
+          </button>
+        </div>
+      )}
+
+      {rateSchedule.mode === 'base_plus_margin' && (
+        <div className={`${styles.layout.gridCols2} mt-3`}>
+          {BASE_PLUS_MARGIN_FIELDS.map(({ field, labelKey, step }) => (
+            <div key={field}>
+              <label className={styles.text.labelSmall}>{t(labelKey)}</label>
+              <input
+                type="number"
+                step={step}
+                value={rateSchedule[field]}
+                onChange={(e) => onChange({ ...rateSchedule, [field]: parseNumber(e.target.value) })}
+                className={styles.input.base}
+              />
+            </div>
+          ))}
+          <p className={`${styles.text.hint} col-span-2`}>
+            {t('rates.fixedPeriodHint')}
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <p className={styles.text.error}>{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default RateScheduleEditor;
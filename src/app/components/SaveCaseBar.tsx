@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useState } from 'react';
+import { MessageKey } from '../locales/en';
+import { useTranslation } from '../hooks/useTranslation';
+import { styles } from './styles';
+
+interface SaveCaseBarProps {
+  onSave: (name: string, notes: string) => string | null;
+  onOpenHistory: () => void;
+  getShareUrl: () => string;
+}
+
+const SaveCaseBar: React.FC<SaveCaseBarProps> = ({ onSave, onOpenHistory, getShareUrl }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [savedName, setSavedName] = useState('');
+  const [shareMessage, setShareMessage] = useState<MessageKey | null>(null);
+
+  const handleSave = () => {
+    const saveError = onSave(name, notes);
+    if (saveError) {
+      setError(saveError);
+      setSavedName('');
+      return;
+    }
+
+    setSavedName(name.trim());
+    setName('');
+    setNotes('');
+    setError('');
+  };
+
+  // Put the link in the address bar too, so it can be copied by hand if the clipboard is blocked
+  const handleShare = async () => {
+    const shareUrl = getShareUrl();
+    window.history.replaceState(null, '', shareUrl);
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setShareMessage('cases.linkCopied');
+    } catch {
+      setShareMessage('cases.copyFromAddressBar');
+    }
+  };
+
+  return (
+    <div className={`${styles.card.gray} mb-6`}>
+      <div className={styles.layout.flexBetween}>
+        <h2 className={styles.heading.subsection}>{t('cases.title')}</h2>
+        <div className={styles.layout.flexGapSmall}>
+          <button onClick={handleShare} className={styles.button.edit}>
+            {t('cases.shareButton')}
+          </button>
+          <button onClick={onOpenHistory} className={styles.button.edit}>
+            {t('cases.historyButton')}
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-48">
+          <label className={styles.text.labelSmall}>{t('cases.name')}</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('cases.namePlaceholder')}
+            className={styles.input.select}
+          />
+        </div>
+        <div className="flex-[2] min-w-64">
+          <label className={styles.text.labelSmall}>{t('cases.notes')}</label>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={t('cases.notesPlaceholder')}
+            className={styles.input.select}
+          />
+        </div>
+        <button onClick={handleSave} className={`${styles.button.edit} mb-1`}>
+          {t('cases.saveButton')}
+        </button>
+      </div>
+      {error && <p className={styles.text.error}>{error}</p>}
+      {shareMessage && <p className={styles.text.hint}>{t(shareMessage)}</p>}
+      {savedName && !error && (
+        <p className={styles.text.hint}>{t('cases.saved', { name: savedName })}</p>
+      )}
+    </div>
+  );
+};
+
+export default SaveCaseBar;
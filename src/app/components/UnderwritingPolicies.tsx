@@ -0,0 +1,317 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { UnderwritingPolicy } from '../types/emi';
+import { MessageKey } from '../locales/en';
+import { PolicyService } from '../services/policyService';
+import { useTranslation } from '../hooks/useTranslation';
+
+type PolicyNumericField = Exclude<keyof UnderwritingPolicy, 'id' | 'name' | 'version' | 'updatedAt'>;
+
+// Editable policy parameters, in the order they are applied by the calculation
+const POLICY_FIELDS: { field: PolicyNumericField; labelKey: MessageKey; step: string; hintKey: MessageKey }[] = [
+  { field: 'livingExpenseThreshold', labelKey: 'policies.livingExpenseThreshold', step: '1000', hintKey: 'policies.livingExpenseThresholdHint' },
+  { field: 'livingExpenseRateAboveThreshold', labelKey: 'policies.livingExpenseRateAboveThreshold', step: '0.5', hintKey: 'policies.livingExpenseRateHint' },
+  { field: 'livingExpenseRateAtOrBelowThreshold', labelKey: 'policies.livingExpenseRateAtOrBelowThreshold', step: '0.5', hintKey: 'policies.livingExpenseRateHint' },
+  { field: 'maintenanceCostRate', labelKey: 'policies.maintenanceCostRate', step: '0.5', hintKey: 'policies.maintenanceCostRateHint' },
+  { field: 'incomeReduceMultiplier', labelKey: 'policies.incomeReduceMultiplier', step: '0.05', hintKey: 'policies.incomeReduceMultiplierHint' },
+  { field: 'stressExpenditureRate', labelKey: 'policies.stressExpenditureRate', step: '0.5', hintKey: 'policies.stressExpenditureRateHint' },
+  { field: 'dscrExcellentThreshold', labelKey: 'policies.dscrExcellentThreshold', step: '0.05', hintKey: 'policies.dscrExcellentThresholdHint' },
+  { field: 'dscrGoodThreshold', labelKey: 'policies.dscrGoodThreshold', step: '0.05', hintKey: 'policies.dscrGoodThresholdHint' }
+];
+
+const UnderwritingPolicies: React.FC = () => {
+  const router = useRouter();
+  const { t, formatDateTime } = useTranslation();
+
+  const [policies, setPolicies] = useState<UnderwritingPolicy[]>([]);
+  const [history, setHistory] = useState<UnderwritingPolicy[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingPolicy, setEditingPolicy] = useState<UnderwritingPolicy | null>(null);
+  const [isNewPolicy, setIsNewPolicy] = useState(false);
+  const [error, setError] = useState('');
+
+  // Load policies and their revision history from storage on component mount
+  useEffect(() => {
+    setPolicies(PolicyService.loadPolicies());
+    setHistory(PolicyService.loadPolicyHistory());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading && policies.length > 0) {
+      PolicyService.savePolicies(policies);
+    }
+  }, [policies, isLoading]);
+
+  useEffect(() => {
+    if (!isLoading && history.length > 0) {
+      PolicyService.savePolicyHistory(history);
+    }
+  }, [history, isLoading]);
+
+  // Start a new policy from the default parameters
+  const handleStartAdd = () => {
+    setEditingPolicy({
+      ...PolicyService.getDefaultPolicy(),
+      id: '',
+      name: '',
+      updatedAt: new Date().toISOString()
+    });
+    setIsNewPolicy(true);
+    setError('');
+  };
+
+  const handleStartEdit = (policy: UnderwritingPolicy) => {
+    setEditingPolicy({ ...policy });
+    setIsNewPolicy(false);
+    setError('');
+  };
+
+  const handleFieldChange = (field: PolicyNumericField, value: string) => {
+    if (!editingPolicy) return;
+    setEditingPolicy({ ...editingPolicy, [field]: value === '' ? 0 : parseFloat(value) || 0 });
+  };
+
+  // Save the policy; edits to an existing policy create a new version and the
+  // version it replaces stays in the history
+  const handleSave = () => {
+    if (!editingPolicy) return;
+
+    const validationError = PolicyService.validatePolicy(editingPolicy, t);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const name = editingPolicy.name.trim();
+    if (policies.some(policy => policy.id !== editingPolicy.id && policy.name.toLowerCase() === name.toLowerCase())) {
+      setError(t('policies.errorNameTaken'));
+      return;
+    }
+
+    if (isNewPolicy) {
+      const newPolicy = { ...editingPolicy, id: PolicyService.generateId(name), name, version: 1 };
+      setPolicies(prev => [...prev, newPolicy]);
+      setHistory(prev => PolicyService.appendRevisions(prev, [newPolicy]));
+    } else {
+      const previous = policies.find(policy => policy.id === editingPolicy.id);
+      if (!previous) return;
+
+      const revision = PolicyService.createRevision({ ...editingPolicy, name, version: previous.version });
+      setPolicies(prev => prev.map(policy => (policy.id === revision.id ? revision : policy)));
+      setHistory(prev => PolicyService.appendRevisions(prev, [previous, revision]));
+    }
+
+    setEditingPolicy(null);
+    setError('');
+  };
+
+  const handleCancel = () => {
+    setEditingPolicy(null);
+    setError('');
+  };
+
+  const handleDelete = (id: string) => {
+    if (policies.length <= 1) {
+      setError(t('policies.errorLastPolicy'));
+      return;
+    }
+
+    if (confirm(t('policies.confirmDelete'))) {
+      setPolicies(prev => prev.filter(policy => policy.id !== id));
+      setError('');
+    }
+  };
+
+  const handleGoBack = () => {
+    router.push('/');
+  };
+
+  const renderEditor = (policy: UnderwritingPolicy) => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('policies.name')}</label>
+        <input
+          type="text"
+          value={policy.name}
+          onChange={(e) => setEditingPolicy({ ...policy, name: e.target.value })}
+          placeholder={t('policies.namePlaceholder')}
+          className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {POLICY_FIELDS.map(({ field, labelKey, step, hintKey }) => (
+          <div key={field}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t(labelKey)}</label>
+            <input
+              type="number"
+              step={step}
+              min="0"
+              value={policy[field]}
+              onChange={(e) => handleFieldChange(field, e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">{t(hintKey)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-600"
+        >
+          {t('policies.saveButton')}
+        </button>
+        <button
+          onClick={handleCancel}
+          className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+        >
+          {t('common.cancelButton')}
+        </button>
+      </div>
+    </div>
+  );
+
+  // Earlier versions of a policy, read-only
+  const renderHistory = (policy: UnderwritingPolicy) => {
+    const revisions = PolicyService.getRevisions(history, policy.id).filter(revision => revision.version < policy.version);
+    if (revisions.length === 0) return null;
+
+    return (
+      <details className="mt-3 text-sm text-gray-600">
+        <summary className="cursor-pointer font-medium text-gray-700">{t('policies.versionHistory', { count: revisions.length })}</summary>
+        <div className="mt-2 space-y-2">
+          {revisions.map((revision) => (
+            <div key={revision.version} className="p-2 border border-gray-100 rounded-md">
+              <p className="font-medium">
+                {revision.name} v{revision.version} · {formatDateTime(revision.updatedAt)}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 text-xs">
+                {POLICY_FIELDS.map(({ field, labelKey }) => (
+                  <div key={field}>
+                    <span className="font-medium">{t(labelKey)}:</span> {revision[field]}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </details>
+    );
+  };
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg text-gray-600">{t('common.loading')}</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 bg-white min-h-screen">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-4">
+          <h1 className="text-3xl font-bold text-gray-800">{t('policies.title')}</h1>
+          <button
+            onClick={handleGoBack}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+          >
+            {t('common.backToCalculator')}
+          </button>
+        </div>
+        <p className="text-gray-600">{t('policies.intro')}</p>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-600 text-sm font-medium">{error}</p>
+        </div>
+      )}
+
+      {/* Add New Policy Section */}
+      <div className="mb-8 bg-gray-50 p-6 rounded-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">{t('policies.addSection')}</h2>
+          {!(editingPolicy && isNewPolicy) && (
+            <button
+              onClick={handleStartAdd}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-600"
+            >
+              {t('policies.addButton')}
+            </button>
+          )}
+        </div>
+
+        {editingPolicy && isNewPolicy && renderEditor(editingPolicy)}
+      </div>
+
+      {/* Existing Policies */}
+      <div className="bg-gray-50 p-6 rounded-lg">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">
+          {t('policies.existing', { count: policies.length })}
+        </h2>
+
+        <div className="space-y-3">
+          {policies.map((policy) => (
+            <div
+              key={policy.id}
+              className="p-4 bg-white border border-gray-200 rounded-md hover:shadow-sm transition-shadow"
+            >
+              {editingPolicy && !isNewPolicy && editingPolicy.id === policy.id ? (
+                // Edit mode
+                renderEditor(editingPolicy)
+              ) : (
+                // Display mode
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-gray-800 text-lg">
+                      {policy.name} <span className="text-sm font-normal text-gray-500">v{policy.version}</span>
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 mt-2 text-sm text-gray-600">
+                      {POLICY_FIELDS.map(({ field, labelKey }) => (
+                        <div key={field}>
+                          <span className="font-medium">{t(labelKey)}:</span> {policy[field]}
+                        </div>
+                      ))}
+                      <div>
+                        <span className="font-medium">{t('policies.lastUpdated')}</span> {formatDateTime(policy.updatedAt)}
+                      </div>
+                    </div>
+                    {renderHistory(policy)}
+                  </div>
+                  <div className="flex items-center gap-2 ms-4">
+                    <button
+                      onClick={() => handleStartEdit(policy)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                    >
+                      {t('common.editButton')}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(policy.id)}
+                      className="flex items-center gap-1 px-3 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-700"
+                      disabled={policies.length <= 1}
+                    >
+                      {t('common.deleteButton')}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnderwritingPolicies;
@@ -47,6 +47,18 @@ export const styles = {
   // Button styles
   button: {
     edit: "px-4 py-1 text-xs bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500",
+    secondary: "px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-gray-500",
+  },
+  
+  // Table styles
+  table: {
+    wrapper: "overflow-x-auto",
+    base: "min-w-full text-sm",
+    headCell: "px-3 py-2 text-end font-semibold text-gray-700 border-b border-gray-300 first:text-start",
+    cell: "px-3 py-2 text-end text-gray-700 border-b border-gray-200 first:text-start",
+    row: "bg-white",
+    graceRow: "bg-gray-50 italic",
+    subtotalRow: "bg-gray-200 font-semibold",
   },
   
   // Layout utilities
@@ -62,11 +74,23 @@ export const styles = {
     minWidth: "flex-1 min-w-80",
   },
   
+  // Chart panels
+  charts: {
+    panel: "bg-white p-4 rounded-md",
+  },
+  
   // Results/Display styles
   results: {
     container: "p-6 rounded-lg",
     valueContainer: "grid grid-cols-2 gap-4",
     smallValueContainer: "grid grid-cols-2 gap-4 text-sm",
+  },
+  
+  // Eligibility rule outcomes
+  eligibility: {
+    passed: "text-green-600",
+    failed: "text-red-600",
+    missing: "text-gray-500",
   }
 } as const;
 
@@ -0,0 +1,5 @@
+import EditCurrencies from '../components/EditCurrencies';
+
+export default function CurrencySettingsPage() {
+  return <EditCurrencies />;
+}
@@ -0,0 +1,5 @@
+import CaseHistory from '../components/CaseHistory';
+
+export default function HistoryPage() {
+  return <CaseHistory />;
+}
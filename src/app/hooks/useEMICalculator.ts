@@ -1,16 +1,53 @@
 // src/app/hooks/useEMICalculator.ts
 
-import { useState, useEffect, useMemo } from 'react';
-import { FormDataStrings, LoanType, Scenario } from '../types/emi';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  FormDataStrings,
+  FormField,
+  CoApplicantStrings,
+  ObligationLedger,
+  LoanType,
+  Scenario,
+  GraceMode,
+  UnderwritingPolicy,
+  TaxTable,
+  RateSchedule,
+  Prepayment,
+  CalculationOptions,
+  SavedCase,
+  CurrencyFormat,
+  CurrencySettings,
+  EligibilityLimits,
+  ProductRules
+} from '../types/emi';
 import { EMICalculationService } from '../services/calculationService';
 import { LoanService } from '../services/loanService';
+import { PolicyService } from '../services/policyService';
+import { TaxTableService } from '../services/taxTableService';
+import { ScenarioService } from '../services/scenarioService';
+import { RateScheduleService } from '../services/rateScheduleService';
+import { ValidationService } from '../services/validationService';
+import { CaseService } from '../services/caseService';
+import { ShareLinkService } from '../services/shareLinkService';
+import { CurrencyService } from '../services/currencyService';
+import { ObligationService } from '../services/obligationService';
+import { MessageKey } from '../locales/en';
+import { useTranslation } from './useTranslation';
 
 interface UseEMICalculatorReturn {
   // Form state
   formData: FormDataStrings;
-  updateFormData: (field: keyof FormDataStrings, value: string) => void;
+  updateFormData: (field: FormField, value: string) => void;
   resetForm: () => void;
   
+  // Co-applicants on the case; the primary applicant's lines are the form fields
+  coApplicants: CoApplicantStrings[];
+  setCoApplicants: (coApplicants: CoApplicantStrings[]) => void;
+  
+  // Itemized existing obligations
+  obligationLedger: ObligationLedger;
+  setObligationLedger: (obligationLedger: ObligationLedger) => void;
+  
   // Loan types
   loanTypes: LoanType[];
   selectedLoanType: string;
@@ -19,14 +56,58 @@ interface UseEMICalculatorReturn {
   // Grace period
   isAfterGrace: boolean;
   setIsAfterGrace: (isAfter: boolean) => void;
+  graceMode: GraceMode;
+  setGraceMode: (graceMode: GraceMode) => void;
   
   // Scenario
-  scenario: Scenario;
-  setScenario: (scenario: Scenario) => void;
+  scenarios: Scenario[];
+  scenarioId: string;
+  setScenarioId: (scenarioId: string) => void;
+  selectedScenario: Scenario;
+  
+  // Underwriting policy
+  policies: UnderwritingPolicy[];
+  selectedPolicyId: string;
+  setSelectedPolicyId: (policyId: string) => void;
+  activePolicy: UnderwritingPolicy;
+  
+  // Tax tables
+  taxTables: TaxTable[];
+  effectiveTaxTable: TaxTable;
+  
+  // Currency of the selected loan type, and settings for equivalent amounts
+  currencySettings: CurrencySettings;
+  currency: CurrencyFormat;
+  
+  // DTI, FOIR and LTV limits and product rules of the selected loan type
+  eligibilityLimits: EligibilityLimits | undefined;
+  productRules: ProductRules | undefined;
+  
+  // Interest rate schedule
+  rateSchedule: RateSchedule;
+  setRateSchedule: (rateSchedule: RateSchedule) => void;
+  
+  // Prepayments
+  prepayments: Prepayment[];
+  setPrepayments: (prepayments: Prepayment[]) => void;
+  
+  // Saved applicant cases
+  savedCases: SavedCase[];
+  saveCase: (name: string, notes: string) => string | null;
+  openCase: (savedCase: SavedCase) => void;
+  
+  // Share links
+  getShareUrl: () => string;
+  shareLinkNotice: string;
+  dismissShareLinkNotice: () => void;
+  
+  // Options passed to every calculation
+  calculationOptions: CalculationOptions;
   
   // Derived values
-  bankFinanceAmount: number;
+  bankFinanceAmount: number; // includes refinanced obligations
   equityAmount: number;
+  takeoverAmount: number;
   totalProjectCost: number;
   equityPercentage: number;
   
@@ -40,15 +121,24 @@ const DEFAULT_FORM_DATA: FormDataStrings = {
   rent: '',
   other: '',
   projectIncome: '',
-  existingLoans: '',
   totalProjectCost: '1800000',
   equityPercentage: '10',
   rate: '9.0',
   repaymentPeriod: '240',
-  gracePeriod: ''
+  gracePeriod: '',
+  propertyValue: '',
+  processingFeeRate: '',
+  stampDuty: '',
+  propertyInsurance: '',
+  lifeInsurance: '',
+  serviceCharges: '',
+  coApplicants: [],
+  obligationLedger: ObligationService.createLedger()
 };
 
 export const useEMICalculator = (): UseEMICalculatorReturn => {
+  const { t } = useTranslation();
+
   // Form data state
   const [formData, setFormData] = useState<FormDataStrings>(DEFAULT_FORM_DATA);
   
@@ -58,96 +148,264 @@ export const useEMICalculator = (): UseEMICalculatorReturn => {
   
   // Grace period state
   const [isAfterGrace, setIsAfterGrace] = useState(false);
+  const [graceMode, setGraceMode] = useState<GraceMode>('added_to_tenure');
   
-  // Scenario state
-  const [scenario, setScenario] = useState<Scenario>('normal');
+  // Scenario state; built-in scenarios are derived from the active policy
+  const [customScenarios, setCustomScenarios] = useState<Scenario[]>([]);
+  const [scenarioId, setScenarioId] = useState(ScenarioService.NORMAL_SCENARIO_ID);
+  
+  // Underwriting policy state
+  const [policies, setPolicies] = useState<UnderwritingPolicy[]>([PolicyService.getDefaultPolicy()]);
+  const [selectedPolicyId, setSelectedPolicyIdState] = useState(PolicyService.getDefaultPolicy().id);
+  
+  // Tax table state; the calculation date selects the table in force
+  const [taxTables, setTaxTables] = useState<TaxTable[]>(TaxTableService.getDefaultTaxTables());
+  const [calculationDate] = useState(() => new Date());
+  
+  // Currency settings state
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(CurrencyService.getDefaultSettings());
+  
+  // Interest rate schedule state
+  const [rateSchedule, setRateSchedule] = useState<RateSchedule>(RateScheduleService.getDefaultRateSchedule());
+  
+  // Prepayment state
+  const [prepayments, setPrepayments] = useState<Prepayment[]>([]);
+  
+  // Saved case state
+  const [savedCases, setSavedCases] = useState<SavedCase[]>([]);
+  
+  // Problems found while restoring a shared link, kept as keys so they follow the language
+  const [shareLinkNoticeKeys, setShareLinkNoticeKeys] = useState<MessageKey[]>([]);
 
-  // Load loan types on mount
-  useEffect(() => {
-    const loadedLoanTypes = LoanService.loadLoanTypes();
-    setLoanTypes(loadedLoanTypes);
+  // Restore the inputs of a saved case; its quote snapshot stays untouched
+  const openCase = useCallback((savedCase: SavedCase): void => {
+    setFormData({ ...DEFAULT_FORM_DATA, ...savedCase.formData });
+    setSelectedLoanType(savedCase.loanTypeId);
+    setScenarioId(savedCase.scenarioId);
+    setGraceMode(savedCase.graceMode);
+    setSelectedPolicyIdState(savedCase.policyId);
+    setRateSchedule(savedCase.rateSchedule);
+    setPrepayments(savedCase.prepayments);
+    setIsAfterGrace(false);
   }, []);
 
+  // Load loan types, policies, tax tables and saved cases on mount
+  useEffect(() => {
+    let isMounted = true;
+    
+    const loadedPolicies = PolicyService.loadPolicies();
+    setPolicies(loadedPolicies);
+    setSelectedPolicyIdState(PolicyService.findPolicy(loadedPolicies, PolicyService.loadActivePolicyId()).id);
+    
+    TaxTableService.loadTaxTables().then((loadedTaxTables) => {
+      if (isMounted) setTaxTables(loadedTaxTables);
+    });
+    
+    setCurrencySettings(CurrencyService.loadSettings());
+    
+    const loadedCustomScenarios = ScenarioService.loadCustomScenarios();
+    setCustomScenarios(loadedCustomScenarios);
+    
+    // A case reopened from the history page arrives as ?case=<id>
+    const loadedCases = CaseService.loadCases();
+    setSavedCases(loadedCases);
+    const caseId = new URLSearchParams(window.location.search).get('case');
+    const savedCase = caseId ? CaseService.findCase(loadedCases, caseId) : undefined;
+    if (savedCase) {
+      openCase(savedCase);
+    }
+    
+    // A shared link arrives as ?s=<token>; its loan type is checked once the catalog has loaded
+    const shareToken = new URLSearchParams(window.location.search).get(ShareLinkService.PARAM);
+    LoanService.loadLoanTypes().then((loadedLoanTypes) => {
+      if (!isMounted) return;
+      setLoanTypes(loadedLoanTypes);
+      if (!shareToken) return;
+
+      const { state, error } = ShareLinkService.decode(shareToken);
+      if (state) {
+        const notices: MessageKey[] = [];
+        setFormData({ ...DEFAULT_FORM_DATA, ...state.formData });
+        setGraceMode(state.graceMode);
+        if (loadedLoanTypes.some(loan => loan.id === state.loanTypeId)) {
+          setSelectedLoanType(state.loanTypeId);
+        } else {
+          notices.push('shareLink.loanTypeMissing');
+        }
+        const isBuiltInScenario = state.scenarioId === ScenarioService.NORMAL_SCENARIO_ID ||
+          state.scenarioId === ScenarioService.INCOME_REDUCE_SCENARIO_ID;
+        if (isBuiltInScenario || loadedCustomScenarios.some(scenario => scenario.id === state.scenarioId)) {
+          setScenarioId(state.scenarioId);
+        } else {
+          notices.push('shareLink.scenarioMissing');
+        }
+        setShareLinkNoticeKeys(notices);
+      } else {
+        setShareLinkNoticeKeys([error || 'shareLink.failed']);
+      }
+    });
+    
+    // Loan types edited on the admin page, in this tab or another, replace the list
+    const unsubscribe = LoanService.subscribe(setLoanTypes);
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, [openCase]);
+
+  // Policy selection is remembered across visits
+  const setSelectedPolicyId = (policyId: string): void => {
+    setSelectedPolicyIdState(policyId);
+    PolicyService.saveActivePolicyId(policyId);
+  };
+
+  const activePolicy = useMemo(
+    () => PolicyService.findPolicy(policies, selectedPolicyId),
+    [policies, selectedPolicyId]
+  );
+
+  const scenarios = useMemo(
+    () => ScenarioService.getAllScenarios(activePolicy, customScenarios, t),
+    [activePolicy, customScenarios, t]
+  );
+
+  const selectedScenario = useMemo(
+    () => ScenarioService.findScenario(scenarios, scenarioId),
+    [scenarios, scenarioId]
+  );
+
+  const currency = useMemo(
+    () => CurrencyService.getLoanTypeCurrency(currencySettings, loanTypes.find(loan => loan.id === selectedLoanType)),
+    [currencySettings, loanTypes, selectedLoanType]
+  );
+
+  // Tax thresholds are rufiyaa amounts; incomes are entered in the loan type's currency
+  const convertedTaxTables = useMemo(
+    () => TaxTableService.convertTaxTables(taxTables, currency.code, currencySettings.fxRates),
+    [taxTables, currency.code, currencySettings.fxRates]
+  );
+
+  const effectiveTaxTable = useMemo(
+    () => TaxTableService.getEffectiveTable(convertedTaxTables || taxTables, calculationDate),
+    [convertedTaxTables, taxTables, calculationDate]
+  );
+
+  const selectedLoanTypeDetails = loanTypes.find(loan => loan.id === selectedLoanType);
+  const eligibilityLimits = selectedLoanTypeDetails?.eligibilityLimits;
+  const productRules = selectedLoanTypeDetails?.productRules;
+
+  const calculationOptions = useMemo<CalculationOptions>(
+    () => ({ graceMode, calculationDate, policy: activePolicy, taxTables: convertedTaxTables || taxTables, rateSchedule }),
+    [graceMode, calculationDate, activePolicy, convertedTaxTables, taxTables, rateSchedule]
+  );
+
   // Form data update handler
-  const updateFormData = (field: keyof FormDataStrings, value: string): void => {
+  const updateFormData = (field: FormField, value: string): void => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
   };
 
+  const setCoApplicants = (coApplicants: CoApplicantStrings[]): void => {
+    setFormData(prev => ({
+      ...prev,
+      coApplicants
+    }));
+  };
+
+  const setObligationLedger = (obligationLedger: ObligationLedger): void => {
+    setFormData(prev => ({
+      ...prev,
+      obligationLedger
+    }));
+  };
+
   // Reset form to default values
   const resetForm = (): void => {
     setFormData(DEFAULT_FORM_DATA);
     setIsAfterGrace(false);
-    setScenario('normal');
+    setGraceMode('added_to_tenure');
+    setRateSchedule(RateScheduleService.getDefaultRateSchedule());
+    setPrepayments([]);
+    setScenarioId(ScenarioService.NORMAL_SCENARIO_ID);
     setSelectedLoanType('home-loan');
   };
 
+  // Link that restores the current inputs, loan type, scenario and grace handling
+  const getShareUrl = (): string => ShareLinkService.buildShareUrl(window.location.href, {
+    formData,
+    loanTypeId: selectedLoanType,
+    scenarioId,
+    graceMode
+  });
+
+  const shareLinkNotice = shareLinkNoticeKeys.map(key => t(key)).join('. ');
+  const dismissShareLinkNotice = (): void => setShareLinkNoticeKeys([]);
+
   // Memoized derived values for performance
-  const { totalProjectCost, equityPercentage, bankFinanceAmount, equityAmount } = useMemo(() => {
-    const projectCost = EMICalculationService.getNumericValue(formData.totalProjectCost);
-    const equity = EMICalculationService.getNumericValue(formData.equityPercentage);
+  const { totalProjectCost, equityPercentage, bankFinanceAmount, equityAmount, takeoverAmount } = useMemo(() => {
+    const numericData = EMICalculationService.convertToNumericFormData(formData);
+    const projectCost = numericData.totalProjectCost;
+    const equity = numericData.equityPercentage;
     
-    const bankFinance = EMICalculationService.calculateBankFinanceAmount(projectCost, equity);
+    const bankFinance = EMICalculationService.calculateFinancedAmount(numericData);
     const equityAmt = EMICalculationService.calculateEquityAmount(projectCost, equity);
     
     return {
       totalProjectCost: projectCost,
       equityPercentage: equity,
       bankFinanceAmount: bankFinance,
-      equityAmount: equityAmt
+      equityAmount: equityAmt,
+      takeoverAmount: EMICalculationService.calculateTakeoverAmount(numericData.obligationLedger)
     };
-  }, [formData.totalProjectCost, formData.equityPercentage]);
+  }, [formData]);
 
   // Form validation
   const { isFormValid, validationErrors } = useMemo(() => {
-    const errors: Record<string, string> = {};
-    
-    // Required field validations
-    if (!formData.salary || EMICalculationService.getNumericValue(formData.salary) <= 0) {
-      errors.salary = 'Salary is required and must be greater than 0';
-    }
-    
-    if (!formData.totalProjectCost || EMICalculationService.getNumericValue(formData.totalProjectCost) <= 0) {
-      errors.totalProjectCost = 'Total project cost is required and must be greater than 0';
-    }
-    
-    if (!formData.rate || EMICalculationService.getNumericValue(formData.rate) <= 0) {
-      errors.rate = 'Interest rate is required and must be greater than 0';
-    }
-    
-    if (!formData.repaymentPeriod || EMICalculationService.getNumericValue(formData.repaymentPeriod) <= 0) {
-      errors.repaymentPeriod = 'Repayment period is required and must be greater than 0';
-    }
-    
-    // Logical validations
-    const equity = EMICalculationService.getNumericValue(formData.equityPercentage);
-    if (equity < 0 || equity > 100) {
-      errors.equityPercentage = 'Equity percentage must be between 0 and 100';
-    }
-    
-    const rate = EMICalculationService.getNumericValue(formData.rate);
-    if (rate > 50) { // Reasonable upper limit
-      errors.rate = 'Interest rate seems unusually high';
-    }
-    
-    const tenure = EMICalculationService.getNumericValue(formData.repaymentPeriod);
-    if (tenure > 600) { // 50 years max
-      errors.repaymentPeriod = 'Repayment period cannot exceed 600 months';
-    }
-    
-    // Grace period validation
-    const gracePeriod = EMICalculationService.getNumericValue(formData.gracePeriod);
-    if (gracePeriod > tenure) {
-      errors.gracePeriod = 'Grace period cannot be longer than repayment period';
+    const errors = ValidationService.validateCalculationInputs({ formData, graceMode, rateSchedule, prepayments, productRules }, t);
+    if (!convertedTaxTables) {
+      errors.taxTables = t('validation.taxTableCurrency', { currency: currency.code, taxCurrency: TaxTableService.CURRENCY });
     }
     
     return {
       isFormValid: Object.keys(errors).length === 0,
       validationErrors: errors
     };
-  }, [formData]);
+  }, [formData, graceMode, rateSchedule, prepayments, productRules, convertedTaxTables, currency.code, t]);
+
+  // Save the current inputs with a frozen snapshot of the quote; returns an error message on failure
+  const saveCase = (name: string, notes: string): string | null => {
+    // Names are checked against storage too, as other tabs may have saved cases since
+    const nameError = CaseService.validateCaseName(name, CaseService.loadCases(), t);
+    if (nameError) {
+      return nameError;
+    }
+    if (!isFormValid) {
+      return t('validation.caseFormInvalid');
+    }
+
+    const newCase = CaseService.createCase({
+      name,
+      notes,
+      formData,
+      loanTypeId: selectedLoanType,
+      scenarioId: selectedScenario.id,
+      graceMode,
+      policyId: activePolicy.id,
+      rateSchedule,
+      prepayments,
+      calculations: EMICalculationService.performCalculations(formData, selectedScenario, true, calculationOptions),
+      scenarioResults: scenarios.map(scenario => ({
+        scenarioId: scenario.id,
+        scenarioName: scenario.name,
+        calculations: EMICalculationService.performCalculations(formData, scenario, true, calculationOptions)
+      })),
+      currency
+    });
+    setSavedCases(CaseService.saveCase(newCase));
+    return null;
+  };
 
   return {
     // Form state
@@ -155,6 +413,14 @@ export const useEMICalculator = (): UseEMICalculatorReturn => {
     updateFormData,
     resetForm,
     
+    // Co-applicants
+    coApplicants: formData.coApplicants || [],
+    setCoApplicants,
+    
+    // Obligations ledger
+    obligationLedger: formData.obligationLedger || ObligationService.createLedger(),
+    setObligationLedger,
+    
     // Loan types
     loanTypes,
     selectedLoanType,
@@ -163,14 +429,58 @@ export const useEMICalculator = (): UseEMICalculatorReturn => {
     // Grace period
     isAfterGrace,
     setIsAfterGrace,
+    graceMode,
+    setGraceMode,
     
     // Scenario
-    scenario,
-    setScenario,
+    scenarios,
+    scenarioId,
+    setScenarioId,
+    selectedScenario,
+    
+    // Underwriting policy
+    policies,
+    selectedPolicyId,
+    setSelectedPolicyId,
+    activePolicy,
+    
+    // Tax tables
+    taxTables,
+    effectiveTaxTable,
+    
+    // Currency
+    currencySettings,
+    currency,
+    
+    // Eligibility limits and product rules
+    eligibilityLimits,
+    productRules,
+    
+    // Interest rate schedule
+    rateSchedule,
+    setRateSchedule,
+    
+    // Prepayments
+    prepayments,
+    setPrepayments,
+    
+    // Saved applicant cases
+    savedCases,
+    saveCase,
+    openCase,
+    
+    // Share links
+    getShareUrl,
+    shareLinkNotice,
+    dismissShareLinkNotice,
+    
+    // Options passed to every calculation
+    calculationOptions,
     
     // Derived values
     bankFinanceAmount,
     equityAmount,
+    takeoverAmount,
     totalProjectCost,
     equityPercentage,
     
@@ -0,0 +1,28 @@
+// src/app/hooks/useTranslation.ts
+
+import { createContext, useContext } from 'react';
+import { Language, LanguageOption, TextDirection } from '../types/emi';
+import { MessageKey } from '../locales/en';
+import { MessageParams } from '../services/localeService';
+
+export interface TranslationContextValue {
+  language: Language;
+  direction: TextDirection;
+  locale: string;
+  languages: LanguageOption[];
+  setLanguage: (language: Language) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (isoDate: string) => string;
+  formatDateTime: (isoTimestamp: string) => string;
+  formatNumber: (amount: number) => string;
+}
+
+export const TranslationContext = createContext<TranslationContextValue | null>(null);
+
+export const useTranslation = (): TranslationContextValue => {
+  const context = useContext(TranslationContext);
+  if (!context) {
+    throw new Error('useTranslation must be used inside a LanguageProvider');
+  }
+  return context;
+};
@@ -1,5 +1,9 @@
 import './globals.css'
 import { Inter } from 'next/font/google'
+import { cookies } from 'next/headers'
+import LanguageProvider from './components/LanguageProvider'
+import LanguageSwitcher from './components/LanguageSwitcher'
+import { LocaleService } from './services/localeService'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -8,14 +12,23 @@ export const metadata = {
   description: 'Calculate EMI and DSCR for loan applications',
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const cookieStore = await cookies()
+  const language = LocaleService.parseLanguage(cookieStore.get(LocaleService.COOKIE_NAME)?.value)
+  const { direction } = LocaleService.getLanguageOption(language)
+
   return (
-    <html lang="en">
-      <body className={inter.className}>{children}</body>
+    <html lang={language} dir={direction}>
+      <body className={inter.className}>
+        <LanguageProvider initialLanguage={language}>
+          <LanguageSwitcher />
+          {children}
+        </LanguageProvider>
+      </body>
     </html>
   )
-}
\ No newline at end of file
+}
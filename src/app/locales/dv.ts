@@ -0,0 +1,715 @@
+// src/app/locales/dv.ts
+
+import { Messages } from './en';
+
+export const dv: Messages = {
+  // Shared
+  'common.loading': 'ލޯޑުވަނީ...',
+  'common.backToCalculator': '→ ކެލްކިއުލޭޓަރަށް އެނބުރި',
+  'common.edit': 'ބަދަލުކުރޭ',
+  'common.editButton': '✎ ބަދަލުކުރޭ',
+  'common.deleteButton': '🗑 ފޮހެލާ',
+  'common.cancelButton': '✕ ކެންސަލް',
+  'common.years': 'އަހަރު',
+  'common.months': 'މަސް',
+  'common.totalMonths': 'ޖުމްލަ: {months} މަސް',
+  'common.language': 'ބަސް',
+  'date.months': 'ޖަނަވަރީ,ފެބުރުވަރީ,މާރިޗު,އޭޕްރީލް,މެއި,ޖޫން,ޖުލައި,އޯގަސްޓް,ސެޕްޓެންބަރު,އޮކްޓޫބަރު,ނޮވެންބަރު,ޑިސެންބަރު',
+
+  // DSCR verdicts
+  'dscr.excellent': 'މޮޅު',
+  'dscr.good': 'ރަނގަޅު',
+  'dscr.needsImprovement': 'ރަނގަޅުކުރަން ޖެހޭ',
+
+  // Grace handling
+  'grace.addedToTenure': 'މުއްދަތުގެ އިތުރަށް (އިންޓަރެސްޓް އެކަނި)',
+  'grace.insideTenure': 'މުއްދަތުގެ ތެރޭގައި (އިންޓަރެސްޓް އެކަނި)',
+  'grace.capitalized': 'އިންޓަރެސްޓް ޕްރިންސިޕަލަށް އެއްކުރެވޭ',
+
+  // Calculator
+  'calculator.title': 'އީ.އެމް.އައި ކެލްކިއުލޭޓަރު',
+  'calculator.loanType': 'ލޯނުގެ ބާވަތް',
+  'calculator.currencies': 'ފައިސާ',
+  'calculator.amountsIn': 'އަދަދުތައް ދައްކާފައިވަނީ {code} އިން',
+  'calculator.loanTypeOption': '{name} ({rate}% - {years} އަހަރު {months} މަސް)',
+  'calculator.underwritingPolicy': 'އަންޑަރރައިޓިންގ ސިޔާސަތު',
+  'calculator.monthlyIncome': 'މަހުގެ އާމްދަނީ',
+  'calculator.salary': 'މުސާރަ *',
+  'calculator.salaryPlaceholder': 'މުސާރަ ލިޔޭ',
+  'calculator.rent': 'ކުލި',
+  'calculator.rentPlaceholder': 'ކުލީގެ އާމްދަނީ ލިޔޭ',
+  'calculator.other': 'އެހެނިހެން',
+  'calculator.otherPlaceholder': 'އެހެން އާމްދަނީ ލިޔޭ',
+  'calculator.projectIncome': 'މަޝްރޫއުގެ އާމްދަނީ (ގްރޭސް ނިމުމަށްފަހު)',
+  'calculator.projectIncomePlaceholder': 'މަޝްރޫއުގެ އާމްދަނީ ލިޔޭ',
+  'calculator.projectIncomeHint': 'ގްރޭސް މުއްދަތު ނިމުމަށްފަހު އެކަނި ހިނގާނެ',
+  'calculator.loanDetails': 'ލޯނުގެ ތަފްސީލު',
+  'calculator.totalProjectCost': 'މަޝްރޫއުގެ ޖުމްލަ ހަރަދު *',
+  'calculator.totalProjectCostPlaceholder': 'މަޝްރޫއުގެ ޖުމްލަ ހަރަދު ލިޔޭ',
+  'calculator.propertyValue': 'މުދަލުގެ އަގު',
+  'calculator.propertyValuePlaceholder': 'ވަޒަންކުރި މުދަލުގެ އަގު ލިޔޭ',
+  'calculator.propertyValueHint': 'ޟަމާނަތުގެ ގޮތުގައި ދޭ މުދަލުގެ ވަޒަންކުރި އަގު، އެލް.ޓީ.ވީ އަށް. ނެތްނަމަ ހުސްކޮށް ބާއްވާ.',
+  'calculator.equity': 'އިކުއިޓީ %',
+  'calculator.equityPlaceholder': 'އިކުއިޓީގެ ޕަސެންޓޭޖު ލިޔޭ',
+  'calculator.interestRate': 'އިންޓަރެސްޓް ރޭޓް (%) *',
+  'calculator.interestRatePlaceholder': 'އިންޓަރެސްޓް ރޭޓް ލިޔޭ',
+  'calculator.repaymentPeriod': 'ލޯނު ދައްކާ މުއްދަތު *',
+  'calculator.gracePeriod': 'ގްރޭސް މުއްދަތު (މަސް)',
+  'calculator.gracePeriodPlaceholder': 'ގްރޭސް މުއްދަތު ލިޔޭ',
+  'calculator.graceHandling': 'ގްރޭސް މުއްދަތު ހިސާބުކުރާ ގޮތް',
+  'calculator.feesAndInsurance': 'ފީތަކާއި އިންޝުއަރެންސް',
+  'calculator.processingFeeRate': 'ޕްރޮސެސިންގ ފީ (%)',
+  'calculator.stampDuty': 'ސްޓޭމްޕް ޑިއުޓީ',
+  'calculator.propertyInsurance': 'މުދަލުގެ އިންޝުއަރެންސް (އަހަރަކު)',
+  'calculator.lifeInsurance': 'ލައިފް އިންޝުއަރެންސް (އަހަރަކު)',
+  'calculator.serviceCharges': 'ސަރވިސް ޗާޖު (އަހަރަކު)',
+  'calculator.feesHint': 'ޕްރޮސެސިންގ ފީ ލޯނުގެ ބާވަތުން. ފީތައް ފުރަތަމަ ދައްކަން، ޕްރީމިއަމާއި ޗާޖުތައް ލޯނުގެ ކޮންމެ މަހަކަށް ބަހާލެވޭ.',
+  'calculator.bankFinanceDetails': 'ބޭންކުގެ ފައިނޭންސްގެ ތަފްސީލު',
+  'calculator.totalProjectCostAmount': 'މަޝްރޫއުގެ ޖުމްލަ ހަރަދު:',
+  'calculator.equityAmount': 'އިކުއިޓީ ({percentage}%):',
+  'calculator.bankFinance': 'ބޭންކުގެ ފައިނޭންސް:',
+  'calculator.refinancedObligations': 'ރީފައިނޭންސް ކުރާ ލޯނުތައް ހިމެނޭ:',
+  'calculator.processingFee': 'ޕްރޮސެސިންގ ފީ ({rate}%):',
+  'calculator.incomeTaxBrackets': 'އިންކަމް ޓެކްސްގެ ބްރެކެޓްތައް',
+  'calculator.taxTableEffective': '{name} ({date} އިން ފެށިގެން)',
+  'calculator.taxTableConverted': 'ރައްކާކޮށްފައިވާ އެކްސްޗޭންޖް ރޭޓުން ޙައްދުތައް {taxCurrency} އިން {currency} އަށް ބަދަލުކޮށްފައި',
+  'calculator.taxUpTo': '{max} އަށް:',
+  'calculator.taxAbove': '{min} އަށްވުރެ މަތިން:',
+  'calculator.taxRange': '{min} - {max}:',
+  'calculator.scenarioResults': 'ސިނެރިއޯތަކުގެ ނަތީޖާ',
+  'calculator.assessmentReport': 'އެސެސްމަންޓް ރިޕޯޓް',
+  'calculator.exportCsv': 'CSV އެކްސްޕޯޓް',
+  'calculator.exportExcel': 'Excel އެކްސްޕޯޓް',
+  'calculator.manageScenarios': 'ސިނެރިއޯތައް ބެލެހެއްޓުން',
+  'calculator.offerComparison': 'އޮފަރުތައް އަޅާކިޔުން',
+  'calculator.compareOffers': 'އޮފަރުތައް އަޅާކިޔާ',
+  'calculator.closeComparison': 'އަޅާކިޔުން ބަންދުކުރޭ',
+  'calculator.scheduleScenario': 'ޝެޑިއުލްގެ ސިނެރިއޯ',
+
+  // Scenario result cards
+  'results.title': '{name} ނަތީޖާ',
+  'results.totalIncome': 'ޖުމްލަ އާމްދަނީ',
+  'results.totalExpenditure': 'ޖުމްލަ ހަރަދު',
+  'results.projectIncome': 'މަޝްރޫއުގެ އާމްދަނީ',
+  'results.projectIncomeStart': '{month} ވަނަ މަހުން ފެށިގެން',
+  'results.projectExpenditure': 'މަޝްރޫއުގެ ހަރަދު',
+  'results.maintenanceCost': 'މެއިންޓެނަންސް ހަރަދު ({rate}%)',
+  'results.incomeTax': 'އިންކަމް ޓެކްސް',
+  'results.existingLoans': 'މިހާރު ދައްކާ ލޯނުގެ ފައިސާ',
+  'results.applicants': 'އެޕްލިކަންޓުންގެ ޙިއްސާ (އަމިއްލަ ޓެކްސް ކަނޑައިގެން)',
+  'results.primaryApplicant': 'މައި އެޕްލިކަންޓް',
+  'results.applicantShare': '(އާމްދަނީގެ {share}%، ޓެކްސް {tax})',
+  'results.netIncome': 'ނެޓް އާމްދަނީ',
+  'results.emiDuringGrace': 'އީ.އެމް.އައި (ގްރޭސް މުއްދަތުގައި)',
+  'results.emiAfterGrace': 'އީ.އެމް.އައި (ގްރޭސް ނިމުމަށްފަހު)',
+  'results.atRate': '{rate}% އިންޓަރެސްޓްގައި',
+  'results.totalInterest': 'ޖުމްލަ އިންޓަރެސްޓް',
+  'results.loanEndDate': 'ލޯނު ނިމޭ ތާރީޚު ({months} މަސް)',
+  'results.capitalizedInterest': 'ޕްރިންސިޕަލަށް އެއްކުރި އިންޓަރެސްޓް',
+  'results.apr': 'އޭ.ޕީ.އާރް',
+  'results.aprBasis': 'ނޮމިނަލް {nominal}%، އެފެކްޓިވް އަހަރަކު {effective}%',
+  'results.effectiveEMI': 'އިންޝުއަރެންސާއި ޗާޖާއެކު އީ.އެމް.އައި',
+  'results.upfrontFees': 'ފުރަތަމަ ދައްކާ ފީ',
+  'results.totalCostOfBorrowing': 'ލޯނުގެ ޖުމުލަ ޚަރަދު',
+  'results.emiByRatePeriod': 'ރޭޓް މުއްދަތުތަކުގެ އީ.އެމް.އައި',
+  'results.ratePeriod': '{start}-{end} ވަނަ މަސް @ {rate}%',
+  'results.dscr': 'ޑީ.އެސް.ސީ.އާރް (ދަރަނި ދެއްކުމުގެ ކަވަރޭޖް ރޭޝިއޯ)',
+  'results.dscrBasis': '{status} (ގްރޭސް ނިމުމަށްފަހުގެ އީ.އެމް.އައި އަށް ބިނާކޮށް)',
+  'results.worstCase': 'އެންމެ ދަށް ހާލަތު: {dscr} ({status})، އީ.އެމް.އައި {emi}',
+  'results.policy': 'ސިޔާސަތު: {name} v{version}',
+  'results.dti': 'ޑީ.ޓީ.އައި',
+  'results.foir': 'އެފް.އޯ.އައި.އާރް',
+  'results.ltv': 'އެލް.ޓީ.ވީ',
+  'results.eligibility': 'ޝަރުތު ފުރިހަމަވުން',
+  'results.eligible': 'ޝަރުތު ފުރިހަމަ: ހުރިހާ ޤަވާޢިދެއް ފާސް',
+  'results.notEligible': 'ޝަރުތު ފުރިހަމައެއް ނޫން: {count} ޤަވާޢިދު ފާސްނުވި',
+  'results.ruleDscr': 'ޑީ.އެސް.ސީ.އާރް',
+  'results.ruleDti': 'ޑެޓް ޓު އިންކަމް',
+  'results.ruleFoir': 'ފިކްސްޑް އޮބްލިގޭޝަންސް ޓު އިންކަމް',
+  'results.ruleLtv': 'ލޯން ޓު ވެލިއު',
+  'results.ruleMinimum': '{value} (މަދުވެގެން {limit})',
+  'results.ruleMaximum': '{value}% (ގިނަވެގެން {limit}%)',
+  'results.ruleMissing': 'މުދަލުގެ އަގު ނެތް (ގިނަވެގެން {limit}%)',
+
+  // Loan type admin
+  'loanTypes.title': 'ލޯނުގެ ބާވަތްތައް ބެލެހެއްޓުން',
+  'loanTypes.intro': 'އީ.އެމް.އައި ކެލްކިއުލޭޓަރުގައި ބޭނުންކުރާ ލޯނުގެ ބާވަތްތައް، އޭގެ ޑިފޯލްޓް އިންޓަރެސްޓް ރޭޓާއި މުއްދަތާއެކު އިތުރުކުރުން، ބަދަލުކުރުން ނުވަތަ ފޮހެލުން.',
+  'loanTypes.addSection': 'އައު ލޯނުގެ ބާވަތެއް އިތުރުކުރުން',
+  'loanTypes.addButton': '+ ލޯނުގެ ބާވަތެއް އިތުރުކުރޭ',
+  'loanTypes.name': 'ލޯނުގެ ނަން *',
+  'loanTypes.namePlaceholder': 'މިސާލު: ވެހިކަލް ލޯނު',
+  'loanTypes.annualRate': 'އިންޓަރެސްޓް ރޭޓް (އަހަރަކަށް %) *',
+  'loanTypes.ratePlaceholder': 'މިސާލު: 8.5',
+  'loanTypes.tenure': 'ޑިފޯލްޓް މުއްދަތު *',
+  'loanTypes.currency': 'ފައިސާ',
+  'loanTypes.defaultCurrency': 'ޑިފޯލްޓް ({code})',
+  'loanTypes.unknownCurrency': '{code} (ސެޓްއަޕް ކޮށްފައެއް ނުވޭ، {fallback} އިން ދައްކާނެ)',
+  'loanTypes.eligibilityLimits': 'ޝަރުތުގެ ޙައްދުތައް (%)',
+  'loanTypes.eligibilityLimitsHint': 'މި ލޯނަށް ގަބޫލުކުރާ އެންމެ މަތީ ޕަސެންޓޭޖު. ޗެކު ނުކުރާނަމަ ހުސްކޮށް ބާއްވާ.',
+  'loanTypes.maxDTI': 'އެންމެ މަތީ ޑީ.ޓީ.އައި',
+  'loanTypes.maxFOIR': 'އެންމެ މަތީ އެފް.އޯ.އައި.އާރް',
+  'loanTypes.maxLTV': 'އެންމެ މަތީ އެލް.ޓީ.ވީ',
+  'loanTypes.productRules': 'ޕްރޮޑަކްޓްގެ ޤަވާޢިދު',
+  'loanTypes.productRulesHint': 'އަދަދުތައް ބޭންކް ފައިނޭންސަށް، މުއްދަތުތައް މަހުން. ޑީ.އެސް.ސީ.އާރް ޙައްދު މި ލޯނަށް ސިޔާސަތުގެ ޙައްދުގެ ބަދަލުގައި. ޤަވާޢިދެއް ނުބަލާނަމަ ހުސްކޮށް ބާއްވާ.',
+  'loanTypes.minAmount': 'އެންމެ ދަށް އަދަދު',
+  'loanTypes.maxAmount': 'އެންމެ މަތީ އަދަދު',
+  'loanTypes.minEquityPercentage': 'އެންމެ ދަށް އިކުއިޓީ %',
+  'loanTypes.maxTenure': 'އެންމެ ދިގު މުއްދަތު (މަސް)',
+  'loanTypes.minGracePeriod': 'އެންމެ ކުރު ގްރޭސް (މަސް)',
+  'loanTypes.maxGracePeriod': 'އެންމެ ދިގު ގްރޭސް (މަސް)',
+  'loanTypes.processingFeeRate': 'ޕްރޮސެސިންގ ފީ %',
+  'loanTypes.dscrThreshold': 'ޑީ.އެސް.ސީ.އާރް ޙައްދު',
+  'loanTypes.saveButton': '✓ ލޯނުގެ ބާވަތް ރައްކާކުރޭ',
+  'loanTypes.saveChangesButton': '✓ ބަދަލުތައް ރައްކާކުރޭ',
+  'loanTypes.importExport': 'އިމްޕޯޓް / އެކްސްޕޯޓް',
+  'loanTypes.exportButton': '⇩ JSON އެކްސްޕޯޓް',
+  'loanTypes.importButton': '⇧ JSON އިމްޕޯޓް',
+  'loanTypes.importIntro': 'ލޯނުގެ ބާވަތްތަކުގެ ލިސްޓު ބްރާންޗުތަކާ ހިއްސާކުރޭ. އިމްޕޯޓްކުރުމުގެ ކުރިން ލިސްޓު ޗެކްކޮށް ބަދަލުތައް ދައްކާނެ.',
+  'loanTypes.importPreview': 'އިމްޕޯޓްގެ ޕްރިވިއު',
+  'loanTypes.added': 'އިތުރުވާ ({count})',
+  'loanTypes.changed': 'ބަދަލުވާ ({count})',
+  'loanTypes.removed': 'ނައްތާލެވޭ ({count})',
+  'loanTypes.keptWhenMerging': '، މާޖްކުރާނަމަ ބާކީ ހުންނާނެ',
+  'loanTypes.addedLine': '{name}: {rate}%، {tenure} މަސް',
+  'loanTypes.changedLine': '{name}: {beforeRate}% → {afterRate}%، {beforeTenure} → {afterTenure} މަސް',
+  'loanTypes.renamed': ' ({name} އަށް ނަން ބަދަލުވާ)',
+  'loanTypes.unchanged': '{count} ލޯނުގެ ބާވަތަކަށް ބަދަލެއް ނާދޭ',
+  'loanTypes.mergeOption': 'މާޖް: އިތުރުކޮށް އަޕްޑޭޓްކުރޭ، ބާކީ ބަހައްޓާ',
+  'loanTypes.replaceOption': 'ރީޕްލޭސް: އިމްޕޯޓްކުރި ލިސްޓު އެކަނި ބޭނުންކުރޭ',
+  'loanTypes.applyImportButton': '✓ އިމްޕޯޓްކުރޭ',
+  'loanTypes.existing': 'މިހާރު ހުރި ލޯނުގެ ބާވަތްތައް ({count})',
+  'loanTypes.empty': 'ލޯނުގެ ބާވަތެއް ނެތް',
+  'loanTypes.addFirstButton': '+ ފުރަތަމަ ލޯނުގެ ބާވަތް އިތުރުކުރޭ',
+  'loanTypes.rateLabel': 'އިންޓަރެސްޓް ރޭޓް:',
+  'loanTypes.rateValue': 'އަހަރަކަށް {rate}%',
+  'loanTypes.tenureLabel': 'ޑިފޯލްޓް މުއްދަތު:',
+  'loanTypes.tenureValue': '{years} އަހަރު {months} މަސް ({total} މަސް)',
+  'loanTypes.currencyLabel': 'ފައިސާ:',
+  'loanTypes.idLabel': 'އައިޑީ:',
+  'loanTypes.limitsLabel': 'ޙައްދުތައް:',
+  'loanTypes.limitValue': '{label} ≤ {value}%',
+  'loanTypes.noLimit': 'ޙައްދެއް ނެތް',
+  'loanTypes.rulesLabel': 'ޕްރޮޑަކްޓްގެ ޤަވާޢިދު:',
+  'loanTypes.ruleValue': '{label} {value}',
+  'loanTypes.confirmDelete': 'މި ލޯނުގެ ބާވަތް ފޮހެލަން ބޭނުންތޯ؟',
+  'loanTypes.errorNameEmpty': 'ލޯނުގެ ނަން ހުސްކޮށް ނުބެހެއްޓޭނެ',
+  'loanTypes.errorNameShort': 'ލޯނުގެ ނަމުގައި މަދުވެގެން 2 އަކުރު ހުންނަން ޖެހޭ',
+  'loanTypes.errorNameTaken': 'މި ނަމުގައި ލޯނުގެ ބާވަތެއް މިހާރުވެސް އެބަހުރި',
+  'loanTypes.errorRate': 'އިންޓަރެސްޓް ރޭޓް ހުންނަން ޖެހޭނީ 0.01% އާއި 100% ދެމެދުގައި',
+  'loanTypes.errorTenurePositive': 'މުއްދަތު 0 މަހަށްވުރެ ގިނަވާން ޖެހޭ',
+  'loanTypes.errorTenureMax': 'މުއްދަތު 1200 މަހަށްވުރެ ގިނަ ނުވާނެ',
+  'loanTypes.errorLimit': 'ޝަރުތުގެ ޙައްދުތައް 0% އަށްވުރެ މަތި، 100% އަށްވުރެ ދަށް ވާންޖެހޭ',
+  'loanTypes.errorTenureAboveRule': 'ޑިފޯލްޓް މުއްދަތު ޕްރޮޑަކްޓްގެ އެންމެ ދިގު މުއްދަތަށްވުރެ ދިގު ނުވާނެ',
+  'loanTypes.errorRules': 'ޕްރޮޑަކްޓްގެ ޤަވާޢިދު ނެގެޓިވް ނުވާނެ، ކޮންމެ މަދު އަދަދެއް ގިނަ އަދަދަށްވުރެ ބޮޑު ނުވާނެ، ޕަސެންޓޭޖު 100% އަށްވުރެ ނުބޮޑުވާނެ',
+  'loanTypes.errorLastType': 'އެންމެ ފަހު ލޯނުގެ ބާވަތް ފޮހެލޭކަށް ނެތް',
+  'loanTypes.apiToken': 'ކެޓަލޮގް API ޓޯކަން',
+  'loanTypes.apiTokenHint': 'ސާވަރުގެ ކެޓަލޮގަށް ބަދަލުތައް ރައްކާކުރުމަށް ސާވަރުގައި LOAN_TYPES_API_TOKEN ގެ ގޮތުގައި ލާފައިވާ ޓޯކަން ބޭނުންވޭ. މި ބްރައުޒަރ ސެޝަނަށް ކަނޑައެޅިގެން ރައްކާކުރެވޭ.',
+  'loanTypes.errorSaveFailed': 'ލޯނުގެ ބާވަތްތައް ރައްކާ ނުކުރެވުނު. އަލުން މަސައްކަތްކޮށްލައްވާ.',
+  'loanTypes.errorImportFailed': 'ލިސްޓު އިމްޕޯޓް ނުކުރެވުނު',
+
+  // Charts
+  'charts.title': 'ޗާޓުތައް',
+  'charts.intro': 'ލޯނުގެ ޗާޓުތައް ދައްކަނީ ތިރީގައިވާ ޝެޑިއުލްގެ ސިނާރިއޯ، ރާވާފައިވާ ކުރިއަށް ދެއްކުންތަކާއެކު. DSCR ޗާޓުތަކުގެ ކަށިކަށި ރޮނގުތަކުން ދައްކަނީ ޕޮލިސީގެ މޮޅު ({excellent}) އާއި ރަނގަޅު ({good}) ހަދުތައް.',
+  'charts.balance': 'ބާކީ ހުރި އަދަދު',
+  'charts.principalAndInterest': 'އަހަރަކު ދައްކާ އަސްލާއި އިންޓަރެސްޓް',
+  'charts.cumulativeInterest': 'ޖުމުލަ ދެއްކި އިންޓަރެސްޓް',
+  'charts.dscrVsRate': 'DSCR އާއި އިންޓަރެސްޓް ރޭޓް',
+  'charts.dscrVsIncome': 'DSCR އާއި އާމްދަނީ މަދުވުން',
+  'charts.withoutPrepayments': 'ކުރިއަށް ނުދައްކައި',
+  'charts.balanceSeries': 'ބާކީ',
+  'charts.principal': 'އަސްލު',
+  'charts.prepayment': 'ކުރިއަށް ދެއްކުން',
+  'charts.interest': 'އިންޓަރެސްޓް',
+  'charts.interestPaid': 'ދެއްކި އިންޓަރެސްޓް',
+  'charts.dscr': 'DSCR',
+  'charts.monthLabel': 'މަސް {month}',
+  'charts.yearLabel': 'އަހަރު {year}',
+  'charts.atRate': '{rate}% އިންޓަރެސްޓްގައި',
+  'charts.incomeReducedBy': 'އާމްދަނީ {reduction}% މަދުވެފައި',
+
+  // Co-applicants
+  'coApplicants.title': 'ޝަރީކު އެޕްލިކަންޓުން',
+  'coApplicants.addButton': '+ ޝަރީކު އެޕްލިކަންޓެއް އިތުރުކުރޭ',
+  'coApplicants.intro': 'ގޭބިސީގެ އާމްދަނީ އެއްކުރުމަށް ޝަރީކު ލޯނު ހިފާ މީހުން އިތުރުކުރޭ. ކޮންމެ އެޕްލިކަންޓެއްގެ އާމްދަނީއަށް ޓެކްސް ނަގަނީ ވަކިން، އަދި ހުރިހާ އެޕްލިކަންޓުންގެ މިހާރުގެ ލޯނުގެ ކަސްތޫރިތައް DSCR އަށް ހިސާބުކުރެވޭ.',
+  'coApplicants.defaultName': 'ޝަރީކު އެޕްލިކަންޓް {number}',
+  'coApplicants.name': 'ނަން',
+  'coApplicants.salary': 'މުސާރަ',
+  'coApplicants.rent': 'ކުލި',
+  'coApplicants.other': 'އެހެނިހެން',
+  'coApplicants.existingLoans': 'މިހާރު ހުރި ލޯނު',
+  'coApplicants.remove': 'ޝަރީކު އެޕްލިކަންޓް ނައްތާލާ',
+
+  // Existing obligations
+  'obligations.title': 'މިހާރު ހުރި ލޯނުތައް',
+  'obligations.addButton': '+ ލޯނެއް އިތުރުކުރޭ',
+  'obligations.intro': 'މިހާރު ހުރި ކޮންމެ ލޯނެއް ވަކިވަކިން ލިޔުއްވާ. ބާކީ، ރޭޓާއި ބާކީ މަސްތަކުން ކަސްތޫރި ހިސާބުކުރުމަށް ކަސްތޫރި 0 ގައި ބަހައްޓަވާ، ނުވަތަ ލޯނުގެ ބާކީ މި ލޯނަށް ނެގުމަށް ރީފައިނޭންސް ކުރާ ލޯނެއްގެ ގޮތުގައި ލަނބާލައްވާ.',
+  'obligations.lender': 'ލޯނު ދިން ފަރާތް',
+  'obligations.outstandingBalance': 'ބާކީ ހުރި އަދަދު',
+  'obligations.rate': 'ރޭޓް (%)',
+  'obligations.remainingMonths': 'ބާކީ މަސް',
+  'obligations.installment': 'ކަސްތޫރި',
+  'obligations.derivedInstallment': 'ހިސާބުކުރެވުނު {amount}',
+  'obligations.refinance': 'މި ލޯނަށް ރީފައިނޭންސް ކުރޭ',
+  'obligations.remove': 'ލޯނު ނައްތާލާ',
+  'obligations.excludeEndingInGrace': 'ގްރޭސް މުއްދަތު ({months} މަސް) ނިމުމުގެ ކުރިން ދައްކައި ނިމޭ ލޯނުތައް ހިސާބު ނުކުރާ',
+  'obligations.countedInstallments': 'DSCR އަށް ހިސާބުކުރާ ކަސްތޫރި',
+  'obligations.refinancedTotal': 'މި ލޯނަށް ރީފައިނޭންސް ކުރެވޭ',
+  'obligations.treatment.refinanced': 'ރީފައިނޭންސް ކުރެވޭ',
+  'obligations.treatment.counted': 'DSCR އަށް ހިސާބުކުރެވޭ',
+  'obligations.treatment.ended': 'ނިމިފައި',
+  'obligations.treatment.endsInGrace': 'ގްރޭސް ތެރޭގައި ނިމޭ',
+
+  // Validation messages, also returned by the API in English
+  'validation.salaryRequired': 'މުސާރަ ލިޔުއްވަން ޖެހޭނެ، އަދި 0 އަށްވުރެ ބޮޑުވާން ޖެހޭނެ',
+  'validation.projectCostRequired': 'ޕްރޮޖެކްޓުގެ ޖުމުލަ ޚަރަދު ލިޔުއްވަން ޖެހޭނެ، އަދި 0 އަށްވުރެ ބޮޑުވާން ޖެހޭނެ',
+  'validation.rateRequired': 'އިންޓަރެސްޓް ރޭޓް ލިޔުއްވަން ޖެހޭނެ، އަދި 0 އަށްވުރެ ބޮޑުވާން ޖެހޭނެ',
+  'validation.repaymentPeriodRequired': 'ލޯނު ދައްކާ މުއްދަތު ލިޔުއްވަން ޖެހޭނެ، އަދި 0 އަށްވުރެ ބޮޑުވާން ޖެހޭނެ',
+  'validation.propertyValueNegative': 'މުދަލުގެ އަގު ނެގެޓިވް ނުވާނެ',
+  'validation.processingFeeRange': 'ޕްރޮސެސިންގ ފީ 0% އާއި 100% އާ ދެމެދު ވާން ޖެހޭނެ',
+  'validation.feesNegative': 'ފީއާއި ޕްރީމިއަމް ނެގެޓިވް ނުވާނެ',
+  'validation.equityRange': 'އިކުއިޓީ ޕަސެންޓޭޖު 0 އާއި 100 އާ ދެމެދު ވާން ޖެހޭނެ',
+  'validation.rateTooHigh': 'އިންޓަރެސްޓް ރޭޓް ވަރަށް ބޮޑު ކަމަށް ފެނޭ',
+  'validation.repaymentPeriodMax': 'ލޯނު ދައްކާ މުއްދަތު 600 މަހަށްވުރެ ދިގު ނުވާނެ',
+  'validation.graceLongerThanTenure': 'ގްރޭސް މުއްދަތު ލޯނު ދައްކާ މުއްދަތަށްވުރެ ދިގު ނުވާނެ',
+  'validation.graceInsideTenure': 'ގްރޭސް މުއްދަތު ލޯނުގެ މުއްދަތުގެ ތެރޭގައި ހިސާބުކުރާއިރު، ލޯނު ދައްކާ މުއްދަތަށްވުރެ ކުރުވާން ޖެހޭނެ',
+  'validation.amountBelowMinimum': 'ބޭންކް ފައިނޭންސް {amount}، މި ލޯނުގެ ބާވަތުގެ އެންމެ މަދު {minimum} އަށްވުރެ ދަށް',
+  'validation.amountAboveMaximum': 'ބޭންކް ފައިނޭންސް {amount}، މި ލޯނުގެ ބާވަތުގެ އެންމެ ގިނަ {maximum} އަށްވުރެ މަތި',
+  'validation.equityBelowMinimum': 'މި ލޯނުގެ ބާވަތަށް މަދުވެގެން {percentage}% އިކުއިޓީ ބޭނުންވޭ',
+  'validation.tenureAboveMaximum': 'މި ލޯނުގެ ބާވަތުގައި އެންމެ ގިނަވެގެން {months} މަސް',
+  'validation.graceBelowMinimum': 'މި ލޯނުގެ ބާވަތަށް މަދުވެގެން {months} މަހުގެ ގްރޭސް މުއްދަތެއް ބޭނުންވޭ',
+  'validation.graceNotAllowed': 'މި ލޯނުގެ ބާވަތުގައި ގްރޭސް މުއްދަތެއް ނުލިބޭ',
+  'validation.graceAboveMaximum': 'މި ލޯނުގެ ބާވަތުގައި ގްރޭސް މުއްދަތު އެންމެ ގިނަވެގެން {months} މަސް',
+  'validation.coApplicantName': 'ޝަރީކު އެޕްލިކަންޓުގެ ނަން ލިޔުއްވަން ޖެހޭނެ',
+  'validation.coApplicantNegative': 'ޝަރީކު އެޕްލިކަންޓުގެ އާމްދަނީއާއި މިހާރު ހުރި ލޯނު ނެގެޓިވް ނުވާނެ',
+  'validation.coApplicantEmpty': 'ޝަރީކު އެޕްލިކަންޓަށް މަދުވެގެން އެއް އާމްދަނީއެއް ނުވަތަ ލޯނެއް ބޭނުންވޭ',
+  'validation.obligationLender': 'ލޯނު {number}: ލޯނު ދިން ފަރާތް ލިޔުއްވަން ޖެހޭނެ',
+  'validation.obligationNegative': 'ލޯނު {number}: ބާކީއާއި ކަސްތޫރި ނެގެޓިވް ނުވާނެ',
+  'validation.obligationRate': 'ލޯނު {number}: ރޭޓް 0 އާއި 50 އާ ދެމެދު ވާން ޖެހޭނެ',
+  'validation.obligationMonths': 'ލޯނު {number}: ބާކީ މަސްތައް 0 ނުވަތަ އެއަށްވުރެ ގިނަ ފުރިހަމަ އަދަދަކަށް ވާން ޖެހޭނެ',
+  'validation.obligationInstallment': 'ލޯނު {number}: ކަސްތޫރި ލިޔުއްވާ، ނުވަތަ އެ ހިސާބުކުރުމަށް ބާކީއާއި ބާކީ މަސްތައް ލިޔުއްވާ',
+  'validation.obligationRefinanceBalance': 'ލޯނު {number}: މި ލޯނަށް ރީފައިނޭންސް ކުރުމަށް ބާކީ ހުރި އަދަދު ލިޔުއްވާ',
+  'validation.ratePeriodsEmpty': 'މަދުވެގެން އެއް ރޭޓް މުއްދަތެއް އިތުރުކުރައްވާ',
+  'validation.ratePeriodsStart': 'ރޭޓް މުއްދަތުތައް ފެށެންވާނީ 1 ވަނަ މަހުން ނުވަތަ އޭގެ ފަހުން ފުރިހަމަ މަހަކުން',
+  'validation.ratePeriodsDuplicate': 'ދެ ރޭޓް މުއްދަތެއް އެއް މަހެއްގައި ނުފެށޭނެ',
+  'validation.ratePeriodsRange': 'މުއްދަތުތަކުގެ ރޭޓް 0% އާއި 50% އާ ދެމެދު ވާން ޖެހޭނެ',
+  'validation.fixedPeriod': 'ފިކްސްޑް މުއްދަތަކީ ފުރިހަމަ މަސް އަދަދަކަށް ވާން ޖެހޭނެ',
+  'validation.resetInterval': 'ރީސެޓް ކުރާ މުއްދަތު މަދުވެގެން 1 މަސް ވާން ޖެހޭނެ',
+  'validation.basePlusMarginRange': 'ބޭސް ރޭޓާއި މާޖިން ޖުމްލަ 0% އާއި 50% އާ ދެމެދު ވާން ޖެހޭނެ',
+  'validation.prepaymentMonth': 'ކުރިއަށް ދެއްކުން {number}: މަހަކީ 1 ނުވަތަ އެއަށްވުރެ ގިނަ ފުރިހަމަ އަދަދަކަށް ވާން ޖެހޭނެ',
+  'validation.prepaymentAmount': 'ކުރިއަށް ދެއްކުން {number}: އަދަދު 0 އަށްވުރެ ބޮޑުވާން ޖެހޭނެ',
+  'validation.prepaymentEndMonth': 'ކުރިއަށް ދެއްކުން {number}: ނިމޭ މަސް ފަށާ މަހުގެ ކުރިން ނުވާނެ',
+  'validation.caseNameShort': 'ކޭހުގެ ނަމުގައި މަދުވެގެން 2 އަކުރު ހުންނަން ޖެހޭނެ',
+  'validation.caseNameTaken': 'މި ނަމުގައި ކޭހެއް މިހާރުވެސް އެބައޮތް',
+  'validation.caseFormInvalid': 'މި ކޭސް ރައްކާކުރުމުގެ ކުރިން ފާހަގަކޮށްފައިވާ ބައިތައް ރަނގަޅުކުރައްވާ',
+  'validation.taxTableCurrency': 'ޓެކްސް ޖަދުވަލުތައް ހުރީ {taxCurrency} އިން. އިންކަމް ޓެކްސް ހިސާބުކުރުމަށް ކަރަންސީ ސެޓިންގްސްގައި {taxCurrency} އާއި {currency} ދެމެދުގެ އެކްސްޗޭންޖް ރޭޓެއް ލައްވާ',
+  'validation.offersTooFew': 'އަޅާކިޔުމަށް މަދުވެގެން {count} އޮފަރު ޚިޔާރުކުރައްވާ',
+  'validation.offersTooMany': 'އެއްފަހަރާ އަޅާކިޔޭނީ އެންމެ ގިނަވެގެން {count} އޮފަރު',
+  'validation.offerName': 'ކޮންމެ އޮފަރަކަށް ނަމެއް ބޭނުންވޭ',
+  'validation.offerRate': '{name}: އިންޓަރެސްޓް ރޭޓް 0% އާއި 50% އާ ދެމެދު ވާން ޖެހޭނެ',
+  'validation.offerTenure': '{name}: މުއްދަތު 1 އާއި 600 މަހާ ދެމެދު ވާން ޖެހޭނެ',
+  'validation.offerGrace': '{name}: ގްރޭސް މުއްދަތު ލޯނުގެ މުއްދަތުގެ ތެރޭގައި ހިސާބުކުރާއިރު، މުއްދަތު ގްރޭސް މުއްދަތަށްވުރެ ދިގުވާން ޖެހޭނެ',
+
+  // Share links
+  'shareLink.damaged': 'މި ޝެއާ ލިންކު ހަލާކުވެފައިވާތީ ހުޅުވޭކަށް ނެތް',
+  'shareLink.newerVersion': 'މި ޝެއާ ލިންކު ހަދާފައިވަނީ ކެލްކިއުލޭޓަރުގެ އާ ވާޝަނަކުން',
+  'shareLink.unsupported': 'މި ޝެއާ ލިންކު މިހާރު ބޭނުން ނުކުރެވޭ',
+  'shareLink.invalid': 'މި ޝެއާ ލިންކުގައި ނުބައި އަގުތަކެއް ހިމެނޭ',
+  'shareLink.failed': 'މި ޝެއާ ލިންކު ހުޅުވޭކަށް ނެތް',
+  'shareLink.loanTypeMissing': 'މި ލިންކުގައިވާ ލޯނުގެ ބާވަތް މިހާރު ނެތް؛ އޭގެ ރޭޓާއި މުއްދަތު ބަހައްޓާފައި',
+  'shareLink.scenarioMissing': 'މި ލިންކުގައިވާ ސިނާރިއޯ މިތާ ނެތް؛ ދައްކަނީ އާންމު ސިނާރިއޯ',
+
+  // Repayment schedule
+  'schedule.title': 'ފައިސާ ދައްކާ ތާވަލު',
+  'schedule.hide': 'ފޮރުވާ',
+  'schedule.show': 'ދައްކާ',
+  'schedule.totalPayment': 'ޖުމްލަ ދައްކާ ފައިސާ',
+  'schedule.totalInterest': 'ޖުމްލަ އިންޓަރެސްޓް',
+  'schedule.month': 'މަސް',
+  'schedule.rate': 'ރޭޓް',
+  'schedule.openingBalance': 'ފެށުނު ބެލެންސް',
+  'schedule.payment': 'ދެއްކި ފައިސާ',
+  'schedule.interest': 'އިންޓަރެސްޓް',
+  'schedule.principal': 'އަސްލު',
+  'schedule.prepayment': 'ކުރިން ދެއްކި ފައިސާ',
+  'schedule.closingBalance': 'ނިމުނު ބެލެންސް',
+  'schedule.cumulativeInterest': 'ޖަމާވި އިންޓަރެސްޓް',
+  'schedule.graceMonth': '{month} (ގްރޭސް)',
+  'schedule.yearLabel': 'އަހަރު {year}',
+  'schedule.previousYear': '→ ކުރީ އަހަރު',
+  'schedule.nextYear': 'ދެން އަހަރު ←',
+  'schedule.pageOf': 'އަހަރު {page} / {count}',
+
+  // What you can afford
+  'affordability.title': 'ލިބޭނެ ލޯނުގެ މިންވަރު',
+  'affordability.intro': 'ކޮންމެ އަދަދަކީ އެހެން އިންޕުޓްތައް ނުބަދަލުކޮށް، އެއް އިންޕުޓް ބަދަލުކުރުމުން ގްރޭސްއަށް ފަހުގެ DSCR {dscr} ނުވަތަ އެއަށްވުރެ މަތީގައި ހިފެހެއްޓޭނެ މިންވަރެވެ.',
+  'affordability.scenario': 'ސިނާރިއޯ',
+  'affordability.maxBankFinance': 'އެންމެ ގިނަ ބޭންކް ފައިނޭންސް',
+  'affordability.minEquity': 'އެންމެ ކުޑަ އިކުއިޓީ',
+  'affordability.maxRate': 'އެންމެ މަތީ އިންޓަރެސްޓް ރޭޓް',
+  'affordability.minTenure': 'އެންމެ ކުރު މުއްދަތު',
+  'affordability.notAffordable': 'ނުލިބޭނެ',
+  'affordability.months': '{months} މަސް',
+
+  // Prepayment simulator
+  'prepayments.title': 'ކުރިން ފައިސާ ދެއްކުމުގެ ސިމިއުލޭޓަރު',
+  'prepayments.addButton': '+ ކުރިން ދައްކާ ފައިސާ އިތުރުކުރޭ',
+  'prepayments.intro': 'އެއްފަހަރު ނުވަތަ ތަކުރާރުކޮށް ދައްކާ އިތުރު ފައިސާ އިތުރުކޮށް، ސަލާމަތްވާ އިންޓަރެސްޓާއި ލޯން ނިމޭނެ އާ ތާރީޚު ބައްލަވާ.',
+  'prepayments.month': 'މަސް',
+  'prepayments.amount': 'އަދަދު',
+  'prepayments.repeat': 'ތަކުރާރު',
+  'prepayments.once': 'އެއްފަހަރު',
+  'prepayments.monthly': 'ކޮންމެ މަހަކު',
+  'prepayments.yearly': 'ކޮންމެ އަހަރަކު',
+  'prepayments.untilMonth': 'ނިމޭ މަސް',
+  'prepayments.endPlaceholder': 'ނިމުން',
+  'prepayments.effect': 'އަސަރު',
+  'prepayments.reduceTenure': 'މުއްދަތު ކުރުކުރޭ',
+  'prepayments.reduceEmi': 'EMI ކުޑަކުރޭ',
+  'prepayments.interestSaved': 'ސަލާމަތްވި އިންޓަރެސްޓް',
+  'prepayments.totalPrepaid': 'ކުރިން ދެއްކި ޖުމްލަ',
+  'prepayments.newPayoffDate': 'ލޯން ނިމޭނެ އާ ތާރީޚު',
+  'prepayments.monthsSaved': 'ސަލާމަތްވި މަސް',
+  'prepayments.without': 'ކުރިން ފައިސާ ނުދައްކައި',
+  'prepayments.with': 'ކުރިން ފައިސާ ދައްކައިގެން',
+  'prepayments.totalInterest': 'ޖުމްލަ އިންޓަރެސްޓް',
+  'prepayments.totalPaid': 'ދެއްކި ޖުމްލަ',
+  'prepayments.installments': 'ޤިސްތުތައް',
+  'prepayments.finalEmi': 'އެންމެ ފަހުގެ EMI',
+  'prepayments.payoffDate': 'ލޯން ނިމޭ ތާރީޚު',
+
+  // Loan comparison
+  'comparison.intro': 'ދިމާވާ އެޕްލިކަންޓާއި ޕްރޮޖެކްޓަށް {min} އިން {max} އަށް އޮފަރު އަޅާކިޔާ. ކޮންމެ އޮފަރެއް ހިސާބުކުރަނީ އެ އޮފަރުގައި ބުނާ ފިކްސްޑް ރޭޓާއި މުއްދަތަށެވެ.',
+  'comparison.loanType': 'ލޯނުގެ ބާވަތް',
+  'comparison.selectLoanType': 'ލޯނުގެ ބާވަތެއް ޚިޔާރުކުރޭ',
+  'comparison.loanTypeOption': '{name} ({rate}%، {months} މަސް)',
+  'comparison.addButton': 'އިތުރުކުރޭ',
+  'comparison.customOffer': '+ ޚާއްޞަ އޮފަރެއް',
+  'comparison.offer': 'އޮފަރު',
+  'comparison.rate': 'ރޭޓް (%)',
+  'comparison.tenure': 'މުއްދަތު (މަސް)',
+  'comparison.emi': 'EMI',
+  'comparison.totalInterest': 'ޖުމްލަ އިންޓަރެސްޓް',
+  'comparison.totalCost': 'ޖުމްލަ ޚަރަދު',
+  'comparison.ends': 'ނިމޭ ތާރީޚު',
+  'comparison.scenarioDscr': 'DSCR: {name}',
+  'comparison.breakEven': 'ބްރޭކް-އީވަން',
+  'comparison.offerTerms': '{rate}% · {months} މަސް',
+  'comparison.cheapest': ' · އެންމެ ކުޑަ ޚަރަދު',
+  'comparison.breakEvenMonth': 'މަސް {month}',
+  'comparison.never': 'ނުވޭ',
+  'comparison.breakEvenHint': 'ބްރޭކް-އީވަން އަކީ އެ ލައިނުގެ އޮފަރަށްވުރެ، އެންމެ ކުޑަ ޚަރަދުގެ އޮފަރުގައި ޖަމާވި އިންޓަރެސްޓާއި ފީ، އިންޝުއަރެންސް އަދި ޗާޖުތައް ކުޑަވާން ފަށާ މަހެވެ.',
+
+  // Applicant case
+  'cases.title': 'އެޕްލިކަންޓްގެ ކޭސް',
+  'cases.shareButton': 'ޝެއަރ ލިންކް',
+  'cases.historyButton': 'ތާރީޚު',
+  'cases.name': 'ކޭސްގެ ނަން',
+  'cases.namePlaceholder': 'މިސާލު: އެޕާޓްމަންޓް ގަތުން - ހުޅުމާލެ',
+  'cases.notes': 'ނޯޓު',
+  'cases.notesPlaceholder': 'މި ކޯޓާ ބެހޭގޮތުން ހަނދާންކުރަންޖެހޭ ކަމެއް',
+  'cases.saveButton': 'ކޭސް ސޭވްކުރޭ',
+  'cases.linkCopied': 'ޝެއަރ ލިންކް ކްލިޕްބޯޑަށް ކޮޕީކުރެވިއްޖެ',
+  'cases.copyFromAddressBar': 'ޝެއަރ ލިންކް އެޑްރެސް ބާރުން ކޮޕީކުރައްވާ',
+  'cases.saved': '"{name}" ސޭވްކުރެވިއްޖެ، މިހާރުގެ ކޯޓުގެ ސްނެޕްޝޮޓާއެކު.',
+
+  // Rate schedule
+  'rates.type': 'ރޭޓުގެ ބާވަތް',
+  'rates.fixed': 'މުޅި މުއްދަތަށް ފިކްސްޑް',
+  'rates.periods': 'ފްލޯޓިންގ: ޚާއްޞަ ރޭޓް މުއްދަތުތައް',
+  'rates.basePlusMargin': 'ފްލޯޓިންގ: ބޭސް ރޭޓް + މާޖިން، ރީސެޓްތަކާއެކު',
+  'rates.periodsHint': 'ފުރަތަމަ މުއްދަތު ފެށެންދެން މަތީގައިވާ އިންޓަރެސްޓް ރޭޓް ހިނގާނެ.',
+  'rates.fromMonth': 'ފަށާ މަސް',
+  'rates.rate': 'ރޭޓް (%)',
+  'rates.addPeriod': '+ މުއްދަތެއް އިތުރުކުރޭ',
+  'rates.fixedPeriodMonths': 'ފިކްސްޑް މުއްދަތު (މަސް)',
+  'rates.resetIntervalMonths': 'ރީސެޓްކުރާ ކޮންމެ (މަސް)',
+  'rates.baseRate': 'ބޭސް ރޭޓް (%)',
+  'rates.margin': 'މާޖިން (%)',
+  'rates.baseRateChangePerReset': 'ކޮންމެ ރީސެޓަކުން ބޭސް ރޭޓަށް އަންނަ ބަދަލު (%)',
+  'rates.fixedPeriodHint': 'ފިކްސްޑް މުއްދަތުގައި މަތީގައިވާ އިންޓަރެސްޓް ރޭޓް ހިނގާނެ.',
+
+  // Case history
+  'history.title': 'ކޭސްތަކުގެ ތާރީޚު',
+  'history.intro': 'ސޭވްކުރި އެޕްލިކަންޓުންގެ ކޭސްތައް، ސޭވްކުރި ވަގުތު ދެއްކި އަދަދުތަކާއެކު. ކޭހެއް ހުޅުވުމުން އޭގެ އިންޕުޓްތައް ކެލްކިއުލޭޓަރަށް ލެވޭނެ؛ ސޭވްކުރި ކޯޓަށް ދުވަހަކުވެސް ބަދަލެއް ނާދޭ.',
+  'history.search': 'ކޭސް ހޯދާ',
+  'history.searchPlaceholder': 'ނަމުން، ނޯޓުން ނުވަތަ ލޯނުގެ ބާވަތުން ހޯދާ',
+  'history.savedCases': 'ސޭވްކުރި ކޭސްތައް ({count})',
+  'history.empty': 'އަދި އެއްވެސް ކޭހެއް ސޭވްކޮށްފައެއް ނުވޭ',
+  'history.noMatches': 'ހޯދި ގޮތާ ދިމާވާ ކޭހެއް ނެތް',
+  'history.savedOn': '{date} ގައި ސޭވްކުރި · {loanType}',
+  'history.bankFinance': 'ބޭންކުގެ ފައިނޭންސް:',
+  'history.emiAfterGrace': 'ގްރޭސް ނިމުމަށްފަހު އީ.އެމް.އައި:',
+  'history.dscr': 'ޑީ.އެސް.ސީ.އާރް:',
+  'history.totalInterest': 'ޖުމްލަ އިންޓަރެސްޓް:',
+  'history.rateTenure': 'ރޭޓް / މުއްދަތު:',
+  'history.rateTenureValue': '{rate}% / {months} މަސް',
+  'history.loanEndDate': 'ލޯނު ނިމޭ ތާރީޚު:',
+  'history.policy': 'ސިޔާސަތު:',
+  'history.dscrByScenario': 'ސިނެރިއޯ އަށް ޑީ.އެސް.ސީ.އާރް:',
+  'history.openButton': '↗ ހުޅުވާ',
+  'history.reportButton': '⎙ ރިޕޯޓް',
+  'history.duplicateButton': '⧉ ކޮޕީކުރޭ',
+  'history.confirmDelete': 'މި ކޭސް ފޮހެލަން ބޭނުންތޯ؟',
+  'history.copyName': '{name} (ކޮޕީ)',
+  'history.copyNameNumbered': '{name} (ކޮޕީ {number})',
+
+  // Assessment report
+  'report.title': 'ލޯނުގެ އެސެސްމަންޓް ރިޕޯޓް',
+  'report.printButton': 'ޕްރިންޓް',
+  'report.downloadButton': 'PDF ޑައުންލޯޑް',
+  'report.preparingPdf': 'PDF ތައްޔާރުކުރަނީ...',
+  'report.pdfFailed': 'PDF ނުހެދުނު. ޕްރިންޓް ބޭނުންކޮށް PDF ގެ ގޮތުގައި ސޭވްކުރައްވާ.',
+  'report.empty': 'ރިޕޯޓްކުރާނެ އެއްޗެއް އަދި ނެތް. ކެލްކިއުލޭޓަރު ހުޅުވައި އެސެސްމަންޓް ރިޕޯޓް ޚިޔާރުކުރައްވާ.',
+  'report.reportId': 'ރިޕޯޓްގެ އައިޑީ',
+  'report.generated': 'ތައްޔާރުކުރި ތާރީޚު',
+  'report.loanType': 'ލޯނުގެ ބާވަތް',
+  'report.policy': 'އަންޑަރރައިޓިންގ ސިޔާސަތު',
+  'report.applicantInputs': 'އެޕްލިކަންޓްގެ މަޢުލޫމާތު',
+  'report.salary': 'މުސާރަ',
+  'report.rentIncome': 'ކުލީގެ އާމްދަނީ',
+  'report.otherIncome': 'އެހެން އާމްދަނީ',
+  'report.projectIncome': 'މަޝްރޫއުގެ އާމްދަނީ',
+  'report.interestRate': 'އިންޓަރެސްޓް ރޭޓް',
+  'report.repaymentPeriod': 'ލޯނު ދައްކާ މުއްދަތު',
+  'report.gracePeriod': 'ގްރޭސް މުއްދަތު',
+  'report.months': '{months} މަސް',
+  'report.graceHandling': 'ގްރޭސް މުއްދަތު ހިސާބުކުރާ ގޮތް',
+  'report.coApplicants': 'ޝަރީކު އެޕްލިކަންޓުން',
+  'report.name': 'ނަން',
+  'report.existingLoans': 'މިހާރު ހުރި ލޯނު',
+  'report.obligations': 'މިހާރު ހުރި ލޯނުތައް',
+  'report.lender': 'ލޯނު ދިން ފަރާތް',
+  'report.outstandingBalance': 'ބާކީ ހުރި އަދަދު',
+  'report.rate': 'ރޭޓް',
+  'report.monthsLeft': 'ބާކީ މަސް',
+  'report.installment': 'ކަސްތޫރި',
+  'report.treatment': 'ހިސާބުކުރާ ގޮތް',
+  'report.bankFinanceDetails': 'ބޭންކުގެ ފައިނޭންސްގެ ތަފްސީލު',
+  'report.totalProjectCost': 'މަޝްރޫއުގެ ޖުމްލަ ހަރަދު',
+  'report.equity': 'އިކުއިޓީ',
+  'report.bankFinanceAmount': 'ބޭންކް ފައިނޭންސްގެ އަދަދު',
+  'report.refinancedLoans': 'ރީފައިނޭންސް ކުރާ ލޯނުތައް ހިމެނޭ',
+  'report.propertyValue': 'މުދަލުގެ އަގު',
+  'report.propertyValueLtv': '{amount} (އެލް.ޓީ.ވީ {ltv}%)',
+  'report.scenarioResults': 'ސިނެރިއޯތަކުގެ ނަތީޖާ',
+  'report.scenario': 'ސިނެރިއޯ',
+  'report.duringGrace': 'ގްރޭސް މުއްދަތުގައި',
+  'report.afterGrace': 'ގްރޭސް ނިމުމަށްފަހު',
+  'report.totalIncome': 'ޖުމްލަ އާމްދަނީ',
+  'report.livingExpenses': 'ދިރިއުޅުމުގެ ހަރަދު',
+  'report.projectExpenditure': 'މަޝްރޫއުގެ ހަރަދު',
+  'report.incomeTax': 'އިންކަމް ޓެކްސް',
+  'report.netIncome': 'ނެޓް އާމްދަނީ',
+  'report.monthlyRepayment': 'މަހުން ދައްކާ ފައިސާ',
+  'report.emiInGrace': 'ގްރޭސްގައި އީ.އެމް.އައި',
+  'report.emiAfterGrace': 'ގްރޭސް ނިމުމަށްފަހު އީ.އެމް.އައި',
+  'report.verdict': 'ނިންމުން',
+  'report.applicantAfterGrace': 'އެޕްލިކަންޓް (ގްރޭސް ނިމުމަށްފަހު)',
+  'report.applicant': 'އެޕްލިކަންޓް',
+  'report.income': 'އާމްދަނީ',
+  'report.netContribution': 'ނެޓް ޙިއްސާ',
+  'report.share': 'ބައި',
+  'report.dscr': 'ޑީ.އެސް.ސީ.އާރް',
+  'report.worstCase': 'އެންމެ ދަށް ހާލަތު',
+  'report.totalInterest': 'ޖުމްލަ އިންޓަރެސްޓް',
+  'report.loanEnds': 'ލޯނު ނިމޭ ތާރީޚު',
+  'report.dti': 'ޑީ.ޓީ.އައި',
+  'report.foir': 'އެފް.އޯ.އައި.އާރް',
+  'report.eligibility': 'ޝަރުތު ފުރިހަމަވުން',
+  'report.eligible': 'ޝަރުތު ފުރިހަމަ',
+  'report.notEligible': 'ޝަރުތު ފުރިހަމައެއް ނޫން',
+  'report.rules': 'ޤަވާޢިދު',
+  'report.apr': 'އޭ.ޕީ.އާރް',
+  'report.notAvailable': 'ނެތް',
+  'report.emiWithCharges': 'ޗާޖާއެކު އީ.އެމް.އައި',
+  'report.upfrontFees': 'ފުރަތަމަ ދައްކާ ފީ',
+  'report.totalCostOfBorrowing': 'ލޯނުގެ ޖުމުލަ ޚަރަދު',
+  'report.costOfBorrowing': 'ލޯނުގެ ޚަރަދު',
+  'report.nominalRate': 'ނޮމިނަލް ރޭޓް',
+  'report.totalCost': 'ޖުމްލަ ޚަރަދު',
+  'report.applicantContributions': 'އެޕްލިކަންޓުންގެ ޙިއްސާ (ގްރޭސް ނިމުމަށްފަހު)',
+  'report.scenarioSummary': '{scenario}: އާމްދަނީ {income}، ދިރިއުޅުމުގެ ހަރަދު {livingExpenses}، މަޝްރޫއުގެ ހަރަދު {projectExpenditure}، އިންކަމް ޓެކްސް {incomeTax}، ޖުމްލަ އިންޓަރެސްޓް {totalInterest}، ލޯނު ނިމޭނީ {endDate}، އެންމެ ދަށް ހާލަތުގެ ޑީ.އެސް.ސީ.އާރް {dscr} ({status}).',
+  'report.taxBrackets': 'އިންކަމް ޓެކްސްގެ ބްރެކެޓްތައް',
+  'report.taxBracketsFor': 'އިންކަމް ޓެކްސްގެ ބްރެކެޓްތައް: {name}',
+  'report.taxTableEffective': '{name}، {date} އިން ފެށިގެން',
+  'report.effectiveFrom': '{date} އިން ފެށިގެން',
+  'report.annualIncomeFrom': 'އަހަރީ އާމްދަނީ، ފެށޭ',
+  'report.upTo': 'ހަމައަށް',
+  'report.andAbove': 'އަދި އެއަށްވުރެ މަތި',
+  'report.amortizationSummary': 'ލޯނު ދައްކާ ތާވަލުގެ ޚުލާޞާ',
+  'report.totalPayment': 'ޖުމްލަ ދައްކާ ފައިސާ',
+  'report.year': 'އަހަރު',
+  'report.yearLabel': 'އަހަރު {year}',
+  'report.payment': 'ދެއްކި ފައިސާ',
+  'report.interest': 'އިންޓަރެސްޓް',
+  'report.principal': 'އަސްލު',
+  'report.closingBalance': 'ނިމުނު ބެލެންސް',
+
+  // Eligibility rules in the assessment report
+  'eligibility.line': '{rule} {detail}: {status}',
+  'eligibility.dscr': 'ޑީ.އެސް.ސީ.އާރް',
+  'eligibility.dti': 'ޑެޓް ޓު އިންކަމް (ޑީ.ޓީ.އައި)',
+  'eligibility.foir': 'ފިކްސްޑް އޮބްލިގޭޝަންސް ޓު އިންކަމް (އެފް.އޯ.އައި.އާރް)',
+  'eligibility.ltv': 'ލޯން ޓު ވެލިއު (އެލް.ޓީ.ވީ)',
+  'eligibility.minimum': '{value} (މަދުވެގެން {limit})',
+  'eligibility.maximum': '{value}% (ގިނަވެގެން {limit}%)',
+  'eligibility.notAvailable': 'ނެތް (ގިނަވެގެން {limit}%)',
+  'eligibility.passed': 'ފާސް',
+  'eligibility.failed': 'ފާސްނުވި',
+  'eligibility.missing': 'ނެތް',
+
+  // Stress test scenarios
+  'scenarios.title': 'ސްޓްރެސް ޓެސްޓް ސިނެރިއޯތައް',
+  'scenarios.intro': 'އާމްދަނީގެ މަލްޓިޕްލަޔަރު، މަޝްރޫއުގެ އާމްދަނީ ލަސްވުން، ހަރަދު އިތުރުވުމާއި ރޭޓް ޝޮކް ހިމެނޭ ނަން ދީފައިވާ ސިނެރިއޯތައް ކަނޑައަޅާ. ކޮންމެ ސިނެރިއޯއަކަށް ކެލްކިއުލޭޓަރުގައި ވަކި ނަތީޖާ ކާޑެއް ލިބޭނެ.',
+  'scenarios.addSection': 'އައު ސިނެރިއޯއެއް އިތުރުކުރުން',
+  'scenarios.addButton': '+ ސިނެރިއޯއެއް އިތުރުކުރޭ',
+  'scenarios.builtIn': 'ބިލްޓްއިން ސިނެރިއޯތައް',
+  'scenarios.builtInHint': 'މިއީ ހިނގާ އަންޑަރރައިޓިންގ ސިޔާސަތަށް ތަބާވާ ސިނެރިއޯތައް. މިތާނގައި ބަދަލެއް ނުކުރެވޭނެ.',
+  'scenarios.custom': 'ޚާއްޞަ ސިނެރިއޯތައް ({count})',
+  'scenarios.empty': 'ޚާއްޞަ ސިނެރިއޯއެއް ކަނޑައަޅާފައެއް ނުވޭ',
+  'scenarios.name': 'ސިނެރިއޯގެ ނަން *',
+  'scenarios.namePlaceholder': 'މިސާލު: ކުލި 30% ދަށްވުން',
+  'scenarios.description': 'ތަފްސީލު',
+  'scenarios.descriptionPlaceholder': 'މި ސިނެރިއޯއިން ޓެސްޓްކުރާ ކަންތައް',
+  'scenarios.saveButton': '✓ ސިނެރިއޯ ރައްކާކުރޭ',
+  'scenarios.confirmDelete': 'މި ސިނެރިއޯ ފޮހެލަން ބޭނުންތޯ؟',
+  'scenarios.errorNameTaken': 'މި ނަމުގައި ސިނެރިއޯއެއް މިހާރުވެސް އެބައޮތް',
+  'scenarios.salaryMultiplier': 'މުސާރައިގެ މަލްޓިޕްލަޔަރު',
+  'scenarios.rentMultiplier': 'ކުލީގެ މަލްޓިޕްލަޔަރު',
+  'scenarios.otherMultiplier': 'އެހެން އާމްދަނީގެ މަލްޓިޕްލަޔަރު',
+  'scenarios.projectIncomeMultiplier': 'މަޝްރޫއުގެ އާމްދަނީގެ މަލްޓިޕްލަޔަރު',
+  'scenarios.projectIncomeDelayMonths': 'މަޝްރޫއުގެ އާމްދަނީ ލަސްވުން (މަސް)',
+  'scenarios.expenditureMultiplier': 'ދިރިއުޅުމުގެ ހަރަދުގެ މަލްޓިޕްލަޔަރު',
+  'scenarios.stressExpenditureRate': 'ސްޓްރެސް ހަރަދު (އާމްދަނީގެ %)',
+  'scenarios.rateAdjustment': 'ރޭޓަށް ގެންނަ ބަދަލު (ޕަސެންޓޭޖް ޕޮއިންޓް)',
+  'scenarios.hintIncomeDrop': '1 = ބަދަލެއް ނެތް، 0.7 = 30% ދަށްވުން',
+  'scenarios.hintUnchanged': '1 = ބަދަލެއް ނެތް',
+  'scenarios.hintDelay': 'ގްރޭސް ނިމުމަށްފަހު މަޝްރޫއުގެ އާމްދަނީ ފެށެންދެން މަސް',
+  'scenarios.hintExpenditure': '1.1 = ދިރިއުޅުމުގެ ހަރަދު 10% އިތުރުވުން',
+  'scenarios.hintStress': 'މަޝްރޫއުގެ ހަރަދަށް އިތުރުކުރާ ހަރަދު',
+  'scenarios.hintRateShock': '3 = ރޭޓް 3% މަތިވުން',
+  'scenarios.normalName': 'އާންމު ސިނެރިއޯ',
+  'scenarios.normalDescription': 'ހުރިހާ އާމްދަނީއާއި ރޭޓެއް ލިޔުނު ގޮތަށް',
+  'scenarios.incomeReducedName': 'އާމްދަނީ {reduction}% މަދުވުން',
+  'scenarios.incomeReducedDescription': 'ހުރިހާ އާމްދަނީ {reduction}% މަދުކޮށް، {stress}% ސްޓްރެސް ހަރަދާއެކު',
+  'scenarios.errorNameShort': 'ސިނެރިއޯގެ ނަމުގައި މަދުވެގެން 2 އަކުރު ހުންނަން ޖެހޭ',
+  'scenarios.errorMultipliers': 'މަލްޓިޕްލަޔަރުތައް ހުންނަން ޖެހޭނީ 0 އާއި 10 ދެމެދުގައި',
+  'scenarios.errorDelay': 'މަޝްރޫއުގެ އާމްދަނީ ލަސްވާ މުއްދަތަކީ ފުރިހަމަ މަސްތަކެއް ކަމުގައި ވާން ޖެހޭ',
+  'scenarios.errorStress': 'ސްޓްރެސް ހަރަދުގެ ރޭޓް ހުންނަން ޖެހޭނީ 0% އާއި 100% ދެމެދުގައި',
+  'scenarios.errorRateAdjustment': 'ރޭޓަށް ގެންނަ ބަދަލު ހުންނަން ޖެހޭނީ -50 އާއި +50 ޕަސެންޓޭޖް ޕޮއިންޓް ދެމެދުގައި',
+
+  // Underwriting policies
+  'policies.title': 'އަންޑަރރައިޓިންގ ސިޔާސަތުތައް',
+  'policies.intro': 'ކެލްކިއުލޭޓަރު ބޭނުންކުރާ ހަރަދުގެ ރޭޓުތަކާއި، ސްޓްރެސް ފެކްޓަރުތަކާއި، ޑީ.އެސް.ސީ.އާރް ޙައްދުތައް ކަނޑައަޅާ. ރައްކާކުރާ ކޮންމެ ބަދަލަކުން ސިޔާސަތުގެ އައު ވާޝަނެއް ހެދޭނެ؛ ކުރީގެ ވާޝަންތައް އޭގެ ތާރީޚުގައި ބާކީ ހުންނާނެ.',
+  'policies.addSection': 'އައު ސިޔާސަތެއް އިތުރުކުރުން',
+  'policies.addButton': '+ ސިޔާސަތެއް އިތުރުކުރޭ',
+  'policies.existing': 'މިހާރު ހުރި ސިޔާސަތުތައް ({count})',
+  'policies.name': 'ސިޔާސަތުގެ ނަން *',
+  'policies.namePlaceholder': 'މިސާލު: ގޭބިސީގެ ލޯނު Q3',
+  'policies.saveButton': '✓ ސިޔާސަތު ރައްކާކުރޭ',
+  'policies.versionHistory': 'ވާޝަންތަކުގެ ތާރީޚު ({count})',
+  'policies.lastUpdated': 'އެންމެ ފަހުން ބަދަލުކުރީ:',
+  'policies.confirmDelete': 'މި ސިޔާސަތު ފޮހެލަން ބޭނުންތޯ؟',
+  'policies.errorNameTaken': 'މި ނަމުގައި ސިޔާސަތެއް މިހާރުވެސް އެބައޮތް',
+  'policies.errorLastPolicy': 'އެންމެ ފަހު ސިޔާސަތު ފޮހެލޭކަށް ނެތް',
+  'policies.livingExpenseThreshold': 'ދިރިއުޅުމުގެ ހަރަދަށް އާމްދަނީގެ ޙައްދު',
+  'policies.livingExpenseRateAboveThreshold': 'ޙައްދަށްވުރެ މަތީގައި ދިރިއުޅުމުގެ ހަރަދުގެ ރޭޓް (%)',
+  'policies.livingExpenseRateAtOrBelowThreshold': 'ޙައްދު ނުވަތަ އެއަށްވުރެ ދަށުގައި ދިރިއުޅުމުގެ ހަރަދުގެ ރޭޓް (%)',
+  'policies.maintenanceCostRate': 'މެއިންޓެނަންސް ހަރަދުގެ ރޭޓް (%)',
+  'policies.incomeReduceMultiplier': 'އާމްދަނީ މަދުކުރާ މަލްޓިޕްލަޔަރު',
+  'policies.stressExpenditureRate': 'ސްޓްރެސް ހަރަދުގެ ރޭޓް (%)',
+  'policies.dscrExcellentThreshold': 'ޑީ.އެސް.ސީ.އާރް "މޮޅު" ޙައްދު',
+  'policies.dscrGoodThreshold': 'ޑީ.އެސް.ސީ.އާރް "ރަނގަޅު" ޙައްދު',
+  'policies.livingExpenseThresholdHint': 'މީގެ މަތިން މަހުގެ އާމްދަނީ ވާނަމަ ދިރިއުޅުމުގެ ހަރަދުގެ ދަށް ރޭޓް ހިނގާނެ',
+  'policies.livingExpenseRateHint': 'ދިރިއުޅުމުގެ ހަރަދުގެ ގޮތުގައި ބަލާ އާމްދަނީގެ ބައި',
+  'policies.maintenanceCostRateHint': 'ކުލީގެ އާމްދަނީއާއި މަޝްރޫއުގެ އާމްދަނީއަށް ހިނގާ',
+  'policies.incomeReduceMultiplierHint': 'އާމްދަނީ މަދުވާ ސިނެރިއޯގެ އާމްދަނީގެ މަލްޓިޕްލަޔަރު (0.8 = 20% މަދުވުން)',
+  'policies.stressExpenditureRateHint': 'އާމްދަނީ މަދުވާ ސިނެރިއޯގައި އިތުރުކުރާ ހަރަދު',
+  'policies.dscrExcellentThresholdHint': 'މޮޅު ކަމަށް ބަލާ އެންމެ ދަށް ޑީ.އެސް.ސީ.އާރް',
+  'policies.dscrGoodThresholdHint': 'ރަނގަޅު ކަމަށް ބަލާ އެންމެ ދަށް ޑީ.އެސް.ސީ.އާރް',
+  'policies.errorNameShort': 'ސިޔާސަތުގެ ނަމުގައި މަދުވެގެން 2 އަކުރު ހުންނަން ޖެހޭ',
+  'policies.errorThreshold': 'ދިރިއުޅުމުގެ ހަރަދުގެ ޙައްދު ނެގެޓިވް ނުވާނެ',
+  'policies.errorLivingExpenseRates': 'ދިރިއުޅުމުގެ ހަރަދުގެ ރޭޓުތައް ހުންނަން ޖެހޭނީ 0% އާއި 100% ދެމެދުގައި',
+  'policies.errorMaintenanceRate': 'މެއިންޓެނަންސް ހަރަދުގެ ރޭޓް ހުންނަން ޖެހޭނީ 0% އާއި 100% ދެމެދުގައި',
+  'policies.errorIncomeReduce': 'އާމްދަނީ މަދުކުރާ މަލްޓިޕްލަޔަރު ހުންނަން ޖެހޭނީ 0 އާއި 1 ދެމެދުގައި',
+  'policies.errorStressRate': 'ސްޓްރެސް ހަރަދުގެ ރޭޓް ހުންނަން ޖެހޭނީ 0% އާއި 100% ދެމެދުގައި',
+  'policies.errorDscrThresholds': 'ޑީ.އެސް.ސީ.އާރް ޙައްދުތައް ޕޮޒިޓިވް ވާން ޖެހޭނެ، އަދި "މޮޅު" ޙައްދު "ރަނގަޅު" ޙައްދަށްވުރެ ދަށް ނުވާނެ',
+
+  // Currencies
+  'currencies.title': 'ފައިސާ',
+  'currencies.intro': 'އަދަދުތައް ދައްކާނެ ގޮތް ކަނޑައަޅާ. ލޯނުގެ ބާވަތްތަކަށް އަމިއްލަ ފައިސާއެއް ޚިޔާރުކުރެވޭނެ؛ ބާކީ ތަކަށް ޑިފޯލްޓް ފައިސާ ހިނގާނެ. ދެވަނަ ފައިސާއަކާއި އެކްސްޗޭންޖް ރޭޓެއް ހުރިނަމަ، މުހިންމު އަދަދުތަކުގެ އެއް އަގު ވެސް ދައްކާނެ.',
+  'currencies.saved': 'ފައިސާގެ ސެޓިންގްސް ރައްކާކުރެވިއްޖެ',
+  'currencies.confirmReset': 'ފައިސާގެ ޑިފޯލްޓް ސެޓިންގްސް އަނބުރާ ގެންނަންތޯ؟',
+  'currencies.list': 'ފައިސާ ({count})',
+  'currencies.addButton': '+ ފައިސާއެއް އިތުރުކުރޭ',
+  'currencies.code': 'އައިސޯ ކޯޑު *',
+  'currencies.codePlaceholder': 'މިސާލު: MVR',
+  'currencies.locale': 'ލޯކަލް *',
+  'currencies.localePlaceholder': 'މިސާލު: en-MV',
+  'currencies.decimalPlaces': 'ޑެސިމަލް ތަން',
+  'currencies.defaultCurrency': 'ޑިފޯލްޓް ފައިސާ',
+  'currencies.secondaryCurrency': 'އެއް އަގު ދައްކާނީ',
+  'currencies.none': 'ނެތް',
+  'currencies.fxRates': 'އެކްސްޗޭންޖް ރޭޓުތައް ({count})',
+  'currencies.addRateButton': '+ ރޭޓެއް އިތުރުކުރޭ',
+  'currencies.fxRatesHint': 'ފުރަތަމަ ފައިސާގެ އެއް ޔުނިޓަކުން ދެވަނަ ފައިސާ މިހާ ގިނައިން ލިބޭ؛ އަނބުރާ ރޭޓް އަމިއްލައަށް ހިސާބުކުރެވޭނެ.',
+  'currencies.noRates': 'އެކްސްޗޭންޖް ރޭޓެއް ކަނޑައަޅާފައެއް ނުވޭ',
+  'currencies.oneUnitOf': '1 ޔުނިޓް',
+  'currencies.equals': 'ވަނީ',
+  'currencies.unitsOf': 'ޔުނިޓް',
+  'currencies.saveButton': '✓ ސެޓިންގްސް ރައްކާކުރޭ',
+  'currencies.resetButton': '↺ ޑިފޯލްޓަށް އަނބުރާ',
+  'currencies.errorNoCurrencies': 'މަދުވެގެން އެއް ފައިސާ ބޭނުންވޭ',
+  'currencies.errorFormat': '{code} އަށް ތިން އަކުރުގެ އައިސޯ ކޯޑަކާއި en-US ފަދަ ރަނގަޅު ލޯކަލެއް ބޭނުންވޭ',
+  'currencies.errorFormatUnnamed': 'ކޮންމެ ފައިސާއަކަށް ތިން އަކުރުގެ އައިސޯ ކޯޑަކާއި en-US ފަދަ ރަނގަޅު ލޯކަލެއް ބޭނުންވޭ',
+  'currencies.errorDecimalPlaces': '{code} ގެ ޑެސިމަލް ތަން ވާން ޖެހޭނީ 0 އިން {max} އަށް ފުރިހަމަ އަދަދަކަށް',
+  'currencies.errorDuplicate': 'ކޮންމެ ފައިސާއެއް ލިސްޓުގައި ހިމެނޭނީ އެއްފަހަރު',
+  'currencies.errorDefaultUnlisted': 'ޑިފޯލްޓް ފައިސާއަކީ ލިސްޓުގައިވާ ފައިސާއެއް ކަމުގައި ވާން ޖެހޭ',
+  'currencies.errorSecondaryUnlisted': 'ދެވަނަ ފައިސާއަކީ ލިސްޓުގައިވާ ފައިސާއެއް ކަމުގައި ވާން ޖެހޭ',
+  'currencies.errorSecondarySame': 'ދެވަނަ ފައިސާއަކީ ޑިފޯލްޓް ފައިސާއާ ތަފާތު ފައިސާއެއް ކަމުގައި ވާން ޖެހޭ',
+  'currencies.errorRateCurrencies': 'އެކްސްޗޭންޖް ރޭޓުތައް ވާން ޖެހޭނީ ލިސްޓުގައިވާ ދެ ތަފާތު ފައިސާއެއްގެ ދެމެދުގައި',
+  'currencies.errorRatePositive': '{from} އިން {to} އަށް ރޭޓް 0 އަށްވުރެ ބޮޑުވާން ޖެހޭ',
+  'currencies.errorRateDuplicate': '{from} އާއި {to} ދެމެދުގައި ރޭޓް އެކެއްގައި ވުރެ ގިނަ',
+
+  // Income tax tables
+  'taxTables.title': 'އިންކަމް ޓެކްސް ޖަދުވަލުތައް',
+  'taxTables.intro': 'ދަރަޖަ ދަރަޖައިން އަރާ ޓެކްސް ޖަދުވަލުތައް ބެލެހެއްޓުން. ކެލްކިއުލޭޓަރު ބޭނުންކުރަނީ ހިސާބުކުރާ ތާރީޚުގައި ހިނގާ ޖަދުވަލު.',
+  'taxTables.apiToken': 'API ޓޯކަން',
+  'taxTables.apiTokenHint': 'ސާވަރުގެ ޓެކްސް ޖަދުވަލުތަކަށް ބަދަލުތައް ރައްކާކުރުމަށް ސާވަރުގައި LOAN_TYPES_API_TOKEN ގެ ގޮތުގައި ލާފައިވާ ޓޯކަން ބޭނުންވޭ. މި ބްރައުޒަރ ސެޝަނަށް ކަނޑައެޅިގެން ރައްކާކުރެވޭ.',
+  'taxTables.addSection': 'އައު ޓެކްސް ޖަދުވަލެއް އިތުރުކުރުން',
+  'taxTables.addButton': '+ ޓެކްސް ޖަދުވަލެއް އިތުރުކުރޭ',
+  'taxTables.existing': 'މިހާރު ހުރި ޓެކްސް ޖަދުވަލުތައް ({count})',
+  'taxTables.inForce': 'ހިނގަމުންދާ',
+  'taxTables.effectiveFrom': '{date} އިން ފެށިގެން',
+  'taxTables.name': 'ޖަދުވަލުގެ ނަން *',
+  'taxTables.namePlaceholder': 'މިސާލު: އިންކަމް ޓެކްސް 2026',
+  'taxTables.effectiveFromLabel': 'ފެށޭ ތާރީޚު *',
+  'taxTables.brackets': 'އަހަރީ އާމްދަނީގެ ބްރެކެޓްތައް ({code}) *',
+  'taxTables.from': 'ފެށޭ',
+  'taxTables.to': 'ހަމައަށް (ހުސްނަމަ = ޙައްދެއް ނެތް)',
+  'taxTables.rate': 'ރޭޓް (%)',
+  'taxTables.addBracket': '+ ބްރެކެޓެއް އިތުރުކުރޭ',
+  'taxTables.removeBracket': 'ބްރެކެޓް ނައްތާލާ',
+  'taxTables.saveButton': '✓ ޓެކްސް ޖަދުވަލު ރައްކާކުރޭ',
+  'taxTables.confirmDelete': 'މި ޓެކްސް ޖަދުވަލު ފޮހެލަން ބޭނުންތޯ؟',
+  'taxTables.errorLastTable': 'އެންމެ ފަހު ޓެކްސް ޖަދުވަލު ފޮހެލޭކަށް ނެތް',
+  'taxTables.errorSaveFailed': 'ޓެކްސް ޖަދުވަލުތައް ރައްކާ ނުކުރެވުނު',
+  'taxTables.bracketUpTo': '{max} އަށް',
+  'taxTables.bracketAbove': '{min} އަށްވުރެ މަތިން',
+  'taxTables.bracketRange': '{min} - {max}',
+  'taxTables.errorNoTables': 'މަދުވެގެން އެއް ޓެކްސް ޖަދުވަލު ބޭނުންވޭ',
+  'taxTables.errorInvalidTable': 'ޓެކްސް ޖަދުވަލު {number} ރަނގަޅެއް ނޫން',
+  'taxTables.errorDuplicateIds': 'ޓެކްސް ޖަދުވަލުތަކުގެ އައިޑީ ތަފާތުވާން ޖެހޭ',
+  'taxTables.errorDuplicateDates': '{date} ގައި ފެށޭނީ އެއް ޓެކްސް ޖަދުވަލު',
+  'taxTables.errorNoBrackets': 'ޓެކްސް ޖަދުވަލެއްގައި މަދުވެގެން އެއް ބްރެކެޓް ހުންނަން ޖެހޭ',
+  'taxTables.errorFirstBracket': 'ފުރަތަމަ ބްރެކެޓް ފެށެން ޖެހޭނީ 0 އިން',
+  'taxTables.errorBracketRate': 'ބްރެކެޓް {number}: ރޭޓް ހުންނަން ޖެހޭނީ 0% އާއި 100% ދެމެދުގައި',
+  'taxTables.errorLastBracketBounded': 'އެންމެ ފަހު ބްރެކެޓަށް މަތީ ޙައްދެއް ނުހުންނާނެ',
+  'taxTables.errorBracketUnbounded': 'ބްރެކެޓް {number}: މަތީ ޙައްދެއް ނެތި ހުންނާނީ އެންމެ ފަހު ބްރެކެޓް އެކަނި',
+  'taxTables.errorBracketLimits': 'ބްރެކެޓް {number}: މަތީ ޙައްދު ދަށު ޙައްދަށްވުރެ ބޮޑުވާން ޖެހޭ',
+  'taxTables.errorBracketGap': 'ބްރެކެޓް {number}: {amount} ގެ ފަހުން ހުސްތަނެއް އެބައޮތް',
+  'taxTables.errorBracketOverlap': 'ބްރެކެޓް {number}: ކުރީ ބްރެކެޓާ ފުށުއަރާ',
+  'taxTables.errorNameShort': 'ޓެކްސް ޖަދުވަލުގެ ނަމުގައި މަދުވެގެން 2 އަކުރު ހުންނަން ޖެހޭ',
+  'taxTables.errorDate': 'ފެށޭ ތާރީޚަކީ ރަނގަޅު ތާރީޚެއް ކަމުގައި ވާން ޖެހޭ',
+  'taxTables.errorDateTaken': 'މި ތާރީޚުން ފެށޭ އެހެން ޓެކްސް ޖަދުވަލެއް މިހާރުވެސް އެބައޮތް'
+};
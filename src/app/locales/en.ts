@@ -0,0 +1,719 @@
+// src/app/locales/en.ts
+// English is the reference catalog: every other language must provide the same keys.
+
+export const en = {
+  // Shared
+  'common.loading': 'Loading...',
+  'common.backToCalculator': '← Back to Calculator',
+  'common.edit': 'Edit',
+  'common.editButton': '✎ Edit',
+  'common.deleteButton': '🗑 Delete',
+  'common.cancelButton': '✕ Cancel',
+  'common.years': 'Years',
+  'common.months': 'Months',
+  'common.totalMonths': 'Total: {months} months',
+  'common.language': 'Language',
+  // Comma-separated, used where Intl has no calendar data for the locale
+  'date.months': 'January,February,March,April,May,June,July,August,September,October,November,December',
+
+  // DSCR verdicts
+  'dscr.excellent': 'Excellent',
+  'dscr.good': 'Good',
+  'dscr.needsImprovement': 'Needs Improvement',
+
+  // Grace handling
+  'grace.addedToTenure': 'Added on top of tenure (interest only)',
+  'grace.insideTenure': 'Counted inside tenure (interest only)',
+  'grace.capitalized': 'Interest capitalized into principal',
+
+  // Calculator
+  'calculator.title': 'EMI Calculator',
+  'calculator.loanType': 'Loan Type',
+  'calculator.currencies': 'Currencies',
+  'calculator.amountsIn': 'Amounts in {code}',
+  'calculator.loanTypeOption': '{name} ({rate}% - {years}y {months}m)',
+  'calculator.underwritingPolicy': 'Underwriting Policy',
+  'calculator.monthlyIncome': 'Monthly Income',
+  'calculator.salary': 'Salary *',
+  'calculator.salaryPlaceholder': 'Enter salary',
+  'calculator.rent': 'Rent',
+  'calculator.rentPlaceholder': 'Enter rent income',
+  'calculator.other': 'Other',
+  'calculator.otherPlaceholder': 'Enter other income',
+  'calculator.projectIncome': 'Project Income (After Grace)',
+  'calculator.projectIncomePlaceholder': 'Enter project income',
+  'calculator.projectIncomeHint': 'Only applicable after grace period ends',
+  'calculator.loanDetails': 'Loan Details',
+  'calculator.totalProjectCost': 'Total Project Cost *',
+  'calculator.totalProjectCostPlaceholder': 'Enter total project cost',
+  'calculator.propertyValue': 'Property Value',
+  'calculator.propertyValuePlaceholder': 'Enter appraised property value',
+  'calculator.propertyValueHint': 'Appraised value of the security, used for LTV. Leave blank if there is none.',
+  'calculator.equity': 'Equity %',
+  'calculator.equityPlaceholder': 'Enter equity percentage',
+  'calculator.interestRate': 'Interest Rate (%) *',
+  'calculator.interestRatePlaceholder': 'Enter interest rate',
+  'calculator.repaymentPeriod': 'Repayment Period *',
+  'calculator.gracePeriod': 'Grace Period (months)',
+  'calculator.gracePeriodPlaceholder': 'Enter grace period',
+  'calculator.graceHandling': 'Grace Handling',
+  'calculator.feesAndInsurance': 'Fees and Insurance',
+  'calculator.processingFeeRate': 'Processing Fee (%)',
+  'calculator.stampDuty': 'Stamp Duty',
+  'calculator.propertyInsurance': 'Property Insurance (per year)',
+  'calculator.lifeInsurance': 'Life Insurance (per year)',
+  'calculator.serviceCharges': 'Service Charges (per year)',
+  'calculator.feesHint': 'The processing fee comes from the loan type. Fees are paid upfront; premiums and charges are spread over every month of the loan.',
+  'calculator.bankFinanceDetails': 'Bank Finance Details',
+  'calculator.totalProjectCostAmount': 'Total Project Cost:',
+  'calculator.equityAmount': 'Equity ({percentage}%):',
+  'calculator.bankFinance': 'Bank Finance:',
+  'calculator.refinancedObligations': 'Includes refinanced loans:',
+  'calculator.processingFee': 'Processing Fee ({rate}%):',
+  'calculator.incomeTaxBrackets': 'Income Tax Brackets',
+  'calculator.taxTableEffective': '{name} (effective from {date})',
+  'calculator.taxTableConverted': 'Thresholds converted from {taxCurrency} to {currency} at the saved exchange rate',
+  'calculator.taxUpTo': 'Up to {max}:',
+  'calculator.taxAbove': 'Above {min}:',
+  'calculator.taxRange': '{min} - {max}:',
+  'calculator.scenarioResults': 'Scenario Results',
+  'calculator.assessmentReport': 'Assessment Report',
+  'calculator.exportCsv': 'Export CSV',
+  'calculator.exportExcel': 'Export Excel',
+  'calculator.manageScenarios': 'Manage Scenarios',
+  'calculator.offerComparison': 'Offer Comparison',
+  'calculator.compareOffers': 'Compare Offers',
+  'calculator.closeComparison': 'Close Comparison',
+  'calculator.scheduleScenario': 'Schedule Scenario',
+
+  // Scenario result cards
+  'results.title': '{name} Results',
+  'results.totalIncome': 'Total Income',
+  'results.totalExpenditure': 'Total Expenditure',
+  'results.projectIncome': 'Project Income',
+  'results.projectIncomeStart': 'Starts in month {month}',
+  'results.projectExpenditure': 'Project Expenditure',
+  'results.maintenanceCost': 'Maintenance Cost ({rate}%)',
+  'results.incomeTax': 'Income Tax',
+  'results.existingLoans': 'Existing Installments',
+  'results.applicants': 'Applicant Contributions (net of own tax)',
+  'results.primaryApplicant': 'Primary Applicant',
+  'results.applicantShare': '({share}% of income, tax {tax})',
+  'results.netIncome': 'Net Income',
+  'results.emiDuringGrace': 'EMI (During Grace)',
+  'results.emiAfterGrace': 'EMI (After Grace)',
+  'results.atRate': 'At {rate}% interest',
+  'results.totalInterest': 'Total Interest',
+  'results.loanEndDate': 'Loan End Date ({months} months)',
+  'results.capitalizedInterest': 'Capitalized Interest',
+  'results.apr': 'APR',
+  'results.aprBasis': 'Nominal {nominal}%, effective {effective}% a year',
+  'results.effectiveEMI': 'EMI with Insurance and Charges',
+  'results.upfrontFees': 'Upfront Fees',
+  'results.totalCostOfBorrowing': 'Total Cost of Borrowing',
+  'results.emiByRatePeriod': 'EMI by Rate Period',
+  'results.ratePeriod': 'Months {start}-{end} @ {rate}%',
+  'results.dscr': 'DSCR (Debt Service Coverage Ratio)',
+  'results.dscrBasis': '{status} (Based on after-grace EMI)',
+  'results.worstCase': 'Worst case: {dscr} ({status}) at EMI {emi}',
+  'results.policy': 'Policy: {name} v{version}',
+  'results.dti': 'DTI',
+  'results.foir': 'FOIR',
+  'results.ltv': 'LTV',
+  'results.eligibility': 'Eligibility',
+  'results.eligible': 'Eligible: every rule passed',
+  'results.notEligible': 'Not eligible: {count} rule(s) not met',
+  'results.ruleDscr': 'DSCR',
+  'results.ruleDti': 'Debt-to-Income',
+  'results.ruleFoir': 'Fixed Obligations to Income',
+  'results.ruleLtv': 'Loan-to-Value',
+  'results.ruleMinimum': '{value} (minimum {limit})',
+  'results.ruleMaximum': '{value}% (maximum {limit}%)',
+  'results.ruleMissing': 'No property value (maximum {limit}%)',
+
+  // Loan type admin
+  'loanTypes.title': 'Manage Loan Types',
+  'loanTypes.intro': 'Add, edit, or remove loan types with their default interest rates and tenure for your EMI calculator.',
+  'loanTypes.addSection': 'Add New Loan Type',
+  'loanTypes.addButton': '+ Add Loan Type',
+  'loanTypes.name': 'Loan Name *',
+  'loanTypes.namePlaceholder': 'e.g., Vehicle Loan',
+  'loanTypes.annualRate': 'Interest Rate (% per annum) *',
+  'loanTypes.ratePlaceholder': 'e.g., 8.5',
+  'loanTypes.tenure': 'Default Tenure *',
+  'loanTypes.currency': 'Currency',
+  'loanTypes.defaultCurrency': 'Default ({code})',
+  'loanTypes.unknownCurrency': '{code} (not set up, shown as {fallback})',
+  'loanTypes.eligibilityLimits': 'Eligibility Limits (%)',
+  'loanTypes.eligibilityLimitsHint': 'Highest percentages this loan type accepts. Leave blank to skip a check.',
+  'loanTypes.maxDTI': 'Max DTI',
+  'loanTypes.maxFOIR': 'Max FOIR',
+  'loanTypes.maxLTV': 'Max LTV',
+  'loanTypes.productRules': 'Product Rules',
+  'loanTypes.productRulesHint': 'Amounts apply to the bank finance and periods are in months. The DSCR threshold replaces the Good threshold of the policy for this loan type. Leave blank to skip a rule.',
+  'loanTypes.minAmount': 'Min Amount',
+  'loanTypes.maxAmount': 'Max Amount',
+  'loanTypes.minEquityPercentage': 'Min Equity %',
+  'loanTypes.maxTenure': 'Max Tenure (months)',
+  'loanTypes.minGracePeriod': 'Min Grace (months)',
+  'loanTypes.maxGracePeriod': 'Max Grace (months)',
+  'loanTypes.processingFeeRate': 'Processing Fee %',
+  'loanTypes.dscrThreshold': 'DSCR Threshold',
+  'loanTypes.saveButton': '✓ Save Loan Type',
+  'loanTypes.saveChangesButton': '✓ Save Changes',
+  'loanTypes.importExport': 'Import / Export',
+  'loanTypes.exportButton': '⇩ Export JSON',
+  'loanTypes.importButton': '⇧ Import JSON',
+  'loanTypes.importIntro': 'Share the loan type catalog between branches. Imports are checked and previewed before anything changes.',
+  'loanTypes.importPreview': 'Import Preview',
+  'loanTypes.added': 'Added ({count})',
+  'loanTypes.changed': 'Changed ({count})',
+  'loanTypes.removed': 'Removed ({count})',
+  'loanTypes.keptWhenMerging': ', kept when merging',
+  'loanTypes.addedLine': '{name}: {rate}%, {tenure} months',
+  'loanTypes.changedLine': '{name}: {beforeRate}% → {afterRate}%, {beforeTenure} → {afterTenure} months',
+  'loanTypes.renamed': ' (renamed to {name})',
+  'loanTypes.unchanged': '{count} loan type(s) unchanged',
+  'loanTypes.mergeOption': 'Merge: add and update, keep the rest',
+  'loanTypes.replaceOption': 'Replace: use only the imported list',
+  'loanTypes.applyImportButton': '✓ Apply Import',
+  'loanTypes.existing': 'Existing Loan Types ({count})',
+  'loanTypes.empty': 'No loan types available',
+  'loanTypes.addFirstButton': '+ Add First Loan Type',
+  'loanTypes.rateLabel': 'Interest Rate:',
+  'loanTypes.rateValue': '{rate}% p.a.',
+  'loanTypes.tenureLabel': 'Default Tenure:',
+  'loanTypes.tenureValue': '{years}y {months}m ({total} months)',
+  'loanTypes.currencyLabel': 'Currency:',
+  'loanTypes.idLabel': 'ID:',
+  'loanTypes.limitsLabel': 'Limits:',
+  'loanTypes.limitValue': '{label} ≤ {value}%',
+  'loanTypes.noLimit': 'No limit',
+  'loanTypes.rulesLabel': 'Product Rules:',
+  'loanTypes.ruleValue': '{label} {value}',
+  'loanTypes.confirmDelete': 'Are you sure you want to delete this loan type?',
+  'loanTypes.errorNameEmpty': 'Loan name cannot be empty',
+  'loanTypes.errorNameShort': 'Loan name must be at least 2 characters long',
+  'loanTypes.errorNameTaken': 'A loan type with this name already exists',
+  'loanTypes.errorRate': 'Interest rate must be between 0.01% and 100%',
+  'loanTypes.errorTenurePositive': 'Tenure must be greater than 0 months',
+  'loanTypes.errorTenureMax': 'Tenure cannot exceed 1200 months',
+  'loanTypes.errorLimit': 'Eligibility limits must be above 0% and at most 100%',
+  'loanTypes.errorTenureAboveRule': 'Default tenure cannot exceed the maximum tenure of the product rules',
+  'loanTypes.errorRules': 'Product rules cannot be negative, each minimum must not exceed its maximum and percentages cannot exceed 100%',
+  'loanTypes.errorLastType': 'Cannot delete the last loan type',
+  'loanTypes.apiToken': 'Catalog API Token',
+  'loanTypes.apiTokenHint': 'Saving changes to the server catalog needs the token set as LOAN_TYPES_API_TOKEN on the server. It is kept for this browser session only.',
+  'loanTypes.errorSaveFailed': 'Loan types could not be saved. Please try again.',
+  'loanTypes.errorImportFailed': 'The catalog could not be imported',
+
+  // Charts
+  'charts.title': 'Charts',
+  'charts.intro': 'Loan charts follow the schedule scenario below, including planned prepayments. Dashed lines on the DSCR charts mark the Excellent ({excellent}) and Good ({good}) thresholds of the policy.',
+  'charts.balance': 'Outstanding Balance',
+  'charts.principalAndInterest': 'Principal and Interest per Year',
+  'charts.cumulativeInterest': 'Cumulative Interest',
+  'charts.dscrVsRate': 'DSCR vs Interest Rate',
+  'charts.dscrVsIncome': 'DSCR vs Income Reduction',
+  'charts.withoutPrepayments': 'Without prepayments',
+  'charts.balanceSeries': 'Balance',
+  'charts.principal': 'Principal',
+  'charts.prepayment': 'Prepayment',
+  'charts.interest': 'Interest',
+  'charts.interestPaid': 'Interest paid',
+  'charts.dscr': 'DSCR',
+  'charts.monthLabel': 'Month {month}',
+  'charts.yearLabel': 'Year {year}',
+  'charts.atRate': 'At {rate}% interest',
+  'charts.incomeReducedBy': 'Income reduced by {reduction}%',
+
+  // Co-applicants
+  'coApplicants.title': 'Co-applicants',
+  'coApplicants.addButton': '+ Add Co-applicant',
+  'coApplicants.intro': 'Add co-borrowers to combine household income. The income of each applicant is taxed separately, and existing loan installments of all applicants count towards the DSCR.',
+  'coApplicants.defaultName': 'Co-applicant {number}',
+  'coApplicants.name': 'Name',
+  'coApplicants.salary': 'Salary',
+  'coApplicants.rent': 'Rent',
+  'coApplicants.other': 'Other',
+  'coApplicants.existingLoans': 'Existing Loans',
+  'coApplicants.remove': 'Remove co-applicant',
+
+  // Existing obligations
+  'obligations.title': 'Existing Obligations',
+  'obligations.addButton': '+ Add Obligation',
+  'obligations.intro': 'Itemize each existing facility. Leave the installment at 0 to derive it from the balance, rate and remaining months, or mark a facility as refinanced to take its balance over into this loan.',
+  'obligations.lender': 'Lender',
+  'obligations.outstandingBalance': 'Outstanding Balance',
+  'obligations.rate': 'Rate (%)',
+  'obligations.remainingMonths': 'Months Left',
+  'obligations.installment': 'Installment',
+  'obligations.derivedInstallment': '{amount} derived',
+  'obligations.refinance': 'Refinance into this loan',
+  'obligations.remove': 'Remove obligation',
+  'obligations.excludeEndingInGrace': 'Ignore obligations repaid before the grace period ends ({months} months)',
+  'obligations.countedInstallments': 'Installments Counted in DSCR',
+  'obligations.refinancedTotal': 'Refinanced into This Loan',
+  'obligations.treatment.refinanced': 'Refinanced',
+  'obligations.treatment.counted': 'Counted in DSCR',
+  'obligations.treatment.ended': 'Ended',
+  'obligations.treatment.endsInGrace': 'Ends during grace',
+
+  // Validation messages, also returned by the API in English
+  'validation.salaryRequired': 'Salary is required and must be greater than 0',
+  'validation.projectCostRequired': 'Total project cost is required and must be greater than 0',
+  'validation.rateRequired': 'Interest rate is required and must be greater than 0',
+  'validation.repaymentPeriodRequired': 'Repayment period is required and must be greater than 0',
+  'validation.propertyValueNegative': 'Property value cannot be negative',
+  'validation.processingFeeRange': 'Processing fee must be between 0% and 100%',
+  'validation.feesNegative': 'Fees and premiums cannot be negative',
+  'validation.equityRange': 'Equity percentage must be between 0 and 100',
+  'validation.rateTooHigh': 'Interest rate seems unusually high',
+  'validation.repaymentPeriodMax': 'Repayment period cannot exceed 600 months',
+  'validation.graceLongerThanTenure': 'Grace period cannot be longer than repayment period',
+  'validation.graceInsideTenure': 'Grace period must be shorter than the repayment period when counted inside the tenure',
+  'validation.amountBelowMinimum': 'Bank finance of {amount} is below the minimum of {minimum} for this loan type',
+  'validation.amountAboveMaximum': 'Bank finance of {amount} is above the maximum of {maximum} for this loan type',
+  'validation.equityBelowMinimum': 'This loan type needs at least {percentage}% equity',
+  'validation.tenureAboveMaximum': 'This loan type allows at most {months} months',
+  'validation.graceBelowMinimum': 'This loan type needs a grace period of at least {months} months',
+  'validation.graceNotAllowed': 'This loan type does not allow a grace period',
+  'validation.graceAboveMaximum': 'This loan type allows a grace period of at most {months} months',
+  'validation.coApplicantName': 'Co-applicant name is required',
+  'validation.coApplicantNegative': 'Co-applicant income and existing loans cannot be negative',
+  'validation.coApplicantEmpty': 'Co-applicant needs at least one income line or existing loan',
+  'validation.obligationLender': 'Obligation {number}: lender is required',
+  'validation.obligationNegative': 'Obligation {number}: balance and installment cannot be negative',
+  'validation.obligationRate': 'Obligation {number}: rate must be between 0 and 50',
+  'validation.obligationMonths': 'Obligation {number}: remaining months must be a whole number of 0 or more',
+  'validation.obligationInstallment': 'Obligation {number}: enter the installment, or the balance and remaining months to derive it',
+  'validation.obligationRefinanceBalance': 'Obligation {number}: enter the outstanding balance to refinance it into this loan',
+  'validation.ratePeriodsEmpty': 'Add at least one rate period',
+  'validation.ratePeriodsStart': 'Rate periods must start at a whole month of 1 or later',
+  'validation.ratePeriodsDuplicate': 'Two rate periods cannot start in the same month',
+  'validation.ratePeriodsRange': 'Period rates must be between 0% and 50%',
+  'validation.fixedPeriod': 'Fixed period must be a whole number of months',
+  'validation.resetInterval': 'Reset interval must be at least 1 month',
+  'validation.basePlusMarginRange': 'Base rate plus margin must be between 0% and 50%',
+  'validation.prepaymentMonth': 'Prepayment {number}: month must be a whole number of 1 or more',
+  'validation.prepaymentAmount': 'Prepayment {number}: amount must be greater than 0',
+  'validation.prepaymentEndMonth': 'Prepayment {number}: end month cannot be before the start month',
+  'validation.caseNameShort': 'Case name must be at least 2 characters long',
+  'validation.caseNameTaken': 'A case with this name already exists',
+  'validation.caseFormInvalid': 'Fix the highlighted fields before saving this case',
+  'validation.taxTableCurrency': 'Tax tables are in {taxCurrency}. Add an exchange rate between {taxCurrency} and {currency} in the currency settings to assess income tax',
+  'validation.offersTooFew': 'Pick at least {count} offers to compare',
+  'validation.offersTooMany': 'Compare at most {count} offers at a time',
+  'validation.offerName': 'Every offer needs a name',
+  'validation.offerRate': '{name}: interest rate must be between 0% and 50%',
+  'validation.offerTenure': '{name}: tenure must be between 1 and 600 months',
+  'validation.offerGrace': '{name}: tenure must be longer than the grace period when grace is counted inside the tenure',
+
+  // Share links
+  'shareLink.damaged': 'This share link is damaged and could not be opened',
+  'shareLink.newerVersion': 'This share link was created by a newer version of the calculator',
+  'shareLink.unsupported': 'This share link is no longer supported',
+  'shareLink.invalid': 'This share link contains invalid values',
+  'shareLink.failed': 'This share link could not be opened',
+  'shareLink.loanTypeMissing': 'The loan type in this link no longer exists; its rate and tenure were kept',
+  'shareLink.scenarioMissing': 'The scenario in this link is not defined here; the normal scenario is shown',
+
+  // Repayment schedule
+  'schedule.title': 'Repayment Schedule',
+  'schedule.hide': 'Hide',
+  'schedule.show': 'Show',
+  'schedule.totalPayment': 'Total Payment',
+  'schedule.totalInterest': 'Total Interest',
+  'schedule.month': 'Month',
+  'schedule.rate': 'Rate',
+  'schedule.openingBalance': 'Opening Balance',
+  'schedule.payment': 'Payment',
+  'schedule.interest': 'Interest',
+  'schedule.principal': 'Principal',
+  'schedule.prepayment': 'Prepayment',
+  'schedule.closingBalance': 'Closing Balance',
+  'schedule.cumulativeInterest': 'Cumulative Interest',
+  'schedule.graceMonth': '{month} (grace)',
+  'schedule.yearLabel': 'Year {year}',
+  'schedule.previousYear': '← Previous Year',
+  'schedule.nextYear': 'Next Year →',
+  'schedule.pageOf': 'Year {page} of {count}',
+
+  // What you can afford
+  'affordability.title': 'What You Can Afford',
+  'affordability.intro': 'Each figure changes one input while keeping the others as entered, so that DSCR after grace stays at or above {dscr}.',
+  'affordability.scenario': 'Scenario',
+  'affordability.maxBankFinance': 'Max Bank Finance',
+  'affordability.minEquity': 'Min Equity',
+  'affordability.maxRate': 'Max Interest Rate',
+  'affordability.minTenure': 'Min Tenure',
+  'affordability.notAffordable': 'Not affordable',
+  'affordability.months': '{months} months',
+
+  // Prepayment simulator
+  'prepayments.title': 'Prepayment Simulator',
+  'prepayments.addButton': '+ Add Prepayment',
+  'prepayments.intro': 'Add one-off or recurring extra payments to see the interest saved and the new payoff date.',
+  'prepayments.month': 'Month',
+  'prepayments.amount': 'Amount',
+  'prepayments.repeat': 'Repeat',
+  'prepayments.once': 'Once',
+  'prepayments.monthly': 'Every month',
+  'prepayments.yearly': 'Every year',
+  'prepayments.untilMonth': 'Until Month',
+  'prepayments.endPlaceholder': 'End',
+  'prepayments.effect': 'Effect',
+  'prepayments.reduceTenure': 'Reduce tenure',
+  'prepayments.reduceEmi': 'Reduce EMI',
+  'prepayments.interestSaved': 'Interest Saved',
+  'prepayments.totalPrepaid': 'Total Prepaid',
+  'prepayments.newPayoffDate': 'New Payoff Date',
+  'prepayments.monthsSaved': 'Months Saved',
+  'prepayments.without': 'Without Prepayments',
+  'prepayments.with': 'With Prepayments',
+  'prepayments.totalInterest': 'Total Interest',
+  'prepayments.totalPaid': 'Total Paid',
+  'prepayments.installments': 'Installments',
+  'prepayments.finalEmi': 'Final EMI',
+  'prepayments.payoffDate': 'Payoff Date',
+
+  // Loan comparison
+  'comparison.intro': 'Compare {min} to {max} offers for the same applicant and project. Each offer is calculated at its quoted fixed rate and tenure.',
+  'comparison.loanType': 'Loan Type',
+  'comparison.selectLoanType': 'Select a loan type',
+  'comparison.loanTypeOption': '{name} ({rate}%, {months} months)',
+  'comparison.addButton': 'Add',
+  'comparison.customOffer': '+ Custom Offer',
+  'comparison.offer': 'Offer',
+  'comparison.rate': 'Rate (%)',
+  'comparison.tenure': 'Tenure (months)',
+  'comparison.emi': 'EMI',
+  'comparison.totalInterest': 'Total Interest',
+  'comparison.totalCost': 'Total Cost',
+  'comparison.ends': 'Ends',
+  'comparison.scenarioDscr': 'DSCR: {name}',
+  'comparison.breakEven': 'Break-even',
+  'comparison.offerTerms': '{rate}% · {months} months',
+  'comparison.cheapest': ' · Cheapest',
+  'comparison.breakEvenMonth': 'Month {month}',
+  'comparison.never': 'Never',
+  'comparison.breakEvenHint': 'Break-even is the month from which the cheapest offer has cost less in cumulative interest, fees, insurance and charges than the offer in that row.',
+
+  // Applicant case
+  'cases.title': 'Applicant Case',
+  'cases.shareButton': 'Share Link',
+  'cases.historyButton': 'History',
+  'cases.name': 'Case Name',
+  'cases.namePlaceholder': 'e.g., Apartment purchase - Hulhumale',
+  'cases.notes': 'Notes',
+  'cases.notesPlaceholder': 'Anything worth remembering about this quote',
+  'cases.saveButton': 'Save Case',
+  'cases.linkCopied': 'Share link copied to the clipboard',
+  'cases.copyFromAddressBar': 'Copy the share link from the address bar',
+  'cases.saved': 'Saved "{name}" with a snapshot of the current quote.',
+
+  // Rate schedule
+  'rates.type': 'Rate Type',
+  'rates.fixed': 'Fixed for the whole tenure',
+  'rates.periods': 'Floating: custom rate periods',
+  'rates.basePlusMargin': 'Floating: base rate + margin with resets',
+  'rates.periodsHint': 'The interest rate above applies until the first period starts.',
+  'rates.fromMonth': 'From Month',
+  'rates.rate': 'Rate (%)',
+  'rates.addPeriod': '+ Add Period',
+  'rates.fixedPeriodMonths': 'Fixed Period (months)',
+  'rates.resetIntervalMonths': 'Reset Every (months)',
+  'rates.baseRate': 'Base Rate (%)',
+  'rates.margin': 'Margin (%)',
+  'rates.baseRateChangePerReset': 'Base Rate Change per Reset (%)',
+  'rates.fixedPeriodHint': 'The interest rate above applies during the fixed period.',
+
+  // Case history
+  'history.title': 'Case History',
+  'history.intro': 'Saved applicant cases with the figures quoted at the time they were saved. Opening a case loads its inputs into the calculator; the saved quote never changes.',
+  'history.search': 'Search Cases',
+  'history.searchPlaceholder': 'Search by name, notes or loan type',
+  'history.savedCases': 'Saved Cases ({count})',
+  'history.empty': 'No cases saved yet',
+  'history.noMatches': 'No cases match your search',
+  'history.savedOn': 'Saved {date} · {loanType}',
+  'history.bankFinance': 'Bank Finance:',
+  'history.emiAfterGrace': 'EMI after grace:',
+  'history.dscr': 'DSCR:',
+  'history.totalInterest': 'Total Interest:',
+  'history.rateTenure': 'Rate / Tenure:',
+  'history.rateTenureValue': '{rate}% / {months} months',
+  'history.loanEndDate': 'Loan End Date:',
+  'history.policy': 'Policy:',
+  'history.dscrByScenario': 'DSCR by scenario:',
+  'history.openButton': '↗ Open',
+  'history.reportButton': '⎙ Report',
+  'history.duplicateButton': '⧉ Duplicate',
+  'history.confirmDelete': 'Are you sure you want to delete this case?',
+  'history.copyName': '{name} (copy)',
+  'history.copyNameNumbered': '{name} (copy {number})',
+
+  // Assessment report
+  'report.title': 'Loan Assessment Report',
+  'report.printButton': 'Print',
+  'report.downloadButton': 'Download PDF',
+  'report.preparingPdf': 'Preparing PDF...',
+  'report.pdfFailed': 'The PDF could not be generated. Use Print and save as PDF instead.',
+  'report.empty': 'Nothing to report yet. Open the calculator and choose Assessment Report.',
+  'report.reportId': 'Report ID',
+  'report.generated': 'Generated',
+  'report.loanType': 'Loan Type',
+  'report.policy': 'Underwriting Policy',
+  'report.applicantInputs': 'Applicant Inputs',
+  'report.salary': 'Salary',
+  'report.rentIncome': 'Rent Income',
+  'report.otherIncome': 'Other Income',
+  'report.projectIncome': 'Project Income',
+  'report.interestRate': 'Interest Rate',
+  'report.repaymentPeriod': 'Repayment Period',
+  'report.gracePeriod': 'Grace Period',
+  'report.months': '{months} months',
+  'report.graceHandling': 'Grace Handling',
+  'report.coApplicants': 'Co-applicants',
+  'report.name': 'Name',
+  'report.existingLoans': 'Existing Loans',
+  'report.obligations': 'Existing Obligations',
+  'report.lender': 'Lender',
+  'report.outstandingBalance': 'Outstanding Balance',
+  'report.rate': 'Rate',
+  'report.monthsLeft': 'Months Left',
+  'report.installment': 'Installment',
+  'report.treatment': 'Treatment',
+  'report.bankFinanceDetails': 'Bank Finance Details',
+  'report.totalProjectCost': 'Total Project Cost',
+  'report.equity': 'Equity',
+  'report.bankFinanceAmount': 'Bank Finance Amount',
+  'report.refinancedLoans': 'Includes Refinanced Loans',
+  'report.propertyValue': 'Property Value',
+  'report.propertyValueLtv': '{amount} (LTV {ltv}%)',
+  'report.scenarioResults': 'Scenario Results',
+  'report.scenario': 'Scenario',
+  'report.duringGrace': 'During Grace',
+  'report.afterGrace': 'After Grace',
+  'report.totalIncome': 'Total Income',
+  'report.livingExpenses': 'Living Expenses',
+  'report.projectExpenditure': 'Project Expenditure',
+  'report.incomeTax': 'Income Tax',
+  'report.netIncome': 'Net Income',
+  'report.monthlyRepayment': 'Monthly Repayment',
+  'report.emiInGrace': 'EMI in Grace',
+  'report.emiAfterGrace': 'EMI after Grace',
+  'report.verdict': 'Verdict',
+  'report.applicantAfterGrace': 'Applicant (After Grace)',
+  'report.applicant': 'Applicant',
+  'report.income': 'Income',
+  'report.netContribution': 'Net Contribution',
+  'report.share': 'Share',
+  'report.dscr': 'DSCR',
+  'report.worstCase': 'Worst case',
+  'report.totalInterest': 'Total interest',
+  'report.loanEnds': 'Loan ends',
+  'report.dti': 'DTI',
+  'report.foir': 'FOIR',
+  'report.eligibility': 'Eligibility',
+  'report.eligible': 'Eligible',
+  'report.notEligible': 'Not eligible',
+  'report.rules': 'Rules',
+  'report.apr': 'APR',
+  'report.notAvailable': 'n/a',
+  'report.emiWithCharges': 'EMI with charges',
+  'report.upfrontFees': 'Upfront fees',
+  'report.totalCostOfBorrowing': 'Total cost of borrowing',
+  'report.costOfBorrowing': 'Cost of Borrowing',
+  'report.nominalRate': 'Nominal Rate',
+  'report.totalCost': 'Total Cost',
+  'report.applicantContributions': 'Applicant Contributions (After Grace)',
+  'report.scenarioSummary': '{scenario}: income {income}, living expenses {livingExpenses}, project expenditure {projectExpenditure}, income tax {incomeTax}, total interest {totalInterest}, loan ends {endDate}, worst-case DSCR {dscr} ({status}).',
+  'report.taxBrackets': 'Income Tax Brackets',
+  'report.taxBracketsFor': 'Income Tax Brackets: {name}',
+  'report.taxTableEffective': '{name}, effective from {date}',
+  'report.effectiveFrom': 'Effective from {date}',
+  'report.annualIncomeFrom': 'Annual Income From',
+  'report.upTo': 'Up To',
+  'report.andAbove': 'and above',
+  'report.amortizationSummary': 'Amortization Summary',
+  'report.totalPayment': 'Total payment',
+  'report.year': 'Year',
+  'report.yearLabel': 'Year {year}',
+  'report.payment': 'Payment',
+  'report.interest': 'Interest',
+  'report.principal': 'Principal',
+  'report.closingBalance': 'Closing Balance',
+
+  // Eligibility rules in the assessment report
+  'eligibility.line': '{rule} {detail}: {status}',
+  'eligibility.dscr': 'DSCR',
+  'eligibility.dti': 'Debt-to-Income (DTI)',
+  'eligibility.foir': 'Fixed Obligations to Income (FOIR)',
+  'eligibility.ltv': 'Loan-to-Value (LTV)',
+  'eligibility.minimum': '{value} (minimum {limit})',
+  'eligibility.maximum': '{value}% (maximum {limit}%)',
+  'eligibility.notAvailable': 'not available (maximum {limit}%)',
+  'eligibility.passed': 'passed',
+  'eligibility.failed': 'failed',
+  'eligibility.missing': 'missing',
+
+  // Stress test scenarios
+  'scenarios.title': 'Stress Test Scenarios',
+  'scenarios.intro': 'Define named scenarios with their own income multipliers, project income delay, expense growth and rate shock. Each scenario gets its own results card in the calculator.',
+  'scenarios.addSection': 'Add New Scenario',
+  'scenarios.addButton': '+ Add Scenario',
+  'scenarios.builtIn': 'Built-in Scenarios',
+  'scenarios.builtInHint': 'These follow the active underwriting policy and cannot be edited here.',
+  'scenarios.custom': 'Custom Scenarios ({count})',
+  'scenarios.empty': 'No custom scenarios defined',
+  'scenarios.name': 'Scenario Name *',
+  'scenarios.namePlaceholder': 'e.g., Rent drops 30%',
+  'scenarios.description': 'Description',
+  'scenarios.descriptionPlaceholder': 'What this scenario tests',
+  'scenarios.saveButton': '✓ Save Scenario',
+  'scenarios.confirmDelete': 'Are you sure you want to delete this scenario?',
+  'scenarios.errorNameTaken': 'A scenario with this name already exists',
+  'scenarios.salaryMultiplier': 'Salary Multiplier',
+  'scenarios.rentMultiplier': 'Rent Multiplier',
+  'scenarios.otherMultiplier': 'Other Income Multiplier',
+  'scenarios.projectIncomeMultiplier': 'Project Income Multiplier',
+  'scenarios.projectIncomeDelayMonths': 'Project Income Delay (months)',
+  'scenarios.expenditureMultiplier': 'Living Expense Multiplier',
+  'scenarios.stressExpenditureRate': 'Stress Expenditure (% of income)',
+  'scenarios.rateAdjustment': 'Rate Adjustment (percentage points)',
+  'scenarios.hintIncomeDrop': '1 = unchanged, 0.7 = 30% drop',
+  'scenarios.hintUnchanged': '1 = unchanged',
+  'scenarios.hintDelay': 'Months after grace before project income starts',
+  'scenarios.hintExpenditure': '1.1 = living expenses rise 10%',
+  'scenarios.hintStress': 'Extra expenditure added to project expenditure',
+  'scenarios.hintRateShock': '3 = rate shock of +3%',
+  'scenarios.normalName': 'Normal Scenario',
+  'scenarios.normalDescription': 'All income and rates as entered',
+  'scenarios.incomeReducedName': 'Income Reduced by {reduction}%',
+  'scenarios.incomeReducedDescription': 'All income reduced by {reduction}% with {stress}% stress expenditure',
+  'scenarios.errorNameShort': 'Scenario name must be at least 2 characters long',
+  'scenarios.errorMultipliers': 'Multipliers must be between 0 and 10',
+  'scenarios.errorDelay': 'Project income delay must be a whole number of months',
+  'scenarios.errorStress': 'Stress expenditure rate must be between 0% and 100%',
+  'scenarios.errorRateAdjustment': 'Rate adjustment must be between -50 and +50 percentage points',
+
+  // Underwriting policies
+  'policies.title': 'Underwriting Policies',
+  'policies.intro': 'Define the expense rates, stress factors and DSCR thresholds applied by the calculator. Every saved change creates a new policy version; earlier versions stay in its history.',
+  'policies.addSection': 'Add New Policy',
+  'policies.addButton': '+ Add Policy',
+  'policies.existing': 'Existing Policies ({count})',
+  'policies.name': 'Policy Name *',
+  'policies.namePlaceholder': 'e.g., Home Loans Q3',
+  'policies.saveButton': '✓ Save Policy',
+  'policies.versionHistory': 'Version History ({count})',
+  'policies.lastUpdated': 'Last Updated:',
+  'policies.confirmDelete': 'Are you sure you want to delete this policy?',
+  'policies.errorNameTaken': 'A policy with this name already exists',
+  'policies.errorLastPolicy': 'Cannot delete the last policy',
+  'policies.livingExpenseThreshold': 'Living Expense Income Threshold',
+  'policies.livingExpenseRateAboveThreshold': 'Living Expense Rate Above Threshold (%)',
+  'policies.livingExpenseRateAtOrBelowThreshold': 'Living Expense Rate At/Below Threshold (%)',
+  'policies.maintenanceCostRate': 'Maintenance Cost Rate (%)',
+  'policies.incomeReduceMultiplier': 'Income Reduce Multiplier',
+  'policies.stressExpenditureRate': 'Stress Expenditure Rate (%)',
+  'policies.dscrExcellentThreshold': 'DSCR "Excellent" Threshold',
+  'policies.dscrGoodThreshold': 'DSCR "Good" Threshold',
+  'policies.livingExpenseThresholdHint': 'Monthly income above which the lower living expense rate applies',
+  'policies.livingExpenseRateHint': 'Share of income treated as living expenses',
+  'policies.maintenanceCostRateHint': 'Applied to rent and project income',
+  'policies.incomeReduceMultiplierHint': 'Income multiplier for the income-reduced scenario (0.8 = 20% reduction)',
+  'policies.stressExpenditureRateHint': 'Extra expenditure added in the income-reduced scenario',
+  'policies.dscrExcellentThresholdHint': 'Minimum DSCR rated Excellent',
+  'policies.dscrGoodThresholdHint': 'Minimum DSCR rated Good',
+  'policies.errorNameShort': 'Policy name must be at least 2 characters long',
+  'policies.errorThreshold': 'Living expense threshold cannot be negative',
+  'policies.errorLivingExpenseRates': 'Living expense rates must be between 0% and 100%',
+  'policies.errorMaintenanceRate': 'Maintenance cost rate must be between 0% and 100%',
+  'policies.errorIncomeReduce': 'Income reduce multiplier must be between 0 and 1',
+  'policies.errorStressRate': 'Stress expenditure rate must be between 0% and 100%',
+  'policies.errorDscrThresholds': 'DSCR thresholds must be positive and "Excellent" must not be below "Good"',
+
+  // Currencies
+  'currencies.title': 'Currencies',
+  'currencies.intro': 'Set how amounts are shown. Loan types can choose their own currency; the default applies to the rest. With a secondary currency and an exchange rate, key figures also show the equivalent amount.',
+  'currencies.saved': 'Currency settings saved',
+  'currencies.confirmReset': 'Restore the default currency settings?',
+  'currencies.list': 'Currencies ({count})',
+  'currencies.addButton': '+ Add Currency',
+  'currencies.code': 'ISO Code *',
+  'currencies.codePlaceholder': 'e.g., MVR',
+  'currencies.locale': 'Locale *',
+  'currencies.localePlaceholder': 'e.g., en-MV',
+  'currencies.decimalPlaces': 'Decimal Places',
+  'currencies.defaultCurrency': 'Default Currency',
+  'currencies.secondaryCurrency': 'Show Equivalents In',
+  'currencies.none': 'None',
+  'currencies.fxRates': 'Exchange Rates ({count})',
+  'currencies.addRateButton': '+ Add Rate',
+  'currencies.fxRatesHint': 'One unit of the first currency buys this many of the second; the reverse rate is worked out automatically.',
+  'currencies.noRates': 'No exchange rates defined',
+  'currencies.oneUnitOf': '1 unit of',
+  'currencies.equals': 'Equals',
+  'currencies.unitsOf': 'Units of',
+  'currencies.saveButton': '✓ Save Settings',
+  'currencies.resetButton': '↺ Restore Defaults',
+  'currencies.errorNoCurrencies': 'At least one currency is required',
+  'currencies.errorFormat': '{code} needs a three-letter ISO code and a valid locale such as en-US',
+  'currencies.errorFormatUnnamed': 'A currency needs a three-letter ISO code and a valid locale such as en-US',
+  'currencies.errorDecimalPlaces': 'Decimal places for {code} must be a whole number from 0 to {max}',
+  'currencies.errorDuplicate': 'Each currency can only be listed once',
+  'currencies.errorDefaultUnlisted': 'The default currency must be one of the listed currencies',
+  'currencies.errorSecondaryUnlisted': 'The secondary currency must be one of the listed currencies',
+  'currencies.errorSecondarySame': 'The secondary currency must differ from the default currency',
+  'currencies.errorRateCurrencies': 'Exchange rates must convert between two different listed currencies',
+  'currencies.errorRatePositive': 'The {from} to {to} rate must be greater than 0',
+  'currencies.errorRateDuplicate': 'There is more than one rate between {from} and {to}',
+
+  // Income tax tables
+  'taxTables.title': 'Income Tax Tables',
+  'taxTables.intro': 'Maintain progressive tax schedules. The calculator applies the table effective on the calculation date.',
+  'taxTables.apiToken': 'API Token',
+  'taxTables.apiTokenHint': 'Saving changes to the server tax tables needs the token set as LOAN_TYPES_API_TOKEN on the server. It is kept for this browser session only.',
+  'taxTables.addSection': 'Add New Tax Table',
+  'taxTables.addButton': '+ Add Tax Table',
+  'taxTables.existing': 'Existing Tax Tables ({count})',
+  'taxTables.inForce': 'In force',
+  'taxTables.effectiveFrom': 'Effective from {date}',
+  'taxTables.name': 'Table Name *',
+  'taxTables.namePlaceholder': 'e.g., Income Tax 2026',
+  'taxTables.effectiveFromLabel': 'Effective From *',
+  'taxTables.brackets': 'Annual Income Brackets ({code}) *',
+  'taxTables.from': 'From',
+  'taxTables.to': 'To (blank = no limit)',
+  'taxTables.rate': 'Rate (%)',
+  'taxTables.addBracket': '+ Add Bracket',
+  'taxTables.removeBracket': 'Remove bracket',
+  'taxTables.saveButton': '✓ Save Tax Table',
+  'taxTables.confirmDelete': 'Are you sure you want to delete this tax table?',
+  'taxTables.errorLastTable': 'Cannot delete the last tax table',
+  'taxTables.errorSaveFailed': 'Tax tables could not be saved',
+  'taxTables.bracketUpTo': 'Up to {max}',
+  'taxTables.bracketAbove': 'Above {min}',
+  'taxTables.bracketRange': '{min} - {max}',
+  'taxTables.errorNoTables': 'At least one tax table is required',
+  'taxTables.errorInvalidTable': 'Tax table {number} is invalid',
+  'taxTables.errorDuplicateIds': 'Tax table IDs must be unique',
+  'taxTables.errorDuplicateDates': 'Only one tax table can take effect on {date}',
+  'taxTables.errorNoBrackets': 'A tax table needs at least one bracket',
+  'taxTables.errorFirstBracket': 'The first bracket must start at 0',
+  'taxTables.errorBracketRate': 'Bracket {number}: rate must be between 0% and 100%',
+  'taxTables.errorLastBracketBounded': 'The last bracket must be unbounded',
+  'taxTables.errorBracketUnbounded': 'Bracket {number}: only the last bracket can be unbounded',
+  'taxTables.errorBracketLimits': 'Bracket {number}: upper limit must be greater than lower limit',
+  'taxTables.errorBracketGap': 'Bracket {number}: gap after {amount}',
+  'taxTables.errorBracketOverlap': 'Bracket {number}: overlaps the previous bracket',
+  'taxTables.errorNameShort': 'Tax table name must be at least 2 characters long',
+  'taxTables.errorDate': 'Effective date must be a valid date',
+  'taxTables.errorDateTaken': 'Another tax table is already effective from this date'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
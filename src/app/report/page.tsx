@@ -0,0 +1,5 @@
+import LoanAssessmentReport from '../components/LoanAssessmentReport';
+
+export default function ReportPage() {
+  return <LoanAssessmentReport />;
+}
@@ -0,0 +1,164 @@
+// src/app/services/apiRequestService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { ApiRequestService } from './apiRequestService';
+import { EMICalculationService } from './calculationService';
+import { LoanService } from './loanService';
+import { PolicyService } from './policyService';
+import { RateScheduleService } from './rateScheduleService';
+import { ScenarioService } from './scenarioService';
+import { TaxTableService } from './taxTableService';
+
+const INPUTS = {
+  salary: 60000,
+  totalProjectCost: 2000000,
+  equityPercentage: 30,
+  rate: 10,
+  repaymentPeriod: 20,
+  gracePeriod: 12
+};
+
+const parse = (body: unknown) => ApiRequestService.parseCalculationRequest(body);
+
+describe('ApiRequestService.parseCalculationRequest', () => {
+  describe('invalid input', () => {
+    it.each([null, 'salary=60000', [INPUTS]])('rejects a body of %j', body => {
+      const result = parse(body);
+      expect(result.status).toBe(400);
+      expect(result.error?.code).toBe('invalid_request');
+    });
+
+    it('requires inputs', () => {
+      const result = parse({ graceMode: 'capitalized' });
+      expect(result.status).toBe(400);
+      expect(result.error?.fields).toEqual({ inputs: 'inputs is required' });
+    });
+
+    it('reports each malformed field', () => {
+      const result = parse({
+        inputs: { ...INPUTS, salary: 'sixty thousand', rate: true },
+        graceMode: 'deferred',
+        scenarioIds: ['no-such-scenario'],
+        calculationDate: 'yesterday',
+        loanTypeId: 'no-such-loan-type'
+      });
+
+      expect(result.status).toBe(400);
+      expect(Object.keys(result.error?.fields ?? {}).sort()).toEqual([
+        'calculationDate',
+        'graceMode',
+        'inputs.rate',
+        'inputs.salary',
+        'loanTypeId',
+        'scenarioIds'
+      ]);
+    });
+
+    it('applies the calculator validation rules', () => {
+      const result = parse({ inputs: { ...INPUTS, salary: 0 } });
+      expect(result.status).toBe(422);
+      expect(result.error?.code).toBe('validation_failed');
+      expect(result.error?.fields).toHaveProperty('salary');
+    });
+  });
+
+  describe('defaults', () => {
+    it('fills in everything the request leaves out', () => {
+      const result = parse({ inputs: INPUTS });
+      expect(result.status).toBe(200);
+
+      const calculation = result.calculation!;
+      expect(calculation.graceMode).toBe('added_to_tenure');
+      expect(calculation.scenarios).toEqual(ScenarioService.getBuiltInScenarios(PolicyService.getDefaultPolicy()));
+      expect(calculation.rateSchedule).toEqual(RateScheduleService.getDefaultRateSchedule());
+      expect(calculation.prepayments).toEqual([]);
+      expect(calculation.formData.coApplicants).toEqual([]);
+      expect(calculation.formData.obligationLedger?.obligations).toEqual([]);
+      expect(calculation.formData.rent).toBe('');
+      expect(calculation.loanType).toBeNull();
+      expect(calculation.productRules).toBeUndefined();
+    });
+
+    it('accepts numeric strings and looks up the named loan type', () => {
+      const loanType = LoanService.getDefaultLoanTypes()[0];
+      const result = parse({ inputs: { ...INPUTS, salary: ' 60000 ' }, loanTypeId: loanType.id });
+      expect(result.status).toBe(200);
+      expect(result.calculation?.formData.salary).toBe('60000');
+      expect(result.calculation?.loanType).toEqual(loanType);
+    });
+
+    it('restates the tax tables in the currency of the named loan type', () => {
+      const dollarLoan = { ...LoanService.getDefaultLoanTypes()[0], id: 'dollar-loan', currency: 'USD' };
+      const euroLoan = { ...dollarLoan, id: 'euro-loan', currency: 'EUR' };
+      const loanTypes = [dollarLoan, euroLoan];
+
+      const rufiyaa = parse({ inputs: INPUTS });
+      const dollars = ApiRequestService.parseCalculationRequest({ inputs: INPUTS, loanTypeId: 'dollar-loan' }, loanTypes);
+      const euros = ApiRequestService.parseCalculationRequest({ inputs: INPUTS, loanTypeId: 'euro-loan' }, loanTypes);
+
+      expect(rufiyaa.calculation?.taxTables).toEqual(TaxTableService.getDefaultTaxTables());
+      expect(dollars.calculation?.taxTables[0].brackets[0].max).toBeCloseTo(720000 / 15.42, 6);
+      // As in the calculator, a currency missing from the settings falls back to the default
+      expect(euros.calculation?.taxTables).toEqual(TaxTableService.getDefaultTaxTables());
+    });
+
+    it('moves a legacy existingLoans figure into the obligations ledger', () => {
+      const result = parse({ inputs: { ...INPUTS, existingLoans: 4000 } });
+      expect(result.status).toBe(200);
+      expect(result.calculation?.formData).not.toHaveProperty('existingLoans');
+      expect(result.calculation?.formData.obligationLedger?.obligations).toEqual([
+        expect.objectContaining({ monthlyInstallment: 4000, settledByNewLoan: false })
+      ]);
+    });
+  });
+
+  describe('ids', () => {
+    const coApplicant = { salary: 20000, rent: 0, other: 0, existingLoans: 0 };
+    const obligation = { lender: 'Bank', outstandingBalance: 100000, rate: 8, remainingMonths: 24, monthlyInstallment: 4500 };
+
+    it('numbers co-applicants and obligations that have no id', () => {
+      const result = parse({
+        inputs: {
+          ...INPUTS,
+          coApplicants: [coApplicant, { ...coApplicant, id: 'spouse' }],
+          obligationLedger: { obligations: [obligation, obligation] }
+        }
+      });
+
+      expect(result.status).toBe(200);
+      expect(result.calculation?.formData.coApplicants?.map(applicant => applicant.id)).toEqual(['co-applicant-1', 'spouse']);
+      expect(result.calculation?.formData.obligationLedger?.obligations.map(entry => entry.id))
+        .toEqual(['obligation-1', 'obligation-2']);
+    });
+
+    it('rejects a co-applicant using the primary applicant id', () => {
+      const result = parse({
+        inputs: { ...INPUTS, coApplicants: [{ ...coApplicant, id: EMICalculationService.PRIMARY_APPLICANT_ID }] }
+      });
+      expect(result.status).toBe(400);
+      expect(result.error?.fields).toHaveProperty(['inputs.coApplicants.0.id']);
+    });
+
+    it('rejects duplicate and empty co-applicant ids', () => {
+      const result = parse({
+        inputs: {
+          ...INPUTS,
+          coApplicants: [{ ...coApplicant, id: 'spouse' }, { ...coApplicant, id: ' spouse ' }, { ...coApplicant, id: '' }]
+        }
+      });
+      expect(result.status).toBe(400);
+      expect(Object.keys(result.error?.fields ?? {})).toEqual(['inputs.coApplicants.1.id', 'inputs.coApplicants.2.id']);
+    });
+
+    it('rejects duplicate obligation ids', () => {
+      const result = parse({
+        inputs: {
+          ...INPUTS,
+          obligationLedger: { obligations: [{ ...obligation, id: 'car' }, { ...obligation, id: 'car' }] }
+        }
+      });
+      expect(result.status).toBe(400);
+      expect(result.error?.fields).toHaveProperty(['inputs.obligationLedger.obligations.1.id']);
+    });
+  });
+});
@@ -0,0 +1,448 @@
+// src/app/services/apiRequestService.ts
+
+import {
+  CoApplicantStrings,
+  FormField,
+  LegacyFormDataStrings,
+  GraceMode,
+  LoanType,
+  ObligationLedger,
+  Prepayment,
+  PrepaymentFrequency,
+  PrepaymentStrategy,
+  RateSchedule,
+  RateScheduleMode,
+  Scenario,
+  TaxTable
+} from '../types/emi';
+import { CalculationInputs, ValidationService } from './validationService';
+import { RateScheduleService } from './rateScheduleService';
+import { ScenarioService } from './scenarioService';
+import { PolicyService } from './policyService';
+import { ObligationService } from './obligationService';
+import { EMICalculationService } from './calculationService';
+import { LoanService } from './loanService';
+import { CurrencyService } from './currencyService';
+import { TaxTableService } from './taxTableService';
+import { getServerStorageAdapter } from './serverStorageAdapters';
+
+export interface ApiError {
+  code: 'invalid_json' | 'invalid_request' | 'validation_failed' | 'storage_failed' | 'unauthorized' | 'forbidden';
+  message: string;
+  fields?: Record<string, string>;
+}
+
+export interface CalculationRequest extends CalculationInputs {
+  loanType: LoanType | null; // the catalog entry named by loanTypeId, if any
+  scenarios: Scenario[];
+  calculationDate: Date;
+  taxTables: TaxTable[]; // the server's tables, restated in the loan type's currency
+}
+
+export type CalculationRequestResult =
+  | { calculation: CalculationRequest; error: null; status: 200 }
+  | { calculation: null; error: ApiError; status: 400 | 422 };
+
+const FORM_FIELDS: (FormField)[] = [
+  'salary',
+  'rent',
+  'other',
+  'projectIncome',
+  'totalProjectCost',
+  'equityPercentage',
+  'rate',
+  'repaymentPeriod',
+  'gracePeriod',
+  'propertyValue',
+  'processingFeeRate',
+  'stampDuty',
+  'propertyInsurance',
+  'lifeInsurance',
+  'serviceCharges'
+];
+
+// Accepted from clients written before the obligations ledger; moved into the ledger
+const LEGACY_FORM_FIELDS = ['existingLoans'] as const;
+
+const CO_APPLICANT_FIELDS = ['salary', 'rent', 'other', 'existingLoans'] as const;
+
+const OBLIGATION_FIELDS = ['outstandingBalance', 'rate', 'remainingMonths', 'monthlyInstallment'] as const;
+
+const GRACE_MODES: GraceMode[] = ['added_to_tenure', 'inside_tenure', 'capitalized'];
+const RATE_SCHEDULE_MODES: RateScheduleMode[] = ['fixed', 'periods', 'base_plus_margin'];
+const PREPAYMENT_FREQUENCIES: PrepaymentFrequency[] = ['once', 'monthly', 'yearly'];
+const PREPAYMENT_STRATEGIES: PrepaymentStrategy[] = ['reduce_tenure', 'reduce_emi'];
+
+export class ApiRequestService {
+  /**
+   * Read and validate a calculation request body with the calculator's own rules.
+   * Calculations use the standard underwriting policy, since saved policies live in the browser,
+   * and the server's tax tables; a loanTypeId is looked up in the server's loan type catalog
+   * for its product rules.
+   */
+  static async readCalculationRequest(request: Request): Promise<CalculationRequestResult> {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return {
+        calculation: null,
+        error: { code: 'invalid_json', message: 'Request body must be valid JSON' },
+        status: 400
+      };
+    }
+
+    const namesLoanType = typeof body === 'object' && body !== null && 'loanTypeId' in body;
+    const loanTypes = namesLoanType
+      ? await LoanService.loadLoanTypes(getServerStorageAdapter())
+      : LoanService.getDefaultLoanTypes();
+    const taxTables = await TaxTableService.loadTaxTables(getServerStorageAdapter());
+    return this.parseCalculationRequest(body, loanTypes, taxTables);
+  }
+
+  /**
+   * Check the shape of a request body, then apply the calculator validation rules,
+   * including the product rules of the loan type it names
+   */
+  static parseCalculationRequest(
+    body: unknown,
+    loanTypes: LoanType[] = LoanService.getDefaultLoanTypes(),
+    taxTables: TaxTable[] = TaxTableService.getDefaultTaxTables()
+  ): CalculationRequestResult {
+    const fields: Record<string, string> = {};
+    const invalid = (message: string): CalculationRequestResult => ({
+      calculation: null,
+      error: { code: 'invalid_request', message, fields },
+      status: 400
+    });
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return invalid('Request body must be a JSON object');
+    }
+    const candidate = body as Record<string, unknown>;
+
+    // Inputs accept numbers or numeric strings, as typed into the calculator form
+    if (typeof candidate.inputs !== 'object' || candidate.inputs === null) {
+      fields.inputs = 'inputs is required';
+      return invalid('Request body is missing inputs');
+    }
+    const inputs = candidate.inputs as Record<string, unknown>;
+    const formData = {} as LegacyFormDataStrings;
+    for (const field of [...FORM_FIELDS, ...LEGACY_FORM_FIELDS]) {
+      const value = inputs[field];
+      if (value === undefined || value === null || value === '') {
+        formData[field] = '';
+      } else if (typeof value === 'number' && Number.isFinite(value)) {
+        formData[field] = value.toString();
+      } else if (typeof value === 'string' && Number.isFinite(Number(value))) {
+        formData[field] = value.trim();
+      } else {
+        fields[`inputs.${field}`] = `${field} must be a number`;
+      }
+    }
+    formData.coApplicants = this.parseCoApplicants(inputs.coApplicants, fields);
+    formData.obligationLedger = this.parseObligationLedger(inputs.obligationLedger, fields);
+
+    const graceMode = candidate.graceMode ?? 'added_to_tenure';
+    if (!GRACE_MODES.includes(graceMode as GraceMode)) {
+      fields.graceMode = `graceMode must be one of ${GRACE_MODES.join(', ')}`;
+    }
+
+    const rateSchedule = this.parseRateSchedule(candidate.rateSchedule, fields);
+    const prepayments = this.parsePrepayments(candidate.prepayments, fields);
+    const scenarios = this.parseScenarios(candidate.scenarioIds, fields);
+    const loanType = this.parseLoanType(candidate.loanTypeId, loanTypes, fields);
+    const convertedTaxTables = this.convertTaxTables(taxTables, loanType, fields);
+
+    let calculationDate = new Date();
+    if (candidate.calculationDate !== undefined) {
+      const parsedDate = typeof candidate.calculationDate === 'string' ? new Date(candidate.calculationDate) : null;
+      if (!parsedDate || isNaN(parsedDate.getTime())) {
+        fields.calculationDate = 'calculationDate must be an ISO date such as 2025-01-31';
+      } else {
+        calculationDate = parsedDate;
+      }
+    }
+
+    if (Object.keys(fields).length > 0) {
+      return invalid('Request body has invalid fields');
+    }
+
+    const calculation: CalculationRequest = {
+      formData: ObligationService.migrateExistingLoans(formData),
+      graceMode: graceMode as GraceMode,
+      rateSchedule,
+      prepayments,
+      productRules: loanType?.productRules,
+      loanType,
+      scenarios,
+      calculationDate,
+      taxTables: convertedTaxTables || []
+    };
+
+    const validationErrors = ValidationService.validateCalculationInputs(calculation);
+    if (Object.keys(validationErrors).length > 0) {
+      return {
+        calculation: null,
+        error: { code: 'validation_failed', message: 'Inputs failed validation', fields: validationErrors },
+        status: 422
+      };
+    }
+
+    return { calculation, error: null, status: 200 };
+  }
+
+  private static parseCoApplicants(value: unknown, fields: Record<string, string>): CoApplicantStrings[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      fields['inputs.coApplicants'] = 'coApplicants must be a list';
+      return [];
+    }
+
+    const coApplicants: CoApplicantStrings[] = [];
+    const usedIds = new Set([EMICalculationService.PRIMARY_APPLICANT_ID]);
+    value.forEach((item, index) => {
+      const candidate = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+      const amounts = CO_APPLICANT_FIELDS.map(field => candidate[field] ?? 0);
+      const id = this.parseId(candidate.id, `co-applicant-${index + 1}`, usedIds);
+      if (id.value === null) {
+        fields[`inputs.coApplicants.${index}.id`] = id.error;
+        return;
+      }
+
+      if (
+        (candidate.name !== undefined && typeof candidate.name !== 'string') ||
+        !amounts.every(amount => typeof amount === 'number' && Number.isFinite(amount))
+      ) {
+        fields[`inputs.coApplicants.${index}`] =
+          `Co-applicants need a name and numeric ${CO_APPLICANT_FIELDS.join(', ')}`;
+        return;
+      }
+
+      const [salary, rent, other, existingLoans] = amounts.map(String);
+      coApplicants.push({
+        id: id.value,
+        name: typeof candidate.name === 'string' ? candidate.name.trim() : `Co-applicant ${index + 1}`,
+        salary,
+        rent,
+        other,
+        existingLoans
+      });
+    });
+
+    return coApplicants;
+  }
+
+  private static parseObligationLedger(value: unknown, fields: Record<string, string>): ObligationLedger {
+    const ledger = ObligationService.createLedger();
+    if (value === undefined || value === null) {
+      return ledger;
+    }
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      fields['inputs.obligationLedger'] = 'obligationLedger must be an object';
+      return ledger;
+    }
+
+    const candidate = value as Record<string, unknown>;
+    if (candidate.excludeEndingInGrace !== undefined) {
+      if (typeof candidate.excludeEndingInGrace === 'boolean') {
+        ledger.excludeEndingInGrace = candidate.excludeEndingInGrace;
+      } else {
+        fields['inputs.obligationLedger.excludeEndingInGrace'] = 'excludeEndingInGrace must be true or false';
+      }
+    }
+
+    if (candidate.obligations === undefined || candidate.obligations === null) {
+      return ledger;
+    }
+    if (!Array.isArray(candidate.obligations)) {
+      fields['inputs.obligationLedger.obligations'] = 'obligations must be a list';
+      return ledger;
+    }
+
+    const usedIds = new Set<string>();
+    candidate.obligations.forEach((item, index) => {
+      const obligation = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+      const amounts = OBLIGATION_FIELDS.map(field => obligation[field] ?? 0);
+      const id = this.parseId(obligation.id, `obligation-${index + 1}`, usedIds);
+      if (id.value === null) {
+        fields[`inputs.obligationLedger.obligations.${index}.id`] = id.error;
+        return;
+      }
+
+      if (
+        typeof obligation.lender !== 'string' ||
+        !amounts.every(amount => typeof amount === 'number' && Number.isFinite(amount)) ||
+        (obligation.settledByNewLoan !== undefined && typeof obligation.settledByNewLoan !== 'boolean')
+      ) {
+        fields[`inputs.obligationLedger.obligations.${index}`] =
+          `Obligations need a lender, numeric ${OBLIGATION_FIELDS.join(', ')} and a boolean settledByNewLoan`;
+        return;
+      }
+
+      const [outstandingBalance, rate, remainingMonths, monthlyInstallment] = amounts as number[];
+      ledger.obligations.push({
+        id: id.value,
+        lender: obligation.lender,
+        outstandingBalance,
+        rate,
+        remainingMonths,
+        monthlyInstallment,
+        settledByNewLoan: obligation.settledByNewLoan === true
+      });
+    });
+
+    return ledger;
+  }
+
+  // Ids are optional, but a supplied one must be a non-empty string used once;
+  // usedIds also holds reserved ids, such as the primary applicant's
+  private static parseId(
+    value: unknown,
+    fallback: string,
+    usedIds: Set<string>
+  ): { value: string; error: null } | { value: null; error: string } {
+    if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+      return { value: null, error: 'id must be a non-empty string' };
+    }
+
+    const id = typeof value === 'string' ? value.trim() : fallback;
+    if (usedIds.has(id)) {
+      return { value: null, error: `id ${id} is reserved or already used` };
+    }
+    usedIds.add(id);
+    return { value: id, error: null };
+  }
+
+  private static parseRateSchedule(value: unknown, fields: Record<string, string>): RateSchedule {
+    const schedule = RateScheduleService.getDefaultRateSchedule();
+    if (value === undefined || value === null) {
+      return schedule;
+    }
+    if (typeof value !== 'object') {
+      fields.rateSchedule = 'rateSchedule must be an object';
+      return schedule;
+    }
+
+    const candidate = value as Record<string, unknown>;
+    if (candidate.mode !== undefined) {
+      if (RATE_SCHEDULE_MODES.includes(candidate.mode as RateScheduleMode)) {
+        schedule.mode = candidate.mode as RateScheduleMode;
+      } else {
+        fields['rateSchedule.mode'] = `mode must be one of ${RATE_SCHEDULE_MODES.join(', ')}`;
+      }
+    }
+
+    const numericFields = ['fixedPeriodMonths', 'baseRate', 'margin', 'resetIntervalMonths', 'baseRateChangePerReset'] as const;
+    for (const field of numericFields) {
+      if (candidate[field] === undefined) continue;
+      if (typeof candidate[field] === 'number' && Number.isFinite(candidate[field])) {
+        schedule[field] = candidate[field] as number;
+      } else {
+        fields[`rateSchedule.${field}`] = `${field} must be a number`;
+      }
+    }
+
+    if (candidate.periods !== undefined) {
+      const periods = candidate.periods;
+      if (
+        Array.isArray(periods) &&
+        periods.every(period =>
+          typeof period === 'object' && period !== null &&
+          typeof period.startMonth === 'number' && typeof period.rate === 'number'
+        )
+      ) {
+        schedule.periods = periods.map(period => ({ startMonth: period.startMonth, rate: period.rate }));
+      } else {
+        fields['rateSchedule.periods'] = 'periods must be a list of { startMonth, rate }';
+      }
+    }
+
+    return schedule;
+  }
+
+  private static parsePrepayments(value: unknown, fields: Record<string, string>): Prepayment[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (!Array.isArray(value)) {
+      fields.prepayments = 'prepayments must be a list';
+      return [];
+    }
+
+    const prepayments: Prepayment[] = [];
+    value.forEach((item, index) => {
+      const candidate = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+      const frequency = candidate.frequency ?? 'once';
+      const strategy = candidate.strategy ?? 'reduce_tenure';
+
+      if (
+        typeof candidate.month !== 'number' ||
+        typeof candidate.amount !== 'number' ||
+        !PREPAYMENT_FREQUENCIES.includes(frequency as PrepaymentFrequency) ||
+        !PREPAYMENT_STRATEGIES.includes(strategy as PrepaymentStrategy) ||
+        (candidate.endMonth !== undefined && typeof candidate.endMonth !== 'number')
+      ) {
+        fields[`prepayments.${index}`] =
+          `Prepayments need numeric month and amount, frequency of ${PREPAYMENT_FREQUENCIES.join('/')} and strategy of ${PREPAYMENT_STRATEGIES.join('/')}`;
+        return;
+      }
+
+      prepayments.push({
+        id: typeof candidate.id === 'string' ? candidate.id : `prepayment-${index + 1}`,
+        month: candidate.month,
+        amount: candidate.amount,
+        frequency: frequency as PrepaymentFrequency,
+        endMonth: candidate.endMonth as number | undefined,
+        strategy: strategy as PrepaymentStrategy
+      });
+    });
+
+    return prepayments;
+  }
+
+  private static parseLoanType(value: unknown, loanTypes: LoanType[], fields: Record<string, string>): LoanType | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    const loanType = loanTypes.find(candidate => candidate.id === value);
+    if (!loanType) {
+      fields.loanTypeId = `loanTypeId must be one of ${loanTypes.map(candidate => candidate.id).join(', ')}`;
+      return null;
+    }
+    return loanType;
+  }
+
+  // Tax thresholds are rufiyaa amounts; the server converts them with the standard exchange rates
+  private static convertTaxTables(
+    taxTables: TaxTable[],
+    loanType: LoanType | null,
+    fields: Record<string, string>
+  ): TaxTable[] | null {
+    const settings = CurrencyService.getDefaultSettings();
+    const currencyCode = CurrencyService.getLoanTypeCurrency(settings, loanType || undefined).code;
+    const converted = TaxTableService.convertTaxTables(taxTables, currencyCode, settings.fxRates);
+    if (!converted) {
+      fields.loanTypeId = `Tax tables are in ${TaxTableService.CURRENCY} and there is no exchange rate for ${currencyCode}`;
+    }
+    return converted;
+  }
+
+  private static parseScenarios(value: unknown, fields: Record<string, string>): Scenario[] {
+    const builtInScenarios = ScenarioService.getBuiltInScenarios(PolicyService.getDefaultPolicy());
+    if (value === undefined || value === null) {
+      return builtInScenarios;
+    }
+
+    const knownIds = builtInScenarios.map(scenario => scenario.id);
+    if (!Array.isArray(value) || value.length === 0 || !value.every(id => knownIds.includes(id))) {
+      fields.scenarioIds = `scenarioIds must be a non-empty list of ${knownIds.join(', ')}`;
+      return builtInScenarios;
+    }
+
+    return builtInScenarios.filter(scenario => value.includes(scenario.id));
+  }
+}
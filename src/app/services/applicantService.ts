@@ -0,0 +1,19 @@
+// src/app/services/applicantService.ts
+
+import { CoApplicantStrings } from '../types/emi';
+
+export class ApplicantService {
+  /**
+   * Create a co-applicant with blank income lines
+   */
+  static createCoApplicant(name: string): CoApplicantStrings {
+    return {
+      id: 'co-applicant-' + Date.now(),
+      name,
+      salary: '',
+      rent: '',
+      other: '',
+      existingLoans: ''
+    };
+  }
+}
@@ -0,0 +1,143 @@
+// src/app/services/calculationService.fixtures.ts
+// Golden values for the calculation engine tests. Each figure was worked out
+// independently of EMICalculationService with exact decimal arithmetic and
+// rounded to the cent (DSCR to four places).
+
+import { FormDataStrings, GraceMode } from '../types/emi';
+
+export interface EmiFixture {
+  principal: number;
+  rate: number;
+  tenure: number;
+  emi: number;
+}
+
+export interface IncomeTaxFixture {
+  annualIncome: number;
+  monthlyTax: number;
+}
+
+export interface AssessmentFixture {
+  scenarioId: string;
+  graceMode: GraceMode;
+  totalIncome: number;
+  totalExpenditure: number;
+  totalProjectExpenditure: number;
+  incomeTax: number;
+  netIncome: number;
+  afterGraceRepayment: number;
+  gracePeriodRepayment: number;
+  totalMonths: number;
+  dscr: number;
+}
+
+export const EMI_FIXTURES: EmiFixture[] = [
+  { principal: 100000, rate: 10, tenure: 12, emi: 8791.59 },
+  { principal: 1000000, rate: 10, tenure: 240, emi: 9650.22 },
+  { principal: 1000000, rate: 12, tenure: 120, emi: 14347.09 },
+  { principal: 500000, rate: 8.5, tenure: 60, emi: 10258.27 },
+  { principal: 2500000, rate: 7, tenure: 180, emi: 22470.71 },
+  { principal: 120000, rate: 0, tenure: 24, emi: 5000 }
+];
+
+// Default progressive table: 0% to 720,000, 5.5% to 1,200,000, 8% to 1,800,000,
+// 12% to 2,400,000 and 15% above, on annual income; the service returns monthly tax
+export const INCOME_TAX_FIXTURES: IncomeTaxFixture[] = [
+  { annualIncome: 0, monthlyTax: 0 },
+  { annualIncome: 720000, monthlyTax: 0 },
+  { annualIncome: 720012, monthlyTax: 0.055 },
+  { annualIncome: 1200000, monthlyTax: 2200 },
+  { annualIncome: 1200012, monthlyTax: 2200.08 },
+  { annualIncome: 1800000, monthlyTax: 6200 },
+  { annualIncome: 1800012, monthlyTax: 6200.12 },
+  { annualIncome: 2400000, monthlyTax: 12200 },
+  { annualIncome: 2400012, monthlyTax: 12200.15 },
+  { annualIncome: 3000000, monthlyTax: 19700 }
+];
+
+// Financing 1,500,000 (2,000,000 cost, 25% equity) at 10% over 240 months with 12 months' grace,
+// alongside an existing loan of 5,000 a month
+export const ASSESSMENT_FORM_DATA: FormDataStrings = {
+  salary: '60000',
+  rent: '10000',
+  other: '0',
+  projectIncome: '20000',
+  totalProjectCost: '2000000',
+  equityPercentage: '25',
+  rate: '10',
+  repaymentPeriod: '240',
+  gracePeriod: '12',
+  propertyValue: '2500000',
+  processingFeeRate: '',
+  stampDuty: '',
+  propertyInsurance: '',
+  lifeInsurance: '',
+  serviceCharges: '',
+  obligationLedger: {
+    obligations: [{
+      id: 'existing',
+      lender: 'Existing Lender',
+      outstandingBalance: 0,
+      rate: 0,
+      remainingMonths: 60,
+      monthlyInstallment: 5000,
+      settledByNewLoan: false
+    }],
+    excludeEndingInGrace: false
+  }
+};
+
+export const ASSESSMENT_FIXTURES: AssessmentFixture[] = [
+  {
+    scenarioId: 'normal',
+    graceMode: 'added_to_tenure',
+    totalIncome: 70000,
+    totalExpenditure: 24500,
+    totalProjectExpenditure: 3150,
+    incomeTax: 1650,
+    netIncome: 62350,
+    afterGraceRepayment: 14475.32,
+    gracePeriodRepayment: 12500,
+    totalMonths: 252,
+    dscr: 3.2015
+  },
+  {
+    scenarioId: 'normal',
+    graceMode: 'inside_tenure',
+    totalIncome: 70000,
+    totalExpenditure: 24500,
+    totalProjectExpenditure: 3150,
+    incomeTax: 1650,
+    netIncome: 62350,
+    afterGraceRepayment: 14718.88,
+    gracePeriodRepayment: 12500,
+    totalMonths: 240,
+    dscr: 3.1619
+  },
+  {
+    scenarioId: 'normal',
+    graceMode: 'capitalized',
+    totalIncome: 70000,
+    totalExpenditure: 24500,
+    totalProjectExpenditure: 3150,
+    incomeTax: 1650,
+    netIncome: 62350,
+    afterGraceRepayment: 15991.08,
+    gracePeriodRepayment: 0,
+    totalMonths: 252,
+    dscr: 2.9703
+  },
+  {
+    scenarioId: 'income_reduce',
+    graceMode: 'added_to_tenure',
+    totalIncome: 56000,
+    totalExpenditure: 19600,
+    totalProjectExpenditure: 13060,
+    incomeTax: 660,
+    netIncome: 39340,
+    afterGraceRepayment: 14475.32,
+    gracePeriodRepayment: 12500,
+    totalMonths: 252,
+    dscr: 2.0200
+  }
+];
@@ -0,0 +1,559 @@
+// src/app/services/calculationService.test.ts
+
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { AmortizationSchedule, FormDataStrings, GraceMode } from '../types/emi';
+import { EMICalculationService } from './calculationService';
+import { EligibilityService } from './eligibilityService';
+import { ObligationService } from './obligationService';
+import { PolicyService } from './policyService';
+import { RateScheduleService } from './rateScheduleService';
+import { ScenarioService } from './scenarioService';
+import { TaxTableService } from './taxTableService';
+import {
+  EMI_FIXTURES,
+  INCOME_TAX_FIXTURES,
+  ASSESSMENT_FORM_DATA,
+  ASSESSMENT_FIXTURES
+} from './calculationService.fixtures';
+
+const GRACE_MODES: GraceMode[] = ['added_to_tenure', 'inside_tenure', 'capitalized'];
+const CALCULATION_DATE = new Date(2025, 0, 15);
+
+const policy = PolicyService.getDefaultPolicy();
+const scenarios = ScenarioService.getBuiltInScenarios(policy);
+
+const principalArb = fc.integer({ min: 1000, max: 50000000 });
+const rateArb = fc.double({ min: 0.01, max: 50, noNaN: true });
+const tenureArb = fc.integer({ min: 1, max: 600 });
+
+describe('EMICalculationService.calculateEMI', () => {
+  it.each(EMI_FIXTURES)('matches the golden EMI for $principal at $rate% over $tenure months', (fixture) => {
+    expect(EMICalculationService.calculateEMI(fixture.principal, fixture.rate, fixture.tenure)).toBeCloseTo(fixture.emi, 2);
+  });
+
+  it('splits the principal evenly at a zero rate', () => {
+    expect(EMICalculationService.calculateEMI(120000, 0, 24)).toBe(5000);
+    expect(EMICalculationService.calculateEMI(100000, 0, 3)).toBeCloseTo(33333.33, 2);
+  });
+
+  it('approaches the zero-rate installment as the rate approaches zero', () => {
+    expect(EMICalculationService.calculateEMI(120000, 1e-9, 24)).toBeCloseTo(5000, 4);
+  });
+
+  it('repays exactly the principal in a single installment plus one month of interest', () => {
+    expect(EMICalculationService.calculateEMI(100000, 12, 1)).toBeCloseTo(101000, 6);
+  });
+
+  it('is never below the interest-only installment', () => {
+    fc.assert(fc.property(principalArb, rateArb, tenureArb, (principal, rate, tenure) => {
+      const emi = EMICalculationService.calculateEMI(principal, rate, tenure);
+      expect(emi).toBeGreaterThan(EMICalculationService.calculateGracePeriodPayment(principal, rate));
+    }));
+  });
+
+  it('increases with the rate', () => {
+    fc.assert(fc.property(principalArb, rateArb, rateArb, tenureArb, (principal, rateA, rateB, tenure) => {
+      fc.pre(Math.abs(rateA - rateB) > 1e-6);
+      const [lower, higher] = rateA < rateB ? [rateA, rateB] : [rateB, rateA];
+      expect(EMICalculationService.calculateEMI(principal, higher, tenure))
+        .toBeGreaterThan(EMICalculationService.calculateEMI(principal, lower, tenure));
+    }));
+  });
+
+  it('decreases as the tenure gets longer', () => {
+    fc.assert(fc.property(principalArb, fc.oneof(fc.constant(0), rateArb), tenureArb, tenureArb, (principal, rate, tenureA, tenureB) => {
+      fc.pre(tenureA !== tenureB);
+      const [shorter, longer] = tenureA < tenureB ? [tenureA, tenureB] : [tenureB, tenureA];
+      expect(EMICalculationService.calculateEMI(principal, rate, longer))
+        .toBeLessThan(EMICalculationService.calculateEMI(principal, rate, shorter));
+    }));
+  });
+
+  it('scales linearly with the principal', () => {
+    fc.assert(fc.property(principalArb, rateArb, tenureArb, fc.integer({ min: 2, max: 10 }), (principal, rate, tenure, factor) => {
+      const emi = EMICalculationService.calculateEMI(principal, rate, tenure);
+      expect(EMICalculationService.calculateEMI(principal * factor, rate, tenure) / emi).toBeCloseTo(factor, 8);
+    }));
+  });
+});
+
+describe('EMICalculationService.calculateIncomeTax', () => {
+  const taxTables = TaxTableService.getDefaultTaxTables();
+
+  it.each(INCOME_TAX_FIXTURES)('taxes an annual income of $annualIncome at $monthlyTax a month', (fixture) => {
+    expect(EMICalculationService.calculateIncomeTax(fixture.annualIncome, CALCULATION_DATE, taxTables))
+      .toBeCloseTo(fixture.monthlyTax, 6);
+  });
+
+  it('charges nothing at or below the tax-free threshold', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 720000 }), (annualIncome) => {
+      expect(EMICalculationService.calculateIncomeTax(annualIncome, CALCULATION_DATE, taxTables)).toBe(0);
+    }));
+  });
+
+  it('is continuous at every bracket boundary', () => {
+    const { brackets } = TaxTableService.getEffectiveTable(taxTables, CALCULATION_DATE);
+    for (const { max } of brackets.filter(bracket => bracket.max !== Infinity)) {
+      const atBoundary = EMICalculationService.calculateIncomeTax(max, CALCULATION_DATE, taxTables);
+      const justAbove = EMICalculationService.calculateIncomeTax(max + 0.01, CALCULATION_DATE, taxTables);
+      expect(justAbove - atBoundary).toBeGreaterThanOrEqual(0);
+      expect(justAbove - atBoundary).toBeLessThan(0.01);
+    }
+  });
+
+  it('never decreases as income rises and never exceeds the top marginal rate', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 10000000 }), fc.integer({ min: 0, max: 10000000 }), (incomeA, incomeB) => {
+      const [lower, higher] = incomeA < incomeB ? [incomeA, incomeB] : [incomeB, incomeA];
+      const lowerTax = EMICalculationService.calculateIncomeTax(lower, CALCULATION_DATE, taxTables);
+      const higherTax = EMICalculationService.calculateIncomeTax(higher, CALCULATION_DATE, taxTables);
+      expect(higherTax).toBeGreaterThanOrEqual(lowerTax);
+      expect(higherTax * 12).toBeLessThanOrEqual(higher * 0.15 + 1e-6);
+    }));
+  });
+
+  it('uses the table in force on the calculation date', () => {
+    const tables = [
+      ...taxTables,
+      { id: 'flat-2030', name: 'Flat', effectiveFrom: '2030-01-01', brackets: [{ min: 0, max: Infinity, rate: 10 }] }
+    ];
+    expect(EMICalculationService.calculateIncomeTax(1200000, CALCULATION_DATE, tables)).toBeCloseTo(2200, 6);
+    expect(EMICalculationService.calculateIncomeTax(1200000, new Date(2030, 5, 1), tables)).toBeCloseTo(10000, 6);
+  });
+});
+
+describe('EMICalculationService.calculateBankFinanceAmount', () => {
+  it('finances the share of the cost not covered by equity', () => {
+    expect(EMICalculationService.calculateBankFinanceAmount(2000000, 25)).toBe(1500000);
+    expect(EMICalculationService.calculateBankFinanceAmount(1000000, 0)).toBe(1000000);
+    expect(EMICalculationService.calculateBankFinanceAmount(1000000, 100)).toBe(0);
+    expect(EMICalculationService.calculateBankFinanceAmount(333333, 33.3)).toBeCloseTo(222333.111, 6);
+  });
+
+  it('adds up to the project cost together with the equity amount', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 100000000 }), fc.double({ min: 0, max: 100, noNaN: true }), (cost, equity) => {
+      const total = EMICalculationService.calculateBankFinanceAmount(cost, equity) +
+        EMICalculationService.calculateEquityAmount(cost, equity);
+      expect(total).toBeCloseTo(cost, 4);
+    }));
+  });
+});
+
+describe('EMICalculationService.generateAmortizationSchedule', () => {
+  it('repays exactly the amount borrowed in every grace mode', () => {
+    fc.assert(fc.property(
+      principalArb,
+      fc.oneof(fc.constant(0), rateArb),
+      fc.integer({ min: 1, max: 360 }),
+      fc.integer({ min: 0, max: 24 }),
+      fc.constantFrom(...GRACE_MODES),
+      (principal, rate, repaymentPeriod, gracePeriod, graceMode) => {
+        // Validation requires grace inside the tenure to leave months to amortize over
+        fc.pre(graceMode !== 'inside_tenure' || gracePeriod < repaymentPeriod);
+        const { rows } = EMICalculationService.generateAmortizationSchedule({ principal, rate, repaymentPeriod, gracePeriod, graceMode });
+        const principalRepaid = rows.reduce((sum, row) => sum + row.principal, 0);
+
+        expect(principalRepaid).toBeCloseTo(principal, 2);
+        expect(rows[rows.length - 1].closingBalance).toBeCloseTo(0, 6);
+      }
+    ), { numRuns: 50 });
+  });
+
+  it('charges as interest everything paid beyond the principal', () => {
+    fc.assert(fc.property(principalArb, rateArb, fc.integer({ min: 1, max: 360 }), (principal, rate, repaymentPeriod) => {
+      const schedule = EMICalculationService.generateAmortizationSchedule({ principal, rate, repaymentPeriod, gracePeriod: 0 });
+      expect(schedule.totalPayment - principal).toBeCloseTo(schedule.totalInterest, 2);
+    }), { numRuns: 50 });
+  });
+});
+
+describe('EMICalculationService.generateAmortizationSchedule at rate resets', () => {
+  // Each EMI period must re-amortize the balance left at its start over the remaining months
+  const expectRecomputedEmis = (schedule: AmortizationSchedule, totalMonths: number) => {
+    for (const period of schedule.emiPeriods) {
+      const row = schedule.rows[period.startMonth - 1];
+      expect(row.rate).toBe(period.rate);
+      expect(period.emi).toBe(
+        EMICalculationService.calculateEMI(row.openingBalance, period.rate, totalMonths - period.startMonth + 1)
+      );
+    }
+    expect(schedule.rows).toHaveLength(totalMonths);
+    expect(schedule.rows[schedule.rows.length - 1].closingBalance).toBeCloseTo(0, 6);
+  };
+
+  it('recomputes the EMI when a stepped schedule changes the rate', () => {
+    const schedule = EMICalculationService.generateAmortizationSchedule({
+      principal: 1000000,
+      rate: 8,
+      repaymentPeriod: 120,
+      gracePeriod: 0,
+      ratePeriods: [{ startMonth: 1, rate: 8 }, { startMonth: 25, rate: 11 }]
+    });
+
+    expect(schedule.emiPeriods).toEqual([
+      { startMonth: 1, endMonth: 24, rate: 8, emi: EMICalculationService.calculateEMI(1000000, 8, 120) },
+      { startMonth: 25, endMonth: 120, rate: 11, emi: expect.any(Number) }
+    ]);
+    expect(schedule.emiPeriods[1].emi).toBeGreaterThan(schedule.emiPeriods[0].emi);
+    expect(schedule.rows[24].payment).toBeCloseTo(schedule.emiPeriods[1].emi, 6);
+    expectRecomputedEmis(schedule, 120);
+  });
+
+  it('recomputes the EMI at every base plus margin reset after grace', () => {
+    const ratePeriods = RateScheduleService.resolveRatePeriods(
+      { ...RateScheduleService.getDefaultRateSchedule(), mode: 'base_plus_margin', baseRateChangePerReset: 0.5 },
+      7,
+      252
+    );
+    const schedule = EMICalculationService.generateAmortizationSchedule({
+      principal: 1500000,
+      rate: 7,
+      repaymentPeriod: 240,
+      gracePeriod: 12,
+      graceMode: 'added_to_tenure',
+      ratePeriods
+    });
+
+    // Grace ends inside the fixed period, so amortization starts at 7% and then follows each reset
+    expect(schedule.emiPeriods.map(period => period.rate)).toEqual(ratePeriods.map(period => period.rate));
+    expect(schedule.emiPeriods[0].startMonth).toBe(13);
+    expect(schedule.emiPeriods.slice(1).map(period => period.startMonth)).toEqual(
+      ratePeriods.slice(1).map(period => period.startMonth)
+    );
+    expectRecomputedEmis(schedule, 252);
+  });
+});
+
+describe('EMICalculationService.calculateBorrowingCost', () => {
+  const scenario = scenarios[0];
+
+  it('solves the IRR of a simple cash flow', () => {
+    expect(EMICalculationService.calculateIRR([100, -110])).toBeCloseTo(0.1, 10);
+    expect(EMICalculationService.calculateIRR([1000, ...Array(12).fill(-87.915887)], 0.005)).toBeCloseTo(0.1 / 12, 6);
+  });
+
+  it('matches the nominal rate when there are no fees or insurance', () => {
+    const cost = EMICalculationService.calculateBorrowingCost(ASSESSMENT_FORM_DATA, scenario);
+
+    expect(cost.upfrontFees).toBe(0);
+    expect(cost.totalCostOfBorrowing).toBeCloseTo(cost.totalInterest, 6);
+    expect(cost.apr).toBeCloseTo(10, 6);
+    expect(cost.effectiveAnnualRate).toBeCloseTo(10.4713, 4);
+  });
+
+  it('adds fees and insurance to the cost and lifts the APR above the nominal rate', () => {
+    const cost = EMICalculationService.calculateBorrowingCost(
+      { ...ASSESSMENT_FORM_DATA, processingFeeRate: '1', stampDuty: '5000', propertyInsurance: '6000', lifeInsurance: '1200', serviceCharges: '1200' },
+      scenario
+    );
+
+    expect(cost.processingFee).toBe(15000);
+    expect(cost.upfrontFees).toBe(20000);
+    expect(cost.monthlyInsurance).toBe(600);
+    expect(cost.monthlyServiceCharges).toBe(100);
+    expect(cost.effectiveEMI).toBeCloseTo(14475.32 + 700, 2);
+    expect(cost.totalInsurance).toBe(600 * 252);
+    expect(cost.totalCostOfBorrowing).toBeCloseTo(cost.totalInterest + 20000 + 700 * 252, 6);
+    expect(cost.apr).toBeGreaterThan(10.5);
+  });
+
+  it('follows the schedule with prepayments applied', () => {
+    const prepayments = [{ id: 'lump-sum', month: 24, amount: 300000, frequency: 'once' as const, strategy: 'reduce_tenure' as const }];
+    const without = EMICalculationService.calculateBorrowingCost(ASSESSMENT_FORM_DATA, scenario);
+    const cost = EMICalculationService.calculateBorrowingCost(ASSESSMENT_FORM_DATA, scenario, {}, prepayments);
+    const schedule = EMICalculationService.generateAmortizationSchedule({
+      principal: 1500000,
+      rate: 10,
+      repaymentPeriod: 240,
+      gracePeriod: 12,
+      graceMode: 'added_to_tenure',
+      prepayments
+    });
+
+    expect(cost.totalInterest).toBeCloseTo(schedule.totalInterest, 6);
+    expect(cost.totalInterest).toBeLessThan(without.totalInterest);
+    expect(cost.apr).toBeCloseTo(10, 6);
+  });
+});
+
+describe('EMICalculationService.performCalculations', () => {
+  const options = { calculationDate: CALCULATION_DATE, policy };
+
+  it.each(ASSESSMENT_FIXTURES)('matches the golden $scenarioId assessment with $graceMode grace', (fixture) => {
+    const scenario = ScenarioService.findScenario(scenarios, fixture.scenarioId);
+    const result = EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenario, true, { ...options, graceMode: fixture.graceMode });
+
+    expect(result.bankFinanceAmount).toBe(1500000);
+    expect(result.totalIncome).toBeCloseTo(fixture.totalIncome, 2);
+    expect(result.totalExpenditure).toBeCloseTo(fixture.totalExpenditure, 2);
+    expect(result.incomeTax).toBeCloseTo(fixture.incomeTax, 2);
+    expect(result.totalProjectExpenditure).toBeCloseTo(fixture.totalProjectExpenditure, 2);
+    expect(result.netIncome).toBeCloseTo(fixture.netIncome, 2);
+    expect(result.afterGraceRepayment).toBeCloseTo(fixture.afterGraceRepayment, 2);
+    expect(result.gracePeriodRepayment).toBeCloseTo(fixture.gracePeriodRepayment, 2);
+    expect(result.totalMonths).toBe(fixture.totalMonths);
+    expect(result.dscr).toBeCloseTo(fixture.dscr, 4);
+  });
+
+  describe.each(scenarios.map(scenario => [scenario.name, scenario] as const))('%s', (_, scenario) => {
+    describe.each(GRACE_MODES)('with %s grace', (graceMode) => {
+      const during = EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenario, false, { ...options, graceMode });
+      const after = EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenario, true, { ...options, graceMode });
+
+      it('charges the grace installment before grace ends and the EMI after', () => {
+        expect(during.monthlyRepayment).toBe(during.gracePeriodRepayment);
+        expect(after.monthlyRepayment).toBe(after.afterGraceRepayment);
+        expect(during.afterGraceRepayment).toBe(after.afterGraceRepayment);
+      });
+
+      it('counts project income only after grace', () => {
+        expect(during.totalProjectIncome).toBe(0);
+        expect(after.totalProjectIncome).toBeCloseTo(20000 * scenario.projectIncomeMultiplier, 6);
+      });
+
+      it('assesses DSCR on the after-grace EMI in both periods', () => {
+        for (const result of [during, after]) {
+          expect(result.dscr).toBeCloseTo(result.netIncome / (5000 + (result.afterGraceRepayment || 0)), 10);
+        }
+      });
+
+      it('lays out the timeline for the grace mode', () => {
+        expect(after.totalMonths).toBe(graceMode === 'inside_tenure' ? 240 : 252);
+        expect(after.amortizationPeriod).toBe(graceMode === 'inside_tenure' ? 228 : 240);
+        expect(after.capitalizedInterest > 0).toBe(graceMode === 'capitalized');
+        expect(after.loanEndDate).toBe(EMICalculationService.addMonths(CALCULATION_DATE, after.totalMonths));
+      });
+
+      it('ties net income to its components', () => {
+        expect(after.netIncome).toBeCloseTo(
+          after.totalIncome - after.totalExpenditure + after.totalProjectIncome - after.totalProjectExpenditure,
+          6
+        );
+      });
+    });
+  });
+
+  describe('with a co-applicant', () => {
+    const scenario = scenarios[0];
+    const formData = {
+      ...ASSESSMENT_FORM_DATA,
+      coApplicants: [{ id: 'spouse', name: 'Spouse', salary: '30000', rent: '', other: '', existingLoans: '2000' }]
+    };
+    const result = EMICalculationService.performCalculations(formData, scenario, true, options);
+
+    it('aggregates household income and existing loans', () => {
+      expect(result.totalIncome).toBeCloseTo(100000, 6);
+      expect(result.existingLoans).toBe(7000);
+      expect(result.dscr).toBeCloseTo(result.netIncome / (7000 + (result.afterGraceRepayment || 0)), 10);
+    });
+
+    it('taxes each applicant on their own income', () => {
+      // 1,080,000 a year for the primary applicant with project income; 360,000 is below the first bracket
+      expect(result.applicants.map(applicant => applicant.incomeTax)).toEqual([1650, 0]);
+      expect(result.incomeTax).toBe(1650);
+    });
+
+    it('splits household income into individual contributions', () => {
+      const [primary, spouse] = result.applicants;
+      expect(primary.applicantId).toBe(EMICalculationService.PRIMARY_APPLICANT_ID);
+      expect(primary.totalIncome).toBeCloseTo(90000, 6);
+      expect(spouse.netContribution).toBeCloseTo(30000, 6);
+      expect(primary.incomeShare + spouse.incomeShare).toBeCloseTo(100, 10);
+      expect(spouse.incomeShare).toBeCloseTo(25, 10);
+    });
+  });
+
+  describe('with an obligations ledger', () => {
+    const scenario = scenarios[0];
+    const car = {
+      id: 'car',
+      lender: 'Car Finance',
+      outstandingBalance: 100000,
+      rate: 12,
+      remainingMonths: 6,
+      monthlyInstallment: 0,
+      settledByNewLoan: false
+    };
+    const existing = ASSESSMENT_FORM_DATA.obligationLedger?.obligations || [];
+    const withLedger = (obligations: typeof car[], excludeEndingInGrace = false) =>
+      EMICalculationService.performCalculations(
+        { ...ASSESSMENT_FORM_DATA, obligationLedger: { obligations: [...existing, ...obligations], excludeEndingInGrace } },
+        scenario,
+        true,
+        options
+      );
+
+    it('adds ledger installments to the DSCR obligations, deriving missing ones', () => {
+      const result = withLedger([car]);
+      const installment = EMICalculationService.calculateEMI(100000, 12, 6);
+
+      expect(result.obligationInstallments).toBeCloseTo(5000 + installment, 10);
+      expect(result.existingLoans).toBeCloseTo(5000 + installment, 10);
+      expect(result.dscr).toBeCloseTo(result.netIncome / (result.existingLoans + (result.afterGraceRepayment || 0)), 10);
+    });
+
+    it('drops obligations repaid within the 12-month grace period on request', () => {
+      expect(withLedger([car], true).existingLoans).toBe(5000);
+      expect(withLedger([{ ...car, remainingMonths: 13 }], true).existingLoans).toBeGreaterThan(5000);
+    });
+
+    it('refinances settled obligations into the new facility', () => {
+      const result = withLedger([{ ...car, settledByNewLoan: true }]);
+      const baseline = withLedger([]);
+
+      expect(result.takeoverAmount).toBe(100000);
+      expect(result.bankFinanceAmount).toBe(1600000);
+      expect(result.existingLoans).toBe(5000);
+      expect(result.afterGraceRepayment).toBeCloseTo((baseline.afterGraceRepayment || 0) * 1600000 / 1500000, 6);
+    });
+  });
+
+  describe('affordability ratios', () => {
+    const scenario = scenarios[0];
+
+    it('works out DTI on gross income, FOIR after tax and LTV against the property value', () => {
+      const result = EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenario, true, options);
+      const installments = 5000 + (result.afterGraceRepayment || 0);
+
+      expect(result.dti).toBeCloseTo(installments / 90000 * 100, 10);
+      expect(result.foir).toBeCloseTo(installments / (90000 - 1650) * 100, 10);
+      expect(result.ltv).toBe(60);
+      expect(
+        EMICalculationService.performCalculations({ ...ASSESSMENT_FORM_DATA, propertyValue: '' }, scenario, true, options).ltv
+      ).toBeNull();
+    });
+
+    it('lists every rule in the verdict and fails on any breach', () => {
+      const result = EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenario, true, options);
+      const passing = EligibilityService.evaluate(result, { maxDTI: 40, maxFOIR: 50, maxLTV: 80 }, policy.dscrGoodThreshold);
+      const failing = EligibilityService.evaluate(result, { maxDTI: 20, maxLTV: 80 }, policy.dscrGoodThreshold);
+      const missing = EligibilityService.evaluate({ ...result, ltv: null }, { maxLTV: 80 }, policy.dscrGoodThreshold);
+
+      expect(passing.eligible).toBe(true);
+      expect(passing.rules.map(rule => rule.id)).toEqual(['dscr', 'dti', 'foir', 'ltv']);
+      expect(failing.eligible).toBe(false);
+      expect(failing.rules.map(rule => rule.status)).toEqual(['passed', 'failed', 'passed']);
+      expect(missing.eligible).toBe(false);
+      expect(missing.rules[1].status).toBe('missing');
+    });
+  });
+
+  it('traces DSCR falling as the rate rises or income is cut', () => {
+    const scenario = scenarios[0];
+    const rates = EMICalculationService.calculateRateSensitivity(ASSESSMENT_FORM_DATA, scenario, [5, 10, 15], options);
+    const reductions = EMICalculationService.calculateIncomeReductionSensitivity(ASSESSMENT_FORM_DATA, scenario, [0, 20, 40], options);
+    const current = EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenario, true, options);
+
+    expect(rates.map(point => point.value)).toEqual([5, 10, 15]);
+    expect(rates[1].dscr).toBeCloseTo(current.dscr, 10);
+    expect(rates[0].dscr).toBeGreaterThan(rates[1].dscr);
+    expect(rates[1].dscr).toBeGreaterThan(rates[2].dscr);
+    expect(reductions[0].dscr).toBeCloseTo(current.dscr, 10);
+    expect(reductions[1].dscr).toBeGreaterThan(reductions[2].dscr);
+    expect(reductions[0].dscr).toBeGreaterThan(reductions[1].dscr);
+  });
+
+  it('reports a zero DSCR when there is nothing to repay', () => {
+    const result = EMICalculationService.performCalculations(
+      { ...ASSESSMENT_FORM_DATA, obligationLedger: undefined, equityPercentage: '100' },
+      scenarios[0],
+      true,
+      options
+    );
+    expect(result.afterGraceRepayment).toBe(0);
+    expect(result.dscr).toBe(0);
+  });
+});
+
+describe('EMICalculationService affordability solvers', () => {
+  const scenario = scenarios[0];
+  const options = { calculationDate: CALCULATION_DATE, policy };
+  const target = policy.dscrExcellentThreshold;
+  const dscr = (changes: Partial<FormDataStrings>) =>
+    EMICalculationService.performCalculations({ ...ASSESSMENT_FORM_DATA, ...changes }, scenario, true, options).dscr;
+
+  it('finds the largest bank finance on the DSCR threshold', () => {
+    const maxBankFinance = EMICalculationService.solveMaxBankFinance(ASSESSMENT_FORM_DATA, scenario, target, options)!;
+    const borrowing = (amount: number) => dscr({ totalProjectCost: amount.toString(), equityPercentage: '0' });
+
+    expect(borrowing(maxBankFinance)).toBeGreaterThanOrEqual(target);
+    expect(borrowing(maxBankFinance)).toBeCloseTo(target, 3);
+    expect(borrowing(maxBankFinance + 100)).toBeLessThan(target);
+  });
+
+  it('finds the smallest equity share on the DSCR threshold', () => {
+    // Large enough that borrowing the whole cost breaks the threshold
+    const totalProjectCost = '6000000';
+    const minEquity = EMICalculationService.solveMinEquityPercentage(
+      { ...ASSESSMENT_FORM_DATA, totalProjectCost },
+      scenario,
+      target,
+      options
+    )!;
+
+    expect(minEquity).toBeGreaterThan(0);
+    expect(dscr({ totalProjectCost, equityPercentage: minEquity.toString() })).toBeGreaterThanOrEqual(target);
+    expect(dscr({ totalProjectCost, equityPercentage: (minEquity - 0.01).toString() })).toBeLessThan(target);
+  });
+
+  it('finds the highest rate on the DSCR threshold', () => {
+    const maxRate = EMICalculationService.solveMaxRate(ASSESSMENT_FORM_DATA, scenario, target, options)!;
+
+    expect(dscr({ rate: maxRate.toString() })).toBeGreaterThanOrEqual(target);
+    // The bisection stops within 0.001 and the result is floored to two places
+    expect(dscr({ rate: (maxRate + 0.02).toString() })).toBeLessThan(target);
+  });
+
+  it('finds the shortest tenure on the DSCR threshold', () => {
+    const minTenure = EMICalculationService.solveMinTenure(ASSESSMENT_FORM_DATA, scenario, target, options)!;
+
+    expect(dscr({ repaymentPeriod: minTenure.toString() })).toBeGreaterThanOrEqual(target);
+    expect(dscr({ repaymentPeriod: (minTenure - 1).toString() })).toBeLessThan(target);
+  });
+
+  it('stops the rate search at 50% and the tenure search at 600 months', () => {
+    const smallLoan = { ...ASSESSMENT_FORM_DATA, totalProjectCost: '10000' };
+    const largeLoan = { ...ASSESSMENT_FORM_DATA, totalProjectCost: '20000000' };
+
+    expect(EMICalculationService.solveMaxRate(smallLoan, scenario, target, options)).toBe(50);
+    expect(EMICalculationService.solveMinTenure(largeLoan, scenario, target, options)).toBeNull();
+    expect(dscr({ totalProjectCost: '20000000', repaymentPeriod: '600' })).toBeLessThan(target);
+  });
+
+  it('reports no solution when the income cannot reach the threshold', () => {
+    const result = EMICalculationService.solveAffordability(ASSESSMENT_FORM_DATA, scenario, options, 100);
+
+    expect(result).toEqual({
+      scenarioId: scenario.id,
+      scenarioName: scenario.name,
+      targetDSCR: 100,
+      maxBankFinance: null,
+      minEquityPercentage: null,
+      maxRate: null,
+      minTenure: null
+    });
+  });
+});
+
+describe('ObligationService.migrateExistingLoans', () => {
+  const scenario = scenarios[0];
+  const options = { calculationDate: CALCULATION_DATE, policy };
+  const { obligationLedger, ...withoutLedger } = ASSESSMENT_FORM_DATA;
+
+  it('moves a saved existing-loans figure into one ledger entry, counted once', () => {
+    const migrated = ObligationService.migrateExistingLoans({ ...withoutLedger, existingLoans: '5000' });
+
+    expect(migrated).not.toHaveProperty('existingLoans');
+    expect(migrated.obligationLedger?.obligations).toHaveLength(1);
+    expect(migrated.obligationLedger?.obligations[0].monthlyInstallment).toBe(5000);
+
+    const result = EMICalculationService.performCalculations(migrated, scenario, true, options);
+    const original = EMICalculationService.performCalculations({ ...withoutLedger, obligationLedger }, scenario, true, options);
+    expect(result.existingLoans).toBe(5000);
+    expect(result.dscr).toBeCloseTo(original.dscr, 10);
+  });
+
+  it('keeps the ledger as it is when there is no figure to move', () => {
+    expect(ObligationService.migrateExistingLoans({ ...ASSESSMENT_FORM_DATA, existingLoans: '' })).toEqual(ASSESSMENT_FORM_DATA);
+  });
+});
@@ -1,7 +1,39 @@
 // src/app/services/calculationService.ts
 
 import Decimal from 'decimal.js';
-import { FormData, FormDataStrings, TaxBracket, Calculations, Scenario } from '../types/emi';
+import {
+  FormData,
+  FormDataStrings,
+  TaxBracket,
+  TaxTable,
+  Calculations,
+  Scenario,
+  AmortizationParams,
+  AmortizationRow,
+  AmortizationSchedule,
+  AmortizationYearSummary,
+  CalculationOptions,
+  GraceMode,
+  GraceTimeline,
+  EMIPeriod,
+  RatePeriod,
+  RateSchedule,
+  Prepayment,
+  PrepaymentComparison,
+  AffordabilityResult,
+  SensitivityPoint,
+  CoApplicant,
+  CoApplicantStrings,
+  ApplicantContribution,
+  ExistingObligation,
+  ObligationLedger,
+  BorrowingCost
+} from '../types/emi';
+import { PolicyService } from './policyService';
+import { TaxTableService } from './taxTableService';
+import { RateScheduleService } from './rateScheduleService';
+import { ObligationService } from './obligationService';
+import { PrepaymentService } from './prepaymentService';
 
 // Configure Decimal.js for financial precision
 Decimal.set({
@@ -12,13 +44,13 @@ Decimal.set({
 });
 
 export class EMICalculationService {
-  private static taxBrackets: TaxBracket[] = [
-    { min: 0, max: 720000, rate: 0 },
-    { min: 720000, max: 1200000, rate: 5.5 },
-    { min: 1200000, max: 1800000, rate: 8 },
-    { min: 1800000, max: 2400000, rate: 12 },
-    { min: 2400000, max: Infinity, rate: 15 }
-  ];
+  // Search bounds for the affordability solvers, matching the form's validation limits
+  private static readonly MAX_SOLVER_RATE = 50;
+  private static readonly MAX_SOLVER_TENURE = 600;
+  private static readonly MAX_IRR_ITERATIONS = 100;
+
+  static readonly PRIMARY_APPLICANT_ID = 'primary';
+  static readonly PRIMARY_APPLICANT_NAME = 'Primary Applicant';
 
   /**
    * Convert string form data to numeric values with precision handling
@@ -37,23 +69,68 @@ export class EMICalculationService {
       rent: this.getNumericValue(formData.rent),
       other: this.getNumericValue(formData.other),
       projectIncome: this.getNumericValue(formData.projectIncome),
-      existingLoans: this.getNumericValue(formData.existingLoans),
       totalProjectCost: this.getNumericValue(formData.totalProjectCost),
+      propertyValue: this.getNumericValue(formData.propertyValue),
+      processingFeeRate: this.getNumericValue(formData.processingFeeRate),
+      stampDuty: this.getNumericValue(formData.stampDuty),
+      propertyInsurance: this.getNumericValue(formData.propertyInsurance),
+      lifeInsurance: this.getNumericValue(formData.lifeInsurance),
+      serviceCharges: this.getNumericValue(formData.serviceCharges),
       equityPercentage: this.getNumericValue(formData.equityPercentage),
       rate: this.getNumericValue(formData.rate),
       repaymentPeriod: this.getNumericValue(formData.repaymentPeriod),
-      gracePeriod: this.getNumericValue(formData.gracePeriod)
+      gracePeriod: this.getNumericValue(formData.gracePeriod),
+      coApplicants: (formData.coApplicants || []).map(coApplicant => this.convertToNumericCoApplicant(coApplicant)),
+      obligationLedger: formData.obligationLedger || ObligationService.createLedger()
+    };
+  }
+
+  /**
+   * Convert a co-applicant's string inputs to numeric values
+   */
+  static convertToNumericCoApplicant(coApplicant: CoApplicantStrings): CoApplicant {
+    return {
+      id: coApplicant.id,
+      name: coApplicant.name,
+      salary: this.getNumericValue(coApplicant.salary),
+      rent: this.getNumericValue(coApplicant.rent),
+      other: this.getNumericValue(coApplicant.other),
+      existingLoans: this.getNumericValue(coApplicant.existingLoans)
     };
   }
 
   /**
-   * Calculate monthly income tax based on annual income with precision
+   * Every applicant on the case, primary applicant first. The obligations ledger
+   * counts towards the primary applicant.
    */
-  static calculateIncomeTax(annualIncome: number): number {
+  static getApplicants(formData: FormData): CoApplicant[] {
+    return [
+      {
+        id: this.PRIMARY_APPLICANT_ID,
+        name: this.PRIMARY_APPLICANT_NAME,
+        salary: formData.salary,
+        rent: formData.rent,
+        other: formData.other,
+        existingLoans: this.calculateObligationInstallments(formData.obligationLedger, formData.gracePeriod)
+      },
+      ...formData.coApplicants
+    ];
+  }
+
+  /**
+   * Calculate monthly income tax based on annual income with precision,
+   * using the tax table effective on the calculation date
+   */
+  static calculateIncomeTax(
+    annualIncome: number,
+    calculationDate: Date = new Date(),
+    taxTables: TaxTable[] = TaxTableService.getDefaultTaxTables()
+  ): number {
     let tax = new Decimal(0);
     const income = new Decimal(annualIncome);
+    const { brackets } = TaxTableService.getEffectiveTable(taxTables, calculationDate);
     
-    for (const bracket of this.taxBrackets) {
+    for (const bracket of brackets) {
       const bracketMin = new Decimal(bracket.min);
       const bracketMax = bracket.max === Infinity ? new Decimal(Number.MAX_SAFE_INTEGER) : new Decimal(bracket.max);
       
@@ -116,6 +193,200 @@ export class EMICalculationService {
     return monthlyInterest.toNumber();
   }
 
+  /**
+   * Resolve how many months are spent in grace and in amortization, and what
+   * principal is amortized once the grace period ends
+   */
+  static resolveGraceTimeline(
+    principal: number,
+    rate: number,
+    repaymentPeriod: number,
+    gracePeriod: number,
+    graceMode: GraceMode = 'added_to_tenure'
+  ): GraceTimeline {
+    const repaymentMonths = Math.max(Math.floor(repaymentPeriod), 0);
+    const graceMonths = Math.min(Math.max(Math.floor(gracePeriod), 0), repaymentMonths);
+    const monthlyRate = new Decimal(rate).div(100).div(12);
+
+    if (graceMode === 'capitalized') {
+      // Interest accrues monthly and is added to the balance until grace ends
+      const amortizedPrincipal = new Decimal(principal).mul(monthlyRate.plus(1).pow(graceMonths));
+
+      return {
+        graceMonths,
+        amortizationMonths: repaymentMonths,
+        totalMonths: graceMonths + repaymentMonths,
+        amortizedPrincipal: amortizedPrincipal.toNumber(),
+        capitalizedInterest: amortizedPrincipal.minus(principal).toNumber(),
+        gracePeriodRepayment: 0
+      };
+    }
+
+    const amortizationMonths = graceMode === 'inside_tenure'
+      ? repaymentMonths - graceMonths
+      : repaymentMonths;
+
+    return {
+      graceMonths,
+      amortizationMonths,
+      totalMonths: graceMonths + amortizationMonths,
+      amortizedPrincipal: principal,
+      capitalizedInterest: 0,
+      gracePeriodRepayment: this.calculateGracePeriodPayment(principal, rate)
+    };
+  }
+
+  /**
+   * Generate the month-by-month repayment schedule: grace installments as defined
+   * by the grace mode followed by equal installments over the amortization period.
+   * When rate periods are given, the EMI is recomputed on the outstanding balance
+   * over the remaining months at every rate reset. Prepayments are applied after the
+   * installment of their month and either shorten the loan or lower the EMI.
+   */
+  static generateAmortizationSchedule(params: AmortizationParams): AmortizationSchedule {
+    const { principal, rate, repaymentPeriod, gracePeriod, graceMode, ratePeriods, prepayments = [] } = params;
+    const periods = ratePeriods && ratePeriods.length > 0 ? ratePeriods : [{ startMonth: 1, rate }];
+    const timeline = this.resolveGraceTimeline(principal, rate, repaymentPeriod, gracePeriod, graceMode);
+    const { graceMonths, amortizationMonths, totalMonths } = timeline;
+
+    const rows: AmortizationRow[] = [];
+    const emiPeriods: EMIPeriod[] = [];
+    let balance = new Decimal(principal);
+    let cumulativeInterest = new Decimal(0);
+    let totalPayment = new Decimal(0);
+
+    if (balance.lte(0) || amortizationMonths <= 0) {
+      return { rows, yearlySummaries: [], emiPeriods, totalPayment: 0, totalInterest: 0 };
+    }
+
+    let emi = new Decimal(0);
+    let recomputeEmi = false;
+
+    for (let month = 1; month <= totalMonths && balance.gt(0); month++) {
+      const isGracePeriod = month <= graceMonths;
+      const monthRate = RateScheduleService.getRateForMonth(periods, month);
+      const interest = balance.mul(monthRate).div(100).div(12);
+
+      // Grace installments are interest-only, or nothing at all when interest is
+      // capitalized; the final installment settles any rounding residue
+      let principalPaid: Decimal;
+      let payment: Decimal;
+      if (isGracePeriod) {
+        payment = graceMode === 'capitalized' ? new Decimal(0) : interest;
+        principalPaid = payment.minus(interest);
+      } else {
+        // (Re)compute the EMI when amortization starts and whenever the rate resets
+        const currentPeriod = emiPeriods[emiPeriods.length - 1];
+        if (!currentPeriod || currentPeriod.rate !== monthRate || recomputeEmi) {
+          emi = new Decimal(this.calculateEMI(balance.toNumber(), monthRate, totalMonths - month + 1));
+          emiPeriods.push({ startMonth: month, endMonth: month, rate: monthRate, emi: emi.toNumber() });
+          recomputeEmi = false;
+        }
+        emiPeriods[emiPeriods.length - 1].endMonth = month;
+
+        principalPaid = emi.minus(interest);
+        if (month === totalMonths || principalPaid.gt(balance)) {
+          principalPaid = balance;
+        }
+        payment = interest.plus(principalPaid);
+      }
+
+      // Extra payments due this month, capped at what is still owed
+      const prepaymentsDue = month < totalMonths ? PrepaymentService.getPrepaymentsDue(prepayments, month) : [];
+      const prepayment = Decimal.min(
+        prepaymentsDue.reduce((sum, due) => sum.plus(due.amount), new Decimal(0)),
+        balance.minus(principalPaid)
+      );
+      if (prepayment.gt(0) && prepaymentsDue.some(due => due.strategy === 'reduce_emi')) {
+        recomputeEmi = true;
+      }
+
+      const closingBalance = balance.minus(principalPaid).minus(prepayment);
+      cumulativeInterest = cumulativeInterest.plus(interest);
+      totalPayment = totalPayment.plus(payment).plus(prepayment);
+
+      rows.push({
+        month,
+        isGracePeriod,
+        rate: monthRate,
+        openingBalance: balance.toNumber(),
+        payment: payment.toNumber(),
+        interest: interest.toNumber(),
+        principal: principalPaid.toNumber(),
+        prepayment: prepayment.toNumber(),
+        closingBalance: closingBalance.toNumber(),
+        cumulativeInterest: cumulativeInterest.toNumber()
+      });
+
+      balance = closingBalance;
+    }
+
+    return {
+      rows,
+      yearlySummaries: this.summarizeScheduleByYear(rows),
+      emiPeriods,
+      totalPayment: totalPayment.toNumber(),
+      totalInterest: cumulativeInterest.toNumber()
+    };
+  }
+
+  /**
+   * Compare the schedule with and without prepayments
+   */
+  static simulatePrepayments(params: AmortizationParams, startDate: Date = new Date()): PrepaymentComparison {
+    const baseline = this.generateAmortizationSchedule({ ...params, prepayments: [] });
+    const withPrepayments = this.generateAmortizationSchedule(params);
+
+    const originalMonths = baseline.rows.length;
+    const newMonths = withPrepayments.rows.length;
+    const totalPrepaid = withPrepayments.rows
+      .reduce((sum, row) => sum.plus(row.prepayment), new Decimal(0))
+      .toNumber();
+
+    return {
+      baseline,
+      withPrepayments,
+      totalPrepaid,
+      interestSaved: new Decimal(baseline.totalInterest).minus(withPrepayments.totalInterest).toNumber(),
+      monthsSaved: originalMonths - newMonths,
+      originalPayoffDate: this.addMonths(startDate, originalMonths),
+      newPayoffDate: this.addMonths(startDate, newMonths)
+    };
+  }
+
+  /**
+   * Group schedule rows into 12-month subtotals
+   */
+  static summarizeScheduleByYear(rows: AmortizationRow[]): AmortizationYearSummary[] {
+    const summaries: AmortizationYearSummary[] = [];
+
+    for (let start = 0; start < rows.length; start += 12) {
+      const yearRows = rows.slice(start, start + 12);
+      let totalPayment = new Decimal(0);
+      let totalInterest = new Decimal(0);
+      let totalPrincipal = new Decimal(0);
+      let totalPrepayment = new Decimal(0);
+
+      for (const row of yearRows) {
+        totalPayment = totalPayment.plus(row.payment);
+        totalInterest = totalInterest.plus(row.interest);
+        totalPrincipal = totalPrincipal.plus(row.principal);
+        totalPrepayment = totalPrepayment.plus(row.prepayment);
+      }
+
+      summaries.push({
+        year: start / 12 + 1,
+        totalPayment: totalPayment.toNumber(),
+        totalInterest: totalInterest.toNumber(),
+        totalPrincipal: totalPrincipal.toNumber(),
+        totalPrepayment: totalPrepayment.toNumber(),
+        closingBalance: yearRows[yearRows.length - 1].closingBalance
+      });
+    }
+
+    return summaries;
+  }
+
   /**
    * Apply scenario multipliers to income values with precision
    */
@@ -128,16 +399,35 @@ export class EMICalculationService {
     adjustedOther: number;
     adjustedProjectIncome: number;
   } {
-    const multiplier = new Decimal(scenario === 'income_reduce' ? 0.8 : 1);
-    
     return {
-      adjustedSalary: new Decimal(formData.salary).mul(multiplier).toNumber(),
-      adjustedRent: new Decimal(formData.rent).mul(multiplier).toNumber(),
-      adjustedOther: new Decimal(formData.other).mul(multiplier).toNumber(),
-      adjustedProjectIncome: new Decimal(formData.projectIncome).mul(multiplier).toNumber()
+      adjustedSalary: new Decimal(formData.salary).mul(scenario.salaryMultiplier).toNumber(),
+      adjustedRent: new Decimal(formData.rent).mul(scenario.rentMultiplier).toNumber(),
+      adjustedOther: new Decimal(formData.other).mul(scenario.otherMultiplier).toNumber(),
+      adjustedProjectIncome: new Decimal(formData.projectIncome).mul(scenario.projectIncomeMultiplier).toNumber()
     };
   }
 
+  /**
+   * Apply the scenario's rate shock to the nominal rate, never going below zero
+   */
+  static applyScenarioRate(rate: number, scenario: Scenario): number {
+    return Decimal.max(new Decimal(rate).plus(scenario.rateAdjustment), 0).toNumber();
+  }
+
+  /**
+   * Expand a rate schedule into rate periods with the scenario's rate shock applied to each
+   */
+  static resolveScenarioRatePeriods(
+    rateSchedule: RateSchedule,
+    nominalRate: number,
+    totalMonths: number,
+    scenario: Scenario
+  ): RatePeriod[] {
+    return RateScheduleService
+      .resolveRatePeriods(rateSchedule, nominalRate, totalMonths)
+      .map(period => ({ ...period, rate: this.applyScenarioRate(period.rate, scenario) }));
+  }
+
   /**
    * Calculate bank finance amount with precision
    */
@@ -152,6 +442,46 @@ export class EMICalculationService {
     return cost.mul(bankFinanceRatio).toNumber();
   }
 
+  /**
+   * Monthly installment of an existing obligation, derived from its balance, rate
+   * and remaining months when none was entered
+   */
+  static getObligationInstallment(obligation: ExistingObligation): number {
+    if (obligation.monthlyInstallment > 0 || obligation.remainingMonths <= 0) {
+      return obligation.monthlyInstallment;
+    }
+    return this.calculateEMI(obligation.outstandingBalance, obligation.rate, obligation.remainingMonths);
+  }
+
+  /**
+   * Installments of ledger obligations still running at the first after-grace installment
+   */
+  static calculateObligationInstallments(ledger: ObligationLedger, gracePeriod: number): number {
+    return ledger.obligations
+      .filter(obligation => ObligationService.isCounted(obligation, ledger, gracePeriod))
+      .reduce((total, obligation) => total.plus(this.getObligationInstallment(obligation)), new Decimal(0))
+      .toNumber();
+  }
+
+  /**
+   * Outstanding balances of obligations refinanced into the new loan
+   */
+  static calculateTakeoverAmount(ledger: ObligationLedger): number {
+    return ledger.obligations
+      .filter(obligation => obligation.settledByNewLoan)
+      .reduce((total, obligation) => total.plus(obligation.outstandingBalance), new Decimal(0))
+      .toNumber();
+  }
+
+  /**
+   * Amount of the new facility: the project's bank finance plus any refinanced balances
+   */
+  static calculateFinancedAmount(formData: FormData): number {
+    return new Decimal(this.calculateBankFinanceAmount(formData.totalProjectCost, formData.equityPercentage))
+      .plus(this.calculateTakeoverAmount(formData.obligationLedger))
+      .toNumber();
+  }
+
   /**
    * Calculate equity amount with precision
    */
@@ -163,83 +493,307 @@ export class EMICalculationService {
     return cost.mul(equity).div(100).toNumber();
   }
 
+  /**
+   * Upfront processing fee charged on the bank finance
+   */
+  static calculateProcessingFee(bankFinanceAmount: number, processingFeeRate: number): number {
+    return new Decimal(bankFinanceAmount).mul(processingFeeRate).div(100).toNumber();
+  }
+
+  /**
+   * Total cost of borrowing and APR for a scenario. Upfront fees reduce the amount
+   * received; insurance premiums and service charges are paid monthly with every
+   * installment of the schedule, grace months included. Prepayments shorten the
+   * schedule and count as outgoings in the months they are made.
+   */
+  static calculateBorrowingCost(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    options: CalculationOptions = {},
+    prepayments: Prepayment[] = []
+  ): BorrowingCost {
+    const {
+      graceMode = 'added_to_tenure',
+      rateSchedule = RateScheduleService.getDefaultRateSchedule()
+    } = options;
+    const numericData = this.convertToNumericFormData(formData);
+    const principal = this.calculateFinancedAmount(numericData);
+    const ratePeriods = this.resolveScenarioRatePeriods(
+      rateSchedule,
+      numericData.rate,
+      numericData.gracePeriod + numericData.repaymentPeriod,
+      scenario
+    );
+    const schedule = this.generateAmortizationSchedule({
+      principal,
+      rate: ratePeriods[0].rate,
+      repaymentPeriod: numericData.repaymentPeriod,
+      gracePeriod: numericData.gracePeriod,
+      graceMode,
+      ratePeriods,
+      prepayments
+    });
+
+    return this.summarizeBorrowingCost(numericData, principal, schedule, ratePeriods[0].rate);
+  }
+
+  /**
+   * Fees, premiums and APR of a generated schedule, with the fee and insurance
+   * inputs of the form
+   */
+  static summarizeBorrowingCost(
+    numericData: FormData,
+    principal: number,
+    schedule: AmortizationSchedule,
+    nominalRate: number
+  ): BorrowingCost {
+    const processingFee = this.calculateProcessingFee(principal, numericData.processingFeeRate);
+    const upfrontFees = new Decimal(processingFee).plus(numericData.stampDuty);
+    const monthlyInsurance = new Decimal(numericData.propertyInsurance).plus(numericData.lifeInsurance).div(12);
+    const monthlyServiceCharges = new Decimal(numericData.serviceCharges).div(12);
+    const monthlyExtras = monthlyInsurance.plus(monthlyServiceCharges);
+    const months = schedule.rows.length;
+    const totalInsurance = monthlyInsurance.mul(months);
+    const totalServiceCharges = monthlyServiceCharges.mul(months);
+
+    // Cash flows as the borrower sees them: the net amount received, then every monthly outgoing
+    const cashFlows = [
+      new Decimal(principal).minus(upfrontFees).toNumber(),
+      ...schedule.rows.map(row => monthlyExtras.plus(row.payment).plus(row.prepayment).negated().toNumber())
+    ];
+    const monthlyIRR = months > 0 ? this.calculateIRR(cashFlows, nominalRate / 1200) : null;
+
+    return {
+      processingFee,
+      stampDuty: numericData.stampDuty,
+      upfrontFees: upfrontFees.toNumber(),
+      monthlyInsurance: monthlyInsurance.toNumber(),
+      monthlyServiceCharges: monthlyServiceCharges.toNumber(),
+      effectiveEMI: monthlyExtras.plus(schedule.emiPeriods[0]?.emi ?? 0).toNumber(),
+      totalInterest: schedule.totalInterest,
+      totalInsurance: totalInsurance.toNumber(),
+      totalServiceCharges: totalServiceCharges.toNumber(),
+      totalCostOfBorrowing: upfrontFees.plus(schedule.totalInterest).plus(totalInsurance).plus(totalServiceCharges).toNumber(),
+      nominalRate,
+      apr: monthlyIRR === null ? null : new Decimal(monthlyIRR).mul(1200).toNumber(),
+      effectiveAnnualRate: monthlyIRR === null ? null : new Decimal(monthlyIRR).plus(1).pow(12).minus(1).mul(100).toNumber()
+    };
+  }
+
+  /**
+   * Rate per period at which a series of cash flows, the first one now, is worth
+   * nothing today. Solved by Newton's method; null when it does not converge.
+   */
+  static calculateIRR(cashFlows: number[], guess: number = 0.01): number | null {
+    let rate = new Decimal(guess);
+    for (let iteration = 0; iteration < this.MAX_IRR_ITERATIONS; iteration++) {
+      const growth = rate.plus(1);
+      if (growth.lte(0)) return null;
+
+      // NPV and its derivative with respect to the rate, discounting one period at a time
+      let npv = new Decimal(0);
+      let derivative = new Decimal(0);
+      let discount = new Decimal(1);
+      cashFlows.forEach((flow, period) => {
+        npv = npv.plus(discount.mul(flow));
+        derivative = derivative.minus(discount.div(growth).mul(flow).mul(period));
+        discount = discount.div(growth);
+      });
+      if (derivative.isZero()) return null;
+
+      const next = rate.minus(npv.div(derivative));
+      if (next.minus(rate).abs().lt(1e-12)) {
+        return next.toNumber();
+      }
+      rate = next;
+    }
+    return null;
+  }
+
+  /**
+   * Add whole months to a date and return it as an ISO calendar date (YYYY-MM-DD)
+   */
+  static addMonths(date: Date, months: number): string {
+    const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+    const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+    result.setDate(Math.min(date.getDate(), lastDay));
+
+    const month = String(result.getMonth() + 1).padStart(2, '0');
+    const day = String(result.getDate()).padStart(2, '0');
+    return `${result.getFullYear()}-${month}-${day}`;
+  }
+
   /**
    * Main calculation function that performs all EMI calculations with precision
    */
   static performCalculations(
     formData: FormDataStrings,
     scenario: Scenario,
-    isAfterGrace: boolean
+    isAfterGrace: boolean,
+    options: CalculationOptions = {}
   ): Calculations {
+    const {
+      graceMode = 'added_to_tenure',
+      calculationDate = new Date(),
+      startDate = calculationDate,
+      policy = PolicyService.getDefaultPolicy(),
+      taxTables = TaxTableService.getDefaultTaxTables(),
+      rateSchedule = RateScheduleService.getDefaultRateSchedule()
+    } = options;
+    const taxTable = TaxTableService.getEffectiveTable(taxTables, calculationDate);
+
     // Convert string form data to numeric values
     const numericData = this.convertToNumericFormData(formData);
 
-    // Apply scenario multipliers
-    const {
-      adjustedSalary,
-      adjustedRent,
-      adjustedOther,
-      adjustedProjectIncome
-    } = this.applyScenarioMultipliers(numericData, scenario);
-
-    // Calculate total income with precision
-    const totalIncome = new Decimal(adjustedSalary)
-      .plus(adjustedRent)
-      .plus(adjustedOther)
+    // Apply scenario multipliers to every applicant's income lines
+    const applicantIncomes = this.getApplicants(numericData).map(applicant => {
+      const { adjustedSalary, adjustedRent, adjustedOther } = this.applyScenarioMultipliers({ ...numericData, ...applicant }, scenario);
+      return {
+        applicant,
+        adjustedRent,
+        totalIncome: new Decimal(adjustedSalary).plus(adjustedRent).plus(adjustedOther).toNumber()
+      };
+    });
+    const { adjustedProjectIncome } = this.applyScenarioMultipliers(numericData, scenario);
+    const adjustedRent = applicantIncomes
+      .reduce((total, { adjustedRent }) => total.plus(adjustedRent), new Decimal(0))
+      .toNumber();
+    const obligationInstallments = this.calculateObligationInstallments(numericData.obligationLedger, numericData.gracePeriod);
+    const existingLoans = applicantIncomes
+      .reduce((total, { applicant }) => total.plus(applicant.existingLoans), new Decimal(0))
+      .toNumber();
+
+    // Resets past the end of the loan are never reached by the schedule
+    const ratePeriods = this.resolveScenarioRatePeriods(
+      rateSchedule,
+      numericData.rate,
+      numericData.gracePeriod + numericData.repaymentPeriod,
+      scenario
+    );
+    const effectiveRate = ratePeriods[0].rate;
+
+    // Household income of all applicants with precision
+    const totalIncome = applicantIncomes
+      .reduce((total, applicant) => total.plus(applicant.totalIncome), new Decimal(0))
       .toNumber();
 
     // Calculate total expenditure based on income level
-    const expenditureRate = new Decimal(totalIncome > 25000 ? 0.35 : 0.40);
+    const expenditureRate = new Decimal(totalIncome > policy.livingExpenseThreshold
+      ? policy.livingExpenseRateAboveThreshold
+      : policy.livingExpenseRateAtOrBelowThreshold);
     const totalExpenditure = new Decimal(totalIncome)
       .mul(expenditureRate)
+      .div(100)
+      .mul(scenario.expenditureMultiplier)
       .toNumber();
 
-    // Grace period logic for project income
-    const totalProjectIncome = isAfterGrace ? adjustedProjectIncome : 0;
+    // Calculate bank finance amount, including any refinanced obligations
+    const takeoverAmount = this.calculateTakeoverAmount(numericData.obligationLedger);
+    const bankFinanceAmount = this.calculateFinancedAmount(numericData);
 
-    // Calculate bank finance amount
-    const bankFinanceAmount = this.calculateBankFinanceAmount(
-      numericData.totalProjectCost, 
-      numericData.equityPercentage
+    // Split the tenure into grace and amortization months for the selected grace mode
+    const timeline = this.resolveGraceTimeline(
+      bankFinanceAmount,
+      effectiveRate,
+      numericData.repaymentPeriod,
+      numericData.gracePeriod,
+      graceMode
     );
 
+    // Grace period logic for project income; a delayed project earns nothing at the
+    // first after-grace installment, which is where DSCR is assessed
+    const projectIncomeStartMonth = timeline.graceMonths + scenario.projectIncomeDelayMonths + 1;
+    const totalProjectIncome = isAfterGrace && scenario.projectIncomeDelayMonths === 0 ? adjustedProjectIncome : 0;
+
     // Calculate repayments - Always calculate after-grace repayment for DSCR
-    const afterGraceRepayment = this.calculateEMI(
-      bankFinanceAmount, 
-      numericData.rate, 
-      numericData.repaymentPeriod
-    );
+    let afterGraceRepayment = 0;
+    let totalInterest = 0;
+    let emiPeriods: EMIPeriod[] = [];
+
+    if (ratePeriods.length > 1) {
+      // Floating rate: walk the schedule to recompute the EMI at each reset
+      const schedule = this.generateAmortizationSchedule({
+        principal: bankFinanceAmount,
+        rate: effectiveRate,
+        repaymentPeriod: numericData.repaymentPeriod,
+        gracePeriod: numericData.gracePeriod,
+        graceMode,
+        ratePeriods
+      });
+      emiPeriods = schedule.emiPeriods;
+      afterGraceRepayment = emiPeriods.length > 0 ? emiPeriods[0].emi : 0;
+      totalInterest = schedule.totalInterest;
+    } else if (timeline.amortizationMonths > 0) {
+      afterGraceRepayment = this.calculateEMI(
+        timeline.amortizedPrincipal, 
+        effectiveRate, 
+        timeline.amortizationMonths
+      );
+      emiPeriods = [{
+        startMonth: timeline.graceMonths + 1,
+        endMonth: timeline.totalMonths,
+        rate: effectiveRate,
+        emi: afterGraceRepayment
+      }];
+
+      // Total interest = everything paid over the loan life minus the amount borrowed
+      totalInterest = new Decimal(timeline.gracePeriodRepayment)
+        .mul(timeline.graceMonths)
+        .plus(new Decimal(afterGraceRepayment).mul(timeline.amortizationMonths))
+        .minus(bankFinanceAmount)
+        .toNumber();
+    }
     
-    const gracePeriodRepayment = this.calculateGracePeriodPayment(
-      bankFinanceAmount, 
-      numericData.rate
-    );
+    const gracePeriodRepayment = timeline.gracePeriodRepayment;
+    const maxRepayment = emiPeriods.reduce((max, period) => Math.max(max, period.emi), afterGraceRepayment);
 
     // Current monthly repayment (what customer pays now)
     const currentMonthlyRepayment = isAfterGrace ? afterGraceRepayment : gracePeriodRepayment;
 
-    // Maintenance cost calculation (5% of Rent + Project Income) with precision
+    // Maintenance cost calculation (policy % of Rent + Project Income) with precision
     const maintenanceCost = (adjustedRent > 0 || adjustedProjectIncome > 0) ? 
       new Decimal(adjustedRent)
-        .plus(isAfterGrace ? adjustedProjectIncome : 0)
-        .mul(0.05)
+        .plus(totalProjectIncome)
+        .mul(policy.maintenanceCostRate)
+        .div(100)
         .toNumber() : 0;
 
-    // Calculate income tax based on total annual income
-    const annualTotalIncome = new Decimal(totalIncome)
-      .plus(totalProjectIncome)
-      .mul(12)
+    // Income tax is assessed per applicant on their own annual income; project
+    // income belongs to the primary applicant, who always comes first
+    const applicantTaxes = applicantIncomes.map(({ totalIncome: applicantIncome }, index) => {
+      const annualIncome = new Decimal(applicantIncome)
+        .plus(index === 0 ? totalProjectIncome : 0)
+        .mul(12)
+        .toNumber();
+      return this.calculateIncomeTax(annualIncome, calculationDate, [taxTable]);
+    });
+    const monthlyIncomeTax = applicantTaxes
+      .reduce((total, tax) => total.plus(tax), new Decimal(0))
       .toNumber();
-    const monthlyIncomeTax = this.calculateIncomeTax(annualTotalIncome);
+
+    const householdIncome = new Decimal(totalIncome).plus(totalProjectIncome);
+    const applicants: ApplicantContribution[] = applicantIncomes.map(({ applicant, totalIncome: applicantIncome }, index) => {
+      const grossIncome = new Decimal(applicantIncome)
+        .plus(index === 0 ? totalProjectIncome : 0);
+      return {
+        applicantId: applicant.id,
+        name: applicant.name,
+        totalIncome: grossIncome.toNumber(),
+        incomeTax: applicantTaxes[index],
+        existingLoans: applicant.existingLoans,
+        netContribution: grossIncome.minus(applicantTaxes[index]).toNumber(),
+        incomeShare: householdIncome.isZero() ? 0 : grossIncome.div(householdIncome).mul(100).toNumber()
+      };
+    });
 
     // Total project expenditure calculation with precision
     let totalProjectExpenditure = new Decimal(maintenanceCost)
       .plus(monthlyIncomeTax);
     
-    // Add 20% of total income in certain scenarios
-    if (scenario === 'income_reduce') {
+    // Add the scenario's stress expenditure share of total income
+    if (scenario.stressExpenditureRate > 0) {
       totalProjectExpenditure = totalProjectExpenditure
-        .plus(new Decimal(totalIncome).mul(0.20));
+        .plus(new Decimal(totalIncome).mul(scenario.stressExpenditureRate).div(100));
     }
 
     const finalProjectExpenditure = totalProjectExpenditure.toNumber();
@@ -252,12 +806,31 @@ export class EMICalculationService {
       .toNumber();
 
     // DSCR calculation with precision - always use after-grace repayment
-    const totalRepaymentObligation = new Decimal(numericData.existingLoans)
+    const totalRepaymentObligation = new Decimal(existingLoans)
       .plus(afterGraceRepayment);
     
     const dscr = totalRepaymentObligation.isZero() ? 
       0 : new Decimal(netIncome).div(totalRepaymentObligation).toNumber();
 
+    // Worst case: the highest installment over the loan life
+    const worstCaseObligation = new Decimal(existingLoans)
+      .plus(maxRepayment);
+    
+    const worstCaseDSCR = worstCaseObligation.isZero() ? 
+      0 : new Decimal(netIncome).div(worstCaseObligation).toNumber();
+
+    // DTI on gross income and FOIR on income after tax, with the same installments as DSCR
+    const grossIncome = new Decimal(totalIncome).plus(totalProjectIncome);
+    const incomeAfterTax = grossIncome.minus(monthlyIncomeTax);
+    const dti = grossIncome.lte(0) ?
+      0 : totalRepaymentObligation.div(grossIncome).mul(100).toNumber();
+    const foir = incomeAfterTax.lte(0) ?
+      0 : totalRepaymentObligation.div(incomeAfterTax).mul(100).toNumber();
+
+    // LTV against the appraised value, which can differ from the project cost
+    const ltv = numericData.propertyValue > 0 ?
+      new Decimal(bankFinanceAmount).div(numericData.propertyValue).mul(100).toNumber() : null;
+
     return {
       totalIncome,
       totalExpenditure,
@@ -270,29 +843,237 @@ export class EMICalculationService {
       dscr, // Always based on after-grace repayment
       incomeTax: monthlyIncomeTax,
       maintenanceCost,
-      bankFinanceAmount
+      bankFinanceAmount,
+      graceMode,
+      amortizationPeriod: timeline.amortizationMonths,
+      totalMonths: timeline.totalMonths,
+      capitalizedInterest: timeline.capitalizedInterest,
+      totalInterest,
+      loanEndDate: this.addMonths(startDate, timeline.totalMonths),
+      policyId: policy.id,
+      policyName: policy.name,
+      policyVersion: policy.version,
+      taxTableId: taxTable.id,
+      taxTableName: taxTable.name,
+      scenarioId: scenario.id,
+      effectiveRate,
+      projectIncomeStartMonth,
+      emiPeriods,
+      maxRepayment,
+      worstCaseDSCR,
+      existingLoans,
+      obligationInstallments,
+      takeoverAmount,
+      dti,
+      foir,
+      ltv,
+      applicants
     };
   }
 
   /**
-   * Get tax brackets for display purposes
+   * DSCR after grace for the given inputs, as shown on the scenario cards
    */
-  static getTaxBrackets(): TaxBracket[] {
-    return [...this.taxBrackets];
+  private static afterGraceDSCR(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    options: CalculationOptions
+  ): number {
+    return this.performCalculations(formData, scenario, true, options).dscr;
   }
 
   /**
-   * Utility method to round to specified decimal places (for display purposes)
+   * Largest bank finance amount, including refinanced obligations, that keeps DSCR
+   * at or above the target. Net income does not depend on the amount borrowed and
+   * the installment is linear in principal, so the limit is solved directly from a
+   * reference loan.
    */
-  static roundToDecimalPlaces(value: number, places: number = 2): number {
-    return new Decimal(value).toDecimalPlaces(places).toNumber();
+  static solveMaxBankFinance(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    targetDSCR: number,
+    options: CalculationOptions = {}
+  ): number | null {
+    const referencePrincipal = 1000000;
+    const reference = this.performCalculations(
+      { ...formData, totalProjectCost: referencePrincipal.toString(), equityPercentage: '0' },
+      scenario,
+      true,
+      options
+    );
+    const referenceRepayment = reference.afterGraceRepayment || 0;
+    if (referenceRepayment <= 0 || targetDSCR <= 0) return null;
+
+    const maxRepayment = new Decimal(reference.netIncome).div(targetDSCR).minus(reference.existingLoans);
+    if (maxRepayment.lte(0)) return null;
+
+    return maxRepayment
+      .div(referenceRepayment)
+      .mul(new Decimal(referencePrincipal).plus(reference.takeoverAmount))
+      .toDecimalPlaces(0, Decimal.ROUND_FLOOR)
+      .toNumber();
+  }
+
+  /**
+   * Smallest equity share of the project cost that keeps DSCR at or above the target
+   */
+  static solveMinEquityPercentage(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    targetDSCR: number,
+    options: CalculationOptions = {}
+  ): number | null {
+    const totalProjectCost = this.getNumericValue(formData.totalProjectCost);
+    const maxBankFinance = this.solveMaxBankFinance(formData, scenario, targetDSCR, options);
+    if (maxBankFinance === null || totalProjectCost <= 0) return null;
+
+    // Refinanced balances come first; equity only covers the project
+    const maxProjectFinance = new Decimal(maxBankFinance)
+      .minus(this.calculateTakeoverAmount(this.convertToNumericFormData(formData).obligationLedger));
+    if (maxProjectFinance.lt(0)) return null;
+    if (maxProjectFinance.gte(totalProjectCost)) return 0;
+
+    return new Decimal(1)
+      .minus(maxProjectFinance.div(totalProjectCost))
+      .mul(100)
+      .toDecimalPlaces(2, Decimal.ROUND_CEIL)
+      .toNumber();
+  }
+
+  /**
+   * Highest nominal rate (before scenario adjustments) that keeps DSCR at or above
+   * the target, found by bisection up to the maximum accepted rate
+   */
+  static solveMaxRate(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    targetDSCR: number,
+    options: CalculationOptions = {}
+  ): number | null {
+    const meetsTarget = (rate: number) =>
+      this.afterGraceDSCR({ ...formData, rate: rate.toString() }, scenario, options) >= targetDSCR;
+
+    if (!meetsTarget(0)) return null;
+    if (meetsTarget(this.MAX_SOLVER_RATE)) return this.MAX_SOLVER_RATE;
+
+    let low = 0;
+    let high = this.MAX_SOLVER_RATE;
+    while (high - low > 0.001) {
+      const mid = (low + high) / 2;
+      if (meetsTarget(mid)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    return new Decimal(low).toDecimalPlaces(2, Decimal.ROUND_FLOOR).toNumber();
+  }
+
+  /**
+   * Shortest repayment period in months that keeps DSCR at or above the target
+   */
+  static solveMinTenure(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    targetDSCR: number,
+    options: CalculationOptions = {}
+  ): number | null {
+    const meetsTarget = (tenure: number) =>
+      this.afterGraceDSCR({ ...formData, repaymentPeriod: tenure.toString() }, scenario, options) >= targetDSCR;
+
+    // Inside-tenure grace needs at least one amortizing month
+    const gracePeriod = this.getNumericValue(formData.gracePeriod);
+    let low = options.graceMode === 'inside_tenure' ? gracePeriod + 1 : 1;
+    let high = this.MAX_SOLVER_TENURE;
+    if (low > high || !meetsTarget(high)) return null;
+
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (meetsTarget(mid)) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Run every solver for one scenario. The target defaults to the policy's
+   * "Excellent" DSCR threshold.
+   */
+  static solveAffordability(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    options: CalculationOptions = {},
+    targetDSCR: number = (options.policy || PolicyService.getDefaultPolicy()).dscrExcellentThreshold
+  ): AffordabilityResult {
+    return {
+      scenarioId: scenario.id,
+      scenarioName: scenario.name,
+      targetDSCR,
+      maxBankFinance: this.solveMaxBankFinance(formData, scenario, targetDSCR, options),
+      minEquityPercentage: this.solveMinEquityPercentage(formData, scenario, targetDSCR, options),
+      maxRate: this.solveMaxRate(formData, scenario, targetDSCR, options),
+      minTenure: this.solveMinTenure(formData, scenario, targetDSCR, options)
+    };
   }
 
   /**
-   * Utility method to format currency (for display purposes)
+   * DSCR after grace at each nominal rate (before scenario adjustments)
    */
-  static formatCurrency(value: number, currency: string = 'MVR'): string {
-    const rounded = this.roundToDecimalPlaces(value, 2);
-    return `${currency} ${rounded.toLocaleString()}`;
+  static calculateRateSensitivity(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    rates: number[],
+    options: CalculationOptions = {}
+  ): SensitivityPoint[] {
+    return rates.map(rate => ({
+      value: rate,
+      dscr: this.afterGraceDSCR({ ...formData, rate: rate.toString() }, scenario, options)
+    }));
+  }
+
+  /**
+   * DSCR after grace with every income line reduced by each percentage, on top
+   * of the scenario's own multipliers
+   */
+  static calculateIncomeReductionSensitivity(
+    formData: FormDataStrings,
+    scenario: Scenario,
+    reductionPercentages: number[],
+    options: CalculationOptions = {}
+  ): SensitivityPoint[] {
+    return reductionPercentages.map(reduction => {
+      const factor = new Decimal(100).minus(reduction).div(100);
+      const reducedScenario: Scenario = {
+        ...scenario,
+        salaryMultiplier: factor.mul(scenario.salaryMultiplier).toNumber(),
+        rentMultiplier: factor.mul(scenario.rentMultiplier).toNumber(),
+        otherMultiplier: factor.mul(scenario.otherMultiplier).toNumber(),
+        projectIncomeMultiplier: factor.mul(scenario.projectIncomeMultiplier).toNumber()
+      };
+
+      return { value: reduction, dscr: this.afterGraceDSCR(formData, reducedScenario, options) };
+    });
+  }
+
+  /**
+   * Get the tax brackets effective on the calculation date for display purposes
+   */
+  static getTaxBrackets(
+    calculationDate: Date = new Date(),
+    taxTables: TaxTable[] = TaxTableService.getDefaultTaxTables()
+  ): TaxBracket[] {
+    return [...TaxTableService.getEffectiveTable(taxTables, calculationDate).brackets];
+  }
+
+  /**
+   * Utility method to round to specified decimal places (for display purposes)
+   */
+  static roundToDecimalPlaces(value: number, places: number = 2): number {
+    return new Decimal(value).toDecimalPlaces(places).toNumber();
   }
 }
\ No newline at end of file
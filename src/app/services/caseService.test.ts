@@ -0,0 +1,125 @@
+// src/app/services/caseService.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SavedCase } from '../types/emi';
+import { CaseService, NewSavedCase } from './caseService';
+import { LocaleService } from './localeService';
+import { EMICalculationService } from './calculationService';
+import { LoanService } from './loanService';
+import { PolicyService } from './policyService';
+import { RateScheduleService } from './rateScheduleService';
+import { ScenarioService } from './scenarioService';
+import { ASSESSMENT_FORM_DATA } from './calculationService.fixtures';
+
+const options = { calculationDate: new Date(2025, 0, 15), policy: PolicyService.getDefaultPolicy() };
+const scenarios = ScenarioService.getBuiltInScenarios(options.policy);
+const loanTypes = LoanService.getDefaultLoanTypes();
+
+const newCase = (name: string, loanTypeId = loanTypes[0].id): NewSavedCase => ({
+  name,
+  notes: '',
+  formData: ASSESSMENT_FORM_DATA,
+  loanTypeId,
+  scenarioId: scenarios[0].id,
+  graceMode: 'added_to_tenure',
+  policyId: options.policy.id,
+  rateSchedule: RateScheduleService.getDefaultRateSchedule(),
+  prepayments: [],
+  calculations: EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenarios[0], true, options),
+  scenarioResults: scenarios.map(scenario => ({
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    calculations: EMICalculationService.performCalculations(ASSESSMENT_FORM_DATA, scenario, true, options)
+  }))
+});
+
+// A browser with localStorage, as CaseService only touches storage in the browser
+const stubBrowser = () => {
+  const stored = new Map<string, string>();
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value)
+  });
+};
+
+describe('CaseService', () => {
+  beforeEach(stubBrowser);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the after-grace result of every scenario', () => {
+    const [saved] = CaseService.saveCase(CaseService.createCase(newCase('Ahmed')));
+
+    expect(saved.scenarioResults.map(result => result.scenarioId)).toEqual(scenarios.map(scenario => scenario.id));
+    expect(saved.scenarioResults[1].calculations.dscr).toBeLessThan(saved.scenarioResults[0].calculations.dscr);
+  });
+
+  it('copies and deep-freezes the quoted figures', () => {
+    const input = newCase('Ahmed');
+    const savedCase = CaseService.createCase(input);
+
+    expect(savedCase.calculations).not.toBe(input.calculations);
+    expect(savedCase.formData.obligationLedger).not.toBe(input.formData.obligationLedger);
+    expect(Object.isFrozen(savedCase.calculations.emiPeriods)).toBe(true);
+    expect(Object.isFrozen(savedCase.calculations.applicants[0])).toBe(true);
+    expect(Object.isFrozen(savedCase.scenarioResults[1].calculations)).toBe(true);
+    expect(() => {
+      (savedCase.calculations.emiPeriods[0] as { emi: number }).emi = 0;
+    }).toThrow(TypeError);
+    expect(Object.isFrozen(input.calculations)).toBe(false);
+  });
+
+  it('keeps cases saved from another tab since this one loaded', () => {
+    const thisTab = CaseService.loadCases();
+    CaseService.saveCase(CaseService.createCase(newCase('From another tab')));
+
+    const saved = CaseService.saveCase(CaseService.createCase(newCase('From this tab')));
+
+    expect(thisTab).toEqual([]);
+    expect(saved.map(savedCase => savedCase.name).sort()).toEqual(['From another tab', 'From this tab']);
+    expect(CaseService.loadCases()).toEqual(saved);
+  });
+
+  it('deletes one case and leaves the rest', () => {
+    const [first] = CaseService.saveCase(CaseService.createCase(newCase('First')));
+    CaseService.saveCase(CaseService.createCase(newCase('Second')));
+
+    expect(CaseService.deleteCase(first.id).map(savedCase => savedCase.name)).toEqual(['Second']);
+  });
+
+  it('loads cases saved before scenario results were kept', () => {
+    const legacyCase: Partial<SavedCase> = { ...CaseService.createCase(newCase('Legacy')) };
+    delete legacyCase.scenarioResults;
+    localStorage.setItem('savedCases', JSON.stringify([legacyCase]));
+
+    const [loaded] = CaseService.loadCases();
+    expect(loaded.scenarioResults).toEqual([]);
+    expect(loaded.calculations.dscr).toBe(legacyCase.calculations?.dscr);
+  });
+
+  it('names copies in the given language, numbering repeats', () => {
+    const original = CaseService.createCase(newCase('Ahmed'));
+    const dhivehi = LocaleService.getTranslator('dv');
+    const firstCopy = CaseService.duplicateCase(original, [original], dhivehi);
+
+    expect(firstCopy.name).toBe('Ahmed (ކޮޕީ)');
+    expect(CaseService.duplicateCase(original, [original, firstCopy], dhivehi).name).toBe('Ahmed (ކޮޕީ 2)');
+    expect(CaseService.duplicateCase(original, [original]).name).toBe('Ahmed (copy)');
+  });
+
+  it('searches by loan type name, falling back to the id of a deleted loan type', () => {
+    const [homeLoan, otherLoan] = loanTypes;
+    const cases: SavedCase[] = [
+      CaseService.createCase(newCase('Ahmed', homeLoan.id)),
+      CaseService.createCase(newCase('Mariyam', otherLoan.id)),
+      CaseService.createCase(newCase('Hassan', 'retired-product'))
+    ];
+
+    expect(CaseService.searchCases(cases, homeLoan.name.toUpperCase(), loanTypes).map(savedCase => savedCase.name))
+      .toEqual(['Ahmed']);
+    expect(CaseService.searchCases(cases, 'retired', loanTypes).map(savedCase => savedCase.name)).toEqual(['Hassan']);
+  });
+});
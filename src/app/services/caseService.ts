@@ -0,0 +1,221 @@
+// src/app/services/caseService.ts
+
+import { LoanType, SavedCase } from '../types/emi';
+import { ObligationService } from './obligationService';
+import { LocaleService, Translate } from './localeService';
+
+export type NewSavedCase = Omit<SavedCase, 'id' | 'savedAt'>;
+
+export class CaseService {
+  private static readonly STORAGE_KEY = 'savedCases';
+
+  /**
+   * Load saved applicant cases from localStorage, newest first
+   */
+  static loadCases(): SavedCase[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    try {
+      const savedCases = localStorage.getItem(this.STORAGE_KEY);
+      if (savedCases) {
+        const parsed = JSON.parse(savedCases);
+        if (Array.isArray(parsed)) {
+          return this.sortNewestFirst(
+            parsed
+              .filter(savedCase => this.isValidCase(savedCase))
+              .map(savedCase => this.freezeSnapshot({
+                ...savedCase,
+                formData: ObligationService.migrateExistingLoans(savedCase.formData),
+                scenarioResults: Array.isArray(savedCase.scenarioResults) ? savedCase.scenarioResults : []
+              }))
+          );
+        }
+      }
+    } catch (err) {
+      console.error('Error loading saved cases:', err);
+    }
+
+    return [];
+  }
+
+  /**
+   * Save applicant cases to localStorage
+   */
+  static saveCases(cases: SavedCase[]): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(cases));
+    } catch (err) {
+      console.error('Error saving cases:', err);
+    }
+  }
+
+  /**
+   * Add or replace one case and save. Storage is read again first so cases saved
+   * from another tab since this one loaded are kept; returns the saved list.
+   */
+  static saveCase(savedCase: SavedCase): SavedCase[] {
+    const cases = [savedCase, ...this.loadCases().filter(existing => existing.id !== savedCase.id)];
+    this.saveCases(cases);
+    return this.sortNewestFirst(cases);
+  }
+
+  /**
+   * Delete one case and save, keeping cases saved from other tabs; returns the saved list
+   */
+  static deleteCase(id: string): SavedCase[] {
+    const cases = this.loadCases().filter(savedCase => savedCase.id !== id);
+    this.saveCases(cases);
+    return cases;
+  }
+
+  /**
+   * Find a saved case by id
+   */
+  static findCase(cases: SavedCase[], id: string): SavedCase | undefined {
+    return cases.find(savedCase => savedCase.id === id);
+  }
+
+  /**
+   * Stamp a new case with an id and save time. The case is copied, so later edits to
+   * the calculator cannot reach it, and its quoted figures are frozen.
+   */
+  static createCase(newCase: NewSavedCase): SavedCase {
+    return this.freezeSnapshot({
+      ...newCase,
+      id: this.generateId(newCase.name),
+      savedAt: new Date().toISOString(),
+      name: newCase.name.trim(),
+      notes: newCase.notes.trim()
+    });
+  }
+
+  /**
+   * Copy a case under a new name; the copy keeps the original quote
+   */
+  static duplicateCase(
+    savedCase: SavedCase,
+    existingCases: SavedCase[],
+    t: Translate = LocaleService.getTranslator('en')
+  ): SavedCase {
+    let name = t('history.copyName', { name: savedCase.name });
+    for (let copy = 2; !this.isNameUnique(name, existingCases); copy++) {
+      name = t('history.copyNameNumbered', { name: savedCase.name, number: copy });
+    }
+
+    return this.createCase({
+      name,
+      notes: savedCase.notes,
+      formData: savedCase.formData,
+      loanTypeId: savedCase.loanTypeId,
+      scenarioId: savedCase.scenarioId,
+      graceMode: savedCase.graceMode,
+      policyId: savedCase.policyId,
+      rateSchedule: savedCase.rateSchedule,
+      prepayments: savedCase.prepayments,
+      calculations: savedCase.calculations,
+      scenarioResults: savedCase.scenarioResults,
+      currency: savedCase.currency
+    });
+  }
+
+  /**
+   * Filter cases by name, notes or loan type name. Cases whose loan type has since
+   * been deleted match on its id, as that is what the history shows for them.
+   */
+  static searchCases(cases: SavedCase[], query: string, loanTypes: LoanType[] = []): SavedCase[] {
+    const term = query.trim().toLowerCase();
+    if (!term) return cases;
+
+    return cases.filter(savedCase => {
+      const loanTypeName = loanTypes.find(loan => loan.id === savedCase.loanTypeId)?.name || savedCase.loanTypeId;
+      return (
+        savedCase.name.toLowerCase().includes(term) ||
+        savedCase.notes.toLowerCase().includes(term) ||
+        loanTypeName.toLowerCase().includes(term)
+      );
+    });
+  }
+
+  /**
+   * Validate the case name and return an error message, or null when valid
+   */
+  static validateCaseName(name: string, existingCases: SavedCase[], t: Translate = LocaleService.getTranslator('en')): string | null {
+    if (name.trim().length < 2) {
+      return t('validation.caseNameShort');
+    }
+    if (!this.isNameUnique(name, existingCases)) {
+      return t('validation.caseNameTaken');
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a saved case read from storage
+   */
+  static isValidCase(savedCase: unknown): savedCase is SavedCase {
+    if (typeof savedCase !== 'object' || savedCase === null) {
+      return false;
+    }
+
+    const candidate = savedCase as Record<string, unknown>;
+    return (
+      typeof candidate.id === 'string' &&
+      candidate.id.trim().length > 0 &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.notes === 'string' &&
+      typeof candidate.savedAt === 'string' &&
+      !isNaN(new Date(candidate.savedAt).getTime()) &&
+      typeof candidate.formData === 'object' &&
+      candidate.formData !== null &&
+      typeof candidate.loanTypeId === 'string' &&
+      typeof candidate.scenarioId === 'string' &&
+      typeof candidate.graceMode === 'string' &&
+      typeof candidate.policyId === 'string' &&
+      typeof candidate.rateSchedule === 'object' &&
+      candidate.rateSchedule !== null &&
+      Array.isArray(candidate.prepayments) &&
+      typeof candidate.calculations === 'object' &&
+      candidate.calculations !== null &&
+      (candidate.scenarioResults === undefined || Array.isArray(candidate.scenarioResults))
+    );
+  }
+
+  /**
+   * Generate a unique ID for new cases
+   */
+  static generateId(name: string): string {
+    return 'case-' + name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') + '-' + Date.now();
+  }
+
+  private static isNameUnique(name: string, existingCases: SavedCase[]): boolean {
+    return !existingCases.some(savedCase => savedCase.name.toLowerCase() === name.trim().toLowerCase());
+  }
+
+  private static sortNewestFirst(cases: SavedCase[]): SavedCase[] {
+    return [...cases].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  private static freezeSnapshot(savedCase: SavedCase): SavedCase {
+    const copy = structuredClone(savedCase);
+    return {
+      ...copy,
+      calculations: this.deepFreeze(copy.calculations),
+      scenarioResults: this.deepFreeze(copy.scenarioResults)
+    };
+  }
+
+  private static deepFreeze<T>(value: T): T {
+    if (typeof value === 'object' && value !== null && !Object.isFrozen(value)) {
+      Object.values(value).forEach(child => this.deepFreeze(child));
+      Object.freeze(value);
+    }
+    return value;
+  }
+}
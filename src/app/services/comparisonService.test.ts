@@ -0,0 +1,95 @@
+// src/app/services/comparisonService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { FormDataStrings, LoanOffer } from '../types/emi';
+import { ComparisonService } from './comparisonService';
+import { EMICalculationService } from './calculationService';
+import { PolicyService } from './policyService';
+import { ScenarioService } from './scenarioService';
+import { ASSESSMENT_FORM_DATA } from './calculationService.fixtures';
+
+const options = { calculationDate: new Date(2025, 0, 15), policy: PolicyService.getDefaultPolicy() };
+const scenarios = ScenarioService.getBuiltInScenarios(options.policy);
+
+// 1,500,000 financed, no grace, with every kind of fee and premium
+const FORM_DATA: FormDataStrings = {
+  ...ASSESSMENT_FORM_DATA,
+  gracePeriod: '0',
+  processingFeeRate: '1',
+  stampDuty: '5000',
+  propertyInsurance: '12000',
+  lifeInsurance: '6000',
+  serviceCharges: '1200'
+};
+
+const offer = (id: string, interestRate: number, tenure: number): LoanOffer => ({ id, name: id, interestRate, tenure });
+
+describe('ComparisonService.compareOffers', () => {
+  it('counts fees, insurance and service charges in the total cost', () => {
+    const [comparison] = ComparisonService.compareOffers(FORM_DATA, [offer('a', 10, 120)], scenarios, options);
+    const monthlyExtras = (12000 + 6000 + 1200) / 12;
+
+    expect(comparison.totalCost).toBeCloseTo(1500000 + comparison.totalInterest + 15000 + 5000 + monthlyExtras * 120, 6);
+  });
+
+  it('picks the cheapest offer by total cost rather than interest alone', () => {
+    // The longer offer charges slightly less interest but two more years of premiums
+    const longer = offer('longer', 8, 120);
+    const shorter = offer('shorter', 10, 96);
+    const [longerResult, shorterResult] = ComparisonService.compareOffers(FORM_DATA, [longer, shorter], scenarios, options);
+
+    expect(longerResult.totalInterest).toBeLessThan(shorterResult.totalInterest);
+    expect(shorterResult.totalCost).toBeLessThan(longerResult.totalCost);
+    expect(shorterResult.isCheapest).toBe(true);
+    expect(shorterResult.breakEvenMonth).toBeNull();
+    expect(longerResult.isCheapest).toBe(false);
+  });
+
+  it('reports the month from which the cheapest offer has cost less so far', () => {
+    const [cheapest, dearer] = ComparisonService.compareOffers(
+      { ...FORM_DATA, processingFeeRate: '', stampDuty: '', propertyInsurance: '', lifeInsurance: '', serviceCharges: '' },
+      [offer('short', 10, 60), offer('long', 9, 240)],
+      scenarios,
+      options
+    );
+
+    // The long loan accrues less interest per month at first, so the short one only
+    // breaks even once its balance has fallen far enough
+    expect(cheapest.isCheapest).toBe(true);
+    expect(dearer.breakEvenMonth).toBeGreaterThan(1);
+    expect(dearer.breakEvenMonth).toBeLessThanOrEqual(60);
+  });
+
+  it('assesses every scenario for each offer', () => {
+    const [comparison] = ComparisonService.compareOffers(FORM_DATA, [offer('a', 10, 120)], scenarios, options);
+    const scenario = scenarios[0];
+
+    expect(comparison.scenarioDSCRs.map(result => result.scenarioId)).toEqual(scenarios.map(candidate => candidate.id));
+    expect(comparison.scenarioDSCRs[0].dscr).toBeCloseTo(
+      EMICalculationService.performCalculations({ ...FORM_DATA, rate: '10', repaymentPeriod: '120' }, scenario, true, options).dscr,
+      10
+    );
+  });
+});
+
+describe('ComparisonService.findBreakEvenMonth', () => {
+  it.each([
+    { cheaper: [1, 2, 3], other: [2, 3, 4], expected: 1 },
+    { cheaper: [5, 6, 7, 8], other: [1, 3, 7, 9], expected: 3 },
+    { cheaper: [2, 4], other: [1, 3, 5, 5], expected: 3 },
+    { cheaper: [1, 2, 9], other: [1, 2, 3], expected: null },
+    { cheaper: [], other: [], expected: null }
+  ])('finds month $expected for $cheaper against $other', ({ cheaper, other, expected }) => {
+    expect(ComparisonService.findBreakEvenMonth(cheaper, other)).toBe(expected);
+  });
+});
+
+describe('ComparisonService.validateOffers', () => {
+  it('requires between two and five well-formed offers', () => {
+    expect(ComparisonService.validateOffers([offer('a', 10, 120)], 0)).toMatch(/2/);
+    expect(ComparisonService.validateOffers([offer('a', 10, 120), offer('b', 60, 120)], 0)).toMatch(/b/);
+    expect(ComparisonService.validateOffers([offer('a', 10, 120), offer('b', 9, 12.5)], 0)).toMatch(/b/);
+    expect(ComparisonService.validateOffers([offer('a', 10, 120), offer('b', 9, 12)], 12, { graceMode: 'inside_tenure' })).toMatch(/b/);
+    expect(ComparisonService.validateOffers([offer('a', 10, 120), offer('b', 9, 12)], 12)).toBeNull();
+  });
+});
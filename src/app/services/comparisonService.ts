@@ -0,0 +1,182 @@
+// src/app/services/comparisonService.ts
+
+import Decimal from 'decimal.js';
+import {
+  CalculationOptions,
+  FormDataStrings,
+  LoanOffer,
+  LoanOfferComparison,
+  LoanType,
+  Scenario
+} from '../types/emi';
+import { EMICalculationService } from './calculationService';
+import { RateScheduleService } from './rateScheduleService';
+import { LocaleService, Translate } from './localeService';
+
+export class ComparisonService {
+  static readonly MIN_OFFERS = 2;
+  static readonly MAX_OFFERS = 5;
+
+  /**
+   * Create an offer from a saved loan type
+   */
+  static createOfferFromLoanType(loanType: LoanType): LoanOffer {
+    return {
+      id: 'offer-' + loanType.id + '-' + Date.now(),
+      name: loanType.name,
+      interestRate: loanType.interestRate,
+      tenure: loanType.tenure,
+      loanTypeId: loanType.id
+    };
+  }
+
+  /**
+   * Create an ad-hoc rate/tenure offer
+   */
+  static createCustomOffer(index: number, interestRate: number = 10, tenure: number = 60): LoanOffer {
+    return {
+      id: 'offer-custom-' + Date.now(),
+      name: `Offer ${index}`,
+      interestRate,
+      tenure
+    };
+  }
+
+  /**
+   * Validate the offers being compared and return an error message, or null when valid
+   */
+  static validateOffers(
+    offers: LoanOffer[],
+    gracePeriod: number,
+    options: CalculationOptions = {},
+    t: Translate = LocaleService.getTranslator('en')
+  ): string | null {
+    if (offers.length < this.MIN_OFFERS) {
+      return t('validation.offersTooFew', { count: this.MIN_OFFERS });
+    }
+    if (offers.length > this.MAX_OFFERS) {
+      return t('validation.offersTooMany', { count: this.MAX_OFFERS });
+    }
+
+    for (const offer of offers) {
+      const name = offer.name.trim();
+
+      if (!name) {
+        return t('validation.offerName');
+      }
+      if (offer.interestRate <= 0 || offer.interestRate > 50) {
+        return t('validation.offerRate', { name });
+      }
+      if (!Number.isInteger(offer.tenure) || offer.tenure < 1 || offer.tenure > 600) {
+        return t('validation.offerTenure', { name });
+      }
+      if (options.graceMode === 'inside_tenure' && gracePeriod >= offer.tenure) {
+        return t('validation.offerGrace', { name });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Calculate each offer for the same applicant. Offers are compared at their quoted
+   * fixed rate; the cheapest is the one with the lowest total cost, which is the amount
+   * financed plus interest, upfront fees, insurance and service charges.
+   */
+  static compareOffers(
+    formData: FormDataStrings,
+    offers: LoanOffer[],
+    scenarios: Scenario[],
+    options: CalculationOptions = {}
+  ): LoanOfferComparison[] {
+    const offerOptions: CalculationOptions = {
+      ...options,
+      rateSchedule: RateScheduleService.getDefaultRateSchedule()
+    };
+    const gracePeriod = EMICalculationService.getNumericValue(formData.gracePeriod);
+    const numericData = EMICalculationService.convertToNumericFormData(formData);
+    const bankFinanceAmount = EMICalculationService.calculateFinancedAmount(numericData);
+
+    const results = offers.map((offer) => {
+      const offerFormData: FormDataStrings = {
+        ...formData,
+        rate: offer.interestRate.toString(),
+        repaymentPeriod: offer.tenure.toString()
+      };
+
+      const scenarioDSCRs = scenarios.map((scenario) => ({
+        scenarioId: scenario.id,
+        scenarioName: scenario.name,
+        dscr: EMICalculationService.performCalculations(offerFormData, scenario, true, offerOptions).dscr
+      }));
+
+      const schedule = EMICalculationService.generateAmortizationSchedule({
+        principal: bankFinanceAmount,
+        rate: offer.interestRate,
+        repaymentPeriod: offer.tenure,
+        gracePeriod,
+        graceMode: offerOptions.graceMode
+      });
+      const borrowingCost = EMICalculationService.summarizeBorrowingCost(
+        numericData,
+        bankFinanceAmount,
+        schedule,
+        offer.interestRate
+      );
+
+      // Upfront fees are paid at the start; insurance and service charges accrue every month
+      const monthlyExtras = new Decimal(borrowingCost.monthlyInsurance).plus(borrowingCost.monthlyServiceCharges);
+      const cumulativeCost = schedule.rows.map(row =>
+        monthlyExtras.mul(row.month).plus(borrowingCost.upfrontFees).plus(row.cumulativeInterest).toNumber()
+      );
+
+      return {
+        offer,
+        emi: schedule.emiPeriods.length > 0 ? schedule.emiPeriods[0].emi : 0,
+        totalInterest: schedule.totalInterest,
+        totalCost: new Decimal(bankFinanceAmount).plus(borrowingCost.totalCostOfBorrowing).toNumber(),
+        loanEndDate: EMICalculationService.addMonths(offerOptions.calculationDate || new Date(), schedule.rows.length),
+        cumulativeCost,
+        scenarioDSCRs
+      };
+    });
+
+    const cheapest = results.reduce(
+      (best, result) => (best === null || result.totalCost < best.totalCost ? result : best),
+      null as (typeof results)[number] | null
+    );
+
+    return results.map(({ cumulativeCost, ...result }) => {
+      const isCheapest = result.offer.id === cheapest?.offer.id;
+      return {
+        ...result,
+        isCheapest,
+        breakEvenMonth: cheapest && !isCheapest
+          ? this.findBreakEvenMonth(cheapest.cumulativeCost, cumulativeCost)
+          : null
+      };
+    });
+  }
+
+  /**
+   * First month from which the cheaper schedule's cumulative cost never exceeds
+   * the other's. Months past the end of a schedule keep its final total.
+   */
+  static findBreakEvenMonth(cheaperCumulative: number[], otherCumulative: number[]): number | null {
+    const months = Math.max(cheaperCumulative.length, otherCumulative.length);
+    if (months === 0) return null;
+
+    const valueAt = (series: number[], index: number) =>
+      series.length === 0 ? 0 : series[Math.min(index, series.length - 1)];
+
+    let breakEven = months + 1;
+    for (let index = months - 1; index >= 0; index--) {
+      if (valueAt(cheaperCumulative, index) > valueAt(otherCumulative, index)) {
+        break;
+      }
+      breakEven = index + 1;
+    }
+
+    return breakEven <= months ? breakEven : null;
+  }
+}
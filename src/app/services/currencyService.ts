@@ -0,0 +1,219 @@
+// src/app/services/currencyService.ts
+
+import Decimal from 'decimal.js';
+import { CurrencyFormat, CurrencySettings, FxRate, LoanType } from '../types/emi';
+import { LocaleService, Translate } from './localeService';
+
+export class CurrencyService {
+  private static readonly STORAGE_KEY = 'currencySettings';
+  private static readonly MAX_DECIMAL_PLACES = 4;
+  private static readonly DEFAULT_SETTINGS: CurrencySettings = {
+    currencies: [
+      { code: 'MVR', locale: 'en-MV', decimalPlaces: 2 },
+      { code: 'USD', locale: 'en-US', decimalPlaces: 2 }
+    ],
+    defaultCurrency: 'MVR',
+    secondaryCurrency: null,
+    fxRates: [
+      { from: 'USD', to: 'MVR', rate: 15.42 }
+    ]
+  };
+
+  /**
+   * Load currency settings from localStorage or return the defaults
+   */
+  static loadSettings(): CurrencySettings {
+    if (typeof window === 'undefined') {
+      return this.getDefaultSettings();
+    }
+
+    try {
+      const savedSettings = localStorage.getItem(this.STORAGE_KEY);
+      if (savedSettings) {
+        const parsed = JSON.parse(savedSettings);
+        if (this.isValidSettings(parsed)) {
+          return parsed;
+        }
+      }
+    } catch (err) {
+      console.error('Error loading currency settings:', err);
+    }
+
+    return this.getDefaultSettings();
+  }
+
+  /**
+   * Save currency settings to localStorage
+   */
+  static saveSettings(settings: CurrencySettings): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(settings));
+    } catch (err) {
+      console.error('Error saving currency settings:', err);
+    }
+  }
+
+  /**
+   * Get the default settings: rufiyaa, with US dollars available at the pegged rate
+   */
+  static getDefaultSettings(): CurrencySettings {
+    return {
+      ...this.DEFAULT_SETTINGS,
+      currencies: this.DEFAULT_SETTINGS.currencies.map(currency => ({ ...currency })),
+      fxRates: this.DEFAULT_SETTINGS.fxRates.map(fxRate => ({ ...fxRate }))
+    };
+  }
+
+  /**
+   * Find a currency by code, falling back to the default currency
+   */
+  static findCurrency(settings: CurrencySettings, code?: string | null): CurrencyFormat {
+    return (
+      settings.currencies.find(currency => currency.code === code) ||
+      settings.currencies.find(currency => currency.code === settings.defaultCurrency) ||
+      settings.currencies[0] ||
+      { ...this.DEFAULT_SETTINGS.currencies[0] }
+    );
+  }
+
+  /**
+   * The currency amounts for a loan type are shown in
+   */
+  static getLoanTypeCurrency(settings: CurrencySettings, loanType?: LoanType): CurrencyFormat {
+    return this.findCurrency(settings, loanType?.currency);
+  }
+
+  /**
+   * The currency equivalents are shown in, or null when none is set
+   */
+  static getSecondaryCurrency(settings: CurrencySettings): CurrencyFormat | null {
+    if (!settings.secondaryCurrency) return null;
+    return settings.currencies.find(currency => currency.code === settings.secondaryCurrency) || null;
+  }
+
+  /**
+   * Convert an amount with the FX table; null when there is no rate between the two currencies
+   */
+  static convert(amount: number, from: string, to: string, fxRates: FxRate[]): number | null {
+    if (from === to) {
+      return amount;
+    }
+
+    const direct = fxRates.find(fxRate => fxRate.from === from && fxRate.to === to);
+    if (direct) {
+      return new Decimal(amount).times(direct.rate).toNumber();
+    }
+
+    const inverse = fxRates.find(fxRate => fxRate.from === to && fxRate.to === from);
+    if (inverse) {
+      return new Decimal(amount).dividedBy(inverse.rate).toNumber();
+    }
+
+    return null;
+  }
+
+  /**
+   * Check that a code and locale are ones Intl can format
+   */
+  static isSupportedCurrency(code: string, locale: string): boolean {
+    if (!/^[A-Z]{3}$/.test(code)) {
+      return false;
+    }
+
+    try {
+      new Intl.NumberFormat(locale, { style: 'currency', currency: code });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate currency settings and return an error message, or null when valid
+   */
+  static validateSettings(settings: CurrencySettings, t: Translate = LocaleService.getTranslator('en')): string | null {
+    if (settings.currencies.length === 0) {
+      return t('currencies.errorNoCurrencies');
+    }
+
+    for (const currency of settings.currencies) {
+      if (!this.isSupportedCurrency(currency.code, currency.locale)) {
+        return currency.code
+          ? t('currencies.errorFormat', { code: currency.code })
+          : t('currencies.errorFormatUnnamed');
+      }
+      if (!Number.isInteger(currency.decimalPlaces) || currency.decimalPlaces < 0 || currency.decimalPlaces > this.MAX_DECIMAL_PLACES) {
+        return t('currencies.errorDecimalPlaces', { code: currency.code, max: this.MAX_DECIMAL_PLACES });
+      }
+    }
+
+    const codes = settings.currencies.map(currency => currency.code);
+    if (new Set(codes).size !== codes.length) {
+      return t('currencies.errorDuplicate');
+    }
+    if (!codes.includes(settings.defaultCurrency)) {
+      return t('currencies.errorDefaultUnlisted');
+    }
+    if (settings.secondaryCurrency !== null) {
+      if (!codes.includes(settings.secondaryCurrency)) {
+        return t('currencies.errorSecondaryUnlisted');
+      }
+      if (settings.secondaryCurrency === settings.defaultCurrency) {
+        return t('currencies.errorSecondarySame');
+      }
+    }
+
+    const pairs = new Set<string>();
+    for (const fxRate of settings.fxRates) {
+      if (!codes.includes(fxRate.from) || !codes.includes(fxRate.to) || fxRate.from === fxRate.to) {
+        return t('currencies.errorRateCurrencies');
+      }
+      if (!Number.isFinite(fxRate.rate) || fxRate.rate <= 0) {
+        return t('currencies.errorRatePositive', { from: fxRate.from, to: fxRate.to });
+      }
+      const pair = [fxRate.from, fxRate.to].sort().join('/');
+      if (pairs.has(pair)) {
+        return t('currencies.errorRateDuplicate', { from: fxRate.from, to: fxRate.to });
+      }
+      pairs.add(pair);
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate settings object shape and values
+   */
+  static isValidSettings(settings: unknown): settings is CurrencySettings {
+    if (typeof settings !== 'object' || settings === null) {
+      return false;
+    }
+
+    const candidate = settings as Record<string, unknown>;
+    return (
+      Array.isArray(candidate.currencies) &&
+      candidate.currencies.every(currency =>
+        typeof currency === 'object' &&
+        currency !== null &&
+        typeof currency.code === 'string' &&
+        typeof currency.locale === 'string' &&
+        typeof currency.decimalPlaces === 'number'
+      ) &&
+      typeof candidate.defaultCurrency === 'string' &&
+      (candidate.secondaryCurrency === null || typeof candidate.secondaryCurrency === 'string') &&
+      Array.isArray(candidate.fxRates) &&
+      candidate.fxRates.every(fxRate =>
+        typeof fxRate === 'object' &&
+        fxRate !== null &&
+        typeof fxRate.from === 'string' &&
+        typeof fxRate.to === 'string' &&
+        typeof fxRate.rate === 'number'
+      ) &&
+      this.validateSettings(candidate as unknown as CurrencySettings) === null
+    );
+  }
+}
@@ -0,0 +1,96 @@
+// src/app/services/eligibilityService.ts
+
+import {
+  Calculations,
+  EligibilityLimits,
+  EligibilityRule,
+  EligibilityRuleId,
+  EligibilityVerdict,
+  ProductRules,
+  UnderwritingPolicy
+} from '../types/emi';
+import { MessageKey } from '../locales/en';
+import { LocaleService, Translate } from './localeService';
+
+export class EligibilityService {
+  static readonly RULE_LABEL_KEYS: Record<EligibilityRuleId, MessageKey> = {
+    dscr: 'eligibility.dscr',
+    dti: 'eligibility.dti',
+    foir: 'eligibility.foir',
+    ltv: 'eligibility.ltv'
+  };
+  private static readonly STATUS_KEYS: Record<EligibilityRule['status'], MessageKey> = {
+    passed: 'eligibility.passed',
+    failed: 'eligibility.failed',
+    missing: 'eligibility.missing'
+  };
+
+  /**
+   * The DSCR a loan must reach: the product's own threshold, else the policy's Good threshold
+   */
+  static getDSCRThreshold(
+    productRules: ProductRules | undefined,
+    policy: Pick<UnderwritingPolicy, 'dscrGoodThreshold'>
+  ): number {
+    return productRules?.dscrThreshold ?? policy.dscrGoodThreshold;
+  }
+
+  /**
+   * Check a scenario's after-grace figures against the DSCR threshold and the loan
+   * type's DTI, FOIR and LTV limits. Limits the loan type does not set are skipped.
+   */
+  static evaluate(
+    calculations: Calculations,
+    limits: EligibilityLimits | undefined,
+    dscrThreshold: number
+  ): EligibilityVerdict {
+    const rules: EligibilityRule[] = [
+      this.checkMinimum('dscr', calculations.dscr, dscrThreshold)
+    ];
+
+    if (limits?.maxDTI !== undefined) {
+      rules.push(this.checkMaximum('dti', calculations.dti, limits.maxDTI));
+    }
+    if (limits?.maxFOIR !== undefined) {
+      rules.push(this.checkMaximum('foir', calculations.foir, limits.maxFOIR));
+    }
+    if (limits?.maxLTV !== undefined) {
+      rules.push(this.checkMaximum('ltv', calculations.ltv, limits.maxLTV));
+    }
+
+    return {
+      eligible: rules.every(rule => rule.status === 'passed'),
+      rules
+    };
+  }
+
+  /**
+   * One line per rule for the report, e.g. "Debt-to-Income (DTI) 42.5% (maximum 50%): passed"
+   */
+  static describeRule(rule: EligibilityRule, t: Translate = LocaleService.getTranslator('en')): string {
+    let detail: string;
+    if (rule.id === 'dscr') {
+      detail = t('eligibility.minimum', { value: (rule.value ?? 0).toFixed(2), limit: rule.limit.toFixed(2) });
+    } else if (rule.value === null) {
+      detail = t('eligibility.notAvailable', { limit: rule.limit });
+    } else {
+      detail = t('eligibility.maximum', { value: rule.value.toFixed(1), limit: rule.limit });
+    }
+    return t('eligibility.line', {
+      rule: t(this.RULE_LABEL_KEYS[rule.id]),
+      detail,
+      status: t(this.STATUS_KEYS[rule.status])
+    });
+  }
+
+  private static checkMinimum(id: EligibilityRuleId, value: number, limit: number): EligibilityRule {
+    return { id, value, limit, status: value >= limit ? 'passed' : 'failed' };
+  }
+
+  private static checkMaximum(id: EligibilityRuleId, value: number | null, limit: number): EligibilityRule {
+    if (value === null) {
+      return { id, value, limit, status: 'missing' };
+    }
+    return { id, value, limit, status: value <= limit ? 'passed' : 'failed' };
+  }
+}
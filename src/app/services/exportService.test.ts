@@ -0,0 +1,20 @@
+// src/app/services/exportService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { ExportService } from './exportService';
+
+describe('ExportService.toCsv', () => {
+  it('quotes text that a spreadsheet would run as a formula', () => {
+    const csv = ExportService.toCsv([
+      { name: 'Cases', rows: [['=HYPERLINK("http://example.com")', '+1', '-2', '@SUM(A1)', '\tx']] }
+    ]);
+
+    expect(csv).toBe(`Cases\r\n"'=HYPERLINK(""http://example.com"")",'+1,'-2,'@SUM(A1),'\tx\r\n`);
+  });
+
+  it('leaves numbers and ordinary text untouched', () => {
+    const csv = ExportService.toCsv([{ name: 'Results', rows: [['EMI', -1250.5, 0, 'a, b']] }]);
+
+    expect(csv).toBe('Results\r\nEMI,-1250.5,0,"a, b"\r\n');
+  });
+});
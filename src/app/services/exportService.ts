@@ -0,0 +1,255 @@
+// src/app/services/exportService.ts
+
+import { BorrowingCost, Calculations, ExportCell, ExportInput, ExportSheet, FormField } from '../types/emi';
+import { EMICalculationService } from './calculationService';
+import { RateScheduleService } from './rateScheduleService';
+
+// Calculation results listed on every scenario sheet
+const RESULT_FIELDS: { field: keyof Calculations; label: string }[] = [
+  { field: 'totalIncome', label: 'Total Income' },
+  { field: 'totalProjectIncome', label: 'Project Income' },
+  { field: 'totalExpenditure', label: 'Living Expenses' },
+  { field: 'maintenanceCost', label: 'Maintenance Cost' },
+  { field: 'incomeTax', label: 'Income Tax' },
+  { field: 'totalProjectExpenditure', label: 'Project Expenditure' },
+  { field: 'netIncome', label: 'Net Income' },
+  { field: 'monthlyRepayment', label: 'Monthly Repayment' },
+  { field: 'gracePeriodRepayment', label: 'Grace Period Repayment' },
+  { field: 'afterGraceRepayment', label: 'After Grace Repayment' },
+  { field: 'maxRepayment', label: 'Highest Repayment' },
+  { field: 'dscr', label: 'DSCR' },
+  { field: 'worstCaseDSCR', label: 'Worst Case DSCR' },
+  { field: 'dti', label: 'DTI (%)' },
+  { field: 'foir', label: 'FOIR (%)' },
+  { field: 'ltv', label: 'LTV (%)' },
+  { field: 'effectiveRate', label: 'Effective Rate (%)' },
+  { field: 'bankFinanceAmount', label: 'Bank Finance Amount' },
+  { field: 'capitalizedInterest', label: 'Capitalized Interest' },
+  { field: 'existingLoans', label: 'Existing Installments' },
+  { field: 'takeoverAmount', label: 'Refinanced Obligations' },
+  { field: 'totalInterest', label: 'Total Interest' },
+  { field: 'totalMonths', label: 'Total Months' },
+  { field: 'loanEndDate', label: 'Loan End Date' }
+];
+
+// Fees, insurance and APR listed beneath the results on every scenario sheet
+const BORROWING_COST_FIELDS: { field: keyof BorrowingCost; label: string }[] = [
+  { field: 'processingFee', label: 'Processing Fee' },
+  { field: 'stampDuty', label: 'Stamp Duty' },
+  { field: 'upfrontFees', label: 'Upfront Fees' },
+  { field: 'monthlyInsurance', label: 'Monthly Insurance' },
+  { field: 'monthlyServiceCharges', label: 'Monthly Service Charges' },
+  { field: 'effectiveEMI', label: 'EMI with Insurance and Charges' },
+  { field: 'totalInterest', label: 'Total Interest' },
+  { field: 'totalInsurance', label: 'Total Insurance' },
+  { field: 'totalServiceCharges', label: 'Total Service Charges' },
+  { field: 'totalCostOfBorrowing', label: 'Total Cost of Borrowing' },
+  { field: 'nominalRate', label: 'Nominal Rate (%)' },
+  { field: 'apr', label: 'APR (%)' },
+  { field: 'effectiveAnnualRate', label: 'Effective Annual Rate (%)' }
+];
+
+const INPUT_FIELDS: { field: FormField; label: string }[] = [
+  { field: 'salary', label: 'Salary' },
+  { field: 'rent', label: 'Rent Income' },
+  { field: 'other', label: 'Other Income' },
+  { field: 'projectIncome', label: 'Project Income' },
+  { field: 'totalProjectCost', label: 'Total Project Cost' },
+  { field: 'propertyValue', label: 'Property Value' },
+  { field: 'equityPercentage', label: 'Equity (%)' },
+  { field: 'rate', label: 'Interest Rate (%)' },
+  { field: 'repaymentPeriod', label: 'Repayment Period (months)' },
+  { field: 'gracePeriod', label: 'Grace Period (months)' },
+  { field: 'processingFeeRate', label: 'Processing Fee (%)' },
+  { field: 'stampDuty', label: 'Stamp Duty' },
+  { field: 'propertyInsurance', label: 'Property Insurance (annual)' },
+  { field: 'lifeInsurance', label: 'Life Insurance (annual)' },
+  { field: 'serviceCharges', label: 'Service Charges (annual)' }
+];
+
+const CO_APPLICANT_FIELDS: { field: 'salary' | 'rent' | 'other' | 'existingLoans'; label: string }[] = [
+  { field: 'salary', label: 'Salary' },
+  { field: 'rent', label: 'Rent Income' },
+  { field: 'other', label: 'Other Income' },
+  { field: 'existingLoans', label: 'Existing Loans' }
+];
+
+const APPLICANT_HEADERS = ['Applicant', 'Income', 'Income Tax', 'Existing Loans', 'Net Contribution', 'Share of Income (%)'];
+
+const OBLIGATION_HEADERS = ['Lender', 'Outstanding Balance', 'Rate (%)', 'Remaining Months', 'Monthly Installment', 'Refinanced'];
+
+const SCHEDULE_HEADERS = [
+  'Month',
+  'Grace Period',
+  'Rate (%)',
+  'Opening Balance',
+  'Payment',
+  'Interest',
+  'Principal',
+  'Prepayment',
+  'Closing Balance',
+  'Cumulative Interest'
+];
+
+export class ExportService {
+  private static readonly MAX_SHEET_NAME_LENGTH = 31;
+
+  /**
+   * Build an inputs sheet plus one sheet per scenario with both grace states and the
+   * repayment schedule. Numbers stay raw so spreadsheets can calculate with them.
+   */
+  static buildSheets(input: ExportInput): ExportSheet[] {
+    const numericData = EMICalculationService.convertToNumericFormData(input.formData);
+    const {
+      graceMode = 'added_to_tenure',
+      rateSchedule = RateScheduleService.getDefaultRateSchedule()
+    } = input.options;
+
+    const inputRows: ExportCell[][] = [
+      ['Field', 'Value'],
+      ['Loan Type', input.loanTypeName],
+      ['Currency', input.currency.code],
+      ...INPUT_FIELDS.map(({ field, label }) => [label, numericData[field]]),
+      ...numericData.coApplicants.flatMap((coApplicant, index) => [
+        [`Co-applicant ${index + 1}`, coApplicant.name],
+        ...CO_APPLICANT_FIELDS.map(({ field, label }) => [`Co-applicant ${index + 1} ${label}`, coApplicant[field]])
+      ]),
+      ['Ignore Obligations Ending in Grace', numericData.obligationLedger.excludeEndingInGrace ? 'Yes' : 'No'],
+      ['Grace Handling', graceMode],
+      ['Underwriting Policy', input.options.policy ? `${input.options.policy.name} v${input.options.policy.version}` : ''],
+      ['Rate Schedule', rateSchedule.mode],
+      ['Exported At', new Date().toISOString()]
+    ];
+
+    const { obligations } = numericData.obligationLedger;
+    if (obligations.length > 0) {
+      inputRows.push(
+        [],
+        ['Existing Obligations'],
+        OBLIGATION_HEADERS,
+        ...obligations.map(obligation => [
+          obligation.lender,
+          obligation.outstandingBalance,
+          obligation.rate,
+          obligation.remainingMonths,
+          EMICalculationService.getObligationInstallment(obligation),
+          obligation.settledByNewLoan ? 'Yes' : 'No'
+        ])
+      );
+    }
+
+    const usedNames = new Set<string>();
+    const sheets: ExportSheet[] = [{ name: this.uniqueSheetName('Inputs', usedNames), rows: inputRows }];
+
+    for (const scenario of input.scenarios) {
+      const duringGrace = EMICalculationService.performCalculations(input.formData, scenario, false, input.options);
+      const afterGrace = EMICalculationService.performCalculations(input.formData, scenario, true, input.options);
+      const borrowingCost = EMICalculationService.calculateBorrowingCost(input.formData, scenario, input.options, input.prepayments);
+
+      const ratePeriods = EMICalculationService.resolveScenarioRatePeriods(
+        rateSchedule,
+        numericData.rate,
+        numericData.gracePeriod + numericData.repaymentPeriod,
+        scenario
+      );
+      const schedule = EMICalculationService.generateAmortizationSchedule({
+        principal: EMICalculationService.calculateFinancedAmount(numericData),
+        rate: ratePeriods[0].rate,
+        repaymentPeriod: numericData.repaymentPeriod,
+        gracePeriod: numericData.gracePeriod,
+        graceMode,
+        ratePeriods,
+        prepayments: input.prepayments
+      });
+
+      const rows: ExportCell[][] = [
+        ['Scenario', scenario.name],
+        ['Description', scenario.description],
+        [],
+        ['Result', 'During Grace', 'After Grace'],
+        ...RESULT_FIELDS.map(({ field, label }) => [
+          label,
+          this.toCell(duringGrace[field]),
+          this.toCell(afterGrace[field])
+        ]),
+        [],
+        ['Cost of Borrowing'],
+        ...BORROWING_COST_FIELDS.map(({ field, label }) => [label, this.toCell(borrowingCost[field])]),
+        [],
+        ['Applicants (After Grace)'],
+        APPLICANT_HEADERS,
+        ...afterGrace.applicants.map(applicant => [
+          applicant.name,
+          applicant.totalIncome,
+          applicant.incomeTax,
+          applicant.existingLoans,
+          applicant.netContribution,
+          applicant.incomeShare
+        ]),
+        [],
+        ['Repayment Schedule'],
+        SCHEDULE_HEADERS,
+        ...schedule.rows.map(row => [
+          row.month,
+          row.isGracePeriod ? 'Yes' : 'No',
+          row.rate,
+          row.openingBalance,
+          row.payment,
+          row.interest,
+          row.principal,
+          row.prepayment,
+          row.closingBalance,
+          row.cumulativeInterest
+        ]),
+        ['Total', '', '', '', schedule.totalPayment, schedule.totalInterest]
+      ];
+
+      sheets.push({ name: this.uniqueSheetName(scenario.name, usedNames), rows });
+    }
+
+    return sheets;
+  }
+
+  /**
+   * Join the sheets into one CSV, each section headed by its sheet name
+   */
+  static toCsv(sheets: ExportSheet[]): string {
+    return sheets
+      .map(sheet => [[sheet.name], ...sheet.rows]
+        .map(row => row.map(cell => this.escapeCsvCell(cell)).join(','))
+        .join('\r\n'))
+      .join('\r\n\r\n') + '\r\n';
+  }
+
+  /**
+   * File name stem for exports, e.g. emi-calculation-20250301
+   */
+  static getFileStem(date: Date = new Date()): string {
+    return `emi-calculation-${date.toISOString().slice(0, 10).replace(/-/g, '')}`;
+  }
+
+  private static toCell(value: Calculations[keyof Calculations] | BorrowingCost[keyof BorrowingCost]): ExportCell {
+    if (typeof value === 'number' || typeof value === 'string') {
+      return value;
+    }
+    return '';
+  }
+
+  // Text starting with =, +, -, @, a tab or a carriage return can run as a formula in a spreadsheet, so it gets a leading quote
+  private static escapeCsvCell(cell: ExportCell): string {
+    const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // Excel sheet names are limited to 31 characters and cannot contain : \ / ? * [ ]
+  private static uniqueSheetName(name: string, usedNames: Set<string>): string {
+    const base = name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, this.MAX_SHEET_NAME_LENGTH) || 'Sheet';
+    let candidate = base;
+    for (let copy = 2; usedNames.has(candidate.toLowerCase()); copy++) {
+      const suffix = ` (${copy})`;
+      candidate = base.slice(0, this.MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+  }
+}
@@ -0,0 +1,142 @@
+// src/app/services/loanService.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { LoanType, StorageAdapter } from '../types/emi';
+import { LoanService } from './loanService';
+
+// Holds values the way the real adapters do: serialized, so nothing is shared by reference
+class MemoryStorageAdapter implements StorageAdapter {
+  private readonly values = new Map<string, string>();
+
+  async read(key: string): Promise<unknown> {
+    const value = this.values.get(key);
+    return value === undefined ? null : JSON.parse(value);
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    this.values.set(key, JSON.stringify(value));
+  }
+}
+
+const CUSTOM_LOAN_TYPE: LoanType = {
+  id: 'green-home',
+  name: 'Green Home Loan',
+  interestRate: 6.5,
+  tenure: 300,
+  eligibilityLimits: { maxDTI: 45, maxFOIR: 55, maxLTV: 85 },
+  productRules: { minAmount: 100000, maxTenure: 300, processingFeeRate: 0.5 }
+};
+
+describe('LoanService storage', () => {
+  it('loads back a saved catalog with limits and product rules', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const catalog = [
+      ...LoanService.getDefaultLoanTypes().map(loanType =>
+        loanType.id === 'home-loan' ? { ...loanType, interestRate: 7.25 } : loanType
+      ),
+      CUSTOM_LOAN_TYPE
+    ];
+
+    await LoanService.saveLoanTypes(catalog, adapter);
+
+    expect(await LoanService.loadLoanTypes(adapter)).toEqual(catalog);
+  });
+
+  it('falls back to the defaults when nothing valid is stored', async () => {
+    const adapter = new MemoryStorageAdapter();
+    expect(await LoanService.loadLoanTypes(adapter)).toEqual(LoanService.getDefaultLoanTypes());
+
+    await adapter.write('loanTypes', []);
+    expect(await LoanService.loadLoanTypes(adapter)).toEqual(LoanService.getDefaultLoanTypes());
+  });
+
+  it('accepts the default catalog as a valid list', () => {
+    expect(LoanService.isValidLoanTypesArray(LoanService.getDefaultLoanTypes())).toBe(true);
+    expect(LoanService.isValidLoanTypesArray([])).toBe(false);
+  });
+});
+
+describe('LoanService catalog import', () => {
+  const defaults = LoanService.getDefaultLoanTypes();
+  const homeLoan = defaults.find(loanType => loanType.id === 'home-loan')!;
+
+  it('reads back an exported catalog', () => {
+    const catalog = [...defaults, CUSTOM_LOAN_TYPE];
+    expect(LoanService.parseCatalog(LoanService.exportCatalog(catalog))).toEqual({ loanTypes: catalog, error: null });
+  });
+
+  it('rejects invalid JSON, other formats and newer versions', () => {
+    expect(LoanService.parseCatalog('{ not json')).toEqual({ loanTypes: null, error: 'The file is not valid JSON' });
+
+    const otherFormat = JSON.stringify({ format: 'something-else', version: 1, loanTypes: defaults });
+    expect(LoanService.parseCatalog(otherFormat).error).toBe('The file is not a loan type catalog');
+    expect(LoanService.parseCatalog(JSON.stringify(defaults)).error).toBe('The file is not a loan type catalog');
+
+    const newer = JSON.parse(LoanService.exportCatalog(defaults));
+    newer.version = 2;
+    const result = LoanService.parseCatalog(JSON.stringify(newer));
+    expect(result.loanTypes).toBeNull();
+    expect(result.error).toContain('newer version');
+  });
+
+  it('rejects catalogs with invalid or duplicate loan types', () => {
+    const invalid = JSON.parse(LoanService.exportCatalog(defaults));
+    invalid.loanTypes[1].interestRate = -1;
+    expect(LoanService.parseCatalog(JSON.stringify(invalid)).error).toBe('Loan type 2 is invalid');
+
+    const duplicate = LoanService.exportCatalog([homeLoan, { ...homeLoan, id: 'home-loan-2' }]);
+    expect(LoanService.parseCatalog(duplicate).error).toBe('Loan type IDs and names must be unique');
+  });
+
+  it('matches a type whose ID was renamed by its name', () => {
+    const renamed = { ...homeLoan, id: 'housing', name: homeLoan.name.toUpperCase(), interestRate: 7.5 };
+    const incoming = defaults.map(loanType => (loanType.id === 'home-loan' ? renamed : loanType));
+
+    const diff = LoanService.diffCatalog(defaults, incoming);
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([{ before: homeLoan, after: { ...renamed, id: 'home-loan' } }]);
+    expect(diff.unchangedCount).toBe(defaults.length - 1);
+  });
+
+  it('reports added, changed and removed types', () => {
+    const incoming = [{ ...homeLoan, tenure: homeLoan.tenure + 12 }, CUSTOM_LOAN_TYPE];
+
+    const diff = LoanService.diffCatalog(defaults, incoming);
+
+    expect(diff.added).toEqual([CUSTOM_LOAN_TYPE]);
+    expect(diff.changed.map(change => change.after.id)).toEqual(['home-loan']);
+    expect(diff.removed.map(loanType => loanType.id)).toEqual(
+      defaults.filter(loanType => loanType.id !== 'home-loan').map(loanType => loanType.id)
+    );
+    expect(diff.unchangedCount).toBe(0);
+  });
+
+  it('keeps types missing from the file when merging', () => {
+    const incoming = [{ ...homeLoan, interestRate: 7.5 }, CUSTOM_LOAN_TYPE];
+
+    const merged = LoanService.applyCatalog(defaults, incoming, 'merge');
+
+    expect(merged).toEqual([
+      ...defaults.map(loanType => (loanType.id === 'home-loan' ? { ...homeLoan, interestRate: 7.5 } : loanType)),
+      CUSTOM_LOAN_TYPE
+    ]);
+  });
+
+  it('keeps the existing ID of a type matched by name when merging', () => {
+    const incoming = [{ ...homeLoan, id: 'housing', interestRate: 7.5 }];
+
+    const merged = LoanService.applyCatalog(defaults, incoming, 'merge');
+
+    expect(merged).toHaveLength(defaults.length);
+    expect(merged.find(loanType => loanType.id === 'home-loan')?.interestRate).toBe(7.5);
+    expect(merged.some(loanType => loanType.id === 'housing')).toBe(false);
+  });
+
+  it('drops types missing from the file when replacing', () => {
+    const incoming = [{ ...homeLoan, interestRate: 7.5 }, CUSTOM_LOAN_TYPE];
+
+    expect(LoanService.applyCatalog(defaults, incoming, 'replace')).toEqual(incoming);
+  });
+});
@@ -1,35 +1,116 @@
 // src/app/services/loanService.ts
 
-import { LoanType } from '../types/emi';
+import { CatalogImportMode, EligibilityLimits, LoanType, ProductRules, LoanTypeCatalog, LoanTypeCatalogDiff, StorageAdapter } from '../types/emi';
+import { LocalStorageAdapter, RemoteStorageAdapter } from './storageAdapters';
+
+type LoanTypesListener = (loanTypes: LoanType[]) => void;
 
 export class LoanService {
   private static readonly STORAGE_KEY = 'loanTypes';
+  private static readonly CHANGE_CHANNEL = 'emi-calculator:loanTypes';
+  private static readonly API_TOKEN_KEY = 'loanTypesApiToken';
+  private static readonly CATALOG_FORMAT = 'emi-calculator/loan-types';
+  private static readonly CATALOG_VERSION = 1;
   private static readonly DEFAULT_LOAN_TYPES: LoanType[] = [
-    { id: 'home-loan', name: 'Home Loan', interestRate: 8.5, tenure: 240 }, 
-    { id: 'car-loan', name: 'Car Loan', interestRate: 9.5, tenure: 60 },
-    { id: 'personal-loan', name: 'Personal Loan', interestRate: 12.0, tenure: 36 }, 
-    { id: 'business-loan', name: 'Business Loan', interestRate: 11.0, tenure: 84 }, 
-    { id: 'education-loan', name: 'Education Loan', interestRate: 7.5, tenure: 120 } 
+    {
+      id: 'home-loan', name: 'Home Loan', interestRate: 8.5, tenure: 240,
+      eligibilityLimits: { maxDTI: 50, maxFOIR: 60, maxLTV: 80 },
+      productRules: { minAmount: 100000, maxAmount: 20000000, minEquityPercentage: 20, maxTenure: 360, maxGracePeriod: 36, processingFeeRate: 1 }
+    },
+    {
+      id: 'car-loan', name: 'Car Loan', interestRate: 9.5, tenure: 60,
+      eligibilityLimits: { maxDTI: 45, maxFOIR: 55, maxLTV: 85 },
+      productRules: { minAmount: 50000, maxAmount: 3000000, minEquityPercentage: 15, maxTenure: 84, maxGracePeriod: 0, processingFeeRate: 1.5 }
+    },
+    {
+      id: 'personal-loan', name: 'Personal Loan', interestRate: 12.0, tenure: 36,
+      eligibilityLimits: { maxDTI: 40, maxFOIR: 50 },
+      productRules: { maxAmount: 1000000, maxTenure: 60, maxGracePeriod: 0, processingFeeRate: 2, dscrThreshold: 1.25 }
+    },
+    {
+      id: 'business-loan', name: 'Business Loan', interestRate: 11.0, tenure: 84,
+      eligibilityLimits: { maxDTI: 50, maxFOIR: 60, maxLTV: 70 },
+      productRules: { minAmount: 200000, minEquityPercentage: 25, maxTenure: 120, maxGracePeriod: 24, processingFeeRate: 1, dscrThreshold: 1.25 }
+    },
+    {
+      id: 'education-loan', name: 'Education Loan', interestRate: 7.5, tenure: 120,
+      eligibilityLimits: { maxDTI: 40, maxFOIR: 50 },
+      productRules: { maxAmount: 2000000, maxTenure: 180, maxGracePeriod: 60, processingFeeRate: 0.5 }
+    }
   ];
+  private static readonly PRODUCT_RULE_FIELDS: (keyof ProductRules)[] = [
+    'minAmount',
+    'maxAmount',
+    'minEquityPercentage',
+    'maxTenure',
+    'minGracePeriod',
+    'maxGracePeriod',
+    'processingFeeRate',
+    'dscrThreshold'
+  ];
+  private static storageAdapter: StorageAdapter | null = null;
+  private static listeners = new Set<LoanTypesListener>();
+  private static changeChannel: BroadcastChannel | null = null;
+
+  /**
+   * Use a different store for loan types, e.g. the server API or a test double
+   */
+  static setStorageAdapter(adapter: StorageAdapter): void {
+    this.storageAdapter = adapter;
+  }
 
   /**
-   * Load loan types from localStorage or return defaults
+   * The configured store: the server API when NEXT_PUBLIC_LOAN_TYPES_STORAGE is
+   * "server", otherwise this browser's localStorage
    */
-  static loadLoanTypes(): LoanType[] {
-    if (typeof window === 'undefined') {
-      return [...this.DEFAULT_LOAN_TYPES];
+  static getStorageAdapter(): StorageAdapter {
+    if (!this.storageAdapter) {
+      this.storageAdapter = this.usesServerStorage()
+        ? new RemoteStorageAdapter({ [this.STORAGE_KEY]: '/api/loan-types' }, () => this.getApiTokenHeaders())
+        : new LocalStorageAdapter();
     }
+    return this.storageAdapter;
+  }
+
+  static usesServerStorage(): boolean {
+    return process.env.NEXT_PUBLIC_LOAN_TYPES_STORAGE === 'server';
+  }
+
+  /**
+   * Remember the server's loan types API token for this browser session; saves send it
+   */
+  static setApiToken(token: string): void {
+    if (typeof window === 'undefined') return;
+    if (token) {
+      sessionStorage.setItem(this.API_TOKEN_KEY, token);
+    } else {
+      sessionStorage.removeItem(this.API_TOKEN_KEY);
+    }
+  }
 
+  static getApiToken(): string {
+    return typeof window === 'undefined' ? '' : sessionStorage.getItem(this.API_TOKEN_KEY) ?? '';
+  }
+
+  /**
+   * Authorization header for saves to the server, when a token has been set
+   */
+  static getApiTokenHeaders(): Record<string, string> {
+    const token = this.getApiToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  /**
+   * Load loan types from storage or return defaults
+   */
+  static async loadLoanTypes(adapter: StorageAdapter = this.getStorageAdapter()): Promise<LoanType[]> {
     try {
-      const savedLoanTypes = localStorage.getItem(this.STORAGE_KEY);
-      if (savedLoanTypes) {
-        const parsed = JSON.parse(savedLoanTypes);
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          // Check for legacy data and migrate
-          const migratedTypes = parsed.map(loan => this.migrateLoanType(loan));
-          if (this.isValidLoanTypesArray(migratedTypes)) {
-            return migratedTypes;
-          }
+      const parsed = await adapter.read(this.STORAGE_KEY);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        // Check for legacy data and migrate
+        const migratedTypes = parsed.map(loan => this.migrateLoanType(loan));
+        if (this.isValidLoanTypesArray(migratedTypes)) {
+          return migratedTypes;
         }
       }
     } catch (err) {
@@ -43,18 +124,29 @@ export class LoanService {
    * Migrate legacy loan type (without interest rate and tenure) to new format
    */
   private static migrateLoanType(loan: any): LoanType {
+    const defaultLoan = typeof loan === 'object' && loan !== null ?
+      this.DEFAULT_LOAN_TYPES.find(d => d.id === loan.id) : undefined;
+
     if (this.isValidLoanType(loan)) {
-      return loan;
+      // Types saved before eligibility limits and product rules existed take the built-in ones
+      return {
+        ...loan,
+        ...(loan.eligibilityLimits === undefined && defaultLoan?.eligibilityLimits
+          ? { eligibilityLimits: { ...defaultLoan.eligibilityLimits } } : {}),
+        ...(loan.productRules === undefined && defaultLoan?.productRules
+          ? { productRules: { ...defaultLoan.productRules } } : {})
+      };
     }
 
     // Legacy loan type - add default values
     if (typeof loan === 'object' && loan.id && loan.name) {
-      const defaultLoan = this.DEFAULT_LOAN_TYPES.find(d => d.id === loan.id);
       return {
         id: loan.id,
         name: loan.name,
-        interestRate: defaultLoan?.interestRate || 10.0,
-        tenure: defaultLoan?.tenure || 60
+        interestRate: loan.interestRate || defaultLoan?.interestRate || 10.0,
+        tenure: loan.tenure || loan.tenureMonths || defaultLoan?.tenure || 60,
+        ...(defaultLoan?.eligibilityLimits ? { eligibilityLimits: { ...defaultLoan.eligibilityLimits } } : {}),
+        ...(defaultLoan?.productRules ? { productRules: { ...defaultLoan.productRules } } : {})
       };
     }
 
@@ -68,18 +160,24 @@ export class LoanService {
   }
 
   /**
-   * Save loan types to localStorage
+   * Save loan types and tell every open page, in this tab and others, about the change.
+   * Rejects when the store cannot be written so the caller can show the error.
    */
-  static saveLoanTypes(loanTypes: LoanType[]): void {
-    if (typeof window === 'undefined') {
-      return;
-    }
+  static async saveLoanTypes(loanTypes: LoanType[], adapter: StorageAdapter = this.getStorageAdapter()): Promise<void> {
+    await adapter.write(this.STORAGE_KEY, loanTypes);
+    this.notifyListeners(loanTypes);
+    this.getChangeChannel()?.postMessage(loanTypes);
+  }
 
-    try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(loanTypes));
-    } catch (err) {
-      console.error('Error saving loan types:', err);
-    }
+  /**
+   * Listen for catalog changes saved by this or another tab; returns the unsubscribe function
+   */
+  static subscribe(listener: LoanTypesListener): () => void {
+    this.getChangeChannel();
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   /**
@@ -105,10 +203,78 @@ export class LoanService {
       loanType.interestRate > 0 &&
       loanType.interestRate <= 100 &&
       loanType.tenure > 0 &&
-      loanType.tenure <= 1200 
+      loanType.tenure <= 1200 &&
+      (loanType.currency === undefined || (typeof loanType.currency === 'string' && /^[A-Z]{3}$/.test(loanType.currency))) &&
+      (loanType.eligibilityLimits === undefined || this.isValidEligibilityLimits(loanType.eligibilityLimits)) &&
+      (loanType.productRules === undefined || this.validateProductRules(loanType.productRules, loanType.tenure) === null)
     );
   }
 
+  /**
+   * Validate a loan type's product rules against its default tenure; returns an
+   * error message, or null when valid
+   */
+  static validateProductRules(rules: unknown, tenure: number): string | null {
+    if (typeof rules !== 'object' || rules === null) {
+      return 'Product rules must be an object';
+    }
+    const values = rules as Record<string, unknown>;
+    for (const field of this.PRODUCT_RULE_FIELDS) {
+      const value = values[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        return `${field} must be a number of at least 0`;
+      }
+    }
+
+    const productRules = rules as ProductRules;
+    if (productRules.minAmount !== undefined && productRules.maxAmount !== undefined && productRules.minAmount > productRules.maxAmount) {
+      return 'The minimum amount cannot be above the maximum amount';
+    }
+    if (productRules.minGracePeriod !== undefined && productRules.maxGracePeriod !== undefined && productRules.minGracePeriod > productRules.maxGracePeriod) {
+      return 'The minimum grace period cannot be above the maximum grace period';
+    }
+    if ((productRules.minEquityPercentage ?? 0) > 100 || (productRules.processingFeeRate ?? 0) > 100) {
+      return 'Equity and processing fee percentages cannot exceed 100%';
+    }
+    if (productRules.maxTenure !== undefined && (productRules.maxTenure <= 0 || productRules.maxTenure > 1200)) {
+      return 'The maximum tenure must be between 1 and 1200 months';
+    }
+    if (productRules.maxTenure !== undefined && tenure > productRules.maxTenure) {
+      return 'The default tenure cannot exceed the maximum tenure';
+    }
+    if (productRules.dscrThreshold === 0) {
+      return 'The DSCR threshold must be greater than 0';
+    }
+    return null;
+  }
+
+  /**
+   * Whether two sets of product rules enforce the same thing
+   */
+  static productRulesEqual(a: ProductRules | undefined, b: ProductRules | undefined): boolean {
+    return this.PRODUCT_RULE_FIELDS.every(field => a?.[field] === b?.[field]);
+  }
+
+  /**
+   * Validate eligibility limits: each one set is a percentage above 0 and at most 100
+   */
+  static isValidEligibilityLimits(limits: unknown): limits is EligibilityLimits {
+    if (typeof limits !== 'object' || limits === null) {
+      return false;
+    }
+    return (['maxDTI', 'maxFOIR', 'maxLTV'] as const).every(field => {
+      const limit = (limits as Record<string, unknown>)[field];
+      return limit === undefined || (typeof limit === 'number' && limit > 0 && limit <= 100);
+    });
+  }
+
+  /**
+   * Whether two sets of eligibility limits check the same thing
+   */
+  static eligibilityLimitsEqual(a: EligibilityLimits | undefined, b: EligibilityLimits | undefined): boolean {
+    return a?.maxDTI === b?.maxDTI && a?.maxFOIR === b?.maxFOIR && a?.maxLTV === b?.maxLTV;
+  }
+
   /**
    * Validate array of loan types
    */
@@ -116,7 +282,7 @@ export class LoanService {
     return (
       Array.isArray(loanTypes) &&
       loanTypes.length > 0 &&
-      loanTypes.every(this.isValidLoanType)
+      loanTypes.every(loanType => this.isValidLoanType(loanType))
     );
   }
 
@@ -136,4 +302,163 @@ export class LoanService {
       loan.name.toLowerCase() === name.trim().toLowerCase()
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Serialize loan types to a versioned catalog file
+   */
+  static exportCatalog(loanTypes: LoanType[]): string {
+    const catalog: LoanTypeCatalog = {
+      format: this.CATALOG_FORMAT,
+      version: this.CATALOG_VERSION,
+      exportedAt: new Date().toISOString(),
+      loanTypes
+    };
+    return JSON.stringify(catalog, null, 2);
+  }
+
+  /**
+   * Parse and validate a catalog file; returns the loan types or an error message
+   */
+  static parseCatalog(content: string): { loanTypes: LoanType[] | null; error: string | null } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { loanTypes: null, error: 'The file is not valid JSON' };
+    }
+
+    if (typeof parsed !== 'object' || parsed === null) {
+      return { loanTypes: null, error: 'The file is not a loan type catalog' };
+    }
+
+    const catalog = parsed as Record<string, unknown>;
+    if (catalog.format !== this.CATALOG_FORMAT || typeof catalog.version !== 'number') {
+      return { loanTypes: null, error: 'The file is not a loan type catalog' };
+    }
+    if (catalog.version > this.CATALOG_VERSION) {
+      return { loanTypes: null, error: `Catalog version ${catalog.version} was created by a newer version of the calculator` };
+    }
+    if (!Array.isArray(catalog.loanTypes) || catalog.loanTypes.length === 0) {
+      return { loanTypes: null, error: 'The catalog does not contain any loan types' };
+    }
+
+    return this.parseLoanTypeList(catalog.loanTypes);
+  }
+
+  /**
+   * Validate a list of loan types from outside the app (a catalog file or an API
+   * request); returns the trimmed loan types or an error message
+   */
+  static parseLoanTypeList(value: unknown): { loanTypes: LoanType[] | null; error: string | null } {
+    if (!Array.isArray(value) || value.length === 0) {
+      return { loanTypes: null, error: 'At least one loan type is required' };
+    }
+
+    const invalidIndex = value.findIndex(loanType => !this.isValidLoanType(loanType));
+    if (invalidIndex !== -1) {
+      return { loanTypes: null, error: `Loan type ${invalidIndex + 1} is invalid` };
+    }
+
+    const loanTypes = (value as LoanType[]).map(loanType => ({
+      id: loanType.id.trim(),
+      name: loanType.name.trim(),
+      interestRate: loanType.interestRate,
+      tenure: loanType.tenure,
+      ...(loanType.currency ? { currency: loanType.currency } : {}),
+      ...(loanType.eligibilityLimits ? { eligibilityLimits: { ...loanType.eligibilityLimits } } : {}),
+      ...(loanType.productRules ? { productRules: { ...loanType.productRules } } : {})
+    }));
+    const ids = new Set(loanTypes.map(loanType => loanType.id));
+    const names = new Set(loanTypes.map(loanType => loanType.name.toLowerCase()));
+    if (ids.size !== loanTypes.length || names.size !== loanTypes.length) {
+      return { loanTypes: null, error: 'Loan type IDs and names must be unique' };
+    }
+
+    return { loanTypes, error: null };
+  }
+
+  /**
+   * Compare an imported catalog with the current list. Types are matched by ID,
+   * then by name so renamed IDs on another machine do not duplicate a type.
+   */
+  static diffCatalog(current: LoanType[], incoming: LoanType[]): LoanTypeCatalogDiff {
+    const diff: LoanTypeCatalogDiff = { added: [], changed: [], removed: [], unchangedCount: 0 };
+    const matches = this.matchLoanTypes(current, incoming);
+
+    incoming.forEach((loanType, index) => {
+      const existing = matches[index];
+      if (!existing) {
+        diff.added.push(loanType);
+      } else if (
+        existing.name !== loanType.name ||
+        existing.interestRate !== loanType.interestRate ||
+        existing.tenure !== loanType.tenure ||
+        existing.currency !== loanType.currency ||
+        !this.eligibilityLimitsEqual(existing.eligibilityLimits, loanType.eligibilityLimits) ||
+        !this.productRulesEqual(existing.productRules, loanType.productRules)
+      ) {
+        diff.changed.push({ before: existing, after: { ...loanType, id: existing.id } });
+      } else {
+        diff.unchangedCount++;
+      }
+    });
+
+    const matchedIds = new Set(matches.map(existing => existing?.id));
+    diff.removed = current.filter(loanType => !matchedIds.has(loanType.id));
+    return diff;
+  }
+
+  /**
+   * Apply an imported catalog. Merging updates and adds types but keeps the ones
+   * missing from the file; replacing makes the file the whole list.
+   */
+  static applyCatalog(current: LoanType[], incoming: LoanType[], mode: CatalogImportMode): LoanType[] {
+    if (mode === 'replace') {
+      return incoming.map(loanType => ({ ...loanType }));
+    }
+
+    const diff = this.diffCatalog(current, incoming);
+    const changes = new Map(diff.changed.map(change => [change.before.id, change.after]));
+    return [
+      ...current.map(loanType => changes.get(loanType.id) || loanType),
+      ...diff.added
+    ];
+  }
+
+  private static notifyListeners(loanTypes: LoanType[]): void {
+    this.listeners.forEach(listener => listener(loanTypes));
+  }
+
+  // Other tabs hear about saves over a BroadcastChannel, whichever adapter is in use
+  private static getChangeChannel(): BroadcastChannel | null {
+    if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+      return null;
+    }
+    if (!this.changeChannel) {
+      this.changeChannel = new BroadcastChannel(this.CHANGE_CHANNEL);
+      this.changeChannel.onmessage = (event: MessageEvent) => {
+        if (this.isValidLoanTypesArray(event.data)) {
+          this.notifyListeners(event.data);
+        }
+      };
+    }
+    return this.changeChannel;
+  }
+
+  // Pair each incoming type with an existing one: IDs first, then names among the rest
+  private static matchLoanTypes(current: LoanType[], incoming: LoanType[]): (LoanType | undefined)[] {
+    const matches = incoming.map(loanType => current.find(existing => existing.id === loanType.id));
+    const usedIds = new Set(matches.map(existing => existing?.id));
+
+    return matches.map((match, index) => {
+      if (match) return match;
+
+      const byName = current.find(existing =>
+        !usedIds.has(existing.id) &&
+        existing.name.toLowerCase() === incoming[index].name.toLowerCase()
+      );
+      if (byName) usedIds.add(byName.id);
+      return byName;
+    });
+  }
+}
@@ -0,0 +1,81 @@
+// src/app/services/localeService.ts
+
+import { Language, LanguageOption } from '../types/emi';
+import { en, MessageKey, Messages } from '../locales/en';
+import { dv } from '../locales/dv';
+
+export type MessageParams = Record<string, string | number>;
+
+// Services that produce user-facing messages take one of these; they default to English for the API
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export class LocaleService {
+  static readonly COOKIE_NAME = 'language';
+  static readonly DEFAULT_LANGUAGE: Language = 'en';
+  private static readonly COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+  private static readonly LANGUAGES: LanguageOption[] = [
+    { code: 'en', label: 'English', locale: 'en-US', direction: 'ltr' },
+    { code: 'dv', label: 'ދިވެހި', locale: 'dv-MV', direction: 'rtl' }
+  ];
+  private static readonly CATALOGS: Record<Language, Messages> = { en, dv };
+
+  /**
+   * Get the languages the interface is available in
+   */
+  static getLanguages(): LanguageOption[] {
+    return this.LANGUAGES.map(language => ({ ...language }));
+  }
+
+  /**
+   * Check whether a value is a supported language code
+   */
+  static isLanguage(value: unknown): value is Language {
+    return this.LANGUAGES.some(language => language.code === value);
+  }
+
+  /**
+   * Read a stored language code, falling back to the default
+   */
+  static parseLanguage(value: string | null | undefined): Language {
+    return this.isLanguage(value) ? value : this.DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Get the locale and text direction for a language
+   */
+  static getLanguageOption(language: Language): LanguageOption {
+    return this.LANGUAGES.find(option => option.code === language) || this.LANGUAGES[0];
+  }
+
+  /**
+   * Look up a message and fill in `{name}` placeholders; missing translations fall back to English
+   */
+  static translate(language: Language, key: MessageKey, params: MessageParams = {}): string {
+    const message = this.CATALOGS[language][key] || en[key];
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  }
+
+  /**
+   * A translate function bound to one language
+   */
+  static getTranslator(language: Language): Translate {
+    return (key, params) => this.translate(language, key, params);
+  }
+
+  /**
+   * Remember the language in a cookie so the server renders the next page in it,
+   * and switch the document's language and direction right away
+   */
+  static saveLanguage(language: Language): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const { direction } = this.getLanguageOption(language);
+    document.cookie = `${this.COOKIE_NAME}=${language}; path=/; max-age=${this.COOKIE_MAX_AGE}; samesite=lax`;
+    document.documentElement.lang = language;
+    document.documentElement.dir = direction;
+  }
+}
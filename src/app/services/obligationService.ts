@@ -0,0 +1,124 @@
+// src/app/services/obligationService.ts
+
+import { ExistingObligation, FormDataStrings, LegacyFormDataStrings, ObligationLedger, ObligationTreatment } from '../types/emi';
+import { LocaleService, Translate } from './localeService';
+import { MessageKey } from '../locales/en';
+
+export class ObligationService {
+  private static readonly TREATMENT_KEYS: Record<ObligationTreatment, MessageKey> = {
+    refinanced: 'obligations.treatment.refinanced',
+    counted: 'obligations.treatment.counted',
+    ended: 'obligations.treatment.ended',
+    ends_in_grace: 'obligations.treatment.endsInGrace'
+  };
+  private static readonly LEGACY_LENDER = 'Existing loans';
+  private static readonly LEGACY_REMAINING_MONTHS = 600;
+
+  /**
+   * Create an obligation the applicants keep repaying alongside the new loan
+   */
+  static createObligation(): ExistingObligation {
+    return {
+      id: 'obligation-' + Date.now(),
+      lender: '',
+      outstandingBalance: 0,
+      rate: 0,
+      remainingMonths: 12,
+      monthlyInstallment: 0,
+      settledByNewLoan: false
+    };
+  }
+
+  /**
+   * Move the single existing-loans figure of forms saved before the ledger into one
+   * ledger entry, so those installments are counted once, from the ledger. The old
+   * figure had no end date, so the entry runs for the longest tenure and keeps counting.
+   */
+  static migrateExistingLoans({ existingLoans, ...formData }: LegacyFormDataStrings): FormDataStrings {
+    const monthlyInstallment = parseFloat(existingLoans || '') || 0;
+    if (monthlyInstallment <= 0) {
+      return formData;
+    }
+
+    const ledger = formData.obligationLedger || this.createLedger();
+    const obligation: ExistingObligation = {
+      ...this.createObligation(),
+      id: 'obligation-existing-loans',
+      lender: this.LEGACY_LENDER,
+      remainingMonths: this.LEGACY_REMAINING_MONTHS,
+      monthlyInstallment
+    };
+    return { ...formData, obligationLedger: { ...ledger, obligations: [...ledger.obligations, obligation] } };
+  }
+
+  /**
+   * An empty ledger; obligations ending during grace still count until removed by choice
+   */
+  static createLedger(): ObligationLedger {
+    return {
+      obligations: [],
+      excludeEndingInGrace: false
+    };
+  }
+
+  /**
+   * Whether the obligation is still being repaid at the first after-grace installment
+   */
+  static isCounted(obligation: ExistingObligation, ledger: ObligationLedger, gracePeriod: number): boolean {
+    if (obligation.settledByNewLoan || obligation.remainingMonths <= 0) {
+      return false;
+    }
+    return !ledger.excludeEndingInGrace || obligation.remainingMonths > gracePeriod;
+  }
+
+  /**
+   * How the assessment treats the obligation
+   */
+  static getTreatment(obligation: ExistingObligation, ledger: ObligationLedger, gracePeriod: number): ObligationTreatment {
+    if (obligation.settledByNewLoan) return 'refinanced';
+    if (this.isCounted(obligation, ledger, gracePeriod)) return 'counted';
+    return obligation.remainingMonths <= 0 ? 'ended' : 'ends_in_grace';
+  }
+
+  /**
+   * How the assessment treats the obligation, for the report
+   */
+  static describeTreatment(
+    obligation: ExistingObligation,
+    ledger: ObligationLedger,
+    gracePeriod: number,
+    t: Translate = LocaleService.getTranslator('en')
+  ): string {
+    return t(this.TREATMENT_KEYS[this.getTreatment(obligation, ledger, gracePeriod)]);
+  }
+
+  /**
+   * Validate the ledger entries and return an error message, or null when valid
+   */
+  static validateLedger(ledger: ObligationLedger, t: Translate = LocaleService.getTranslator('en')): string | null {
+    for (const [index, obligation] of ledger.obligations.entries()) {
+      const number = index + 1;
+
+      if (!obligation.lender.trim()) {
+        return t('validation.obligationLender', { number });
+      }
+      if (obligation.outstandingBalance < 0 || obligation.monthlyInstallment < 0) {
+        return t('validation.obligationNegative', { number });
+      }
+      if (obligation.rate < 0 || obligation.rate > 50) {
+        return t('validation.obligationRate', { number });
+      }
+      if (!Number.isInteger(obligation.remainingMonths) || obligation.remainingMonths < 0) {
+        return t('validation.obligationMonths', { number });
+      }
+      if (obligation.monthlyInstallment === 0 && (obligation.outstandingBalance === 0 || obligation.remainingMonths === 0)) {
+        return t('validation.obligationInstallment', { number });
+      }
+      if (obligation.settledByNewLoan && obligation.outstandingBalance <= 0) {
+        return t('validation.obligationRefinanceBalance', { number });
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,510 @@
+// src/app/services/openApiService.ts
+
+const numberInput = { oneOf: [{ type: 'number' }, { type: 'string', pattern: '^-?[0-9]*\\.?[0-9]+$' }] };
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } }
+});
+
+const calculationEndpoint = (summary: string, responseSchema: string) => ({
+  post: {
+    summary,
+    requestBody: {
+      required: true,
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/CalculationRequest' } } }
+    },
+    responses: {
+      200: {
+        description: 'Calculation result',
+        content: { 'application/json': { schema: { $ref: `#/components/schemas/${responseSchema}` } } }
+      },
+      400: errorResponse('Malformed JSON or fields of the wrong type'),
+      422: errorResponse('Inputs failed the calculator validation rules or the loan type product rules; fields holds one message per input')
+    }
+  }
+});
+
+export class OpenApiService {
+  /**
+   * OpenAPI 3.1 description of the calculation API
+   */
+  static getDocument() {
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: 'EMI Calculator API',
+        version: '1.0.0',
+        description: 'Server-side EMI, DSCR and repayment schedule calculations using the same rules as the calculator. ' +
+          'Calculations use the standard underwriting policy and the income tax tables kept on the server, with their rufiyaa thresholds converted into the loan type\'s currency at the standard exchange rates.'
+      },
+      paths: {
+        '/api/emi': calculationEndpoint('Installments, total interest and loan end date', 'EmiResponse'),
+        '/api/dscr': calculationEndpoint('Scenario results and DSCR verdicts during and after grace', 'DscrResponse'),
+        '/api/schedule': calculationEndpoint('Month-by-month repayment schedule', 'ScheduleResponse'),
+        '/api/loan-types': {
+          get: {
+            summary: 'Loan type catalog kept on the server (the standard catalog until one is saved)',
+            responses: {
+              200: {
+                description: 'Loan types',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/LoanTypeList' } } }
+              }
+            }
+          },
+          put: {
+            summary: 'Replace the server loan type catalog',
+            description: 'Requires the LOAN_TYPES_API_TOKEN configured on the server as a bearer token. ' +
+              'Without a configured token the catalog cannot be replaced.',
+            security: [{ loanTypesToken: [] }],
+            requestBody: {
+              required: true,
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/LoanTypeList' } } }
+            },
+            responses: {
+              200: {
+                description: 'The saved loan types',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/LoanTypeList' } } }
+              },
+              400: errorResponse('Malformed JSON, an invalid loan type or duplicate IDs or names'),
+              401: errorResponse('The bearer token is missing or wrong'),
+              403: errorResponse('No LOAN_TYPES_API_TOKEN is configured, so updates are disabled'),
+              500: errorResponse('The configured storage could not be written')
+            }
+          }
+        },
+        '/api/tax-tables': {
+          get: {
+            summary: 'Income tax tables kept on the server (the standard tables until some are saved)',
+            responses: {
+              200: {
+                description: 'Tax tables',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/TaxTableList' } } }
+              }
+            }
+          },
+          put: {
+            summary: 'Replace the server tax tables',
+            description: 'Requires the LOAN_TYPES_API_TOKEN configured on the server as a bearer token. ' +
+              'Without a configured token the tables cannot be replaced.',
+            security: [{ loanTypesToken: [] }],
+            requestBody: {
+              required: true,
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/TaxTableList' } } }
+            },
+            responses: {
+              200: {
+                description: 'The saved tax tables',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/TaxTableList' } } }
+              },
+              400: errorResponse('Malformed JSON, an invalid table, or duplicate IDs or effective dates'),
+              401: errorResponse('The bearer token is missing or wrong'),
+              403: errorResponse('No LOAN_TYPES_API_TOKEN is configured, so updates are disabled'),
+              500: errorResponse('The configured storage could not be written')
+            }
+          }
+        },
+        '/api/openapi': {
+          get: {
+            summary: 'This document',
+            responses: { 200: { description: 'OpenAPI document', content: { 'application/json': {} } } }
+          }
+        }
+      },
+      components: {
+        securitySchemes: {
+          loanTypesToken: { type: 'http', scheme: 'bearer', description: 'The LOAN_TYPES_API_TOKEN set on the server' }
+        },
+        schemas: {
+          CalculationRequest: {
+            type: 'object',
+            required: ['inputs'],
+            properties: {
+              inputs: {
+                type: 'object',
+                description: 'Monthly amounts, project cost, equity %, annual rate % and periods in months',
+                required: ['salary', 'totalProjectCost', 'rate', 'repaymentPeriod'],
+                properties: {
+                  salary: numberInput,
+                  rent: numberInput,
+                  other: numberInput,
+                  projectIncome: numberInput,
+                  existingLoans: {
+                    ...numberInput,
+                    deprecated: true,
+                    description: 'Monthly installments of existing loans; added to obligationLedger as one entry'
+                  },
+                  totalProjectCost: numberInput,
+                  equityPercentage: numberInput,
+                  rate: numberInput,
+                  repaymentPeriod: numberInput,
+                  gracePeriod: numberInput,
+                  propertyValue: { ...numberInput, description: 'Appraised value of the security, for LTV' },
+                  processingFeeRate: { ...numberInput, description: 'Processing fee as a percentage of bank finance' },
+                  stampDuty: numberInput,
+                  propertyInsurance: { ...numberInput, description: 'Annual premium' },
+                  lifeInsurance: { ...numberInput, description: 'Annual premium' },
+                  serviceCharges: { ...numberInput, description: 'Annual charges' },
+                  coApplicants: {
+                    type: 'array',
+                    description: 'Joint applicants; the fields above are the primary applicant. Each is taxed on their own income.',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        name: { type: 'string' },
+                        salary: { type: 'number', default: 0 },
+                        rent: { type: 'number', default: 0 },
+                        other: { type: 'number', default: 0 },
+                        existingLoans: { type: 'number', default: 0 }
+                      }
+                    }
+                  },
+                  obligationLedger: {
+                    type: 'object',
+                    description: 'Itemized existing facilities of the primary applicant, counted in DSCR',
+                    properties: {
+                      excludeEndingInGrace: { type: 'boolean', default: false, description: 'Ignore facilities repaid before grace ends' },
+                      obligations: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          required: ['lender'],
+                          properties: {
+                            id: { type: 'string' },
+                            lender: { type: 'string' },
+                            outstandingBalance: { type: 'number', default: 0 },
+                            rate: { type: 'number', default: 0 },
+                            remainingMonths: { type: 'integer', default: 0 },
+                            monthlyInstallment: { type: 'number', default: 0, description: 'Derived from balance, rate and remaining months when 0' },
+                            settledByNewLoan: { type: 'boolean', default: false, description: 'Refinance the balance into the new loan' }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              },
+              loanTypeId: {
+                type: 'string',
+                description: 'ID from GET /api/loan-types. Its product rules are enforced as in the calculator, and /api/dscr checks its eligibility limits.'
+              },
+              graceMode: { type: 'string', enum: ['added_to_tenure', 'inside_tenure', 'capitalized'], default: 'added_to_tenure' },
+              scenarioIds: {
+                type: 'array',
+                items: { type: 'string', enum: ['normal', 'income_reduce'] },
+                description: 'Scenarios to calculate; defaults to both. /api/emi and /api/schedule use the first.'
+              },
+              rateSchedule: {
+                type: 'object',
+                properties: {
+                  mode: { type: 'string', enum: ['fixed', 'periods', 'base_plus_margin'] },
+                  periods: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: { startMonth: { type: 'integer' }, rate: { type: 'number' } }
+                    }
+                  },
+                  fixedPeriodMonths: { type: 'integer' },
+                  baseRate: { type: 'number' },
+                  margin: { type: 'number' },
+                  resetIntervalMonths: { type: 'integer' },
+                  baseRateChangePerReset: { type: 'number' }
+                }
+              },
+              prepayments: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['month', 'amount'],
+                  properties: {
+                    month: { type: 'integer', minimum: 1 },
+                    amount: { type: 'number', exclusiveMinimum: 0 },
+                    frequency: { type: 'string', enum: ['once', 'monthly', 'yearly'], default: 'once' },
+                    endMonth: { type: 'integer' },
+                    strategy: { type: 'string', enum: ['reduce_tenure', 'reduce_emi'], default: 'reduce_tenure' }
+                  }
+                }
+              },
+              calculationDate: { type: 'string', format: 'date', description: 'Selects the tax table and start date; defaults to today' }
+            }
+          },
+          EMIPeriod: {
+            type: 'object',
+            properties: {
+              startMonth: { type: 'integer' },
+              endMonth: { type: 'integer' },
+              rate: { type: 'number' },
+              emi: { type: 'number' }
+            }
+          },
+          EmiResponse: {
+            type: 'object',
+            properties: {
+              scenarioId: { type: 'string' },
+              bankFinanceAmount: { type: 'number', description: 'Project finance plus refinanced obligations' },
+              takeoverAmount: { type: 'number', description: 'Balances of obligations refinanced into this loan' },
+              equityAmount: { type: 'number' },
+              gracePeriodRepayment: { type: 'number' },
+              emi: { type: 'number', description: 'First installment after grace' },
+              maxRepayment: { type: 'number' },
+              emiPeriods: { type: 'array', items: { $ref: '#/components/schemas/EMIPeriod' } },
+              effectiveRate: { type: 'number' },
+              graceMode: { type: 'string' },
+              amortizationPeriod: { type: 'integer' },
+              totalMonths: { type: 'integer' },
+              capitalizedInterest: { type: 'number' },
+              totalInterest: { type: 'number' },
+              loanEndDate: { type: 'string', format: 'date' },
+              borrowingCost: { $ref: '#/components/schemas/BorrowingCost' }
+            }
+          },
+          BorrowingCost: {
+            type: 'object',
+            description: 'Interest, fees and insurance over the life of the loan with any prepayments applied, and the APR they amount to',
+            properties: {
+              processingFee: { type: 'number' },
+              stampDuty: { type: 'number' },
+              upfrontFees: { type: 'number', description: 'Processing fee plus stamp duty, paid at disbursement' },
+              monthlyInsurance: { type: 'number' },
+              monthlyServiceCharges: { type: 'number' },
+              effectiveEMI: { type: 'number', description: 'First installment after grace plus monthly insurance and charges' },
+              totalInterest: { type: 'number' },
+              totalInsurance: { type: 'number' },
+              totalServiceCharges: { type: 'number' },
+              totalCostOfBorrowing: { type: 'number' },
+              nominalRate: { type: 'number' },
+              apr: { type: ['number', 'null'], description: 'Annualized internal rate of return of the cash flows; null if it does not converge' },
+              effectiveAnnualRate: { type: ['number', 'null'] }
+            }
+          },
+          Calculations: {
+            type: 'object',
+            description: 'Full scenario result, as shown on the calculator cards',
+            properties: {
+              totalIncome: { type: 'number' },
+              totalExpenditure: { type: 'number' },
+              totalProjectIncome: { type: 'number' },
+              totalProjectExpenditure: { type: 'number' },
+              netIncome: { type: 'number' },
+              monthlyRepayment: { type: 'number' },
+              afterGraceRepayment: { type: 'number' },
+              gracePeriodRepayment: { type: 'number' },
+              dscr: { type: 'number' },
+              worstCaseDSCR: { type: 'number' },
+              incomeTax: { type: 'number' },
+              maintenanceCost: { type: 'number' },
+              bankFinanceAmount: { type: 'number' },
+              totalInterest: { type: 'number' },
+              loanEndDate: { type: 'string', format: 'date' },
+              existingLoans: { type: 'number', description: 'Existing loan installments of all applicants, including the ledger' },
+              obligationInstallments: { type: 'number', description: 'Ledger installments counted in DSCR' },
+              takeoverAmount: { type: 'number', description: 'Refinanced balances included in bankFinanceAmount' },
+              dti: { type: 'number', description: 'Installments as a percentage of gross income' },
+              foir: { type: 'number', description: 'Installments as a percentage of income after tax' },
+              ltv: { type: ['number', 'null'], description: 'Bank finance as a percentage of propertyValue; null without one' },
+              applicants: { type: 'array', items: { $ref: '#/components/schemas/ApplicantContribution' } }
+            },
+            additionalProperties: true
+          },
+          ApplicantContribution: {
+            type: 'object',
+            properties: {
+              applicantId: { type: 'string', description: 'primary for the main applicant' },
+              name: { type: 'string' },
+              totalIncome: { type: 'number' },
+              incomeTax: { type: 'number' },
+              existingLoans: { type: 'number' },
+              netContribution: { type: 'number', description: 'Income after the applicant pays their own tax' },
+              incomeShare: { type: 'number', description: 'Percentage of household income' }
+            }
+          },
+          DscrResponse: {
+            type: 'object',
+            properties: {
+              policy: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  version: { type: 'integer' },
+                  dscrExcellentThreshold: { type: 'number' },
+                  dscrGoodThreshold: { type: 'number' }
+                }
+              },
+              loanTypeId: { type: ['string', 'null'] },
+              dscrThreshold: { type: 'number', description: 'DSCR threshold of the loan type, else the Good threshold of the policy' },
+              scenarios: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    scenarioId: { type: 'string' },
+                    scenarioName: { type: 'string' },
+                    dscr: { type: 'number' },
+                    status: { type: 'string', enum: ['Excellent', 'Good', 'Needs Improvement'] },
+                    worstCaseDSCR: { type: 'number' },
+                    worstCaseStatus: { type: 'string', enum: ['Excellent', 'Good', 'Needs Improvement'] },
+                    dti: { type: 'number' },
+                    foir: { type: 'number' },
+                    ltv: { type: ['number', 'null'] },
+                    eligibility: { $ref: '#/components/schemas/EligibilityVerdict' },
+                    duringGrace: { $ref: '#/components/schemas/Calculations' },
+                    afterGrace: { $ref: '#/components/schemas/Calculations' }
+                  }
+                }
+              }
+            }
+          },
+          EligibilityVerdict: {
+            type: 'object',
+            description: 'DSCR plus the DTI, FOIR and LTV limits the loan type sets; eligible when every rule passed',
+            properties: {
+              eligible: { type: 'boolean' },
+              rules: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string', enum: ['dscr', 'dti', 'foir', 'ltv'] },
+                    value: { type: ['number', 'null'] },
+                    limit: { type: 'number' },
+                    status: { type: 'string', enum: ['passed', 'failed', 'missing'] }
+                  }
+                }
+              }
+            }
+          },
+          ScheduleResponse: {
+            type: 'object',
+            properties: {
+              scenarioId: { type: 'string' },
+              schedule: {
+                type: 'object',
+                properties: {
+                  rows: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        month: { type: 'integer' },
+                        isGracePeriod: { type: 'boolean' },
+                        rate: { type: 'number' },
+                        openingBalance: { type: 'number' },
+                        payment: { type: 'number' },
+                        interest: { type: 'number' },
+                        principal: { type: 'number' },
+                        prepayment: { type: 'number' },
+                        closingBalance: { type: 'number' },
+                        cumulativeInterest: { type: 'number' }
+                      }
+                    }
+                  },
+                  yearlySummaries: { type: 'array', items: { type: 'object' } },
+                  emiPeriods: { type: 'array', items: { $ref: '#/components/schemas/EMIPeriod' } },
+                  totalPayment: { type: 'number' },
+                  totalInterest: { type: 'number' }
+                }
+              },
+              prepaymentSummary: {
+                type: ['object', 'null'],
+                properties: {
+                  totalPrepaid: { type: 'number' },
+                  interestSaved: { type: 'number' },
+                  monthsSaved: { type: 'integer' },
+                  originalPayoffDate: { type: 'string', format: 'date' },
+                  newPayoffDate: { type: 'string', format: 'date' }
+                }
+              }
+            }
+          },
+          LoanType: {
+            type: 'object',
+            required: ['id', 'name', 'interestRate', 'tenure'],
+            properties: {
+              id: { type: 'string', minLength: 1 },
+              name: { type: 'string', minLength: 1 },
+              interestRate: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+              tenure: { type: 'number', exclusiveMinimum: 0, maximum: 1200, description: 'Months' },
+              currency: { type: 'string', pattern: '^[A-Z]{3}$', description: 'ISO 4217 code; the default currency applies when absent' },
+              eligibilityLimits: {
+                type: 'object',
+                description: 'Highest percentages the loan type accepts; absent limits are not checked',
+                properties: {
+                  maxDTI: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+                  maxFOIR: { type: 'number', exclusiveMinimum: 0, maximum: 100 },
+                  maxLTV: { type: 'number', exclusiveMinimum: 0, maximum: 100 }
+                }
+              },
+              productRules: {
+                type: 'object',
+                description: 'What the product accepts; amounts apply to the bank finance, periods are in months',
+                properties: {
+                  minAmount: { type: 'number', minimum: 0 },
+                  maxAmount: { type: 'number', minimum: 0 },
+                  minEquityPercentage: { type: 'number', minimum: 0, maximum: 100 },
+                  maxTenure: { type: 'number', exclusiveMinimum: 0, maximum: 1200 },
+                  minGracePeriod: { type: 'number', minimum: 0 },
+                  maxGracePeriod: { type: 'number', minimum: 0 },
+                  processingFeeRate: { type: 'number', minimum: 0, maximum: 100, description: 'Percent of the bank finance, charged upfront' },
+                  dscrThreshold: { type: 'number', exclusiveMinimum: 0, description: 'Replaces the Good threshold of the policy in the eligibility verdict' }
+                }
+              }
+            }
+          },
+          LoanTypeList: {
+            type: 'object',
+            required: ['loanTypes'],
+            properties: { loanTypes: { type: 'array', minItems: 1, items: { $ref: '#/components/schemas/LoanType' } } }
+          },
+          TaxTable: {
+            type: 'object',
+            required: ['id', 'name', 'effectiveFrom', 'brackets'],
+            properties: {
+              id: { type: 'string', minLength: 1 },
+              name: { type: 'string', minLength: 2 },
+              effectiveFrom: { type: 'string', format: 'date', description: 'Applies from this date until a later table takes over' },
+              brackets: {
+                type: 'array',
+                minItems: 1,
+                description: 'Contiguous annual income bands in MVR, starting at 0',
+                items: {
+                  type: 'object',
+                  required: ['min', 'max', 'rate'],
+                  properties: {
+                    min: { type: 'number', minimum: 0 },
+                    max: { type: 'number', nullable: true, description: 'null for the unbounded top bracket' },
+                    rate: { type: 'number', minimum: 0, maximum: 100 }
+                  }
+                }
+              }
+            }
+          },
+          TaxTableList: {
+            type: 'object',
+            required: ['taxTables'],
+            properties: { taxTables: { type: 'array', minItems: 1, items: { $ref: '#/components/schemas/TaxTable' } } }
+          },
+          ErrorResponse: {
+            type: 'object',
+            properties: {
+              error: {
+                type: 'object',
+                required: ['code', 'message'],
+                properties: {
+                  code: {
+                    type: 'string',
+                    enum: ['invalid_json', 'invalid_request', 'validation_failed', 'storage_failed', 'unauthorized', 'forbidden']
+                  },
+                  message: { type: 'string' },
+                  fields: { type: 'object', additionalProperties: { type: 'string' } }
+                }
+              }
+            }
+          }
+        }
+      }
+    };
+  }
+}
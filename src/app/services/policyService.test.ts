@@ -0,0 +1,28 @@
+// src/app/services/policyService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { PolicyService } from './policyService';
+
+describe('PolicyService revision history', () => {
+  const original = PolicyService.getDefaultPolicy();
+
+  it('keeps every saved version of a policy, newest first', () => {
+    const second = PolicyService.createRevision({ ...original, maintenanceCostRate: 6 });
+    const third = PolicyService.createRevision({ ...second, maintenanceCostRate: 7 });
+
+    let history = PolicyService.appendRevisions([], [original, second]);
+    history = PolicyService.appendRevisions(history, [second, third]);
+
+    expect(PolicyService.getRevisions(history, original.id).map(policy => [policy.version, policy.maintenanceCostRate]))
+      .toEqual([[3, 7], [2, 6], [1, 5]]);
+  });
+
+  it('never replaces a recorded revision', () => {
+    const history = PolicyService.appendRevisions([], [original]);
+
+    const unchanged = PolicyService.appendRevisions(history, [{ ...original, maintenanceCostRate: 9 }]);
+
+    expect(unchanged).toBe(history);
+    expect(unchanged[0].maintenanceCostRate).toBe(original.maintenanceCostRate);
+  });
+});
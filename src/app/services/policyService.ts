@@ -0,0 +1,244 @@
+// src/app/services/policyService.ts
+
+import { UnderwritingPolicy } from '../types/emi';
+import { LocaleService, Translate } from './localeService';
+
+export class PolicyService {
+  private static readonly STORAGE_KEY = 'underwritingPolicies';
+  private static readonly ACTIVE_POLICY_KEY = 'activeUnderwritingPolicy';
+  private static readonly HISTORY_KEY = 'underwritingPolicyHistory';
+  private static readonly DEFAULT_POLICY: UnderwritingPolicy = {
+    id: 'standard',
+    name: 'Standard',
+    version: 1,
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    livingExpenseThreshold: 25000,
+    livingExpenseRateAboveThreshold: 35,
+    livingExpenseRateAtOrBelowThreshold: 40,
+    maintenanceCostRate: 5,
+    incomeReduceMultiplier: 0.8,
+    stressExpenditureRate: 20,
+    dscrExcellentThreshold: 1.25,
+    dscrGoodThreshold: 1.0
+  };
+
+  /**
+   * Load underwriting policies from localStorage or return the default policy
+   */
+  static loadPolicies(): UnderwritingPolicy[] {
+    if (typeof window === 'undefined') {
+      return [this.getDefaultPolicy()];
+    }
+
+    try {
+      const savedPolicies = localStorage.getItem(this.STORAGE_KEY);
+      if (savedPolicies) {
+        const parsed = JSON.parse(savedPolicies);
+        if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(policy => this.isValidPolicy(policy))) {
+          return parsed;
+        }
+      }
+    } catch (err) {
+      console.error('Error loading underwriting policies:', err);
+    }
+
+    return [this.getDefaultPolicy()];
+  }
+
+  /**
+   * Save underwriting policies to localStorage
+   */
+  static savePolicies(policies: UnderwritingPolicy[]): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(policies));
+    } catch (err) {
+      console.error('Error saving underwriting policies:', err);
+    }
+  }
+
+  /**
+   * Load every saved revision of every policy, including deleted policies
+   */
+  static loadPolicyHistory(): UnderwritingPolicy[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    try {
+      const savedHistory = localStorage.getItem(this.HISTORY_KEY);
+      if (savedHistory) {
+        const parsed = JSON.parse(savedHistory);
+        if (Array.isArray(parsed)) {
+          return parsed.filter(policy => this.isValidPolicy(policy));
+        }
+      }
+    } catch (err) {
+      console.error('Error loading underwriting policy history:', err);
+    }
+
+    return [];
+  }
+
+  /**
+   * Save the policy revision history to localStorage
+   */
+  static savePolicyHistory(history: UnderwritingPolicy[]): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.HISTORY_KEY, JSON.stringify(history));
+    } catch (err) {
+      console.error('Error saving underwriting policy history:', err);
+    }
+  }
+
+  /**
+   * Append revisions to the history. The history is append-only: a revision
+   * already recorded for the same id and version is never replaced.
+   */
+  static appendRevisions(history: UnderwritingPolicy[], revisions: UnderwritingPolicy[]): UnderwritingPolicy[] {
+    const recorded = new Set(history.map(policy => `${policy.id}@${policy.version}`));
+    const additions = revisions.filter(policy => {
+      const key = `${policy.id}@${policy.version}`;
+      if (recorded.has(key)) return false;
+      recorded.add(key);
+      return true;
+    });
+    return additions.length > 0 ? [...history, ...additions.map(policy => ({ ...policy }))] : history;
+  }
+
+  /**
+   * Revisions of one policy, newest first
+   */
+  static getRevisions(history: UnderwritingPolicy[], id: string): UnderwritingPolicy[] {
+    return history
+      .filter(policy => policy.id === id)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  /**
+   * Load the id of the policy the calculator should use
+   */
+  static loadActivePolicyId(): string {
+    if (typeof window === 'undefined') {
+      return this.DEFAULT_POLICY.id;
+    }
+
+    return localStorage.getItem(this.ACTIVE_POLICY_KEY) || this.DEFAULT_POLICY.id;
+  }
+
+  /**
+   * Remember the policy the calculator should use
+   */
+  static saveActivePolicyId(id: string): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.ACTIVE_POLICY_KEY, id);
+    } catch (err) {
+      console.error('Error saving active policy:', err);
+    }
+  }
+
+  /**
+   * Get the default policy, matching the original hard-coded underwriting rules
+   */
+  static getDefaultPolicy(): UnderwritingPolicy {
+    return { ...this.DEFAULT_POLICY };
+  }
+
+  /**
+   * Find a policy by id, falling back to the first available policy
+   */
+  static findPolicy(policies: UnderwritingPolicy[], id: string): UnderwritingPolicy {
+    return policies.find(policy => policy.id === id) || policies[0] || this.getDefaultPolicy();
+  }
+
+  /**
+   * Return a copy of the policy with its version bumped and timestamp refreshed
+   */
+  static createRevision(policy: UnderwritingPolicy): UnderwritingPolicy {
+    return {
+      ...policy,
+      version: policy.version + 1,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Validate policy values and return an error message, or null when valid
+   */
+  static validatePolicy(policy: UnderwritingPolicy, t: Translate = LocaleService.getTranslator('en')): string | null {
+    const isPercentage = (value: number) => value >= 0 && value <= 100;
+
+    if (policy.name.trim().length < 2) {
+      return t('policies.errorNameShort');
+    }
+    if (policy.livingExpenseThreshold < 0) {
+      return t('policies.errorThreshold');
+    }
+    if (!isPercentage(policy.livingExpenseRateAboveThreshold) || !isPercentage(policy.livingExpenseRateAtOrBelowThreshold)) {
+      return t('policies.errorLivingExpenseRates');
+    }
+    if (!isPercentage(policy.maintenanceCostRate)) {
+      return t('policies.errorMaintenanceRate');
+    }
+    if (policy.incomeReduceMultiplier < 0 || policy.incomeReduceMultiplier > 1) {
+      return t('policies.errorIncomeReduce');
+    }
+    if (!isPercentage(policy.stressExpenditureRate)) {
+      return t('policies.errorStressRate');
+    }
+    if (policy.dscrGoodThreshold <= 0 || policy.dscrExcellentThreshold < policy.dscrGoodThreshold) {
+      return t('policies.errorDscrThresholds');
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate policy object shape and values
+   */
+  static isValidPolicy(policy: unknown): policy is UnderwritingPolicy {
+    if (typeof policy !== 'object' || policy === null) {
+      return false;
+    }
+
+    const candidate = policy as Record<string, unknown>;
+    const numericFields: (keyof UnderwritingPolicy)[] = [
+      'version',
+      'livingExpenseThreshold',
+      'livingExpenseRateAboveThreshold',
+      'livingExpenseRateAtOrBelowThreshold',
+      'maintenanceCostRate',
+      'incomeReduceMultiplier',
+      'stressExpenditureRate',
+      'dscrExcellentThreshold',
+      'dscrGoodThreshold'
+    ];
+
+    return (
+      typeof candidate.id === 'string' &&
+      candidate.id.trim().length > 0 &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.updatedAt === 'string' &&
+      numericFields.every(field => typeof candidate[field] === 'number') &&
+      this.validatePolicy(candidate as unknown as UnderwritingPolicy) === null
+    );
+  }
+
+  /**
+   * Generate a unique ID for new policies
+   */
+  static generateId(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') + '-' + Date.now();
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/services/prepaymentService.ts
+
+import { Prepayment } from '../types/emi';
+import { LocaleService, Translate } from './localeService';
+
+export class PrepaymentService {
+  /**
+   * Create a one-off prepayment that shortens the loan
+   */
+  static createPrepayment(month: number = 12, amount: number = 100000): Prepayment {
+    return {
+      id: 'prepayment-' + Date.now(),
+      month,
+      amount,
+      frequency: 'once',
+      strategy: 'reduce_tenure'
+    };
+  }
+
+  /**
+   * Get the prepayments that fall due in an installment month
+   */
+  static getPrepaymentsDue(prepayments: Prepayment[], month: number): Prepayment[] {
+    return prepayments.filter(prepayment => {
+      if (month < prepayment.month || prepayment.amount <= 0) {
+        return false;
+      }
+      if (prepayment.endMonth !== undefined && month > prepayment.endMonth) {
+        return false;
+      }
+
+      const monthsSinceStart = month - prepayment.month;
+      switch (prepayment.frequency) {
+        case 'monthly':
+          return true;
+        case 'yearly':
+          return monthsSinceStart % 12 === 0;
+        default:
+          return monthsSinceStart === 0;
+      }
+    });
+  }
+
+  /**
+   * Validate prepayments and return an error message, or null when valid
+   */
+  static validatePrepayments(prepayments: Prepayment[], t: Translate = LocaleService.getTranslator('en')): string | null {
+    for (const [index, prepayment] of prepayments.entries()) {
+      const number = index + 1;
+
+      if (!Number.isInteger(prepayment.month) || prepayment.month < 1) {
+        return t('validation.prepaymentMonth', { number });
+      }
+      if (prepayment.amount <= 0) {
+        return t('validation.prepaymentAmount', { number });
+      }
+      if (prepayment.endMonth !== undefined && prepayment.endMonth < prepayment.month) {
+        return t('validation.prepaymentEndMonth', { number });
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,110 @@
+// src/app/services/rateScheduleService.ts
+
+import { RatePeriod, RateSchedule } from '../types/emi';
+import { LocaleService, Translate } from './localeService';
+
+export class RateScheduleService {
+  private static readonly DEFAULT_RATE_SCHEDULE: RateSchedule = {
+    mode: 'fixed',
+    periods: [],
+    fixedPeriodMonths: 24,
+    baseRate: 6.0,
+    margin: 3.0,
+    resetIntervalMonths: 12,
+    baseRateChangePerReset: 0
+  };
+
+  /**
+   * Get the default (fixed rate) schedule
+   */
+  static getDefaultRateSchedule(): RateSchedule {
+    return { ...this.DEFAULT_RATE_SCHEDULE, periods: [] };
+  }
+
+  /**
+   * Expand a rate schedule into sorted rate periods covering the whole loan,
+   * starting with the nominal rate in month 1
+   */
+  static resolveRatePeriods(schedule: RateSchedule, nominalRate: number, totalMonths: number): RatePeriod[] {
+    const periods: RatePeriod[] = [{ startMonth: 1, rate: nominalRate }];
+
+    if (schedule.mode === 'periods') {
+      const sorted = [...schedule.periods]
+        .filter(period => period.startMonth >= 1 && period.startMonth <= totalMonths)
+        .sort((a, b) => a.startMonth - b.startMonth);
+
+      for (const period of sorted) {
+        if (period.startMonth === 1) {
+          periods[0] = { ...period };
+        } else {
+          periods.push({ ...period });
+        }
+      }
+    }
+
+    if (schedule.mode === 'base_plus_margin' && schedule.resetIntervalMonths > 0) {
+      let reset = 0;
+      for (let startMonth = schedule.fixedPeriodMonths + 1; startMonth <= totalMonths; startMonth += schedule.resetIntervalMonths) {
+        const rate = schedule.baseRate + schedule.margin + reset * schedule.baseRateChangePerReset;
+        const period = { startMonth, rate: Math.max(rate, 0) };
+        if (startMonth === 1) {
+          periods[0] = period;
+        } else {
+          periods.push(period);
+        }
+        reset++;
+      }
+    }
+
+    // Drop resets that do not change the rate
+    return periods.filter((period, index) => index === 0 || period.rate !== periods[index - 1].rate);
+  }
+
+  /**
+   * Get the rate in force for an installment month
+   */
+  static getRateForMonth(periods: RatePeriod[], month: number): number {
+    let rate = periods.length > 0 ? periods[0].rate : 0;
+    for (const period of periods) {
+      if (period.startMonth <= month) {
+        rate = period.rate;
+      }
+    }
+    return rate;
+  }
+
+  /**
+   * Validate a rate schedule and return an error message, or null when valid
+   */
+  static validateRateSchedule(schedule: RateSchedule, t: Translate = LocaleService.getTranslator('en')): string | null {
+    if (schedule.mode === 'periods') {
+      const startMonths = schedule.periods.map(period => period.startMonth);
+      if (schedule.periods.length === 0) {
+        return t('validation.ratePeriodsEmpty');
+      }
+      if (startMonths.some(month => !Number.isInteger(month) || month < 1)) {
+        return t('validation.ratePeriodsStart');
+      }
+      if (new Set(startMonths).size !== startMonths.length) {
+        return t('validation.ratePeriodsDuplicate');
+      }
+      if (schedule.periods.some(period => period.rate < 0 || period.rate > 50)) {
+        return t('validation.ratePeriodsRange');
+      }
+    }
+
+    if (schedule.mode === 'base_plus_margin') {
+      if (schedule.fixedPeriodMonths < 0 || !Number.isInteger(schedule.fixedPeriodMonths)) {
+        return t('validation.fixedPeriod');
+      }
+      if (schedule.resetIntervalMonths < 1 || !Number.isInteger(schedule.resetIntervalMonths)) {
+        return t('validation.resetInterval');
+      }
+      if (schedule.baseRate < 0 || schedule.margin < 0 || schedule.baseRate + schedule.margin > 50) {
+        return t('validation.basePlusMarginRange');
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,47 @@
+// src/app/services/reportService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { Prepayment, ReportInput } from '../types/emi';
+import { CurrencyService } from './currencyService';
+import { EMICalculationService } from './calculationService';
+import { PolicyService } from './policyService';
+import { RateScheduleService } from './rateScheduleService';
+import { ReportService } from './reportService';
+import { ScenarioService } from './scenarioService';
+import { TaxTableService } from './taxTableService';
+import { ASSESSMENT_FORM_DATA } from './calculationService.fixtures';
+
+const GENERATED_AT = new Date(2025, 0, 15);
+
+describe('ReportService.buildReport', () => {
+  const policy = PolicyService.getDefaultPolicy();
+  const prepayments: Prepayment[] = [
+    { id: 'bonus', month: 24, amount: 200000, frequency: 'yearly', endMonth: 120, strategy: 'reduce_tenure' }
+  ];
+  const input: ReportInput = {
+    formData: { ...ASSESSMENT_FORM_DATA, processingFeeRate: '1', propertyInsurance: '6000' },
+    loanTypeName: 'Home Loan',
+    scenarios: ScenarioService.getBuiltInScenarios(policy),
+    graceMode: 'added_to_tenure',
+    policy,
+    taxTables: TaxTableService.getDefaultTaxTables(),
+    rateSchedule: RateScheduleService.getDefaultRateSchedule(),
+    prepayments,
+    currency: CurrencyService.findCurrency(CurrencyService.getDefaultSettings())
+  };
+
+  it('counts planned prepayments in the cost of borrowing, as the calculator does', () => {
+    const report = ReportService.buildReport(input, GENERATED_AT);
+    const [normal] = report.scenarioResults;
+    const calculatorCost = EMICalculationService.calculateBorrowingCost(
+      input.formData,
+      input.scenarios[0],
+      { graceMode: input.graceMode, calculationDate: GENERATED_AT, policy, taxTables: input.taxTables, rateSchedule: input.rateSchedule },
+      prepayments
+    );
+    const withoutPrepayments = ReportService.buildReport({ ...input, prepayments: [] }, GENERATED_AT).scenarioResults[0];
+
+    expect(normal.borrowingCost).toEqual(calculatorCost);
+    expect(normal.borrowingCost.totalInterest).toBeLessThan(withoutPrepayments.borrowingCost.totalInterest);
+  });
+});
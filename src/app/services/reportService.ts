@@ -0,0 +1,133 @@
+// src/app/services/reportService.ts
+
+import { AssessmentReport, ReportDraft, ReportInput } from '../types/emi';
+import { EMICalculationService } from './calculationService';
+import { EligibilityService } from './eligibilityService';
+import { ObligationService } from './obligationService';
+import { TaxTableService } from './taxTableService';
+import { getDSCRStatus } from '../utils/formatters';
+
+export class ReportService {
+  private static readonly DRAFT_KEY = 'assessmentReportDraft';
+
+  /**
+   * Hand the calculator inputs to the report page for this browser tab
+   */
+  static saveDraft(draft: ReportDraft): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      sessionStorage.setItem(this.DRAFT_KEY, JSON.stringify(draft));
+    } catch (err) {
+      console.error('Error saving report draft:', err);
+    }
+  }
+
+  /**
+   * Read the inputs left by the calculator, or null when there are none
+   */
+  static loadDraft(): ReportDraft | null {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+
+    try {
+      const savedDraft = sessionStorage.getItem(this.DRAFT_KEY);
+      if (savedDraft) {
+        const parsed = JSON.parse(savedDraft);
+        if (typeof parsed === 'object' && parsed !== null && typeof parsed.formData === 'object') {
+          return {
+            ...parsed,
+            formData: ObligationService.migrateExistingLoans(parsed.formData),
+            prepayments: Array.isArray(parsed.prepayments) ? parsed.prepayments : []
+          } as ReportDraft;
+        }
+      }
+    } catch (err) {
+      console.error('Error loading report draft:', err);
+    }
+
+    return null;
+  }
+
+  /**
+   * Calculate every scenario and the repayment schedule for the report
+   */
+  static buildReport(input: ReportInput, generatedAt: Date = new Date()): AssessmentReport {
+    const options = {
+      graceMode: input.graceMode,
+      calculationDate: generatedAt,
+      policy: input.policy,
+      taxTables: input.taxTables,
+      rateSchedule: input.rateSchedule
+    };
+    const numericData = EMICalculationService.convertToNumericFormData(input.formData);
+    const bankFinanceAmount = EMICalculationService.calculateFinancedAmount(numericData);
+    const dscrThreshold = EligibilityService.getDSCRThreshold(input.productRules, input.policy);
+
+    const scenarioResults = input.scenarios.map((scenario) => {
+      const afterGrace = EMICalculationService.performCalculations(input.formData, scenario, true, options);
+      return {
+        scenarioId: scenario.id,
+        scenarioName: scenario.name,
+        description: scenario.description,
+        duringGrace: EMICalculationService.performCalculations(input.formData, scenario, false, options),
+        afterGrace,
+        dscrStatus: getDSCRStatus(afterGrace.dscr, input.policy).status,
+        worstCaseDscrStatus: getDSCRStatus(afterGrace.worstCaseDSCR, input.policy).status,
+        eligibility: EligibilityService.evaluate(afterGrace, input.eligibilityLimits, dscrThreshold),
+        borrowingCost: EMICalculationService.calculateBorrowingCost(input.formData, scenario, options, input.prepayments)
+      };
+    });
+
+    // The schedule follows the first scenario, which is the normal one
+    const ratePeriods = EMICalculationService.resolveScenarioRatePeriods(
+      input.rateSchedule,
+      numericData.rate,
+      numericData.gracePeriod + numericData.repaymentPeriod,
+      input.scenarios[0]
+    );
+    const schedule = EMICalculationService.generateAmortizationSchedule({
+      principal: bankFinanceAmount,
+      rate: ratePeriods[0].rate,
+      repaymentPeriod: numericData.repaymentPeriod,
+      gracePeriod: numericData.gracePeriod,
+      graceMode: input.graceMode,
+      ratePeriods
+    });
+
+    return {
+      id: this.generateReportId(generatedAt),
+      generatedAt: generatedAt.toISOString(),
+      loanTypeName: input.loanTypeName,
+      currency: { ...input.currency },
+      formData: { ...input.formData },
+      graceMode: input.graceMode,
+      policyName: input.policy.name,
+      policyVersion: input.policy.version,
+      totalProjectCost: numericData.totalProjectCost,
+      equityPercentage: numericData.equityPercentage,
+      equityAmount: EMICalculationService.calculateEquityAmount(numericData.totalProjectCost, numericData.equityPercentage),
+      bankFinanceAmount,
+      scenarioResults,
+      taxTable: TaxTableService.getEffectiveTable(input.taxTables, generatedAt),
+      amortization: {
+        yearlySummaries: schedule.yearlySummaries,
+        emiPeriods: schedule.emiPeriods,
+        totalPayment: schedule.totalPayment,
+        totalInterest: schedule.totalInterest
+      }
+    };
+  }
+
+  /**
+   * Report IDs carry the generation date and a random suffix, e.g. EMI-20250301-4K7Q2X
+   */
+  static generateReportId(generatedAt: Date = new Date()): string {
+    const datePart = generatedAt.toISOString().slice(0, 10).replace(/-/g, '');
+    const suffix = Math.floor(Math.random() * 36 ** 6).toString(36).toUpperCase().padStart(6, '0');
+    return `EMI-${datePart}-${suffix}`;
+  }
+}
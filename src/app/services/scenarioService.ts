@@ -0,0 +1,184 @@
+// src/app/services/scenarioService.ts
+
+import { Scenario, UnderwritingPolicy } from '../types/emi';
+import { LocaleService, Translate } from './localeService';
+
+export class ScenarioService {
+  private static readonly STORAGE_KEY = 'stressScenarios';
+
+  static readonly NORMAL_SCENARIO_ID = 'normal';
+  static readonly INCOME_REDUCE_SCENARIO_ID = 'income_reduce';
+
+  /**
+   * Get the built-in scenarios, named in the given language; the income-reduced scenario
+   * follows the underwriting policy
+   */
+  static getBuiltInScenarios(policy: UnderwritingPolicy, t: Translate = LocaleService.getTranslator('en')): Scenario[] {
+    const reduction = Math.round((1 - policy.incomeReduceMultiplier) * 100);
+
+    return [
+      {
+        ...this.createBlankScenario(),
+        id: this.NORMAL_SCENARIO_ID,
+        name: t('scenarios.normalName'),
+        description: t('scenarios.normalDescription'),
+        isBuiltIn: true
+      },
+      {
+        ...this.createBlankScenario(),
+        id: this.INCOME_REDUCE_SCENARIO_ID,
+        name: t('scenarios.incomeReducedName', { reduction }),
+        description: t('scenarios.incomeReducedDescription', { reduction, stress: policy.stressExpenditureRate }),
+        salaryMultiplier: policy.incomeReduceMultiplier,
+        rentMultiplier: policy.incomeReduceMultiplier,
+        otherMultiplier: policy.incomeReduceMultiplier,
+        projectIncomeMultiplier: policy.incomeReduceMultiplier,
+        stressExpenditureRate: policy.stressExpenditureRate,
+        isBuiltIn: true
+      }
+    ];
+  }
+
+  /**
+   * Get built-in scenarios followed by the user-defined ones
+   */
+  static getAllScenarios(
+    policy: UnderwritingPolicy,
+    customScenarios: Scenario[],
+    t: Translate = LocaleService.getTranslator('en')
+  ): Scenario[] {
+    return [...this.getBuiltInScenarios(policy, t), ...customScenarios];
+  }
+
+  /**
+   * Find a scenario by id, falling back to the normal scenario
+   */
+  static findScenario(scenarios: Scenario[], id: string): Scenario {
+    return scenarios.find(scenario => scenario.id === id) || scenarios[0];
+  }
+
+  /**
+   * A scenario that leaves every input unchanged
+   */
+  static createBlankScenario(): Scenario {
+    return {
+      id: '',
+      name: '',
+      description: '',
+      salaryMultiplier: 1,
+      rentMultiplier: 1,
+      otherMultiplier: 1,
+      projectIncomeMultiplier: 1,
+      projectIncomeDelayMonths: 0,
+      expenditureMultiplier: 1,
+      stressExpenditureRate: 0,
+      rateAdjustment: 0
+    };
+  }
+
+  /**
+   * Load user-defined scenarios from localStorage
+   */
+  static loadCustomScenarios(): Scenario[] {
+    if (typeof window === 'undefined') {
+      return [];
+    }
+
+    try {
+      const savedScenarios = localStorage.getItem(this.STORAGE_KEY);
+      if (savedScenarios) {
+        const parsed = JSON.parse(savedScenarios);
+        if (Array.isArray(parsed)) {
+          return parsed.filter(scenario => this.isValidScenario(scenario));
+        }
+      }
+    } catch (err) {
+      console.error('Error loading saved scenarios:', err);
+    }
+
+    return [];
+  }
+
+  /**
+   * Save user-defined scenarios to localStorage
+   */
+  static saveCustomScenarios(scenarios: Scenario[]): void {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(scenarios.filter(scenario => !scenario.isBuiltIn)));
+    } catch (err) {
+      console.error('Error saving scenarios:', err);
+    }
+  }
+
+  /**
+   * Validate scenario values and return an error message, or null when valid
+   */
+  static validateScenario(scenario: Scenario, t: Translate = LocaleService.getTranslator('en')): string | null {
+    const multipliers = [
+      scenario.salaryMultiplier,
+      scenario.rentMultiplier,
+      scenario.otherMultiplier,
+      scenario.projectIncomeMultiplier,
+      scenario.expenditureMultiplier
+    ];
+
+    if (scenario.name.trim().length < 2) {
+      return t('scenarios.errorNameShort');
+    }
+    if (multipliers.some(multiplier => multiplier < 0 || multiplier > 10)) {
+      return t('scenarios.errorMultipliers');
+    }
+    if (scenario.projectIncomeDelayMonths < 0 || !Number.isInteger(scenario.projectIncomeDelayMonths)) {
+      return t('scenarios.errorDelay');
+    }
+    if (scenario.stressExpenditureRate < 0 || scenario.stressExpenditureRate > 100) {
+      return t('scenarios.errorStress');
+    }
+    if (scenario.rateAdjustment < -50 || scenario.rateAdjustment > 50) {
+      return t('scenarios.errorRateAdjustment');
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate scenario object shape and values
+   */
+  static isValidScenario(scenario: unknown): scenario is Scenario {
+    if (typeof scenario !== 'object' || scenario === null) {
+      return false;
+    }
+
+    const candidate = scenario as Record<string, unknown>;
+    const numericFields: (keyof Scenario)[] = [
+      'salaryMultiplier',
+      'rentMultiplier',
+      'otherMultiplier',
+      'projectIncomeMultiplier',
+      'projectIncomeDelayMonths',
+      'expenditureMultiplier',
+      'stressExpenditureRate',
+      'rateAdjustment'
+    ];
+
+    return (
+      typeof candidate.id === 'string' &&
+      candidate.id.trim().length > 0 &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.description === 'string' &&
+      numericFields.every(field => typeof candidate[field] === 'number') &&
+      this.validateScenario(candidate as unknown as Scenario) === null
+    );
+  }
+
+  /**
+   * Generate a unique ID for new scenarios
+   */
+  static generateId(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') + '-' + Date.now();
+  }
+}
@@ -0,0 +1,62 @@
+// src/app/services/serverStorageAdapters.test.ts
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileStorageAdapter, SqliteStorageAdapter } from './serverStorageAdapters';
+import { LoanService } from './loanService';
+
+const loanTypes = LoanService.getDefaultLoanTypes();
+
+describe('FileStorageAdapter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'emi-storage-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads back what it wrote, creating the directory on first write', async () => {
+    const filePath = path.join(directory, 'nested', 'storage.json');
+    const adapter = new FileStorageAdapter(filePath);
+
+    expect(await adapter.read('loanTypes')).toBeNull();
+    await adapter.write('loanTypes', loanTypes);
+
+    expect(await adapter.read('loanTypes')).toEqual(loanTypes);
+    expect(await new FileStorageAdapter(filePath).read('loanTypes')).toEqual(loanTypes);
+  });
+
+  it('keeps every key when writes overlap', async () => {
+    const filePath = path.join(directory, 'storage.json');
+    const adapter = new FileStorageAdapter(filePath);
+
+    await Promise.all([
+      adapter.write('loanTypes', loanTypes),
+      adapter.write('policies', [{ id: 'standard' }]),
+      adapter.write('loanTypes', loanTypes.slice(0, 1))
+    ]);
+
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({
+      loanTypes: loanTypes.slice(0, 1),
+      policies: [{ id: 'standard' }]
+    });
+  });
+});
+
+describe('SqliteStorageAdapter', () => {
+  it('reads back what it wrote and overwrites existing keys', async () => {
+    const adapter = new SqliteStorageAdapter(':memory:');
+
+    expect(await adapter.read('loanTypes')).toBeNull();
+    await adapter.write('loanTypes', loanTypes);
+    expect(await adapter.read('loanTypes')).toEqual(loanTypes);
+
+    await adapter.write('loanTypes', loanTypes.slice(0, 2));
+    expect(await adapter.read('loanTypes')).toEqual(loanTypes.slice(0, 2));
+  });
+});
@@ -0,0 +1,105 @@
+// src/app/services/serverStorageAdapters.ts
+// Server-only: imported by API routes, never by client components.
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ServerStorageKind, StorageAdapter } from '../types/emi';
+
+const DEFAULT_PATHS: Record<ServerStorageKind, string> = {
+  file: 'data/emi-calculator.json',
+  sqlite: 'data/emi-calculator.db'
+};
+
+/**
+ * All keys in one JSON document on disk. Writes go through a temporary file and
+ * are queued so concurrent requests in this process cannot lose each other's changes.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async read(key: string): Promise<unknown> {
+    await this.pending;
+    const document = await this.readDocument();
+    return document[key] ?? null;
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    const write = this.pending.then(async () => {
+      const document = await this.readDocument();
+      document[key] = value;
+
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(document, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+    });
+    // A failed write must not block the ones queued after it
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  private async readDocument(): Promise<Record<string, unknown>> {
+    try {
+      const parsed = JSON.parse(await readFile(this.filePath, 'utf8'));
+      return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Key/value table in a SQLite database, one row per key holding the JSON value
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+  private readonly db: Database.Database;
+
+  constructor(databasePath: string) {
+    mkdirSync(path.dirname(databasePath), { recursive: true });
+    this.db = new Database(databasePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS storage (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+  }
+
+  async read(key: string): Promise<unknown> {
+    const row = this.db.prepare('SELECT value FROM storage WHERE key = ?').get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO storage (key, value, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(key, JSON.stringify(value), new Date().toISOString());
+  }
+}
+
+let serverAdapter: StorageAdapter | null = null;
+
+/**
+ * The adapter chosen by STORAGE_ADAPTER (file or sqlite, default file), stored at
+ * STORAGE_PATH or under data/ in the working directory
+ */
+export const getServerStorageAdapter = (): StorageAdapter => {
+  if (!serverAdapter) {
+    const kind: ServerStorageKind = process.env.STORAGE_ADAPTER === 'sqlite' ? 'sqlite' : 'file';
+    const storagePath = path.resolve(process.env.STORAGE_PATH || DEFAULT_PATHS[kind]);
+    serverAdapter = kind === 'sqlite'
+      ? new SqliteStorageAdapter(storagePath)
+      : new FileStorageAdapter(storagePath);
+  }
+  return serverAdapter;
+};
@@ -0,0 +1,162 @@
+// src/app/services/shareLinkService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { FormDataStrings, SharedCalculation } from '../types/emi';
+import { ShareLinkService } from './shareLinkService';
+
+// Hand-built tokens in the layout each version wrote
+const token = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const FORM_VALUES = ['60000', '5000', '', '10000', '', '2000000', '30', '10', '20', '12'];
+const CO_APPLICANTS = [['Aminath', '20000', '', '500', '1500']];
+const OBLIGATIONS = [['Bank of Maldives', 150000, 9, 36, 4800, 1]];
+const FEES = ['1', '500', '2000', '', '100'];
+
+const BLANK_FEES = { processingFeeRate: '', stampDuty: '', propertyInsurance: '', lifeInsurance: '', serviceCharges: '' };
+
+const VERSION_1_FORM_DATA: FormDataStrings = {
+  salary: '60000',
+  rent: '5000',
+  other: '',
+  projectIncome: '10000',
+  totalProjectCost: '2000000',
+  equityPercentage: '30',
+  rate: '10',
+  repaymentPeriod: '20',
+  gracePeriod: '12',
+  propertyValue: '',
+  ...BLANK_FEES
+};
+
+const DECODED_CO_APPLICANTS = [
+  { id: 'co-applicant-1', name: 'Aminath', salary: '20000', rent: '', other: '500', existingLoans: '1500' }
+];
+
+const DECODED_LEDGER = {
+  excludeEndingInGrace: true,
+  obligations: [{
+    id: 'obligation-1',
+    lender: 'Bank of Maldives',
+    outstandingBalance: 150000,
+    rate: 9,
+    remainingMonths: 36,
+    monthlyInstallment: 4800,
+    settledByNewLoan: true
+  }]
+};
+
+const selections = ['home-loan', 'standard', 1];
+const expectedSelections = { loanTypeId: 'home-loan', scenarioId: 'standard', graceMode: 'inside_tenure' };
+
+describe('ShareLinkService', () => {
+  it('round-trips the current version', () => {
+    const state: SharedCalculation = {
+      formData: {
+        ...VERSION_1_FORM_DATA,
+        propertyValue: '2500000',
+        processingFeeRate: '1',
+        stampDuty: '500',
+        propertyInsurance: '2000',
+        lifeInsurance: '',
+        serviceCharges: '100',
+        coApplicants: DECODED_CO_APPLICANTS,
+        obligationLedger: DECODED_LEDGER
+      },
+      loanTypeId: 'home-loan',
+      scenarioId: 'standard',
+      graceMode: 'capitalized'
+    };
+
+    expect(ShareLinkService.decode(ShareLinkService.encode(state))).toEqual({ state, error: null });
+  });
+
+  it.each([
+    {
+      version: 1,
+      payload: [1, ...FORM_VALUES, ...selections],
+      formData: VERSION_1_FORM_DATA
+    },
+    {
+      version: 2,
+      payload: [2, ...FORM_VALUES, ...selections, CO_APPLICANTS],
+      formData: { ...VERSION_1_FORM_DATA, coApplicants: DECODED_CO_APPLICANTS }
+    },
+    {
+      version: 3,
+      payload: [3, ...FORM_VALUES, ...selections, CO_APPLICANTS, 1, OBLIGATIONS],
+      formData: { ...VERSION_1_FORM_DATA, coApplicants: DECODED_CO_APPLICANTS, obligationLedger: DECODED_LEDGER }
+    },
+    {
+      version: 4,
+      payload: [4, ...FORM_VALUES, ...selections, CO_APPLICANTS, 1, OBLIGATIONS, '2500000'],
+      formData: {
+        ...VERSION_1_FORM_DATA,
+        propertyValue: '2500000',
+        coApplicants: DECODED_CO_APPLICANTS,
+        obligationLedger: DECODED_LEDGER
+      }
+    },
+    {
+      version: 5,
+      payload: [5, ...FORM_VALUES, ...selections, CO_APPLICANTS, 1, OBLIGATIONS, '2500000', FEES],
+      formData: {
+        ...VERSION_1_FORM_DATA,
+        propertyValue: '2500000',
+        processingFeeRate: '1',
+        stampDuty: '500',
+        propertyInsurance: '2000',
+        serviceCharges: '100',
+        coApplicants: DECODED_CO_APPLICANTS,
+        obligationLedger: DECODED_LEDGER
+      }
+    }
+  ])('decodes a version $version link and re-encodes it as the current version', ({ payload, formData }) => {
+    const decoded = ShareLinkService.decode(token(payload));
+    expect(decoded).toEqual({ state: { formData, ...expectedSelections }, error: null });
+
+    // Sections the older version lacked come back empty rather than missing
+    const state = decoded.state!;
+    expect(ShareLinkService.decode(ShareLinkService.encode(state))).toEqual({
+      state: {
+        ...state,
+        formData: { coApplicants: [], obligationLedger: { excludeEndingInGrace: false, obligations: [] }, ...state.formData }
+      },
+      error: null
+    });
+  });
+
+  it('moves the existingLoans value of an older link into the obligations ledger', () => {
+    const legacyValues = [...FORM_VALUES];
+    legacyValues[4] = '3000';
+    const result = ShareLinkService.decode(token([1, ...legacyValues, ...selections]));
+
+    expect(result.state?.formData).not.toHaveProperty('existingLoans');
+    expect(result.state?.formData.obligationLedger?.obligations).toEqual([
+      expect.objectContaining({ monthlyInstallment: 3000, settledByNewLoan: false })
+    ]);
+  });
+
+  it('reports a token cut short in transit as damaged', () => {
+    const full = ShareLinkService.encode({
+      formData: VERSION_1_FORM_DATA,
+      loanTypeId: 'home-loan',
+      scenarioId: 'standard',
+      graceMode: 'added_to_tenure'
+    });
+    expect(ShareLinkService.decode(full.slice(0, full.length / 2))).toEqual({ state: null, error: 'shareLink.damaged' });
+  });
+
+  it('reports a payload missing its trailing fields as invalid', () => {
+    const payload = [5, ...FORM_VALUES, ...selections, CO_APPLICANTS, 1, OBLIGATIONS, '2500000'];
+    expect(ShareLinkService.decode(token(payload))).toEqual({ state: null, error: 'shareLink.invalid' });
+  });
+
+  it.each(['not base64!', '%%%', ''])('reports %j as damaged', badToken => {
+    expect(ShareLinkService.decode(badToken)).toEqual({ state: null, error: 'shareLink.damaged' });
+  });
+
+  it('reports a link from a newer version', () => {
+    const payload = [ShareLinkService.VERSION + 1, ...FORM_VALUES, ...selections];
+    expect(ShareLinkService.decode(token(payload))).toEqual({ state: null, error: 'shareLink.newerVersion' });
+  });
+});
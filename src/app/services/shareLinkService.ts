@@ -0,0 +1,274 @@
+// src/app/services/shareLinkService.ts
+
+import { CoApplicantStrings, ExistingObligation, FormField, GraceMode, LegacyFormDataStrings, ShareLinkResult, SharedCalculation } from '../types/emi';
+import { ObligationService } from './obligationService';
+
+// Field order is part of the link format; append new fields, never reorder.
+// existingLoans predates the obligations ledger: new links leave it blank and a
+// value in an older link is moved into the ledger.
+const FORM_FIELDS: (FormField | 'existingLoans')[] = [
+  'salary',
+  'rent',
+  'other',
+  'projectIncome',
+  'existingLoans',
+  'totalProjectCost',
+  'equityPercentage',
+  'rate',
+  'repaymentPeriod',
+  'gracePeriod'
+];
+
+// Fees and insurance are encoded together as one list, in this order
+const FEE_FIELDS: FormField[] = ['processingFeeRate', 'stampDuty', 'propertyInsurance', 'lifeInsurance', 'serviceCharges'];
+
+// Each co-applicant is encoded as [name, ...these values]
+const CO_APPLICANT_FIELDS = ['salary', 'rent', 'other', 'existingLoans'] as const;
+
+// Each obligation is encoded as [lender, ...these values, settledByNewLoan as 0 or 1]
+const OBLIGATION_FIELDS = ['outstandingBalance', 'rate', 'remainingMonths', 'monthlyInstallment'] as const;
+
+const GRACE_MODES: GraceMode[] = ['added_to_tenure', 'inside_tenure', 'capitalized'];
+
+export class ShareLinkService {
+  static readonly PARAM = 's';
+  static readonly VERSION = 5;
+
+  /**
+   * Encode the calculator state as a compact, URL-safe token:
+   * base64url of [version, ...form values, loanTypeId, scenarioId, graceModeIndex, coApplicants,
+   * excludeEndingInGrace, obligations, propertyValue, fees]
+   */
+  static encode(state: SharedCalculation): string {
+    const payload = [
+      this.VERSION,
+      ...FORM_FIELDS.map(field => (field === 'existingLoans' ? '' : state.formData[field])),
+      state.loanTypeId,
+      state.scenarioId,
+      GRACE_MODES.indexOf(state.graceMode),
+      (state.formData.coApplicants || []).map(coApplicant => [
+        coApplicant.name,
+        ...CO_APPLICANT_FIELDS.map(field => coApplicant[field])
+      ]),
+      state.formData.obligationLedger?.excludeEndingInGrace ? 1 : 0,
+      (state.formData.obligationLedger?.obligations || []).map(obligation => [
+        obligation.lender,
+        ...OBLIGATION_FIELDS.map(field => obligation[field]),
+        obligation.settledByNewLoan ? 1 : 0
+      ]),
+      state.formData.propertyValue || '',
+      FEE_FIELDS.map(field => state.formData[field] || '')
+    ];
+    return this.toBase64Url(JSON.stringify(payload));
+  }
+
+  /**
+   * Decode and validate a token; malformed or unsupported links return an error message key
+   */
+  static decode(token: string): ShareLinkResult {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(this.fromBase64Url(token));
+    } catch {
+      return { state: null, error: 'shareLink.damaged' };
+    }
+
+    if (!Array.isArray(payload) || typeof payload[0] !== 'number') {
+      return { state: null, error: 'shareLink.damaged' };
+    }
+
+    const version = payload[0];
+    if (version > this.VERSION) {
+      return { state: null, error: 'shareLink.newerVersion' };
+    }
+
+    const result = this.decodeVersion(version, payload.slice(1));
+    if (result.state) {
+      result.state.formData = ObligationService.migrateExistingLoans(result.state.formData);
+    }
+    return result;
+  }
+
+  /**
+   * Build a full link to the calculator for the given state
+   */
+  static buildShareUrl(baseUrl: string, state: SharedCalculation): string {
+    const url = new URL(baseUrl);
+    url.search = '';
+    url.hash = '';
+    url.searchParams.set(this.PARAM, this.encode(state));
+    return url.toString();
+  }
+
+  private static decodeVersion(version: number, values: unknown[]): ShareLinkResult {
+    if (version === 1) {
+      return this.decodeVersion1(values);
+    }
+    if (version === 2) {
+      return this.decodeVersion2(values);
+    }
+    if (version === 3) {
+      return this.decodeVersion3(values);
+    }
+    if (version === 4) {
+      return this.decodeVersion4(values);
+    }
+    if (version === 5) {
+      return this.decodeVersion5(values);
+    }
+    return { state: null, error: 'shareLink.unsupported' };
+  }
+
+  private static decodeVersion1(values: unknown[]): ShareLinkResult {
+    const invalid: ShareLinkResult = { state: null, error: 'shareLink.invalid' };
+    if (values.length !== FORM_FIELDS.length + 3) {
+      return invalid;
+    }
+
+    const formValues = values.slice(0, FORM_FIELDS.length);
+    const [loanTypeId, scenarioId, graceModeIndex] = values.slice(FORM_FIELDS.length);
+
+    if (!formValues.every(value => typeof value === 'string' && this.isNumericInput(value))) {
+      return invalid;
+    }
+    if (typeof loanTypeId !== 'string' || typeof scenarioId !== 'string' || typeof graceModeIndex !== 'number') {
+      return invalid;
+    }
+
+    const graceMode = GRACE_MODES[graceModeIndex];
+    if (!graceMode) {
+      return invalid;
+    }
+
+    // Fields added by later versions start blank
+    const formData = FORM_FIELDS.reduce((data, field, index) => ({
+      ...data,
+      [field]: formValues[index] as string
+    }), {
+      propertyValue: '',
+      ...Object.fromEntries(FEE_FIELDS.map(field => [field, '']))
+    } as LegacyFormDataStrings);
+
+    return { state: { formData, loanTypeId, scenarioId, graceMode }, error: null };
+  }
+
+  // Version 2 appends the co-applicants to the version 1 payload
+  private static decodeVersion2(values: unknown[]): ShareLinkResult {
+    const invalid: ShareLinkResult = { state: null, error: 'shareLink.invalid' };
+    const encodedCoApplicants = values[values.length - 1];
+    if (!Array.isArray(encodedCoApplicants)) {
+      return invalid;
+    }
+
+    const coApplicants: CoApplicantStrings[] = [];
+    for (const [index, encoded] of encodedCoApplicants.entries()) {
+      if (
+        !Array.isArray(encoded) ||
+        encoded.length !== CO_APPLICANT_FIELDS.length + 1 ||
+        typeof encoded[0] !== 'string' ||
+        !encoded.slice(1).every(value => typeof value === 'string' && this.isNumericInput(value))
+      ) {
+        return invalid;
+      }
+      const [name, salary, rent, other, existingLoans] = encoded as string[];
+      coApplicants.push({ id: `co-applicant-${index + 1}`, name, salary, rent, other, existingLoans });
+    }
+
+    const result = this.decodeVersion1(values.slice(0, -1));
+    if (result.state) {
+      result.state.formData.coApplicants = coApplicants;
+    }
+    return result;
+  }
+
+  // Version 3 appends the obligations ledger to the version 2 payload
+  private static decodeVersion3(values: unknown[]): ShareLinkResult {
+    const invalid: ShareLinkResult = { state: null, error: 'shareLink.invalid' };
+    const [excludeEndingInGrace, encodedObligations] = values.slice(-2);
+    if ((excludeEndingInGrace !== 0 && excludeEndingInGrace !== 1) || !Array.isArray(encodedObligations)) {
+      return invalid;
+    }
+
+    const obligations: ExistingObligation[] = [];
+    for (const [index, encoded] of encodedObligations.entries()) {
+      if (
+        !Array.isArray(encoded) ||
+        encoded.length !== OBLIGATION_FIELDS.length + 2 ||
+        typeof encoded[0] !== 'string' ||
+        !encoded.slice(1, -1).every(value => typeof value === 'number' && Number.isFinite(value)) ||
+        (encoded[encoded.length - 1] !== 0 && encoded[encoded.length - 1] !== 1)
+      ) {
+        return invalid;
+      }
+      const [lender, outstandingBalance, rate, remainingMonths, monthlyInstallment, settled] = encoded;
+      obligations.push({
+        id: `obligation-${index + 1}`,
+        lender,
+        outstandingBalance,
+        rate,
+        remainingMonths,
+        monthlyInstallment,
+        settledByNewLoan: settled === 1
+      });
+    }
+
+    const result = this.decodeVersion2(values.slice(0, -2));
+    if (result.state) {
+      result.state.formData.obligationLedger = { obligations, excludeEndingInGrace: excludeEndingInGrace === 1 };
+    }
+    return result;
+  }
+
+  // Version 4 appends the property value to the version 3 payload
+  private static decodeVersion4(values: unknown[]): ShareLinkResult {
+    const propertyValue = values[values.length - 1];
+    if (typeof propertyValue !== 'string' || !this.isNumericInput(propertyValue)) {
+      return { state: null, error: 'shareLink.invalid' };
+    }
+
+    const result = this.decodeVersion3(values.slice(0, -1));
+    if (result.state) {
+      result.state.formData.propertyValue = propertyValue;
+    }
+    return result;
+  }
+
+  // Version 5 appends the fees and insurance to the version 4 payload
+  private static decodeVersion5(values: unknown[]): ShareLinkResult {
+    const fees = values[values.length - 1];
+    if (
+      !Array.isArray(fees) ||
+      fees.length !== FEE_FIELDS.length ||
+      !fees.every(value => typeof value === 'string' && this.isNumericInput(value))
+    ) {
+      return { state: null, error: 'shareLink.invalid' };
+    }
+
+    const result = this.decodeVersion4(values.slice(0, -1));
+    if (result.state) {
+      const { formData } = result.state;
+      FEE_FIELDS.forEach((field, index) => {
+        formData[field] = fees[index];
+      });
+    }
+    return result;
+  }
+
+  // Form inputs are blank or hold a number as typed into a number field
+  private static isNumericInput(value: string): boolean {
+    return value === '' || (value.length <= 32 && value.trim() !== '' && Number.isFinite(Number(value)));
+  }
+
+  private static toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  private static fromBase64Url(token: string): string {
+    const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  }
+}
@@ -0,0 +1,56 @@
+// src/app/services/storageAdapters.test.ts
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RemoteStorageAdapter } from './storageAdapters';
+import { LoanService } from './loanService';
+
+const loanTypes = LoanService.getDefaultLoanTypes();
+
+// Stands in for /api/loan-types: GET returns the stored value, PUT replaces it
+const stubServer = (status = 200) => {
+  const stored: Record<string, unknown> = {};
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    if (status !== 200) {
+      return new Response(JSON.stringify({ error: { message: 'Nope' } }), { status });
+    }
+    if (init?.method === 'PUT') {
+      Object.assign(stored, JSON.parse(String(init.body)));
+      return new Response(JSON.stringify(stored), { status: 200 });
+    }
+    return new Response(JSON.stringify(stored), { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('RemoteStorageAdapter', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads back what it wrote through the endpoint', async () => {
+    const fetchMock = stubServer();
+    const adapter = new RemoteStorageAdapter({ loanTypes: '/api/loan-types' }, () => ({ Authorization: 'Bearer secret' }));
+
+    expect(await adapter.read('loanTypes')).toBeNull();
+    await adapter.write('loanTypes', loanTypes);
+    expect(await adapter.read('loanTypes')).toEqual(loanTypes);
+
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('/api/loan-types');
+    expect(init?.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer secret' });
+  });
+
+  it('surfaces the server error message', async () => {
+    stubServer(401);
+    const adapter = new RemoteStorageAdapter({ loanTypes: '/api/loan-types' });
+
+    await expect(adapter.read('loanTypes')).rejects.toThrow('Nope');
+    await expect(adapter.write('loanTypes', loanTypes)).rejects.toThrow('Nope');
+  });
+
+  it('rejects keys without an endpoint', async () => {
+    const adapter = new RemoteStorageAdapter({});
+    await expect(adapter.read('policies')).rejects.toThrow('No server endpoint is configured for policies');
+  });
+});
@@ -0,0 +1,66 @@
+// src/app/services/storageAdapters.ts
+
+import { StorageAdapter } from '../types/emi';
+
+/**
+ * Browser storage; reads nothing and ignores writes during server rendering
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  async read(key: string): Promise<unknown> {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+
+    const saved = localStorage.getItem(key);
+    return saved === null ? null : JSON.parse(saved);
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    localStorage.setItem(key, JSON.stringify(value));
+  }
+}
+
+/**
+ * Reads and writes through the app's API routes so the data lives on the server.
+ * Each key maps to an endpoint that answers GET with `{ [key]: value }` and
+ * accepts the same shape on PUT, with any headers getWriteHeaders supplies.
+ */
+export class RemoteStorageAdapter implements StorageAdapter {
+  constructor(
+    private readonly endpoints: Record<string, string>,
+    private readonly getWriteHeaders: () => Record<string, string> = () => ({})
+  ) {}
+
+  async read(key: string): Promise<unknown> {
+    const response = await fetch(this.getEndpoint(key), { cache: 'no-store' });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(body?.error?.message || `Could not load ${key} (HTTP ${response.status})`);
+    }
+    return body[key] ?? null;
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    const response = await fetch(this.getEndpoint(key), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...this.getWriteHeaders() },
+      body: JSON.stringify({ [key]: value })
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error?.message || `Could not save ${key} (HTTP ${response.status})`);
+    }
+  }
+
+  private getEndpoint(key: string): string {
+    const endpoint = this.endpoints[key];
+    if (!endpoint) {
+      throw new Error(`No server endpoint is configured for ${key}`);
+    }
+    return endpoint;
+  }
+}
@@ -0,0 +1,97 @@
+// src/app/services/taxTableService.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { StorageAdapter, TaxTable } from '../types/emi';
+import { TaxTableService } from './taxTableService';
+import { EMICalculationService } from './calculationService';
+
+// Holds values the way the real adapters do: as JSON, where Infinity would become null
+class MemoryStorageAdapter implements StorageAdapter {
+  private readonly values = new Map<string, string>();
+
+  async read(key: string): Promise<unknown> {
+    const value = this.values.get(key);
+    return value === undefined ? null : JSON.parse(value);
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    this.values.set(key, JSON.stringify(value));
+  }
+}
+
+describe('TaxTableService storage', () => {
+  it('loads back saved tables, keeping the unbounded top bracket', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const reformed: TaxTable = {
+      id: 'reform-2026',
+      name: 'Reformed Income Tax',
+      effectiveFrom: '2026-01-01',
+      brackets: [
+        { min: 0, max: 900000, rate: 0 },
+        { min: 900000, max: Infinity, rate: 10 }
+      ]
+    };
+    const tables = [...TaxTableService.getDefaultTaxTables(), reformed];
+
+    await TaxTableService.saveTaxTables(tables, adapter);
+
+    expect(await TaxTableService.loadTaxTables(adapter)).toEqual(tables);
+  });
+
+  it('falls back to the defaults when nothing valid is stored', async () => {
+    const adapter = new MemoryStorageAdapter();
+    expect(await TaxTableService.loadTaxTables(adapter)).toEqual(TaxTableService.getDefaultTaxTables());
+
+    await adapter.write('taxTables', [{ id: 'broken', brackets: [] }]);
+    expect(await TaxTableService.loadTaxTables(adapter)).toEqual(TaxTableService.getDefaultTaxTables());
+  });
+
+  describe('tables sharing an effective date', () => {
+    const [standard] = TaxTableService.getDefaultTaxTables();
+    const rival: TaxTable = { ...standard, id: 'rival', name: 'Rival Income Tax' };
+
+    it('refuses to save them', async () => {
+      const adapter = new MemoryStorageAdapter();
+      await expect(TaxTableService.saveTaxTables([standard, rival], adapter)).rejects.toThrow(standard.effectiveFrom);
+      expect(await adapter.read('taxTables')).toBeNull();
+    });
+
+    it('ignores them when loading', async () => {
+      const adapter = new MemoryStorageAdapter();
+      await adapter.write('taxTables', TaxTableService.serializeTaxTables([standard, rival]));
+      expect(await TaxTableService.loadTaxTables(adapter)).toEqual(TaxTableService.getDefaultTaxTables());
+    });
+
+    it('rejects them in a parsed list', () => {
+      const result = TaxTableService.parseTaxTableList(TaxTableService.serializeTaxTables([standard, rival]));
+      expect(result.taxTables).toBeNull();
+      expect(result.error).toContain(standard.effectiveFrom);
+    });
+  });
+});
+
+describe('TaxTableService.convertTaxTables', () => {
+  const fxRates = [{ from: 'USD', to: 'MVR', rate: 15 }];
+
+  it('restates the rufiyaa thresholds in the loan currency', () => {
+    const [table] = TaxTableService.convertTaxTables(TaxTableService.getDefaultTaxTables(), 'USD', fxRates)!;
+
+    expect(table.brackets[0]).toEqual({ min: 0, max: 48000, rate: 0 });
+    expect(table.brackets[table.brackets.length - 1]).toEqual({ min: 160000, max: Infinity, rate: 15 });
+  });
+
+  it('taxes a dollar income as the same income in rufiyaa', () => {
+    const calculationDate = new Date(2025, 0, 15);
+    const usdTables = TaxTableService.convertTaxTables(TaxTableService.getDefaultTaxTables(), 'USD', fxRates)!;
+
+    expect(EMICalculationService.calculateIncomeTax(100000, calculationDate, usdTables) * 15)
+      .toBeCloseTo(EMICalculationService.calculateIncomeTax(1500000, calculationDate), 6);
+  });
+
+  it('keeps rufiyaa tables as they are and has no tables without an exchange rate', () => {
+    const tables = TaxTableService.getDefaultTaxTables();
+
+    expect(TaxTableService.convertTaxTables(tables, TaxTableService.CURRENCY, [])).toBe(tables);
+    expect(TaxTableService.convertTaxTables(tables, 'EUR', fxRates)).toBeNull();
+  });
+});
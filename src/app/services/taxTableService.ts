@@ -0,0 +1,307 @@
+// src/app/services/taxTableService.ts
+
+import { FxRate, StorageAdapter, TaxBracket, TaxTable } from '../types/emi';
+import { LocalStorageAdapter, RemoteStorageAdapter } from './storageAdapters';
+import { CurrencyService } from './currencyService';
+import { LocaleService, Translate } from './localeService';
+import { LoanService } from './loanService';
+
+export class TaxTableService {
+  // Bracket thresholds are rufiyaa amounts, as set by the tax authority
+  static readonly CURRENCY = 'MVR';
+  private static readonly STORAGE_KEY = 'taxTables';
+  private static readonly DEFAULT_TAX_TABLES: TaxTable[] = [
+    {
+      id: 'progressive-2020',
+      name: 'Progressive Income Tax',
+      effectiveFrom: '2020-01-01',
+      brackets: [
+        { min: 0, max: 720000, rate: 0 },
+        { min: 720000, max: 1200000, rate: 5.5 },
+        { min: 1200000, max: 1800000, rate: 8 },
+        { min: 1800000, max: 2400000, rate: 12 },
+        { min: 2400000, max: Infinity, rate: 15 }
+      ]
+    }
+  ];
+
+  private static storageAdapter: StorageAdapter | null = null;
+
+  /**
+   * Use a different store for tax tables, e.g. the server API or a test double
+   */
+  static setStorageAdapter(adapter: StorageAdapter): void {
+    this.storageAdapter = adapter;
+  }
+
+  /**
+   * The configured store: the server API when loan types are kept on the server
+   * (NEXT_PUBLIC_LOAN_TYPES_STORAGE is "server"), otherwise this browser's localStorage
+   */
+  static getStorageAdapter(): StorageAdapter {
+    if (!this.storageAdapter) {
+      this.storageAdapter = LoanService.usesServerStorage()
+        ? new RemoteStorageAdapter({ [this.STORAGE_KEY]: '/api/tax-tables' }, () => LoanService.getApiTokenHeaders())
+        : new LocalStorageAdapter();
+    }
+    return this.storageAdapter;
+  }
+
+  /**
+   * Load tax tables from storage or return defaults
+   */
+  static async loadTaxTables(adapter: StorageAdapter = this.getStorageAdapter()): Promise<TaxTable[]> {
+    try {
+      const parsed = await adapter.read(this.STORAGE_KEY);
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        const { taxTables, error } = this.parseTaxTableList(parsed);
+        if (taxTables) {
+          return taxTables;
+        }
+        console.error('Ignoring saved tax tables:', error);
+      }
+    } catch (err) {
+      console.error('Error loading saved tax tables:', err);
+    }
+
+    return this.getDefaultTaxTables();
+  }
+
+  /**
+   * Save tax tables; rejects when the list is invalid or the store cannot be written
+   * so the caller can show the error
+   */
+  static async saveTaxTables(taxTables: TaxTable[], adapter: StorageAdapter = this.getStorageAdapter()): Promise<void> {
+    const error = this.validateTaxTableList(taxTables);
+    if (error) {
+      throw new Error(error);
+    }
+    await adapter.write(this.STORAGE_KEY, this.serializeTaxTables(taxTables));
+  }
+
+  /**
+   * Read a list of tax tables as stored or sent to the API, with null for an unbounded
+   * upper limit; returns an error message instead when any table or the list is invalid
+   */
+  static parseTaxTableList(
+    value: unknown,
+    t: Translate = LocaleService.getTranslator('en')
+  ): { taxTables: TaxTable[] | null; error: string | null } {
+    if (!Array.isArray(value)) {
+      return { taxTables: null, error: t('taxTables.errorNoTables') };
+    }
+
+    const taxTables = value.map(table =>
+      typeof table === 'object' && table !== null ? this.deserializeTaxTable(table) : table
+    );
+    const invalidIndex = taxTables.findIndex(table => !this.isValidTaxTable(table));
+    if (invalidIndex !== -1) {
+      return { taxTables: null, error: t('taxTables.errorInvalidTable', { number: invalidIndex + 1 }) };
+    }
+
+    const error = this.validateTaxTableList(taxTables, t);
+    return error ? { taxTables: null, error } : { taxTables, error: null };
+  }
+
+  /**
+   * Check a whole list of tables: at least one, with unique IDs and effective dates,
+   * as only one table can be in force on any day
+   */
+  static validateTaxTableList(taxTables: TaxTable[], t: Translate = LocaleService.getTranslator('en')): string | null {
+    if (taxTables.length === 0) {
+      return t('taxTables.errorNoTables');
+    }
+
+    const ids = new Set(taxTables.map(table => table.id));
+    if (ids.size !== taxTables.length) {
+      return t('taxTables.errorDuplicateIds');
+    }
+
+    const duplicate = taxTables.find((table, index) =>
+      taxTables.findIndex(other => other.effectiveFrom === table.effectiveFrom) !== index
+    );
+    if (duplicate) {
+      return t('taxTables.errorDuplicateDates', { date: duplicate.effectiveFrom });
+    }
+
+    return null;
+  }
+
+  /**
+   * JSON has no Infinity, so the unbounded upper limit is stored and sent as null
+   */
+  static serializeTaxTables(taxTables: TaxTable[]) {
+    return taxTables.map(table => ({
+      ...table,
+      brackets: table.brackets.map(bracket => ({
+        ...bracket,
+        max: bracket.max === Infinity ? null : bracket.max
+      }))
+    }));
+  }
+
+  /**
+   * Get default tax tables
+   */
+  static getDefaultTaxTables(): TaxTable[] {
+    return this.DEFAULT_TAX_TABLES.map(table => ({
+      ...table,
+      brackets: table.brackets.map(bracket => ({ ...bracket }))
+    }));
+  }
+
+  /**
+   * Restate the bracket thresholds in another currency so they can be applied to
+   * incomes entered in it; null when there is no exchange rate to that currency
+   */
+  static convertTaxTables(taxTables: TaxTable[], currencyCode: string, fxRates: FxRate[]): TaxTable[] | null {
+    if (currencyCode === this.CURRENCY) {
+      return taxTables;
+    }
+
+    const convert = (amount: number) =>
+      amount === Infinity ? Infinity : CurrencyService.convert(amount, this.CURRENCY, currencyCode, fxRates);
+    if (convert(1) === null) {
+      return null;
+    }
+
+    return taxTables.map(table => ({
+      ...table,
+      brackets: table.brackets.map(bracket => ({
+        ...bracket,
+        min: convert(bracket.min) as number,
+        max: convert(bracket.max) as number
+      }))
+    }));
+  }
+
+  /**
+   * Select the table in force on the given date: the latest one whose effective date
+   * is not after it, or the earliest table when the date precedes all of them
+   */
+  static getEffectiveTable(taxTables: TaxTable[], date: Date): TaxTable {
+    const tables = taxTables.length > 0 ? taxTables : this.getDefaultTaxTables();
+    const sorted = [...tables].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+    const isoDate = this.toIsoDate(date);
+
+    return sorted.filter(table => table.effectiveFrom <= isoDate).pop() || sorted[0];
+  }
+
+  /**
+   * Validate brackets: start at zero, contiguous and non-overlapping, only the last unbounded
+   */
+  static validateBrackets(brackets: TaxBracket[], t: Translate = LocaleService.getTranslator('en')): string | null {
+    if (brackets.length === 0) {
+      return t('taxTables.errorNoBrackets');
+    }
+
+    if (brackets[0].min !== 0) {
+      return t('taxTables.errorFirstBracket');
+    }
+
+    for (let i = 0; i < brackets.length; i++) {
+      const bracket = brackets[i];
+      const isLast = i === brackets.length - 1;
+
+      if (bracket.rate < 0 || bracket.rate > 100) {
+        return t('taxTables.errorBracketRate', { number: i + 1 });
+      }
+
+      if (isLast && bracket.max !== Infinity) {
+        return t('taxTables.errorLastBracketBounded');
+      }
+
+      if (!isLast && bracket.max === Infinity) {
+        return t('taxTables.errorBracketUnbounded', { number: i + 1 });
+      }
+
+      if (bracket.max <= bracket.min) {
+        return t('taxTables.errorBracketLimits', { number: i + 1 });
+      }
+
+      if (i > 0 && bracket.min !== brackets[i - 1].max) {
+        return bracket.min > brackets[i - 1].max
+          ? t('taxTables.errorBracketGap', { number: i + 1, amount: brackets[i - 1].max.toLocaleString() })
+          : t('taxTables.errorBracketOverlap', { number: i + 1 });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a tax table against the other tables and return an error message, or null when valid
+   */
+  static validateTaxTable(
+    table: TaxTable,
+    existingTables: TaxTable[] = [],
+    t: Translate = LocaleService.getTranslator('en')
+  ): string | null {
+    if (table.name.trim().length < 2) {
+      return t('taxTables.errorNameShort');
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(table.effectiveFrom) || isNaN(Date.parse(table.effectiveFrom))) {
+      return t('taxTables.errorDate');
+    }
+
+    if (existingTables.some(other => other.id !== table.id && other.effectiveFrom === table.effectiveFrom)) {
+      return t('taxTables.errorDateTaken');
+    }
+
+    return this.validateBrackets(table.brackets, t);
+  }
+
+  /**
+   * Validate tax table object shape and values
+   */
+  static isValidTaxTable(table: unknown): table is TaxTable {
+    if (typeof table !== 'object' || table === null) {
+      return false;
+    }
+
+    const candidate = table as Record<string, unknown>;
+    return (
+      typeof candidate.id === 'string' &&
+      candidate.id.trim().length > 0 &&
+      typeof candidate.name === 'string' &&
+      typeof candidate.effectiveFrom === 'string' &&
+      Array.isArray(candidate.brackets) &&
+      candidate.brackets.every(bracket =>
+        typeof bracket === 'object' &&
+        bracket !== null &&
+        typeof bracket.min === 'number' &&
+        typeof bracket.max === 'number' &&
+        typeof bracket.rate === 'number'
+      ) &&
+      this.validateTaxTable(candidate as unknown as TaxTable) === null
+    );
+  }
+
+  /**
+   * Generate a unique ID for new tax tables
+   */
+  static generateId(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '') + '-' + Date.now();
+  }
+
+  /**
+   * Format a date as an ISO calendar date (YYYY-MM-DD) in local time
+   */
+  private static toIsoDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private static deserializeTaxTable(table: { brackets?: unknown }): TaxTable {
+    return {
+      ...table,
+      brackets: Array.isArray(table.brackets)
+        ? table.brackets.map(bracket =>
+            typeof bracket === 'object' && bracket !== null && bracket.max === null ? { ...bracket, max: Infinity } : bracket
+          )
+        : []
+    } as TaxTable;
+  }
+}
@@ -0,0 +1,170 @@
+// src/app/services/validationService.ts
+
+import { FormDataStrings, GraceMode, Prepayment, ProductRules, RateSchedule } from '../types/emi';
+import { EMICalculationService } from './calculationService';
+import { RateScheduleService } from './rateScheduleService';
+import { PrepaymentService } from './prepaymentService';
+import { ObligationService } from './obligationService';
+import { LocaleService, Translate } from './localeService';
+
+export interface CalculationInputs {
+  formData: FormDataStrings;
+  graceMode: GraceMode;
+  rateSchedule: RateSchedule;
+  prepayments: Prepayment[];
+  productRules?: ProductRules; // rules of the selected loan type
+}
+
+export class ValidationService {
+  /**
+   * Validate calculator inputs; returns error messages keyed by field, empty when valid.
+   * Shared by the calculator form, which passes its own translate, and the API routes.
+   */
+  static validateCalculationInputs(
+    { formData, graceMode, rateSchedule, prepayments, productRules }: CalculationInputs,
+    t: Translate = LocaleService.getTranslator('en')
+  ): Record<string, string> {
+    const errors: Record<string, string> = {};
+    
+    // Required field validations
+    if (!formData.salary || EMICalculationService.getNumericValue(formData.salary) <= 0) {
+      errors.salary = t('validation.salaryRequired');
+    }
+    
+    if (!formData.totalProjectCost || EMICalculationService.getNumericValue(formData.totalProjectCost) <= 0) {
+      errors.totalProjectCost = t('validation.projectCostRequired');
+    }
+    
+    if (!formData.rate || EMICalculationService.getNumericValue(formData.rate) <= 0) {
+      errors.rate = t('validation.rateRequired');
+    }
+    
+    if (!formData.repaymentPeriod || EMICalculationService.getNumericValue(formData.repaymentPeriod) <= 0) {
+      errors.repaymentPeriod = t('validation.repaymentPeriodRequired');
+    }
+    
+    // Logical validations
+    if (EMICalculationService.getNumericValue(formData.propertyValue) < 0) {
+      errors.propertyValue = t('validation.propertyValueNegative');
+    }
+    
+    const processingFeeRate = EMICalculationService.getNumericValue(formData.processingFeeRate);
+    if (processingFeeRate < 0 || processingFeeRate > 100) {
+      errors.processingFeeRate = t('validation.processingFeeRange');
+    }
+    
+    for (const field of ['stampDuty', 'propertyInsurance', 'lifeInsurance', 'serviceCharges'] as const) {
+      if (EMICalculationService.getNumericValue(formData[field]) < 0) {
+        errors[field] = t('validation.feesNegative');
+      }
+    }
+    
+    const equity = EMICalculationService.getNumericValue(formData.equityPercentage);
+    if (equity < 0 || equity > 100) {
+      errors.equityPercentage = t('validation.equityRange');
+    }
+    
+    const rate = EMICalculationService.getNumericValue(formData.rate);
+    if (rate > 50) { // Reasonable upper limit
+      errors.rate = t('validation.rateTooHigh');
+    }
+    
+    const tenure = EMICalculationService.getNumericValue(formData.repaymentPeriod);
+    if (tenure > 600) { // 50 years max
+      errors.repaymentPeriod = t('validation.repaymentPeriodMax');
+    }
+    
+    // Grace period validation
+    const gracePeriod = EMICalculationService.getNumericValue(formData.gracePeriod);
+    if (gracePeriod > tenure) {
+      errors.gracePeriod = t('validation.graceLongerThanTenure');
+    } else if (graceMode === 'inside_tenure' && gracePeriod > 0 && gracePeriod >= tenure) {
+      errors.gracePeriod = t('validation.graceInsideTenure');
+    }
+    
+    // Product rules of the selected loan type; a field keeps its own error if it already has one
+    if (productRules) {
+      Object.entries(this.validateProductRules(formData, productRules, t)).forEach(([field, message]) => {
+        errors[field] = errors[field] || message;
+      });
+    }
+    
+    // Co-applicant validation; errors are keyed by co-applicant id
+    for (const coApplicant of formData.coApplicants || []) {
+      const amounts = [coApplicant.salary, coApplicant.rent, coApplicant.other, coApplicant.existingLoans];
+      if (!coApplicant.name.trim()) {
+        errors[`coApplicants.${coApplicant.id}`] = t('validation.coApplicantName');
+      } else if (amounts.some(amount => EMICalculationService.getNumericValue(amount) < 0)) {
+        errors[`coApplicants.${coApplicant.id}`] = t('validation.coApplicantNegative');
+      } else if (amounts.every(amount => EMICalculationService.getNumericValue(amount) === 0)) {
+        errors[`coApplicants.${coApplicant.id}`] = t('validation.coApplicantEmpty');
+      }
+    }
+
+    // Obligations ledger validation
+    const obligationError = formData.obligationLedger && ObligationService.validateLedger(formData.obligationLedger, t);
+    if (obligationError) {
+      errors.obligations = obligationError;
+    }
+    
+    // Rate schedule validation
+    const rateScheduleError = RateScheduleService.validateRateSchedule(rateSchedule, t);
+    if (rateScheduleError) {
+      errors.rateSchedule = rateScheduleError;
+    }
+    
+    // Prepayment validation
+    const prepaymentError = PrepaymentService.validatePrepayments(prepayments, t);
+    if (prepaymentError) {
+      errors.prepayments = prepaymentError;
+    }
+    
+    return errors;
+  }
+
+  /**
+   * Check the inputs against a loan type's product rules; returns error messages keyed by field
+   */
+  static validateProductRules(
+    formData: FormDataStrings,
+    rules: ProductRules,
+    t: Translate = LocaleService.getTranslator('en')
+  ): Record<string, string> {
+    const errors: Record<string, string> = {};
+    const numericData = EMICalculationService.convertToNumericFormData(formData);
+    
+    // The amount is only known once there is a project cost
+    if (numericData.totalProjectCost > 0) {
+      const amount = EMICalculationService.calculateFinancedAmount(numericData);
+      if (rules.minAmount !== undefined && amount < rules.minAmount) {
+        errors.totalProjectCost = t('validation.amountBelowMinimum', {
+          amount: amount.toLocaleString('en-US'),
+          minimum: rules.minAmount.toLocaleString('en-US')
+        });
+      } else if (rules.maxAmount !== undefined && amount > rules.maxAmount) {
+        errors.totalProjectCost = t('validation.amountAboveMaximum', {
+          amount: amount.toLocaleString('en-US'),
+          maximum: rules.maxAmount.toLocaleString('en-US')
+        });
+      }
+    }
+    
+    if (rules.minEquityPercentage !== undefined && numericData.equityPercentage < rules.minEquityPercentage) {
+      errors.equityPercentage = t('validation.equityBelowMinimum', { percentage: rules.minEquityPercentage });
+    }
+    
+    if (rules.maxTenure !== undefined && numericData.repaymentPeriod > rules.maxTenure) {
+      errors.repaymentPeriod = t('validation.tenureAboveMaximum', { months: rules.maxTenure });
+    }
+    
+    if (rules.minGracePeriod !== undefined && numericData.gracePeriod < rules.minGracePeriod) {
+      errors.gracePeriod = t('validation.graceBelowMinimum', { months: rules.minGracePeriod });
+    } else if (rules.maxGracePeriod !== undefined && numericData.gracePeriod > rules.maxGracePeriod) {
+      errors.gracePeriod = rules.maxGracePeriod === 0
+        ? t('validation.graceNotAllowed')
+        : t('validation.graceAboveMaximum', { months: rules.maxGracePeriod });
+    }
+    
+    return errors;
+  }
+}
@@ -0,0 +1,5 @@
+import EditScenarios from '../components/EditScenarios';
+
+export default function EditScenariosPage() {
+  return <EditScenarios />;
+}
@@ -0,0 +1,5 @@
+import EditTaxTables from '../components/EditTaxTables';
+
+export default function EditTaxTablesPage() {
+  return <EditTaxTables />;
+}
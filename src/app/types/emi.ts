@@ -1,29 +1,113 @@
 // src/app/types/emi.ts
 
+import type { MessageKey } from '../locales/en';
+
+/**
+ * The primary applicant's income lines and obligations are the top-level
+ * fields; co-borrowers on the same case each bring their own
+ */
 export interface FormDataStrings {
   salary: string;
   rent: string;
   other: string;
   projectIncome: string;
-  existingLoans: string;
   totalProjectCost: string;
   equityPercentage: string;
   rate: string;
   repaymentPeriod: string;
   gracePeriod: string;
+  propertyValue: string; // appraised value of the security, for LTV
+  processingFeeRate: string; // % of the bank finance, filled in from the loan type
+  stampDuty: string;
+  propertyInsurance: string; // annual premium
+  lifeInsurance: string; // annual premium
+  serviceCharges: string; // annual
+  coApplicants?: CoApplicantStrings[];
+  obligationLedger?: ObligationLedger;
 }
 
+/**
+ * Form data saved before the obligations ledger, when all existing loans were one
+ * monthly figure; ObligationService.migrateExistingLoans moves it into the ledger
+ */
+export type LegacyFormDataStrings = FormDataStrings & { existingLoans?: string };
+
+// The numeric input fields typed into the calculator form
+export type FormField = Exclude<keyof FormDataStrings, 'coApplicants' | 'obligationLedger'>;
+
 export interface FormData {
   salary: number;
   rent: number;
   other: number;
   projectIncome: number;
-  existingLoans: number;
   totalProjectCost: number;
   equityPercentage: number;
   rate: number;
   repaymentPeriod: number;
   gracePeriod: number;
+  propertyValue: number;
+  processingFeeRate: number;
+  stampDuty: number;
+  propertyInsurance: number;
+  lifeInsurance: number;
+  serviceCharges: number;
+  coApplicants: CoApplicant[];
+  obligationLedger: ObligationLedger;
+}
+
+export interface CoApplicantStrings {
+  id: string;
+  name: string;
+  salary: string;
+  rent: string;
+  other: string;
+  existingLoans: string;
+}
+
+export interface CoApplicant {
+  id: string;
+  name: string;
+  salary: number;
+  rent: number;
+  other: number;
+  existingLoans: number;
+}
+
+/**
+ * An existing facility the applicants are repaying. A zero installment is derived
+ * from the balance, rate and remaining months. Facilities settled by the new loan
+ * are taken over into it: their balance is financed and their installment ends.
+ */
+export interface ExistingObligation {
+  id: string;
+  lender: string;
+  outstandingBalance: number;
+  rate: number;
+  remainingMonths: number;
+  monthlyInstallment: number;
+  settledByNewLoan: boolean;
+}
+
+export type ObligationTreatment = 'refinanced' | 'counted' | 'ended' | 'ends_in_grace';
+
+export interface ObligationLedger {
+  obligations: ExistingObligation[];
+  excludeEndingInGrace: boolean; // drop facilities repaid before the first after-grace installment
+}
+
+/**
+ * One applicant's part of the household assessment, after scenario multipliers.
+ * Income tax is computed on the applicant's own income; project income is
+ * taxed with the primary applicant.
+ */
+export interface ApplicantContribution {
+  applicantId: string;
+  name: string;
+  totalIncome: number;
+  incomeTax: number;
+  existingLoans: number; // the primary applicant carries the counted ledger installments
+  netContribution: number; // income less the applicant's own tax
+  incomeShare: number; // percentage of household income
 }
 
 export interface Calculations {
@@ -39,6 +123,344 @@ export interface Calculations {
   incomeTax: number;
   maintenanceCost?: number; 
   bankFinanceAmount?: number; 
+  graceMode: GraceMode;
+  amortizationPeriod: number;
+  totalMonths: number;
+  capitalizedInterest: number;
+  totalInterest: number;
+  loanEndDate: string;
+  policyId: string;
+  policyName: string;
+  policyVersion: number;
+  taxTableId: string;
+  taxTableName: string;
+  scenarioId: string;
+  effectiveRate: number;
+  projectIncomeStartMonth: number;
+  emiPeriods: EMIPeriod[];
+  maxRepayment: number;
+  worstCaseDSCR: number;
+  existingLoans: number; // household total, including counted ledger installments
+  obligationInstallments: number; // ledger installments counted in DSCR
+  takeoverAmount: number; // balances of refinanced obligations included in bankFinanceAmount
+  dti: number; // % of gross income going to installments
+  foir: number; // % of income after tax going to installments
+  ltv: number | null; // % of the appraised property value financed; null without a value
+  applicants: ApplicantContribution[];
+}
+
+/**
+ * A rate that applies from the given installment month (1-based, grace months included)
+ * until the next period starts
+ */
+export interface RatePeriod {
+  startMonth: number;
+  rate: number;
+}
+
+/**
+ * The installment in force between two rate resets
+ */
+export interface EMIPeriod {
+  startMonth: number;
+  endMonth: number;
+  rate: number;
+  emi: number;
+}
+
+/**
+ * Interest rate over the loan life:
+ * - fixed: the nominal rate throughout
+ * - periods: explicit rate periods; the nominal rate applies before the first one
+ * - base_plus_margin: the nominal rate for the introductory fixed period, then base
+ *   rate plus margin, reset every interval with the projected base rate change
+ */
+export type RateScheduleMode = 'fixed' | 'periods' | 'base_plus_margin';
+
+export interface RateSchedule {
+  mode: RateScheduleMode;
+  periods: RatePeriod[];
+  fixedPeriodMonths: number;
+  baseRate: number;
+  margin: number;
+  resetIntervalMonths: number;
+  baseRateChangePerReset: number;
+}
+
+/**
+ * How the grace period relates to the repayment period:
+ * - added_to_tenure: interest-only grace months come before the full repayment period
+ * - inside_tenure: interest-only grace months are part of the repayment period
+ * - capitalized: no payments during grace; accrued interest is added to the principal
+ */
+export type GraceMode = 'added_to_tenure' | 'inside_tenure' | 'capitalized';
+
+export interface GraceTimeline {
+  graceMonths: number;
+  amortizationMonths: number;
+  totalMonths: number;
+  amortizedPrincipal: number;
+  capitalizedInterest: number;
+  gracePeriodRepayment: number;
+}
+
+export interface CalculationOptions {
+  graceMode?: GraceMode;
+  calculationDate?: Date;
+  startDate?: Date;
+  policy?: UnderwritingPolicy;
+  taxTables?: TaxTable[];
+  rateSchedule?: RateSchedule;
+}
+
+/**
+ * Credit policy parameters applied by the calculation engine.
+ * Rates are percentages; the version increases every time the policy is edited.
+ */
+export interface UnderwritingPolicy {
+  id: string;
+  name: string;
+  version: number;
+  updatedAt: string;
+  livingExpenseThreshold: number;
+  livingExpenseRateAboveThreshold: number;
+  livingExpenseRateAtOrBelowThreshold: number;
+  maintenanceCostRate: number;
+  incomeReduceMultiplier: number;
+  stressExpenditureRate: number;
+  dscrExcellentThreshold: number;
+  dscrGoodThreshold: number;
+}
+
+/**
+ * What the loan really costs once fees, insurance and service charges are added to
+ * the interest. The APR is the rate at which the net amount received equals the
+ * present value of everything paid.
+ */
+export interface BorrowingCost {
+  processingFee: number;
+  stampDuty: number;
+  upfrontFees: number; // deducted from the amount received
+  monthlyInsurance: number;
+  monthlyServiceCharges: number;
+  effectiveEMI: number; // first after-grace EMI plus monthly insurance and service charges
+  totalInterest: number;
+  totalInsurance: number;
+  totalServiceCharges: number;
+  totalCostOfBorrowing: number; // interest plus every fee, premium and charge
+  nominalRate: number; // annual %
+  apr: number | null; // annual %, the monthly IRR times 12; null when it cannot be solved
+  effectiveAnnualRate: number | null; // annual %, the monthly IRR compounded
+}
+
+export interface AmortizationParams {
+  principal: number;
+  rate: number;
+  repaymentPeriod: number;
+  gracePeriod: number;
+  graceMode?: GraceMode;
+  ratePeriods?: RatePeriod[];
+  prepayments?: Prepayment[];
+}
+
+export interface AmortizationRow {
+  month: number;
+  isGracePeriod: boolean;
+  rate: number;
+  openingBalance: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  prepayment: number;
+  closingBalance: number;
+  cumulativeInterest: number;
+}
+
+export interface AmortizationYearSummary {
+  year: number;
+  totalPayment: number;
+  totalInterest: number;
+  totalPrincipal: number;
+  totalPrepayment: number;
+  closingBalance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  yearlySummaries: AmortizationYearSummary[];
+  emiPeriods: EMIPeriod[];
+  totalPayment: number;
+  totalInterest: number;
+}
+
+/**
+ * An extra payment towards principal. Recurring prepayments repeat every month or
+ * every 12 months from `month` until `endMonth` (or the end of the loan).
+ * reduce_tenure keeps the EMI and shortens the loan; reduce_emi keeps the end date
+ * and recomputes the EMI on the lower balance.
+ */
+export type PrepaymentFrequency = 'once' | 'monthly' | 'yearly';
+export type PrepaymentStrategy = 'reduce_tenure' | 'reduce_emi';
+
+export interface Prepayment {
+  id: string;
+  month: number;
+  amount: number;
+  frequency: PrepaymentFrequency;
+  endMonth?: number;
+  strategy: PrepaymentStrategy;
+}
+
+export interface PrepaymentComparison {
+  baseline: AmortizationSchedule;
+  withPrepayments: AmortizationSchedule;
+  totalPrepaid: number;
+  interestSaved: number;
+  monthsSaved: number;
+  originalPayoffDate: string;
+  newPayoffDate: string;
+}
+
+export interface AffordabilityResult {
+  scenarioId: string;
+  scenarioName: string;
+  targetDSCR: number;
+  maxBankFinance: number | null; // null when income cannot cover any new installment
+  minEquityPercentage: number | null;
+  maxRate: number | null; // capped at the maximum accepted rate
+  minTenure: number | null; // null when even the longest tenure falls short
+}
+
+/**
+ * DSCR after grace when one input is set to `value`, e.g. a nominal rate or an
+ * income reduction percentage
+ */
+export interface SensitivityPoint {
+  value: number;
+  dscr: number;
+}
+
+export interface LoanOffer {
+  id: string;
+  name: string;
+  interestRate: number;
+  tenure: number; // months
+  loanTypeId?: string; // set when the offer comes from a saved loan type
+}
+
+export interface OfferScenarioDSCR {
+  scenarioId: string;
+  scenarioName: string;
+  dscr: number;
+}
+
+export interface LoanOfferComparison {
+  offer: LoanOffer;
+  emi: number;
+  totalInterest: number;
+  totalCost: number; // amount financed plus interest, fees, insurance and service charges
+  loanEndDate: string;
+  scenarioDSCRs: OfferScenarioDSCR[];
+  breakEvenMonth: number | null; // month from which the cheapest offer has cost less so far; null for the cheapest
+  isCheapest: boolean;
+}
+
+export interface SavedCase {
+  id: string;
+  name: string;
+  notes: string;
+  savedAt: string; // ISO timestamp
+  formData: FormDataStrings;
+  loanTypeId: string;
+  scenarioId: string;
+  graceMode: GraceMode;
+  policyId: string;
+  rateSchedule: RateSchedule;
+  prepayments: Prepayment[];
+  calculations: Readonly<Calculations>; // what was quoted at save time, after grace for the saved scenario
+  scenarioResults: SavedScenarioResult[]; // every scenario quoted at save time; empty for older cases
+  currency?: CurrencyFormat; // currency of the quote; cases saved before currencies existed use the default
+}
+
+export interface SavedScenarioResult {
+  scenarioId: string;
+  scenarioName: string;
+  calculations: Readonly<Calculations>; // after grace
+}
+
+// Calculator inputs handed to the report page
+export type ReportDraft = Pick<SavedCase, 'formData' | 'loanTypeId' | 'graceMode' | 'policyId' | 'rateSchedule' | 'prepayments' | 'currency'>;
+
+export interface ReportInput {
+  formData: FormDataStrings;
+  loanTypeName: string;
+  eligibilityLimits?: EligibilityLimits;
+  productRules?: ProductRules;
+  scenarios: Scenario[];
+  graceMode: GraceMode;
+  policy: UnderwritingPolicy;
+  taxTables: TaxTable[];
+  rateSchedule: RateSchedule;
+  prepayments: Prepayment[]; // counted in each scenario's cost of borrowing
+  currency: CurrencyFormat;
+}
+
+export interface ReportScenarioResult {
+  scenarioId: string;
+  scenarioName: string;
+  description: string;
+  duringGrace: Calculations;
+  afterGrace: Calculations;
+  dscrStatus: string;
+  worstCaseDscrStatus: string;
+  eligibility: EligibilityVerdict;
+  borrowingCost: BorrowingCost;
+}
+
+export interface AssessmentReport {
+  id: string;
+  generatedAt: string; // ISO timestamp
+  loanTypeName: string;
+  currency: CurrencyFormat;
+  formData: FormDataStrings;
+  graceMode: GraceMode;
+  policyName: string;
+  policyVersion: number;
+  totalProjectCost: number;
+  equityPercentage: number;
+  equityAmount: number;
+  bankFinanceAmount: number;
+  scenarioResults: ReportScenarioResult[];
+  taxTable: TaxTable;
+  amortization: Pick<AmortizationSchedule, 'yearlySummaries' | 'emiPeriods' | 'totalPayment' | 'totalInterest'>;
+}
+
+export interface ExportInput {
+  formData: FormDataStrings;
+  loanTypeName: string;
+  currency: CurrencyFormat;
+  scenarios: Scenario[];
+  options: CalculationOptions;
+  prepayments: Prepayment[];
+}
+
+export type ExportCell = string | number;
+
+export interface ExportSheet {
+  name: string;
+  rows: ExportCell[][];
+}
+
+export interface SharedCalculation {
+  formData: FormDataStrings;
+  loanTypeId: string;
+  scenarioId: string;
+  graceMode: GraceMode;
+}
+
+export interface ShareLinkResult {
+  state: SharedCalculation | null;
+  error: MessageKey | null;
 }
 
 export interface TaxBracket {
@@ -47,11 +469,163 @@ export interface TaxBracket {
   rate: number;
 }
 
+/**
+ * A named progressive tax schedule that applies from its effective date
+ * (YYYY-MM-DD) until a table with a later effective date takes over
+ */
+export interface TaxTable {
+  id: string;
+  name: string;
+  effectiveFrom: string;
+  brackets: TaxBracket[];
+}
+
 export interface LoanType {
   id: string;
   name: string;
   interestRate: number;
   tenure: number; 
+  currency?: string; // ISO 4217 code; the default currency applies when absent
+  eligibilityLimits?: EligibilityLimits;
+  productRules?: ProductRules;
 }
 
-export type Scenario = 'normal' | 'income_reduce';
\ No newline at end of file
+/**
+ * What a loan product accepts. Amounts apply to the bank finance, periods are in
+ * months; rules left out are not enforced.
+ */
+export interface ProductRules {
+  minAmount?: number;
+  maxAmount?: number;
+  minEquityPercentage?: number;
+  maxTenure?: number;
+  minGracePeriod?: number;
+  maxGracePeriod?: number;
+  processingFeeRate?: number; // % of the bank finance, charged upfront
+  dscrThreshold?: number; // replaces the policy's Good threshold in the eligibility verdict
+}
+
+/**
+ * Highest DTI, FOIR and LTV percentages a loan type accepts; absent limits are not checked
+ */
+export interface EligibilityLimits {
+  maxDTI?: number;
+  maxFOIR?: number;
+  maxLTV?: number;
+}
+
+export type EligibilityRuleId = 'dscr' | 'dti' | 'foir' | 'ltv';
+
+/**
+ * One affordability rule checked against a scenario. DSCR must reach its limit;
+ * the others must not exceed theirs. A rule is missing when its value cannot be
+ * worked out, e.g. LTV without a property value.
+ */
+export interface EligibilityRule {
+  id: EligibilityRuleId;
+  value: number | null;
+  limit: number;
+  status: 'passed' | 'failed' | 'missing';
+}
+
+export interface EligibilityVerdict {
+  eligible: boolean; // every rule passed
+  rules: EligibilityRule[];
+}
+
+export interface LoanTypeCatalog {
+  format: string;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  loanTypes: LoanType[];
+}
+
+export interface LoanTypeChange {
+  before: LoanType;
+  after: LoanType;
+}
+
+export interface LoanTypeCatalogDiff {
+  added: LoanType[];
+  changed: LoanTypeChange[];
+  removed: LoanType[];
+  unchangedCount: number;
+}
+
+export type CatalogImportMode = 'merge' | 'replace';
+
+/**
+ * How amounts in one currency are shown: ISO 4217 code, BCP 47 locale for
+ * symbols and digit grouping, and the number of decimal places
+ */
+export interface CurrencyFormat {
+  code: string;
+  locale: string;
+  decimalPlaces: number;
+}
+
+/**
+ * One unit of `from` is worth `rate` units of `to`; the reverse rate is derived
+ */
+export interface FxRate {
+  from: string;
+  to: string;
+  rate: number;
+}
+
+/**
+ * Currencies the app can display. Loan types pick one by code and fall back to
+ * the default; when a secondary currency is set and the FX table can convert to
+ * it, key figures also show the equivalent amount.
+ */
+export interface CurrencySettings {
+  currencies: CurrencyFormat[];
+  defaultCurrency: string;
+  secondaryCurrency: string | null;
+  fxRates: FxRate[];
+}
+
+/**
+ * Where JSON values such as the loan type catalog are persisted. Reads return
+ * null for a key that has never been written.
+ */
+export interface StorageAdapter {
+  read(key: string): Promise<unknown>;
+  write(key: string, value: unknown): Promise<void>;
+}
+
+export type ServerStorageKind = 'file' | 'sqlite';
+
+/**
+ * A stress-test scenario. Multipliers scale each income line (1 = unchanged),
+ * the rate adjustment is added to the interest rate in percentage points and
+ * the stress expenditure rate adds a share of total income to project expenditure.
+ */
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string;
+  salaryMultiplier: number;
+  rentMultiplier: number;
+  otherMultiplier: number;
+  projectIncomeMultiplier: number;
+  projectIncomeDelayMonths: number;
+  expenditureMultiplier: number;
+  stressExpenditureRate: number;
+  rateAdjustment: number;
+  isBuiltIn?: boolean;
+}
+export type Language = 'en' | 'dv';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * A language the interface can be shown in: its label in that language, the
+ * BCP 47 locale used for numbers and dates, and the writing direction
+ */
+export interface LanguageOption {
+  code: Language;
+  label: string;
+  locale: string;
+  direction: TextDirection;
+}
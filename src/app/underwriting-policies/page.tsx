@@ -0,0 +1,5 @@
+import UnderwritingPolicies from '../components/UnderwritingPolicies';
+
+export default function UnderwritingPoliciesPage() {
+  return <UnderwritingPolicies />;
+}
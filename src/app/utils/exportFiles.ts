@@ -0,0 +1,48 @@
+// src/app/utils/exportFiles.ts
+
+import { ExportSheet } from '../types/emi';
+import { ExportService } from '../services/exportService';
+
+/**
+ * Trigger a browser download for generated content
+ */
+const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Download a JSON document
+ */
+export const downloadJson = (content: string, fileName: string): void => {
+  downloadBlob(new Blob([content], { type: 'application/json' }), fileName);
+};
+
+/**
+ * Download the sheets as a single CSV file
+ */
+export const downloadCsv = (sheets: ExportSheet[], fileStem: string): void => {
+  // The byte order mark lets Excel detect UTF-8
+  const blob = new Blob(['\uFEFF' + ExportService.toCsv(sheets)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `${fileStem}.csv`);
+};
+
+/**
+ * Download the sheets as an .xlsx workbook, one worksheet per sheet
+ */
+export const downloadXlsx = async (sheets: ExportSheet[], fileStem: string): Promise<void> => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const blob = await writeXlsxFile(
+    sheets.map(sheet => ({
+      sheet: sheet.name,
+      data: sheet.rows.map(row => row.map(cell => ({ value: cell })))
+    }))
+  ).toBlob();
+  downloadBlob(blob, `${fileStem}.xlsx`);
+};
@@ -1,21 +1,107 @@
 // src/app/utils/formatters.ts
 
+import { CurrencyFormat, CurrencySettings, GraceMode, UnderwritingPolicy } from '../types/emi';
+import { PolicyService } from '../services/policyService';
+import { CurrencyService } from '../services/currencyService';
+import { LocaleService, Translate } from '../services/localeService';
+import { MessageKey } from '../locales/en';
+
+const GRACE_MODE_KEYS: Record<GraceMode, MessageKey> = {
+  added_to_tenure: 'grace.addedToTenure',
+  inside_tenure: 'grace.insideTenure',
+  capitalized: 'grace.capitalized'
+};
+
+const DSCR_STATUS_KEYS: Record<string, MessageKey> = {
+  'Excellent': 'dscr.excellent',
+  'Good': 'dscr.good',
+  'Needs Improvement': 'dscr.needsImprovement'
+};
+
 /**
  * Format number as currency
  */
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-US', {
+export const formatCurrency = (amount: number, currency: CurrencyFormat): string => {
+  return new Intl.NumberFormat(currency.locale, {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2
+    currency: currency.code,
+    minimumFractionDigits: currency.decimalPlaces,
+    maximumFractionDigits: currency.decimalPlaces
   }).format(amount);
 };
 
 /**
- * Format number with commas
+ * Format the equivalent of an amount in the secondary currency, e.g. "≈ $1,000.00";
+ * null when no secondary currency is set or the FX table has no rate for it
+ */
+export const formatCurrencyEquivalent = (
+  amount: number,
+  currency: CurrencyFormat,
+  settings: CurrencySettings
+): string | null => {
+  const secondary = CurrencyService.getSecondaryCurrency(settings);
+  if (!secondary || secondary.code === currency.code) return null;
+
+  const converted = CurrencyService.convert(amount, currency.code, secondary.code, settings.fxRates);
+  return converted === null ? null : `≈ ${formatCurrency(converted, secondary)}`;
+};
+
+/**
+ * Format number with digit grouping for the locale
+ */
+export const formatNumber = (amount: number, locale: string = 'en-US'): string => {
+  return new Intl.NumberFormat(locale).format(amount);
+};
+
+/**
+ * Format a number in short form for chart axes, e.g. 1.5M
+ */
+export const formatCompactNumber = (amount: number, locale: string = 'en-US'): string => {
+  return new Intl.NumberFormat(locale, { notation: 'compact', maximumFractionDigits: 1 }).format(amount);
+};
+
+/**
+ * Format an ISO calendar date (YYYY-MM-DD) for display. When Intl has no
+ * calendar data for the locale, the given month names are used instead.
  */
-export const formatNumber = (amount: number): string => {
-  return new Intl.NumberFormat('en-US').format(amount);
+export const formatDate = (isoDate: string, locale: string = 'en-US', monthNames?: string[]): string => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  if (monthNames && Intl.DateTimeFormat.supportedLocalesOf(locale).length === 0) {
+    return `${day} ${monthNames[month - 1]} ${year}`;
+  }
+
+  return new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  }).format(new Date(year, month - 1, day));
+};
+
+/**
+ * Format an ISO timestamp as a local date and time for display, with the same
+ * month-name fallback as formatDate
+ */
+export const formatDateTime = (isoTimestamp: string, locale: string = 'en-US', monthNames?: string[]): string => {
+  const date = new Date(isoTimestamp);
+  if (monthNames && Intl.DateTimeFormat.supportedLocalesOf(locale).length === 0) {
+    const minutes = date.getMinutes().toString().padStart(2, '0');
+    return `${date.getDate()} ${monthNames[date.getMonth()]} ${date.getFullYear()} ${date.getHours()}:${minutes}`;
+  }
+
+  return new Intl.DateTimeFormat(locale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  }).format(date);
+};
+
+/**
+ * Describe how the grace period is handled
+ */
+export const formatGraceMode = (graceMode: GraceMode, t: Translate = LocaleService.getTranslator('en')): string => {
+  return t(GRACE_MODE_KEYS[graceMode] || GRACE_MODE_KEYS.added_to_tenure);
 };
 
 /**
@@ -54,13 +140,23 @@ export const calculatePercentage = (value: number, percentage: number): number =
   return (value * percentage) / 100;
 };
 
+/**
+ * Translate a status from getDSCRStatus, which stays in English in reports and API responses
+ */
+export const formatDSCRStatus = (status: string, t: Translate = LocaleService.getTranslator('en')): string => {
+  return DSCR_STATUS_KEYS[status] ? t(DSCR_STATUS_KEYS[status]) : status;
+};
+
 /**
  * Get DSCR status message
  */
-export const getDSCRStatus = (dscr: number): { status: string; color: string } => {
-  if (dscr >= 1.25) {
+export const getDSCRStatus = (
+  dscr: number,
+  policy: Pick<UnderwritingPolicy, 'dscrExcellentThreshold' | 'dscrGoodThreshold'> = PolicyService.getDefaultPolicy()
+): { status: string; color: string } => {
+  if (dscr >= policy.dscrExcellentThreshold) {
     return { status: 'Excellent', color: 'text-green-600' };
-  } else if (dscr >= 1.0) {
+  } else if (dscr >= policy.dscrGoodThreshold) {
     return { status: 'Good', color: 'text-yellow-600' };
   } else {
     return { status: 'Needs Improvement', color: 'text-red-600' };
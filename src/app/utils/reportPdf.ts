@@ -0,0 +1,306 @@
+// src/app/utils/reportPdf.ts
+
+import type { jsPDF } from 'jspdf';
+import { AssessmentReport } from '../types/emi';
+import { EMICalculationService } from '../services/calculationService';
+import { ObligationService } from '../services/obligationService';
+import { EligibilityService } from '../services/eligibilityService';
+import { TranslationContextValue } from '../hooks/useTranslation';
+import { formatCurrency, formatDSCRStatus, formatGraceMode } from './formatters';
+
+const PAGE_MARGIN = 15;
+const LINE_HEIGHT = 5.5;
+
+/**
+ * Small cursor-based writer so sections flow onto new pages
+ */
+class PdfWriter {
+  private y = PAGE_MARGIN;
+
+  constructor(private readonly doc: jsPDF) {}
+
+  private get pageWidth(): number {
+    return this.doc.internal.pageSize.getWidth();
+  }
+
+  private get contentWidth(): number {
+    return this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y + height > this.doc.internal.pageSize.getHeight() - PAGE_MARGIN) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  title(text: string): void {
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(16);
+    this.doc.text(text, PAGE_MARGIN, this.y + 5);
+    this.y += 10;
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(LINE_HEIGHT * 3);
+    this.y += 3;
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(12);
+    this.doc.text(text, PAGE_MARGIN, this.y + 4);
+    this.y += 6;
+    this.doc.setDrawColor(180);
+    this.doc.line(PAGE_MARGIN, this.y, this.pageWidth - PAGE_MARGIN, this.y);
+    this.y += 3;
+  }
+
+  paragraph(text: string): void {
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(9);
+    const lines: string[] = this.doc.splitTextToSize(text, this.contentWidth);
+    for (const line of lines) {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, PAGE_MARGIN, this.y + 4);
+      this.y += LINE_HEIGHT - 1;
+    }
+    this.y += 1;
+  }
+
+  keyValues(rows: [string, string][]): void {
+    this.doc.setFontSize(9);
+    const columnWidth = this.contentWidth / 2;
+
+    for (let index = 0; index < rows.length; index += 2) {
+      this.ensureSpace(LINE_HEIGHT);
+      rows.slice(index, index + 2).forEach(([label, value], column) => {
+        const x = PAGE_MARGIN + column * columnWidth;
+        this.doc.setFont('helvetica', 'normal');
+        this.doc.text(`${label}:`, x, this.y + 4);
+        this.doc.setFont('helvetica', 'bold');
+        this.doc.text(value, x + columnWidth - 4, this.y + 4, { align: 'right' });
+      });
+      this.y += LINE_HEIGHT;
+    }
+  }
+
+  table(headers: string[], rows: string[][]): void {
+    const columnWidth = this.contentWidth / headers.length;
+    const cellX = (column: number) =>
+      column === 0 ? PAGE_MARGIN + 1 : PAGE_MARGIN + (column + 1) * columnWidth - 1;
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      this.ensureSpace(LINE_HEIGHT);
+      if (isHeader) {
+        this.doc.setFillColor(235, 235, 235);
+        this.doc.rect(PAGE_MARGIN, this.y, this.contentWidth, LINE_HEIGHT, 'F');
+      }
+      this.doc.setFont('helvetica', isHeader ? 'bold' : 'normal');
+      cells.forEach((cell, column) => {
+        this.doc.text(cell, cellX(column), this.y + 4, { align: column === 0 ? 'left' : 'right' });
+      });
+      this.y += LINE_HEIGHT;
+    };
+
+    this.doc.setFontSize(8);
+    drawRow(headers, true);
+    rows.forEach(row => drawRow(row, false));
+    this.y += 2;
+  }
+}
+
+/**
+ * Render the assessment report to a PDF and download it in the browser, with labels
+ * and dates in the active language
+ */
+export const downloadReportPdf = async (
+  report: AssessmentReport,
+  { t, formatDate, formatDateTime }: Pick<TranslationContextValue, 't' | 'formatDate' | 'formatDateTime'>
+): Promise<void> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = new PdfWriter(doc);
+  const { formData, currency } = report;
+
+  writer.title(t('report.title'));
+  writer.keyValues([
+    [t('report.reportId'), report.id],
+    [t('report.generated'), formatDateTime(report.generatedAt)],
+    [t('report.loanType'), `${report.loanTypeName} (${currency.code})`],
+    [t('report.policy'), `${report.policyName} (v${report.policyVersion})`]
+  ]);
+
+  writer.heading(t('report.applicantInputs'));
+  writer.keyValues([
+    [t('report.salary'), formatCurrency(parseFloat(formData.salary) || 0, currency)],
+    [t('report.rentIncome'), formatCurrency(parseFloat(formData.rent) || 0, currency)],
+    [t('report.otherIncome'), formatCurrency(parseFloat(formData.other) || 0, currency)],
+    [t('report.projectIncome'), formatCurrency(parseFloat(formData.projectIncome) || 0, currency)],
+    [t('report.interestRate'), `${formData.rate}%`],
+    [t('report.repaymentPeriod'), t('report.months', { months: formData.repaymentPeriod })],
+    [t('report.gracePeriod'), t('report.months', { months: formData.gracePeriod || '0' })]
+  ]);
+  writer.paragraph(`${t('report.graceHandling')}: ${formatGraceMode(report.graceMode, t)}`);
+
+  const coApplicants = formData.coApplicants || [];
+  if (coApplicants.length > 0) {
+    writer.heading(t('report.coApplicants'));
+    writer.table(
+      [t('report.name'), t('report.salary'), t('report.rentIncome'), t('report.otherIncome'), t('report.existingLoans')],
+      coApplicants.map(coApplicant => [
+        coApplicant.name,
+        formatCurrency(parseFloat(coApplicant.salary) || 0, currency),
+        formatCurrency(parseFloat(coApplicant.rent) || 0, currency),
+        formatCurrency(parseFloat(coApplicant.other) || 0, currency),
+        formatCurrency(parseFloat(coApplicant.existingLoans) || 0, currency)
+      ])
+    );
+  }
+
+  const obligationLedger = formData.obligationLedger || ObligationService.createLedger();
+  if (obligationLedger.obligations.length > 0) {
+    const gracePeriod = parseFloat(formData.gracePeriod) || 0;
+    writer.heading(t('report.obligations'));
+    writer.table(
+      [
+        t('report.lender'),
+        t('report.outstandingBalance'),
+        t('report.rate'),
+        t('report.monthsLeft'),
+        t('report.installment'),
+        t('report.treatment')
+      ],
+      obligationLedger.obligations.map(obligation => [
+        obligation.lender,
+        formatCurrency(obligation.outstandingBalance, currency),
+        `${obligation.rate}%`,
+        String(obligation.remainingMonths),
+        formatCurrency(EMICalculationService.getObligationInstallment(obligation), currency),
+        ObligationService.describeTreatment(obligation, obligationLedger, gracePeriod, t)
+      ])
+    );
+  }
+
+  const bankFinanceRows: [string, string][] = [
+    [t('report.totalProjectCost'), formatCurrency(report.totalProjectCost, currency)],
+    [t('report.equity'), `${formatCurrency(report.equityAmount, currency)} (${report.equityPercentage}%)`],
+    [t('report.bankFinanceAmount'), formatCurrency(report.bankFinanceAmount, currency)]
+  ];
+  const takeoverAmount = report.scenarioResults[0]?.afterGrace.takeoverAmount || 0;
+  if (takeoverAmount > 0) {
+    bankFinanceRows.push([t('report.refinancedLoans'), formatCurrency(takeoverAmount, currency)]);
+  }
+  const ltv = report.scenarioResults[0]?.afterGrace.ltv ?? null;
+  if (ltv !== null) {
+    bankFinanceRows.push([
+      t('report.propertyValue'),
+      t('report.propertyValueLtv', { amount: formatCurrency(parseFloat(report.formData.propertyValue) || 0, currency), ltv: ltv.toFixed(1) })
+    ]);
+  }
+  writer.heading(t('report.bankFinanceDetails'));
+  writer.keyValues(bankFinanceRows);
+
+  writer.heading(t('report.scenarioResults'));
+  writer.table(
+    [t('report.scenario'), t('report.netIncome'), t('report.emiInGrace'), t('report.emiAfterGrace'), t('report.dscr'), t('report.verdict')],
+    report.scenarioResults.map(result => [
+      result.scenarioName,
+      formatCurrency(result.afterGrace.netIncome, currency),
+      formatCurrency(result.afterGrace.gracePeriodRepayment || 0, currency),
+      formatCurrency(result.afterGrace.afterGraceRepayment || 0, currency),
+      result.afterGrace.dscr.toFixed(2),
+      formatDSCRStatus(result.dscrStatus, t)
+    ])
+  );
+  for (const result of report.scenarioResults) {
+    writer.paragraph(t('report.scenarioSummary', {
+      scenario: result.scenarioName,
+      income: formatCurrency(result.afterGrace.totalIncome, currency),
+      livingExpenses: formatCurrency(result.afterGrace.totalExpenditure, currency),
+      projectExpenditure: formatCurrency(result.afterGrace.totalProjectExpenditure, currency),
+      incomeTax: formatCurrency(result.afterGrace.incomeTax, currency),
+      totalInterest: formatCurrency(result.afterGrace.totalInterest, currency),
+      endDate: formatDate(result.afterGrace.loanEndDate),
+      dscr: result.afterGrace.worstCaseDSCR.toFixed(2),
+      status: formatDSCRStatus(result.worstCaseDscrStatus, t)
+    }));
+  }
+
+  writer.heading(t('report.eligibility'));
+  writer.table(
+    [t('report.scenario'), t('report.verdict'), t('report.rules')],
+    report.scenarioResults.map(result => [
+      result.scenarioName,
+      result.eligibility.eligible ? t('report.eligible') : t('report.notEligible'),
+      result.eligibility.rules.map(rule => EligibilityService.describeRule(rule, t)).join('; ')
+    ])
+  );
+
+  writer.heading(t('report.costOfBorrowing'));
+  writer.table(
+    [
+      t('report.scenario'),
+      t('report.nominalRate'),
+      t('report.apr'),
+      t('report.emiWithCharges'),
+      t('report.upfrontFees'),
+      t('report.totalCost')
+    ],
+    report.scenarioResults.map(({ scenarioName, borrowingCost }) => [
+      scenarioName,
+      `${borrowingCost.nominalRate}%`,
+      borrowingCost.apr === null ? t('report.notAvailable') : `${borrowingCost.apr.toFixed(2)}%`,
+      formatCurrency(borrowingCost.effectiveEMI, currency),
+      formatCurrency(borrowingCost.upfrontFees, currency),
+      formatCurrency(borrowingCost.totalCostOfBorrowing, currency)
+    ])
+  );
+
+  if (coApplicants.length > 0) {
+    writer.heading(t('report.applicantContributions'));
+    writer.table(
+      [
+        t('report.scenario'),
+        t('report.applicant'),
+        t('report.income'),
+        t('report.incomeTax'),
+        t('report.netContribution'),
+        t('report.share')
+      ],
+      report.scenarioResults.flatMap(result => result.afterGrace.applicants.map(applicant => [
+        result.scenarioName,
+        applicant.name,
+        formatCurrency(applicant.totalIncome, currency),
+        formatCurrency(applicant.incomeTax, currency),
+        formatCurrency(applicant.netContribution, currency),
+        `${applicant.incomeShare.toFixed(1)}%`
+      ]))
+    );
+  }
+
+  writer.heading(t('report.taxBracketsFor', { name: report.taxTable.name }));
+  writer.paragraph(t('report.effectiveFrom', { date: formatDate(report.taxTable.effectiveFrom) }));
+  writer.table(
+    [t('report.annualIncomeFrom'), t('report.upTo'), t('report.rate')],
+    report.taxTable.brackets.map(bracket => [
+      formatCurrency(bracket.min, currency),
+      bracket.max === Infinity ? t('report.andAbove') : formatCurrency(bracket.max, currency),
+      `${bracket.rate}%`
+    ])
+  );
+
+  writer.heading(t('report.amortizationSummary'));
+  writer.keyValues([
+    [t('report.totalPayment'), formatCurrency(report.amortization.totalPayment, currency)],
+    [t('report.totalInterest'), formatCurrency(report.amortization.totalInterest, currency)]
+  ]);
+  writer.table(
+    [t('report.year'), t('report.payment'), t('report.interest'), t('report.principal'), t('report.closingBalance')],
+    report.amortization.yearlySummaries.map(summary => [
+      t('report.yearLabel', { year: summary.year }),
+      formatCurrency(summary.totalPayment, currency),
+      formatCurrency(summary.totalInterest, currency),
+      formatCurrency(summary.totalPrincipal, currency),
+      formatCurrency(summary.closingBalance, currency)
+    ])
+  );
+
+  await doc.save(`${report.id}.pdf`, { returnPromise: true });
+};